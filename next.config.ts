@@ -6,6 +6,8 @@ const nextConfig: NextConfig = {
     deviceSizes: [320, 420, 640, 750, 828, 1080, 1200, 1920, 2048, 2560, 3840],
     imageSizes: [16, 32, 48, 64, 96, 128, 256, 384],
   },
+  // Native SQLite bindings must stay out of the server bundle
+  serverExternalPackages: ['better-sqlite3'],
   experimental: {
     optimizePackageImports: ['lucide-react'],
   },
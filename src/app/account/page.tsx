@@ -0,0 +1,41 @@
+import type { Metadata } from 'next'
+import { redirect } from 'next/navigation'
+import { Header, PageHeader } from '@/components/layout/Header'
+import { Footer } from '@/components/layout/Footer'
+import { AccountView } from '@/components/views/account-view'
+import { getSessionUser } from '@/lib/auth/session'
+import { getDisplayName } from '@/lib/auth/users'
+
+export const metadata: Metadata = {
+  title: 'My Account',
+  robots: { index: false },
+}
+
+/**
+ * Account page for the signed-in user
+ */
+export default async function AccountPage() {
+  const user = await getSessionUser()
+  if (!user) {
+    redirect('/sign-in?next=/account')
+  }
+
+  return (
+    <>
+      <Header />
+
+      <PageHeader
+        title="My Account"
+        description={`Signed in as ${getDisplayName(user)}.`}
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'My Account' },
+        ]}
+      />
+
+      <AccountView user={user} />
+
+      <Footer />
+    </>
+  )
+}
@@ -0,0 +1,50 @@
+import { notFound } from 'next/navigation'
+import { PageHeader } from '@/components/layout/Header'
+import { AdminContentForm } from '@/components/views/admin-content-form'
+import { localAdmin, localMedia } from '@/lib/api/local-source'
+import { getAdminEntity, isAdminEntity } from '@/lib/admin/content'
+import { requireContentPage } from '@/lib/admin/server'
+
+interface AdminEditRecordPageProps {
+  params: Promise<{ entity: string; id: string }>
+}
+
+/**
+ * Back office form for an existing record
+ */
+export default async function AdminEditRecordPage({ params }: AdminEditRecordPageProps) {
+  const { entity, id } = await params
+  if (!isAdminEntity(entity)) {
+    notFound()
+  }
+
+  await requireContentPage(entity)
+
+  const result = await localAdmin.get(entity, id)
+  if (result.status === 404) {
+    notFound()
+  }
+
+  if (!result.data) {
+    throw new Error(result.error || 'Failed to load record')
+  }
+
+  const media = await localMedia.list()
+  const { label } = getAdminEntity(entity)
+  const title = String(result.data.values.name ?? result.data.values.title ?? id)
+
+  return (
+    <>
+      <PageHeader
+        title={title}
+        breadcrumbs={[
+          { label: 'Back Office', href: '/admin' },
+          { label, href: `/admin/${entity}` },
+          { label: title },
+        ]}
+      />
+
+      <AdminContentForm entity={entity} record={result.data} media={media.data ?? []} />
+    </>
+  )
+}
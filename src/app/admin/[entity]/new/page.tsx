@@ -0,0 +1,40 @@
+import { notFound } from 'next/navigation'
+import { PageHeader } from '@/components/layout/Header'
+import { AdminContentForm } from '@/components/views/admin-content-form'
+import { localMedia } from '@/lib/api/local-source'
+import { getAdminEntity, isAdminEntity } from '@/lib/admin/content'
+import { requireContentPage } from '@/lib/admin/server'
+
+interface AdminNewRecordPageProps {
+  params: Promise<{ entity: string }>
+}
+
+/**
+ * Back office form for a new record, saved as a draft by default
+ */
+export default async function AdminNewRecordPage({ params }: AdminNewRecordPageProps) {
+  const { entity } = await params
+  if (!isAdminEntity(entity)) {
+    notFound()
+  }
+
+  await requireContentPage(entity)
+
+  const media = await localMedia.list()
+  const { label, singular } = getAdminEntity(entity)
+
+  return (
+    <>
+      <PageHeader
+        title={`New ${singular}`}
+        breadcrumbs={[
+          { label: 'Back Office', href: '/admin' },
+          { label, href: `/admin/${entity}` },
+          { label: 'New' },
+        ]}
+      />
+
+      <AdminContentForm entity={entity} media={media.data ?? []} />
+    </>
+  )
+}
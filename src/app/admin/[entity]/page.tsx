@@ -0,0 +1,44 @@
+import { notFound } from 'next/navigation'
+import { PageHeader } from '@/components/layout/Header'
+import { AdminContentList } from '@/components/views/admin-content-list'
+import { localAdmin } from '@/lib/api/local-source'
+import { getAdminEntity, isAdminEntity } from '@/lib/admin/content'
+import { requireContentPage } from '@/lib/admin/server'
+
+interface AdminCollectionPageProps {
+  params: Promise<{ entity: string }>
+}
+
+/**
+ * Back office list for one collection, in display order
+ */
+export default async function AdminCollectionPage({ params }: AdminCollectionPageProps) {
+  const { entity } = await params
+  if (!isAdminEntity(entity)) {
+    notFound()
+  }
+
+  await requireContentPage(entity)
+
+  const result = await localAdmin.list(entity)
+  if (!result.data) {
+    throw new Error(result.error || 'Failed to load records')
+  }
+
+  const { label } = getAdminEntity(entity)
+
+  return (
+    <>
+      <PageHeader
+        title={label}
+        description="Changes to order, status and archiving reach the public site as soon as they're saved."
+        breadcrumbs={[
+          { label: 'Back Office', href: '/admin' },
+          { label },
+        ]}
+      />
+
+      <AdminContentList entity={entity} items={result.data} />
+    </>
+  )
+}
@@ -0,0 +1,36 @@
+import { PageHeader } from '@/components/layout/Header'
+import { AdminBookingsView } from '@/components/views/admin-bookings-view'
+import { localAdmin, localBookings } from '@/lib/api/local-source'
+import { requireStaffPage } from '@/lib/admin/server'
+
+/**
+ * Back office stud bookings, newest first; staff only
+ */
+export default async function AdminBookingsPage() {
+  await requireStaffPage()
+
+  const [bookings, stallions] = await Promise.all([localBookings.list(), localAdmin.list('stallions')])
+  if (!bookings.data) {
+    throw new Error(bookings.error || 'Failed to load bookings')
+  }
+
+  const stallionNames = Object.fromEntries((stallions.data ?? []).map((stallion) => [stallion.id, stallion.title]))
+
+  return (
+    <>
+      <PageHeader
+        title="Stud Bookings"
+        description="Confirming a request takes one of the stallion's places for that season."
+        breadcrumbs={[
+          { label: 'Back Office', href: '/admin' },
+          { label: 'Stud Bookings' },
+        ]}
+      />
+
+      <AdminBookingsView
+        bookings={[...bookings.data].sort((a, b) => b.createdAt.localeCompare(a.createdAt))}
+        stallionNames={stallionNames}
+      />
+    </>
+  )
+}
@@ -0,0 +1,24 @@
+import type { Metadata } from 'next'
+import { Header } from '@/components/layout/Header'
+import { Footer } from '@/components/layout/Footer'
+
+export const metadata: Metadata = {
+  title: 'Back Office',
+  robots: { index: false },
+}
+
+// Every screen depends on the session and shows unpublished records
+export const dynamic = 'force-dynamic'
+
+/**
+ * Back office layout
+ */
+export default function AdminLayout({ children }: Readonly<{ children: React.ReactNode }>) {
+  return (
+    <>
+      <Header />
+      {children}
+      <Footer />
+    </>
+  )
+}
@@ -0,0 +1,31 @@
+import { PageHeader } from '@/components/layout/Header'
+import { AdminLeadsView } from '@/components/views/admin-leads-view'
+import { localInquiries } from '@/lib/api/local-source'
+import { requireStaffPage } from '@/lib/admin/server'
+
+/**
+ * Back office inquiry pipeline; staff only
+ */
+export default async function AdminLeadsPage() {
+  await requireStaffPage()
+
+  const result = await localInquiries.list()
+  if (!result.data) {
+    throw new Error(result.error || 'Failed to load inquiries')
+  }
+
+  return (
+    <>
+      <PageHeader
+        title="Leads"
+        description="Inquiries from the site, from first contact to closed."
+        breadcrumbs={[
+          { label: 'Back Office', href: '/admin' },
+          { label: 'Leads' },
+        ]}
+      />
+
+      <AdminLeadsView leads={result.data} />
+    </>
+  )
+}
@@ -0,0 +1,31 @@
+import { PageHeader } from '@/components/layout/Header'
+import { AdminMediaView } from '@/components/views/admin-media-view'
+import { localMedia, localVideos } from '@/lib/api/local-source'
+import { requireContentPage } from '@/lib/admin/server'
+
+/**
+ * Back office media library, shared by every collection
+ */
+export default async function AdminMediaPage() {
+  await requireContentPage()
+
+  const [result, videos] = await Promise.all([localMedia.list(), localVideos.list()])
+  if (!result.data || !videos.data) {
+    throw new Error(result.error || videos.error || 'Failed to load media')
+  }
+
+  return (
+    <>
+      <PageHeader
+        title="Media Library"
+        description="Upload photos once and choose them for horses, products and articles, and add videos for the home page."
+        breadcrumbs={[
+          { label: 'Back Office', href: '/admin' },
+          { label: 'Media Library' },
+        ]}
+      />
+
+      <AdminMediaView assets={result.data} videos={videos.data} />
+    </>
+  )
+}
@@ -0,0 +1,104 @@
+import Link from 'next/link'
+import { PageHeader } from '@/components/layout/Header'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { Heading, Caption, Text } from '@/components/ui/Typography'
+import { localAdmin, localBookings, localInquiries, localMedia } from '@/lib/api/local-source'
+import { ADMIN_ENTITIES, CONTENT_STATUSES, canManageContent } from '@/lib/admin/content'
+import { requireContentPage } from '@/lib/admin/server'
+import { isAdmin, isStaff } from '@/lib/auth/users'
+
+/**
+ * Back office dashboard
+ *
+ * Record counts per status for each collection the user may edit, linking
+ * to each collection, the media library, leads and stud bookings for staff,
+ * and account management for admins.
+ */
+export default async function AdminPage() {
+  const user = await requireContentPage()
+
+  const entities = ADMIN_ENTITIES.filter(({ value }) => canManageContent(user, value))
+  const lists = await Promise.all(entities.map(({ value }) => localAdmin.list(value)))
+  const media = await localMedia.list()
+  const leads = isStaff(user) ? await localInquiries.list({ status: 'new' }) : null
+  const bookings = isStaff(user) ? await localBookings.list({ status: 'requested' }) : null
+
+  return (
+    <>
+      <PageHeader
+        title="Back Office"
+        description="Manage horses, stallions, products and articles."
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'Back Office' },
+        ]}
+      />
+
+      <section className="px-6 py-16 bg-midnight">
+        <div className="max-w-5xl mx-auto grid sm:grid-cols-2 gap-6">
+          {entities.map((entity, index) => {
+            const items = lists[index].data ?? []
+
+            return (
+              <Link key={entity.value} href={`/admin/${entity.value}`} className="group">
+                <GlassPanel className="p-6 h-full transition-colors group-hover:border-gold/40">
+                  <Heading level={4} className="mb-3 text-gold">{entity.label}</Heading>
+                  <dl className="flex gap-6">
+                    {CONTENT_STATUSES.map((status) => (
+                      <div key={status.value}>
+                        <dt><Caption className="text-gold/60">{status.label}</Caption></dt>
+                        <dd className="text-2xl font-semibold text-white">
+                          {items.filter((item) => item.status === status.value).length}
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                </GlassPanel>
+              </Link>
+            )
+          })}
+
+          <Link href="/admin/media" className="group">
+            <GlassPanel className="p-6 h-full transition-colors group-hover:border-gold/40">
+              <Heading level={4} className="mb-3 text-gold">Media Library</Heading>
+              <Text size="sm">
+                {media.data?.length ?? 0} images, resized and ready for listings, products and articles.
+              </Text>
+            </GlassPanel>
+          </Link>
+
+          {leads && (
+            <Link href="/admin/leads" className="group">
+              <GlassPanel className="p-6 h-full transition-colors group-hover:border-gold/40">
+                <Heading level={4} className="mb-3 text-gold">Leads</Heading>
+                <Text size="sm">
+                  {leads.data?.length ?? 0} new inquiries waiting for a reply.
+                </Text>
+              </GlassPanel>
+            </Link>
+          )}
+
+          {bookings && (
+            <Link href="/admin/bookings" className="group">
+              <GlassPanel className="p-6 h-full transition-colors group-hover:border-gold/40">
+                <Heading level={4} className="mb-3 text-gold">Stud Bookings</Heading>
+                <Text size="sm">
+                  {bookings.data?.length ?? 0} booking requests waiting to be confirmed.
+                </Text>
+              </GlassPanel>
+            </Link>
+          )}
+
+          {isAdmin(user) && (
+            <Link href="/admin/users" className="group">
+              <GlassPanel className="p-6 h-full transition-colors group-hover:border-gold/40">
+                <Heading level={4} className="mb-3 text-gold">Accounts</Heading>
+                <Text size="sm">Choose what each client and team member can do.</Text>
+              </GlassPanel>
+            </Link>
+          )}
+        </div>
+      </section>
+    </>
+  )
+}
@@ -0,0 +1,31 @@
+import { PageHeader } from '@/components/layout/Header'
+import { AdminUsersView } from '@/components/views/admin-users-view'
+import { localUsers } from '@/lib/api/local-source'
+import { requireAdminPage } from '@/lib/admin/server'
+
+/**
+ * Back office list of accounts and their roles; admins only
+ */
+export default async function AdminUsersPage() {
+  const user = await requireAdminPage()
+
+  const result = await localUsers.list()
+  if (!result.data) {
+    throw new Error(result.error || 'Failed to load accounts')
+  }
+
+  return (
+    <>
+      <PageHeader
+        title="Accounts"
+        description="Role changes apply from the person's next page load."
+        breadcrumbs={[
+          { label: 'Back Office', href: '/admin' },
+          { label: 'Accounts' },
+        ]}
+      />
+
+      <AdminUsersView users={result.data} currentUserId={user.id} />
+    </>
+  )
+}
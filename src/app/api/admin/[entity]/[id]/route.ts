@@ -0,0 +1,85 @@
+import type { NextRequest } from 'next/server'
+import { localAdmin } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+import { isAdminEntity } from '@/lib/admin/content'
+import { checkContentAccess, revalidateContent } from '@/lib/admin/server'
+
+/**
+ * GET /api/admin/:entity/:id
+ *
+ * A record's back office form values, whatever its status. Collection
+ * editors only.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ entity: string; id: string }> }
+) {
+  const { entity, id } = await params
+  if (!isAdminEntity(entity)) {
+    return errorResponse(404, 'Unknown collection')
+  }
+
+  const denied = await checkContentAccess(entity)
+  if (denied) return denied
+
+  return jsonResponse(await localAdmin.get(entity, id))
+}
+
+/**
+ * PUT /api/admin/:entity/:id
+ *
+ * Saves the back office form and revalidates the public pages. Collection
+ * editors only.
+ * Responds 422 with field `errors` on invalid input.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ entity: string; id: string }> }
+) {
+  const { entity, id } = await params
+  if (!isAdminEntity(entity)) {
+    return errorResponse(404, 'Unknown collection')
+  }
+
+  const denied = await checkContentAccess(entity)
+  if (denied) return denied
+
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  const result = await localAdmin.update(entity, id, body)
+  if (result.data) {
+    revalidateContent(entity, id)
+  }
+
+  return jsonResponse(result)
+}
+
+/**
+ * DELETE /api/admin/:entity/:id
+ *
+ * Archives the record: it disappears from the public site but stays in the
+ * back office and can be restored by publishing it again. Collection
+ * editors only.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ entity: string; id: string }> }
+) {
+  const { entity, id } = await params
+  if (!isAdminEntity(entity)) {
+    return errorResponse(404, 'Unknown collection')
+  }
+
+  const denied = await checkContentAccess(entity)
+  if (denied) return denied
+
+  const result = await localAdmin.archive(entity, id)
+  if (result.data) {
+    revalidateContent(entity, id)
+  }
+
+  return jsonResponse(result)
+}
@@ -0,0 +1,36 @@
+import type { NextRequest } from 'next/server'
+import { localAdmin } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+import { isAdminEntity } from '@/lib/admin/content'
+import { checkContentAccess, revalidateContent } from '@/lib/admin/server'
+
+/**
+ * PUT /api/admin/:entity/order
+ *
+ * Sets the display order from `{ ids }`, which must list every record in the
+ * collection once, and revalidates the public pages. Collection editors only.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ entity: string }> }
+) {
+  const { entity } = await params
+  if (!isAdminEntity(entity)) {
+    return errorResponse(404, 'Unknown collection')
+  }
+
+  const denied = await checkContentAccess(entity)
+  if (denied) return denied
+
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  const result = await localAdmin.reorder(entity, body)
+  if (result.data) {
+    revalidateContent(entity)
+  }
+
+  return jsonResponse(result)
+}
@@ -0,0 +1,57 @@
+import type { NextRequest } from 'next/server'
+import { localAdmin } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+import { isAdminEntity } from '@/lib/admin/content'
+import { checkContentAccess, revalidateContent } from '@/lib/admin/server'
+
+/**
+ * GET /api/admin/:entity
+ *
+ * Every horse, stallion, product or article in display order, including
+ * drafts and archived records. Collection editors only.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ entity: string }> }
+) {
+  const { entity } = await params
+  if (!isAdminEntity(entity)) {
+    return errorResponse(404, 'Unknown collection')
+  }
+
+  const denied = await checkContentAccess(entity)
+  if (denied) return denied
+
+  return jsonResponse(await localAdmin.list(entity))
+}
+
+/**
+ * POST /api/admin/:entity
+ *
+ * Adds a record from the back office form and revalidates the public pages.
+ * Collection editors only. Responds 422 with field `errors` on invalid input.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ entity: string }> }
+) {
+  const { entity } = await params
+  if (!isAdminEntity(entity)) {
+    return errorResponse(404, 'Unknown collection')
+  }
+
+  const denied = await checkContentAccess(entity)
+  if (denied) return denied
+
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  const result = await localAdmin.create(entity, body)
+  if (result.data) {
+    revalidateContent(entity, result.data.id)
+  }
+
+  return jsonResponse(result)
+}
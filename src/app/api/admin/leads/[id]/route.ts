@@ -0,0 +1,28 @@
+import type { NextRequest } from 'next/server'
+import { localInquiries } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+import { getSessionUser } from '@/lib/auth/session'
+import { isStaff } from '@/lib/auth/users'
+
+/**
+ * PATCH /api/admin/leads/:id
+ *
+ * Moves a lead through the pipeline (`{ status }`). Staff only. Responds 422
+ * with field `errors` for an unknown status.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getSessionUser()
+  if (!user) return errorResponse(401, 'Sign in to manage leads')
+  if (!isStaff(user)) return errorResponse(403, 'Only staff can manage leads')
+
+  const { id } = await params
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  return jsonResponse(await localInquiries.updateStatus(id, body))
+}
@@ -0,0 +1,43 @@
+import type { NextRequest } from 'next/server'
+import { localMedia } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+import { checkContentAccess } from '@/lib/admin/server'
+
+/**
+ * PUT /api/admin/media/:id
+ *
+ * Edits an image's alt text. Content editors only. Responds 422 with field
+ * `errors` on invalid input.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await checkContentAccess()
+  if (denied) return denied
+
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  const { id } = await params
+  return jsonResponse(await localMedia.update(id, body))
+}
+
+/**
+ * DELETE /api/admin/media/:id
+ *
+ * Deletes an image and its files. Content editors only. Responds 409 while
+ * a horse, product or article still shows it.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await checkContentAccess()
+  if (denied) return denied
+
+  const { id } = await params
+  return jsonResponse(await localMedia.remove(id))
+}
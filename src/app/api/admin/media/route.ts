@@ -0,0 +1,47 @@
+import type { NextRequest } from 'next/server'
+import { localMedia } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse } from '@/lib/api/route-helpers'
+import { checkContentAccess } from '@/lib/admin/server'
+import { getSessionUser } from '@/lib/auth/session'
+import { MAX_UPLOAD_BYTES, formatFileSize } from '@/lib/media/media'
+
+/**
+ * Room for the multipart boundaries and alt text around the file itself
+ */
+const FORM_OVERHEAD_BYTES = 64 * 1024
+
+/**
+ * GET /api/admin/media
+ *
+ * Every uploaded image, newest first. Content editors only.
+ */
+export async function GET() {
+  const denied = await checkContentAccess()
+  if (denied) return denied
+
+  return jsonResponse(await localMedia.list())
+}
+
+/**
+ * POST /api/admin/media
+ *
+ * Uploads an image as multipart form data (`file`, optional `alt`) and
+ * generates its variants and placeholder. Content editors only. Responds 422
+ * with field `errors` when the file isn't a supported image.
+ */
+export async function POST(request: NextRequest) {
+  const denied = await checkContentAccess()
+  if (denied) return denied
+
+  if (Number(request.headers.get('content-length')) > MAX_UPLOAD_BYTES + FORM_OVERHEAD_BYTES) {
+    return errorResponse(413, `Images must be ${formatFileSize(MAX_UPLOAD_BYTES)} or smaller`)
+  }
+
+  const form = await request.formData().catch(() => null)
+  if (!form) {
+    return errorResponse(400, 'Request body must be multipart form data')
+  }
+
+  const user = await getSessionUser()
+  return jsonResponse(await localMedia.upload(form.get('file'), form.get('alt'), user?.id))
+}
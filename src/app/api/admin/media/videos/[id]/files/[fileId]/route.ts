@@ -0,0 +1,26 @@
+import type { NextRequest } from 'next/server'
+import { localVideos } from '@/lib/api/local-source'
+import { jsonResponse } from '@/lib/api/route-helpers'
+import { checkContentAccess, revalidateVideo } from '@/lib/admin/server'
+
+/**
+ * DELETE /api/admin/media/videos/:id/files/:fileId
+ *
+ * Removes one rendition or track and its file, returning the updated video.
+ * Content editors only.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; fileId: string }> }
+) {
+  const denied = await checkContentAccess()
+  if (denied) return denied
+
+  const { id, fileId } = await params
+  const result = await localVideos.removeFile(id, fileId)
+  if (result.data) {
+    revalidateVideo(id)
+  }
+
+  return jsonResponse(result)
+}
@@ -0,0 +1,48 @@
+import type { NextRequest } from 'next/server'
+import { localVideos } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse } from '@/lib/api/route-helpers'
+import { checkContentAccess, revalidateVideo } from '@/lib/admin/server'
+import { formatFileSize } from '@/lib/media/media'
+import { MAX_VIDEO_BYTES } from '@/lib/media/video'
+
+/**
+ * Room for the multipart boundaries and fields around the file itself
+ */
+const FORM_OVERHEAD_BYTES = 64 * 1024
+
+/**
+ * POST /api/admin/media/videos/:id/renditions
+ *
+ * Uploads a pre-encoded rendition as multipart form data (`file`, `codec`,
+ * `width`, `height`). Files are stored as is. Content editors only. Responds
+ * 422 with field `errors` when the file doesn't match its codec's container
+ * and 409 when the video already has that size and codec.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await checkContentAccess()
+  if (denied) return denied
+
+  if (Number(request.headers.get('content-length')) > MAX_VIDEO_BYTES + FORM_OVERHEAD_BYTES) {
+    return errorResponse(413, `Videos must be ${formatFileSize(MAX_VIDEO_BYTES)} or smaller`)
+  }
+
+  const form = await request.formData().catch(() => null)
+  if (!form) {
+    return errorResponse(400, 'Request body must be multipart form data')
+  }
+
+  const { id } = await params
+  const result = await localVideos.addRendition(id, form.get('file'), {
+    codec: form.get('codec'),
+    width: form.get('width'),
+    height: form.get('height'),
+  })
+  if (result.data) {
+    revalidateVideo(id)
+  }
+
+  return jsonResponse(result)
+}
@@ -0,0 +1,53 @@
+import type { NextRequest } from 'next/server'
+import { localVideos } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+import { checkContentAccess, revalidateVideo } from '@/lib/admin/server'
+
+/**
+ * PUT /api/admin/media/videos/:id
+ *
+ * Changes a video's title and poster. Content editors only. Responds 422
+ * with field `errors` on invalid input.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await checkContentAccess()
+  if (denied) return denied
+
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  const { id } = await params
+  const result = await localVideos.update(id, body)
+  if (result.data) {
+    revalidateVideo(id)
+  }
+
+  return jsonResponse(result)
+}
+
+/**
+ * DELETE /api/admin/media/videos/:id
+ *
+ * Deletes a video with its renditions and tracks; the poster image stays in
+ * the library. Content editors only.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await checkContentAccess()
+  if (denied) return denied
+
+  const { id } = await params
+  const result = await localVideos.remove(id)
+  if (result.data) {
+    revalidateVideo(id)
+  }
+
+  return jsonResponse(result)
+}
@@ -0,0 +1,37 @@
+import type { NextRequest } from 'next/server'
+import { localVideos } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse } from '@/lib/api/route-helpers'
+import { checkContentAccess, revalidateVideo } from '@/lib/admin/server'
+
+/**
+ * POST /api/admin/media/videos/:id/tracks
+ *
+ * Uploads a WebVTT caption, subtitle or chapter track as multipart form data
+ * (`file`, `kind`, `label`, `srcLang`). Content editors only. Responds 422
+ * with field `errors` on invalid input and 409 when the video already has
+ * that kind of track in that language.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await checkContentAccess()
+  if (denied) return denied
+
+  const form = await request.formData().catch(() => null)
+  if (!form) {
+    return errorResponse(400, 'Request body must be multipart form data')
+  }
+
+  const { id } = await params
+  const result = await localVideos.addTrack(id, form.get('file'), {
+    kind: form.get('kind'),
+    label: form.get('label'),
+    srcLang: form.get('srcLang'),
+  })
+  if (result.data) {
+    revalidateVideo(id)
+  }
+
+  return jsonResponse(result)
+}
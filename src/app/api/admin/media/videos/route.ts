@@ -0,0 +1,37 @@
+import type { NextRequest } from 'next/server'
+import { localVideos } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+import { checkContentAccess } from '@/lib/admin/server'
+import { getSessionUser } from '@/lib/auth/session'
+
+/**
+ * GET /api/admin/media/videos
+ *
+ * Every library video, newest first. Content editors only.
+ */
+export async function GET() {
+  const denied = await checkContentAccess()
+  if (denied) return denied
+
+  return jsonResponse(await localVideos.list())
+}
+
+/**
+ * POST /api/admin/media/videos
+ *
+ * Adds a video from `{ title, posterId? }`; upload its renditions and tracks
+ * next. Content editors only. Responds 422 with field `errors` on invalid
+ * input.
+ */
+export async function POST(request: NextRequest) {
+  const denied = await checkContentAccess()
+  if (denied) return denied
+
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  const user = await getSessionUser()
+  return jsonResponse(await localVideos.create(body, user?.id))
+}
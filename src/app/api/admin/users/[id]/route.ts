@@ -0,0 +1,29 @@
+import type { NextRequest } from 'next/server'
+import { localUsers } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+import { getSessionUser } from '@/lib/auth/session'
+import { isAdmin } from '@/lib/auth/users'
+
+/**
+ * PUT /api/admin/users/:id
+ *
+ * Changes an account's role (`{ role }`). Admins only, and not their own.
+ * Responds 422 with field `errors` for an unknown role and 409 for the
+ * admin's own account.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getSessionUser()
+  if (!user) return errorResponse(401, 'Sign in to manage accounts')
+  if (!isAdmin(user)) return errorResponse(403, 'Only admins can manage accounts')
+
+  const { id } = await params
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  return jsonResponse(await localUsers.setRole(id, body, user.id))
+}
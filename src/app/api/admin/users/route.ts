@@ -0,0 +1,17 @@
+import { localUsers } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse } from '@/lib/api/route-helpers'
+import { getSessionUser } from '@/lib/auth/session'
+import { isAdmin } from '@/lib/auth/users'
+
+/**
+ * GET /api/admin/users
+ *
+ * Every account with its role. Admins only.
+ */
+export async function GET() {
+  const user = await getSessionUser()
+  if (!user) return errorResponse(401, 'Sign in to manage accounts')
+  if (!isAdmin(user)) return errorResponse(403, 'Only admins can manage accounts')
+
+  return jsonResponse(await localUsers.list())
+}
@@ -0,0 +1,14 @@
+import type { NextRequest } from 'next/server'
+import { localArticles } from '@/lib/api/local-source'
+import { jsonResponse } from '@/lib/api/route-helpers'
+
+/**
+ * GET /api/articles/:id
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  return jsonResponse(await localArticles.getById(id))
+}
@@ -0,0 +1,33 @@
+import type { NextRequest } from 'next/server'
+import type { ArticleSortBy } from '@/lib/api/types'
+import { localArticles } from '@/lib/api/local-source'
+import {
+  jsonResponse,
+  parseBoolean,
+  parseNumber,
+  parsePageParams,
+  parseSortParams,
+  parseString,
+} from '@/lib/api/route-helpers'
+
+const SORT_KEYS: ArticleSortBy[] = ['publishDate', 'title']
+
+/**
+ * GET /api/articles
+ *
+ * Lists editorial articles. Accepts the same filters, sorting and
+ * pagination params as `editorialAPI.getAll`.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+
+  const result = await localArticles.list({
+    category: parseString(searchParams, 'category'),
+    featured: parseBoolean(searchParams, 'featured'),
+    limit: parseNumber(searchParams, 'limit'),
+    ...parseSortParams(searchParams, SORT_KEYS),
+    ...parsePageParams(searchParams),
+  })
+
+  return jsonResponse(result)
+}
@@ -0,0 +1,31 @@
+import type { NextRequest } from 'next/server'
+import { localAuth } from '@/lib/api/local-source'
+import { createRateLimiter } from '@/lib/api/rate-limit'
+import { errorResponse, getClientIp, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+
+// Five links per address every ten minutes
+const limiter = createRateLimiter({ limit: 5, windowMs: 10 * 60 * 1000 })
+
+/**
+ * POST /api/auth/magic-link
+ *
+ * Emails a single-use sign-in link (`{ email, next? }`). Answers the same
+ * for new and existing addresses; the account is created on first sign-in.
+ * Responds 422 with field `errors` on invalid input and 429 when an address
+ * asks too often.
+ */
+export async function POST(request: NextRequest) {
+  const { allowed, retryAfter } = limiter.check(getClientIp(request))
+  if (!allowed) {
+    const response = errorResponse(429, 'Too many sign-in requests. Please try again later.')
+    response.headers.set('Retry-After', String(retryAfter))
+    return response
+  }
+
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  return jsonResponse(await localAuth.requestMagicLink(body))
+}
@@ -0,0 +1,21 @@
+import type { NextRequest } from 'next/server'
+import { localAuth } from '@/lib/api/local-source'
+import { errorResponse, readJsonBody } from '@/lib/api/route-helpers'
+import { signInResponse } from '@/lib/auth/session'
+
+/**
+ * POST /api/auth/magic-link/verify
+ *
+ * Signs in with the token from a magic link (`{ token }`) and sets the
+ * session cookie. A POST rather than the link itself, so mail scanners that
+ * follow links can't use up the token. Responds 410 when the link has
+ * expired or was already used.
+ */
+export async function POST(request: NextRequest) {
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  return signInResponse(await localAuth.verifyMagicLink(body))
+}
@@ -0,0 +1,25 @@
+import type { NextRequest } from 'next/server'
+import { localAuth } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+import { getSessionUser } from '@/lib/auth/session'
+
+/**
+ * PUT /api/auth/password
+ *
+ * Sets a password (`{ password }`) or changes it (`{ currentPassword,
+ * password }`) for the signed-in user. Responds 422 with field `errors` on
+ * invalid input, including a wrong current password.
+ */
+export async function PUT(request: NextRequest) {
+  const user = await getSessionUser()
+  if (!user) {
+    return errorResponse(401, 'Sign in to change your password')
+  }
+
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  return jsonResponse(await localAuth.changePassword(user.id, body))
+}
@@ -0,0 +1,13 @@
+import { jsonResponse } from '@/lib/api/route-helpers'
+import { getSessionUser } from '@/lib/auth/session'
+
+/**
+ * GET /api/auth/session
+ *
+ * The signed-in user, or `data: null` for anonymous visitors.
+ */
+export async function GET() {
+  return jsonResponse({ data: await getSessionUser(), status: 200 }, {
+    headers: { 'Cache-Control': 'no-store' },
+  })
+}
@@ -0,0 +1,31 @@
+import type { NextRequest } from 'next/server'
+import { localAuth } from '@/lib/api/local-source'
+import { createRateLimiter } from '@/lib/api/rate-limit'
+import { errorResponse, getClientIp, readJsonBody } from '@/lib/api/route-helpers'
+import { signInResponse } from '@/lib/auth/session'
+
+// Ten attempts per address every ten minutes
+const limiter = createRateLimiter({ limit: 10, windowMs: 10 * 60 * 1000 })
+
+/**
+ * POST /api/auth/sign-in
+ *
+ * Signs in with `{ email, password, next? }` and sets the session cookie.
+ * Responds 401 when either is wrong, 422 with field `errors` on invalid
+ * input and 429 when an address tries too often.
+ */
+export async function POST(request: NextRequest) {
+  const { allowed, retryAfter } = limiter.check(getClientIp(request))
+  if (!allowed) {
+    const response = errorResponse(429, 'Too many sign-in attempts. Please try again later.')
+    response.headers.set('Retry-After', String(retryAfter))
+    return response
+  }
+
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  return signInResponse(await localAuth.signInWithPassword(body))
+}
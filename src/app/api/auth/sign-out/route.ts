@@ -0,0 +1,18 @@
+import { localAuth } from '@/lib/api/local-source'
+import { jsonResponse } from '@/lib/api/route-helpers'
+import { clearSessionCookie, getSessionClaims } from '@/lib/auth/session'
+
+/**
+ * POST /api/auth/sign-out
+ *
+ * Ends the current session and clears the cookie. Safe to call when already
+ * signed out.
+ */
+export async function POST() {
+  const claims = await getSessionClaims()
+  const result = claims
+    ? await localAuth.signOut(claims.sid)
+    : { data: { signedOut: true as const }, status: 200 }
+
+  return clearSessionCookie(jsonResponse(result))
+}
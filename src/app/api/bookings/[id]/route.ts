@@ -0,0 +1,29 @@
+import type { NextRequest } from 'next/server'
+import { localBookings } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+import { getSessionUser } from '@/lib/auth/session'
+import { isStaff } from '@/lib/auth/users'
+
+/**
+ * PATCH /api/bookings/:id
+ *
+ * Moves a stud booking to its next state (`{ status }`). Staff only.
+ * Responds 422 for an unknown status and 409 when the move isn't allowed
+ * or confirming would overbook the season.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getSessionUser()
+  if (!user) return errorResponse(401, 'Sign in to manage bookings')
+  if (!isStaff(user)) return errorResponse(403, 'Only staff can manage bookings')
+
+  const { id } = await params
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  return jsonResponse(await localBookings.transition(id, body))
+}
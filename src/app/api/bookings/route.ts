@@ -0,0 +1,30 @@
+import type { NextRequest } from 'next/server'
+import { localBookings } from '@/lib/api/local-source'
+import { createRateLimiter } from '@/lib/api/rate-limit'
+import { errorResponse, getClientIp, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+
+// Five requests per address every ten minutes
+const limiter = createRateLimiter({ limit: 5, windowMs: 10 * 60 * 1000 })
+
+/**
+ * POST /api/bookings
+ *
+ * Records a stud booking request and emails an acknowledgement.
+ * Responds 422 with field `errors` on invalid input, 409 when the
+ * season is fully booked and 429 when an address submits too often.
+ */
+export async function POST(request: NextRequest) {
+  const { allowed, retryAfter } = limiter.check(getClientIp(request))
+  if (!allowed) {
+    const response = errorResponse(429, 'Too many booking requests. Please try again later.')
+    response.headers.set('Retry-After', String(retryAfter))
+    return response
+  }
+
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  return jsonResponse(await localBookings.create(body))
+}
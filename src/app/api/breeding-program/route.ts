@@ -0,0 +1,9 @@
+import { localBreeding } from '@/lib/api/local-source'
+import { jsonResponse } from '@/lib/api/route-helpers'
+
+/**
+ * GET /api/breeding-program
+ */
+export async function GET() {
+  return jsonResponse(await localBreeding.getProgramInfo())
+}
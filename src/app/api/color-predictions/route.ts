@@ -0,0 +1,20 @@
+import type { NextRequest } from 'next/server'
+import { localBreeding } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+
+/**
+ * POST /api/color-predictions
+ *
+ * Chance of each coat color for a foal by one of our stallions out of one of
+ * our mares or a mare described by color and test results. Nothing is
+ * stored. Responds 422 with field `errors` on invalid input and 404 for an
+ * unknown stallion.
+ */
+export async function POST(request: NextRequest) {
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  return jsonResponse(await localBreeding.predictCoatColors(body))
+}
@@ -0,0 +1,57 @@
+import type { NextRequest } from 'next/server'
+import { localFavorites } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+import { getSessionUser } from '@/lib/auth/session'
+
+/**
+ * GET /api/favorites
+ *
+ * The signed-in user's shortlist. Anonymous visitors keep theirs in the browser.
+ */
+export async function GET() {
+  const user = await getSessionUser()
+  if (!user) {
+    return errorResponse(401, 'Sign in to sync your shortlist')
+  }
+
+  return jsonResponse(await localFavorites.get(user.id))
+}
+
+/**
+ * POST /api/favorites
+ *
+ * Merges a list of favorites into the stored shortlist and returns the result.
+ * Used once after signing in to carry over favorites saved anonymously.
+ */
+export async function POST(request: NextRequest) {
+  const user = await getSessionUser()
+  if (!user) {
+    return errorResponse(401, 'Sign in to sync your shortlist')
+  }
+
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  return jsonResponse(await localFavorites.merge(user.id, body))
+}
+
+/**
+ * PUT /api/favorites
+ *
+ * Replaces the stored shortlist.
+ */
+export async function PUT(request: NextRequest) {
+  const user = await getSessionUser()
+  if (!user) {
+    return errorResponse(401, 'Sign in to sync your shortlist')
+  }
+
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  return jsonResponse(await localFavorites.replace(user.id, body))
+}
@@ -0,0 +1,41 @@
+import type { NextRequest } from 'next/server'
+import { localBreeding } from '@/lib/api/local-source'
+import { attachmentResponse, errorResponse, jsonResponse, parseString } from '@/lib/api/route-helpers'
+import { exportFoalingPlanIcs } from '@/lib/breeding/foaling'
+import { ICS_CONTENT_TYPE } from '@/lib/calendar/ics'
+
+/**
+ * GET /api/foaling-plans
+ *
+ * Booking deadlines, pregnancy checks, vaccinations and the expected foaling
+ * date for a mare put to `stallionId`. Pass `coverDate`, or `foalingFrom`
+ * (and optionally `foalingTo`) to plan back from a target foaling window.
+ * Pass `format=ics` to download the plan as an iCalendar file. Nothing is
+ * stored. Responds 422 with field `errors` on invalid input and 404 for an
+ * unknown stallion.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const format = parseString(searchParams, 'format')
+
+  const result = await localBreeding.planFoaling({
+    stallionId: parseString(searchParams, 'stallionId'),
+    coverDate: parseString(searchParams, 'coverDate'),
+    foalingFrom: parseString(searchParams, 'foalingFrom'),
+    foalingTo: parseString(searchParams, 'foalingTo'),
+  })
+
+  if (!format || !result.data) {
+    return jsonResponse(result)
+  }
+  if (format !== 'ics') {
+    return errorResponse(400, 'Format must be ics')
+  }
+
+  const plan = result.data
+  return attachmentResponse(
+    exportFoalingPlanIcs(plan),
+    ICS_CONTENT_TYPE,
+    `foaling-plan-${plan.stallion.name}-${plan.breedingWindow.from}.ics`
+  )
+}
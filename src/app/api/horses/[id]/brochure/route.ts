@@ -0,0 +1,26 @@
+import type { NextRequest } from 'next/server'
+import { localHorses } from '@/lib/api/local-source'
+import { attachmentResponse, jsonResponse } from '@/lib/api/route-helpers'
+import { renderHorseBrochure } from '@/lib/brochure/brochure'
+import { getSiteUrl } from '@/lib/mail/templates'
+
+/**
+ * GET /api/horses/:id/brochure
+ *
+ * Printable PDF sales brochure with photos, records, pedigree, price and a
+ * QR code linking to the horse's page.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const result = await localHorses.getById(id)
+
+  if (!result.data) {
+    return jsonResponse(result)
+  }
+
+  const pdf = await renderHorseBrochure(result.data, `${getSiteUrl()}/horses/${encodeURIComponent(id)}`)
+  return attachmentResponse(pdf, 'application/pdf', `${result.data.name}-brochure.pdf`)
+}
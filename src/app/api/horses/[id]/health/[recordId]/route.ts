@@ -0,0 +1,22 @@
+import type { NextRequest } from 'next/server'
+import { localHealth } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse } from '@/lib/api/route-helpers'
+import { getSessionUser } from '@/lib/auth/session'
+import { isStaff } from '@/lib/auth/users'
+
+/**
+ * DELETE /api/horses/:id/health/:recordId
+ *
+ * Deletes one of a horse's health records and responds with it. Staff only.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; recordId: string }> }
+) {
+  if (!isStaff(await getSessionUser())) {
+    return errorResponse(403, 'Only staff can remove health records')
+  }
+
+  const { id, recordId } = await params
+  return jsonResponse(await localHealth.remove(id, recordId))
+}
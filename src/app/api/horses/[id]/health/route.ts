@@ -0,0 +1,43 @@
+import type { NextRequest } from 'next/server'
+import { localHealth } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+import { getSessionUser } from '@/lib/auth/session'
+import { isStaff } from '@/lib/auth/users'
+
+/**
+ * GET /api/horses/:id/health
+ *
+ * Health records for a horse or stallion. Buyers get the records marked for
+ * them without private notes; staff get everything.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const audience = isStaff(await getSessionUser()) ? 'staff' : 'buyer'
+  return jsonResponse(await localHealth.get(id, audience))
+}
+
+/**
+ * POST /api/horses/:id/health
+ *
+ * Records a vet visit, treatment or test. Staff only. Responds 422 with field
+ * `errors` on invalid input and 404 for an unknown horse or stallion.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!isStaff(await getSessionUser())) {
+    return errorResponse(403, 'Only staff can record health details')
+  }
+
+  const { id } = await params
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  return jsonResponse(await localHealth.add(id, body))
+}
@@ -0,0 +1,22 @@
+import type { NextRequest } from 'next/server'
+import { localResults } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse } from '@/lib/api/route-helpers'
+import { getSessionUser } from '@/lib/auth/session'
+import { isStaff } from '@/lib/auth/users'
+
+/**
+ * DELETE /api/horses/:id/results/:resultId
+ *
+ * Deletes one of a horse's results and responds with it. Staff only.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; resultId: string }> }
+) {
+  if (!isStaff(await getSessionUser())) {
+    return errorResponse(403, 'Only staff can remove results')
+  }
+
+  const { id, resultId } = await params
+  return jsonResponse(await localResults.remove(id, resultId))
+}
@@ -0,0 +1,42 @@
+import type { NextRequest } from 'next/server'
+import { localResults } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+import { getSessionUser } from '@/lib/auth/session'
+import { isStaff } from '@/lib/auth/users'
+
+/**
+ * GET /api/horses/:id/results
+ *
+ * Structured competition results for a horse or stallion, newest first.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  return jsonResponse(await localResults.list(id))
+}
+
+/**
+ * POST /api/horses/:id/results
+ *
+ * Records a result (date, event, discipline, level, placing, score, rider).
+ * Staff only. Responds 422 with field `errors` on invalid input and 404 for
+ * an unknown horse or stallion.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  if (!isStaff(await getSessionUser())) {
+    return errorResponse(403, 'Only staff can record results')
+  }
+
+  const { id } = await params
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  return jsonResponse(await localResults.add(id, body))
+}
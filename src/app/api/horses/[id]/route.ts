@@ -0,0 +1,16 @@
+import type { NextRequest } from 'next/server'
+import { localHorses } from '@/lib/api/local-source'
+import { jsonResponse } from '@/lib/api/route-helpers'
+
+/**
+ * GET /api/horses/:id
+ *
+ * Returns full horse details, or a 404 envelope.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  return jsonResponse(await localHorses.getById(id))
+}
@@ -0,0 +1,48 @@
+import type { NextRequest } from 'next/server'
+import type { HorseAvailability } from '@/components/sections/horse-portfolio'
+import type { HorseSortBy } from '@/lib/api/types'
+import type { SaleClass } from '@/lib/horses/sale-class'
+import { localHorses } from '@/lib/api/local-source'
+import {
+  jsonResponse,
+  parseBoolean,
+  parseList,
+  parseNumber,
+  parseOption,
+  parsePageParams,
+  parseSortParams,
+  parseString,
+} from '@/lib/api/route-helpers'
+
+const SORT_KEYS: HorseSortBy[] = ['name', 'price', 'age', 'recent', 'results']
+const SALE_CLASSES: SaleClass[] = ['mare', 'stallion', 'gelding', 'foal']
+const AVAILABILITIES: HorseAvailability[] = ['available', 'reserved', 'sold']
+
+/**
+ * GET /api/horses
+ *
+ * Lists horses. Accepts the same filters as `horseAPI.getAll`; pass
+ * `page`/`pageSize` or `cursor` to receive a single page, and
+ * `sortBy`/`order` to sort on the server. Unknown `saleClass`,
+ * `availability` and `sortBy` values are ignored.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+
+  const result = await localHorses.list({
+    breed: parseList(searchParams, 'breed'),
+    discipline: parseList(searchParams, 'discipline'),
+    minAge: parseNumber(searchParams, 'minAge'),
+    maxAge: parseNumber(searchParams, 'maxAge'),
+    minPrice: parseNumber(searchParams, 'minPrice'),
+    maxPrice: parseNumber(searchParams, 'maxPrice'),
+    search: parseString(searchParams, 'search'),
+    saleClass: parseOption(searchParams, 'saleClass', SALE_CLASSES),
+    availability: parseOption(searchParams, 'availability', AVAILABILITIES),
+    includeSold: parseBoolean(searchParams, 'includeSold'),
+    ...parseSortParams(searchParams, SORT_KEYS),
+    ...parsePageParams(searchParams),
+  })
+
+  return jsonResponse(result)
+}
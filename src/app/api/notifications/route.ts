@@ -0,0 +1,17 @@
+import { localSavedSearches } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse } from '@/lib/api/route-helpers'
+import { getSessionUser } from '@/lib/auth/session'
+
+/**
+ * GET /api/notifications
+ *
+ * In-app feed of saved-search alerts for the signed-in user, newest first.
+ */
+export async function GET() {
+  const user = await getSessionUser()
+  if (!user) {
+    return errorResponse(401, 'Sign in to see your notifications')
+  }
+
+  return jsonResponse(await localSavedSearches.listAlerts(user.id))
+}
@@ -0,0 +1,30 @@
+import type { NextRequest } from 'next/server'
+import { localOrders } from '@/lib/api/local-source'
+import { createRateLimiter } from '@/lib/api/rate-limit'
+import { errorResponse, getClientIp, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+
+// Ten checkout attempts per address every ten minutes
+const limiter = createRateLimiter({ limit: 10, windowMs: 10 * 60 * 1000 })
+
+/**
+ * POST /api/orders
+ *
+ * Prices the submitted cart from the catalogue, takes payment and records
+ * the order. Responds 422 with field `errors` on invalid input, 409 when a
+ * product is out of stock and 402 when payment is declined.
+ */
+export async function POST(request: NextRequest) {
+  const { allowed, retryAfter } = limiter.check(getClientIp(request))
+  if (!allowed) {
+    const response = errorResponse(429, 'Too many checkout attempts. Please try again later.')
+    response.headers.set('Retry-After', String(retryAfter))
+    return response
+  }
+
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  return jsonResponse(await localOrders.create(body))
+}
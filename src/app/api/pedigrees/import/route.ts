@@ -0,0 +1,20 @@
+import type { NextRequest } from 'next/server'
+import { localBreeding } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+
+/**
+ * POST /api/pedigrees/import
+ *
+ * Parse a CSV, GEDCOM or JSON pedigree (`{ format, content, rootId? }`) and
+ * return the tree for review. Nothing is stored. Responds 422 with field
+ * `errors` on invalid input; problems in the file, such as missing parents
+ * or circular ancestry, are listed by line in `errors.content`.
+ */
+export async function POST(request: NextRequest) {
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  return jsonResponse(await localBreeding.previewPedigreeImport(body))
+}
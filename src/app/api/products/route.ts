@@ -0,0 +1,33 @@
+import type { NextRequest } from 'next/server'
+import type { Product } from '@/components/sections/product-showcase'
+import type { ProductSortBy } from '@/lib/api/types'
+import { localProducts } from '@/lib/api/local-source'
+import {
+  jsonResponse,
+  parseBoolean,
+  parsePageParams,
+  parseSortParams,
+  parseString,
+} from '@/lib/api/route-helpers'
+
+const SORT_KEYS: ProductSortBy[] = ['name', 'price', 'rating']
+
+/**
+ * GET /api/products
+ *
+ * Lists products. Accepts the same filters, sorting and pagination
+ * params as `productAPI.getAll`.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+
+  const result = await localProducts.list({
+    category: parseString(searchParams, 'category') as Product['category'] | 'all' | undefined,
+    featured: parseBoolean(searchParams, 'featured'),
+    inStock: parseBoolean(searchParams, 'inStock'),
+    ...parseSortParams(searchParams, SORT_KEYS),
+    ...parsePageParams(searchParams),
+  })
+
+  return jsonResponse(result)
+}
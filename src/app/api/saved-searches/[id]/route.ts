@@ -0,0 +1,23 @@
+import type { NextRequest } from 'next/server'
+import { localSavedSearches } from '@/lib/api/local-source'
+import { jsonResponse, parseString } from '@/lib/api/route-helpers'
+import { getSessionUser } from '@/lib/auth/session'
+
+/**
+ * DELETE /api/saved-searches/:id?token=
+ *
+ * Stops alerts for a saved search. Authorised by the search's `token` or by
+ * its signed-in owner; anything else responds 404.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const user = await getSessionUser()
+
+  return jsonResponse(await localSavedSearches.deactivate(id, {
+    token: parseString(request.nextUrl.searchParams, 'token'),
+    userId: user?.id,
+  }))
+}
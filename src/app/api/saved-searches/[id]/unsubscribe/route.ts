@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { localSavedSearches } from '@/lib/api/local-source'
+import { jsonResponse, parseString } from '@/lib/api/route-helpers'
+
+/**
+ * GET /api/saved-searches/:id/unsubscribe?token=
+ *
+ * One-click unsubscribe link from alert emails. Stops the search and sends
+ * the visitor on to the horse listings.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const result = await localSavedSearches.deactivate(id, {
+    token: parseString(request.nextUrl.searchParams, 'token'),
+  })
+
+  if (!result.data) {
+    return jsonResponse(result)
+  }
+
+  return NextResponse.redirect(new URL('/horses', request.url))
+}
@@ -0,0 +1,47 @@
+import type { NextRequest } from 'next/server'
+import { localSavedSearches } from '@/lib/api/local-source'
+import { createRateLimiter } from '@/lib/api/rate-limit'
+import { errorResponse, getClientIp, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+import { getSessionUser } from '@/lib/auth/session'
+
+// Five saved searches per address every ten minutes
+const limiter = createRateLimiter({ limit: 5, windowMs: 10 * 60 * 1000 })
+
+/**
+ * GET /api/saved-searches
+ *
+ * The signed-in user's active saved searches.
+ */
+export async function GET() {
+  const user = await getSessionUser()
+  if (!user) {
+    return errorResponse(401, 'Sign in to see your saved searches')
+  }
+
+  return jsonResponse(await localSavedSearches.listForUser(user.id))
+}
+
+/**
+ * POST /api/saved-searches
+ *
+ * Saves a named filter set for new-listing and price-drop alerts. Signed-in
+ * users own the search; anyone else manages it through the links in their
+ * alert emails. Responds 422 with field `errors` on invalid input, 409 when
+ * the address has too many searches and 429 when it submits too often.
+ */
+export async function POST(request: NextRequest) {
+  const { allowed, retryAfter } = limiter.check(getClientIp(request))
+  if (!allowed) {
+    const response = errorResponse(429, 'Too many saved searches. Please try again later.')
+    response.headers.set('Retry-After', String(retryAfter))
+    return response
+  }
+
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  const user = await getSessionUser()
+  return jsonResponse(await localSavedSearches.create(body, user?.id))
+}
@@ -0,0 +1,18 @@
+import type { NextRequest } from 'next/server'
+import { localSearch } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse, parseString } from '@/lib/api/route-helpers'
+
+/**
+ * GET /api/search?q=
+ *
+ * Searches horses, products and articles.
+ */
+export async function GET(request: NextRequest) {
+  const query = parseString(request.nextUrl.searchParams, 'q')
+
+  if (!query) {
+    return errorResponse(400, 'Missing search query')
+  }
+
+  return jsonResponse(await localSearch(query))
+}
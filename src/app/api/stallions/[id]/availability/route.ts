@@ -0,0 +1,16 @@
+import type { NextRequest } from 'next/server'
+import { localBreeding } from '@/lib/api/local-source'
+import { jsonResponse } from '@/lib/api/route-helpers'
+
+/**
+ * GET /api/stallions/:id/availability
+ *
+ * Capacity, bookings and remaining places for each season the stallion stands.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  return jsonResponse(await localBreeding.getAvailability(id))
+}
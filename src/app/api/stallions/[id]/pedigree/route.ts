@@ -0,0 +1,32 @@
+import type { NextRequest } from 'next/server'
+import { localBreeding } from '@/lib/api/local-source'
+import { attachmentResponse, errorResponse, jsonResponse, parseNumber, parseString } from '@/lib/api/route-helpers'
+import { isPedigreeFormat, serializePedigree } from '@/lib/pedigree/formats'
+
+/**
+ * GET /api/stallions/:id/pedigree
+ *
+ * The stallion's pedigree with ancestors linked to our catalogue. Pass
+ * `generations` (1-5, default 4) to limit how far back it goes, and
+ * `format` (`csv`, `gedcom` or `json`) to download it as a file.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const { searchParams } = request.nextUrl
+  const format = parseString(searchParams, 'format')
+
+  const result = await localBreeding.getPedigree(id, parseNumber(searchParams, 'generations'))
+
+  if (!format || !result.data) {
+    return jsonResponse(result)
+  }
+  if (!isPedigreeFormat(format)) {
+    return errorResponse(400, 'Format must be csv, gedcom or json')
+  }
+
+  const file = serializePedigree(result.data, format)
+  return attachmentResponse(file.content, file.contentType, `${result.data.name}-pedigree.${file.extension}`)
+}
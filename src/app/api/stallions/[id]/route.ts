@@ -0,0 +1,16 @@
+import type { NextRequest } from 'next/server'
+import { localBreeding } from '@/lib/api/local-source'
+import { jsonResponse, parseNumber } from '@/lib/api/route-helpers'
+
+/**
+ * GET /api/stallions/:id
+ *
+ * Pass `season` to compute availability for a season other than the current one.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  return jsonResponse(await localBreeding.getStallionById(id, parseNumber(request.nextUrl.searchParams, 'season')))
+}
@@ -0,0 +1,26 @@
+import type { NextRequest } from 'next/server'
+import type { Stallion } from '@/components/sections/breeding-program'
+import type { StallionSortBy } from '@/lib/api/types'
+import { localBreeding } from '@/lib/api/local-source'
+import { jsonResponse, parseNumber, parsePageParams, parseSortParams, parseString } from '@/lib/api/route-helpers'
+
+const SORT_KEYS: StallionSortBy[] = ['name', 'studFee', 'age']
+
+/**
+ * GET /api/stallions
+ *
+ * Lists breeding stallions. Accepts the same filters, sorting and
+ * pagination params as `breedingAPI.getStallions`.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+
+  const result = await localBreeding.listStallions({
+    bookingStatus: parseString(searchParams, 'bookingStatus') as Stallion['bookingStatus'],
+    season: parseNumber(searchParams, 'season'),
+    ...parseSortParams(searchParams, SORT_KEYS),
+    ...parsePageParams(searchParams),
+  })
+
+  return jsonResponse(result)
+}
@@ -0,0 +1,19 @@
+import type { NextRequest } from 'next/server'
+import { localBreeding } from '@/lib/api/local-source'
+import { errorResponse, jsonResponse, readJsonBody } from '@/lib/api/route-helpers'
+
+/**
+ * POST /api/test-matings
+ *
+ * Pedigree, inbreeding coefficient and line achievements of the foal a
+ * stallion and mare would produce. Nothing is stored. Responds 422 with
+ * field `errors` on invalid input and 404 for an unknown stallion.
+ */
+export async function POST(request: NextRequest) {
+  const body = await readJsonBody(request)
+  if (!body) {
+    return errorResponse(400, 'Request body must be JSON')
+  }
+
+  return jsonResponse(await localBreeding.testMating(body))
+}
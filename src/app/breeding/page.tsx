@@ -0,0 +1,82 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { Header, PageHeader } from '@/components/layout/Header'
+import { Footer } from '@/components/layout/Footer'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Heading, Paragraph } from '@/components/ui/Typography'
+import { BreedingProgramView } from '@/components/views/breeding-program-view'
+import { CoatColorPredictor } from '@/components/views/coat-color-predictor'
+import { breedingAPI, horseAPI } from '@/lib/api/data-fetching'
+
+export const metadata: Metadata = {
+  title: 'Breeding Program',
+  description: 'Book a season with MAM Center stallions by natural cover or artificial insemination.',
+}
+
+// Availability changes with every confirmed booking
+export const dynamic = 'force-dynamic'
+
+/**
+ * Breeding program page
+ */
+export default async function BreedingPage() {
+  const [stallionsResult, programResult, horsesResult] = await Promise.all([
+    breedingAPI.getStallions(),
+    breedingAPI.getProgramInfo(),
+    horseAPI.getAll({ includeSold: true }),
+  ])
+
+  if (!stallionsResult.data || !programResult.data || !horsesResult.data) {
+    throw new Error(
+      stallionsResult.error || programResult.error || horsesResult.error || 'Failed to load breeding program'
+    )
+  }
+
+  return (
+    <>
+      <Header />
+
+      <PageHeader
+        title="Breeding Program"
+        description="Proven stallions, limited places each season."
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'Breeding' },
+        ]}
+      />
+
+      <BreedingProgramView
+        stallions={stallionsResult.data}
+        programInfo={programResult.data}
+        variant="detailed"
+      />
+
+      <CoatColorPredictor
+        stallions={stallionsResult.data}
+        mares={horsesResult.data.filter((horse) => horse.gender === 'Female')}
+      />
+
+      <section className="px-6 pb-16 bg-midnight">
+        <GlassPanel className="max-w-3xl mx-auto p-8 text-center">
+          <Heading level={4} className="mb-2">Planning a foal?</Heading>
+          <Paragraph className="mb-6">
+            Pair any of our stallions with your mare to preview the foal&apos;s pedigree,
+            inbreeding coefficient and the achievements on each side, or plan the dates
+            from booking through to foaling.
+          </Paragraph>
+          <div className="flex flex-wrap justify-center gap-4">
+            <Link href="/breeding/test-mating">
+              <GlassButton variant="outline">Try a Test Mating</GlassButton>
+            </Link>
+            <Link href="/breeding/planner">
+              <GlassButton variant="outline">Plan Foaling Dates</GlassButton>
+            </Link>
+          </div>
+        </GlassPanel>
+      </section>
+
+      <Footer />
+    </>
+  )
+}
@@ -0,0 +1,52 @@
+import type { Metadata } from 'next'
+import { Header, PageHeader } from '@/components/layout/Header'
+import { Footer } from '@/components/layout/Footer'
+import { FoalingPlanner } from '@/components/views/foaling-planner'
+import { breedingAPI } from '@/lib/api/data-fetching'
+import type { SearchParamsRecord } from '@/lib/horses/filter-params'
+
+export const metadata: Metadata = {
+  title: 'Foaling Planner',
+  description: 'Work out the expected foaling date, pregnancy checks and booking deadlines for a MAM Center stallion.',
+}
+
+interface FoalingPlannerPageProps {
+  searchParams: Promise<SearchParamsRecord>
+}
+
+/**
+ * Foaling planner page
+ *
+ * Pass `?stallion=<id>` to preselect a stallion.
+ */
+export default async function FoalingPlannerPage({ searchParams }: FoalingPlannerPageProps) {
+  const { stallion } = await searchParams
+  const stallionsResult = await breedingAPI.getStallions()
+
+  if (!stallionsResult.data) {
+    throw new Error(stallionsResult.error || 'Failed to load foaling planner')
+  }
+
+  return (
+    <>
+      <Header />
+
+      <PageHeader
+        title="Foaling Planner"
+        description="From booking to foal heat, every date in one calendar."
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'Breeding', href: '/breeding' },
+          { label: 'Foaling Planner' },
+        ]}
+      />
+
+      <FoalingPlanner
+        stallions={stallionsResult.data}
+        initialStallionId={typeof stallion === 'string' ? stallion : undefined}
+      />
+
+      <Footer />
+    </>
+  )
+}
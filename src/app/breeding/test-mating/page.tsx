@@ -0,0 +1,57 @@
+import type { Metadata } from 'next'
+import { Header, PageHeader } from '@/components/layout/Header'
+import { Footer } from '@/components/layout/Footer'
+import { TestMatingView } from '@/components/views/test-mating-view'
+import { breedingAPI, horseAPI } from '@/lib/api/data-fetching'
+import type { SearchParamsRecord } from '@/lib/horses/filter-params'
+
+export const metadata: Metadata = {
+  title: 'Test Mating',
+  description: 'Preview the pedigree and inbreeding coefficient of a foal by a MAM Center stallion.',
+}
+
+interface TestMatingPageProps {
+  searchParams: Promise<SearchParamsRecord>
+}
+
+/**
+ * Test mating page
+ *
+ * Pass `?stallion=<id>` to preselect a stallion.
+ */
+export default async function TestMatingPage({ searchParams }: TestMatingPageProps) {
+  const { stallion } = await searchParams
+  const [stallionsResult, horsesResult] = await Promise.all([
+    breedingAPI.getStallions(),
+    // Mares we've sold are the ones their new owners most often plan to breed
+    horseAPI.getAll({ includeSold: true }),
+  ])
+
+  if (!stallionsResult.data || !horsesResult.data) {
+    throw new Error(stallionsResult.error || horsesResult.error || 'Failed to load test mating')
+  }
+
+  return (
+    <>
+      <Header />
+
+      <PageHeader
+        title="Test Mating"
+        description="See the pedigree your foal would have before you book."
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'Breeding', href: '/breeding' },
+          { label: 'Test Mating' },
+        ]}
+      />
+
+      <TestMatingView
+        stallions={stallionsResult.data}
+        mares={horsesResult.data.filter((horse) => horse.gender === 'Female')}
+        initialStallionId={typeof stallion === 'string' ? stallion : undefined}
+      />
+
+      <Footer />
+    </>
+  )
+}
@@ -0,0 +1,33 @@
+import type { Metadata } from 'next'
+import { Header, PageHeader } from '@/components/layout/Header'
+import { Footer } from '@/components/layout/Footer'
+import { CheckoutView } from '@/components/views/checkout-view'
+
+export const metadata: Metadata = {
+  title: 'Checkout',
+  robots: { index: false },
+}
+
+/**
+ * Checkout page
+ */
+export default function CheckoutPage() {
+  return (
+    <>
+      <Header />
+
+      <PageHeader
+        title="Checkout"
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'Shop', href: '/shop' },
+          { label: 'Checkout' },
+        ]}
+      />
+
+      <CheckoutView />
+
+      <Footer />
+    </>
+  )
+}
@@ -0,0 +1,94 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { Header, PageHeader } from '@/components/layout/Header'
+import { Footer } from '@/components/layout/Footer'
+import { HorsePortfolioView } from '@/components/views/horse-portfolio-view'
+import { horseAPI } from '@/lib/api/data-fetching'
+import { SALE_CATEGORIES, getSaleCategory } from '@/lib/horses/sale-class'
+import { parseHorseListParams, toHorseQuery, type SearchParamsRecord } from '@/lib/horses/filter-params'
+
+interface ForSalePageProps {
+  params: Promise<{ category: string }>
+  searchParams: Promise<SearchParamsRecord>
+}
+
+/**
+ * Pre-render every sale category
+ */
+export function generateStaticParams() {
+  return SALE_CATEGORIES.map((category) => ({ category: category.slug }))
+}
+
+export async function generateMetadata({ params }: ForSalePageProps): Promise<Metadata> {
+  const { category: slug } = await params
+  const category = getSaleCategory(slug)
+
+  if (!category) {
+    return { title: 'Not Found' }
+  }
+
+  return {
+    title: category.title,
+    description: category.description,
+  }
+}
+
+/**
+ * Sale category listing
+ *
+ * Sold horses are hidden unless `?includeSold=1` is passed. Filters, sort
+ * order and page are read from the query string like on `/horses`.
+ */
+export default async function ForSalePage({ params, searchParams }: ForSalePageProps) {
+  const { category: slug } = await params
+  const query = await searchParams
+  const category = getSaleCategory(slug)
+
+  if (!category) {
+    notFound()
+  }
+
+  const includeSold = query.includeSold === '1' || query.includeSold === 'true'
+  const [result, facetsResult] = await Promise.all([
+    horseAPI.getAll({
+      ...toHorseQuery(parseHorseListParams(query)),
+      saleClass: category.saleClass,
+      includeSold,
+    }),
+    // Unfiltered category list for the breed and discipline options
+    horseAPI.getAll({ saleClass: category.saleClass, includeSold }),
+  ])
+
+  if (!result.data) {
+    throw new Error(result.error || 'Failed to load horses')
+  }
+
+  const categoryHorses = facetsResult.data ?? result.data
+  const breeds = Array.from(new Set(categoryHorses.map((h) => h.breed))).sort()
+  const disciplines = Array.from(new Set(categoryHorses.flatMap((h) => h.discipline))).sort()
+
+  return (
+    <>
+      <Header />
+
+      <PageHeader
+        title={category.title}
+        description={category.description}
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'For Sale', href: '/for-sale/horses' },
+          { label: category.title },
+        ]}
+      />
+
+      <HorsePortfolioView
+        horses={result.data}
+        breeds={breeds}
+        disciplines={disciplines}
+        pagination={result.pagination}
+      />
+
+      <Footer />
+    </>
+  )
+}
@@ -0,0 +1,8 @@
+import { redirect } from 'next/navigation'
+
+/**
+ * `/for-sale` has no listing of its own; send visitors to every horse for sale
+ */
+export default function ForSalePage() {
+  redirect('/for-sale/horses')
+}
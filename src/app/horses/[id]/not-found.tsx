@@ -0,0 +1,35 @@
+import Link from 'next/link'
+import { Header } from '@/components/layout/Header'
+import { Footer } from '@/components/layout/Footer'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Display, Paragraph } from '@/components/ui/Typography'
+
+/**
+ * Shown when a horse id does not exist in the catalogue
+ */
+export default function HorseNotFound() {
+  return (
+    <>
+      <Header />
+
+      <main className="min-h-screen flex items-center justify-center px-6 py-32 bg-midnight">
+        <GlassPanel variant="elevated" className="max-w-xl p-12 text-center">
+          <Display size="2xl" gradient="gold" className="mb-4">
+            Horse Not Found
+          </Display>
+          <Paragraph size="lg" maxWidth="prose" className="mb-8">
+            This horse may have been sold or is no longer listed. Explore the rest of our collection instead.
+          </Paragraph>
+          <Link href="/horses">
+            <GlassButton variant="primary" size="large">
+              View All Horses
+            </GlassButton>
+          </Link>
+        </GlassPanel>
+      </main>
+
+      <Footer />
+    </>
+  )
+}
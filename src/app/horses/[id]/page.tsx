@@ -0,0 +1,76 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { Header } from '@/components/layout/Header'
+import { Footer } from '@/components/layout/Footer'
+import { HorseDetailView } from '@/components/views/horse-detail-view'
+import { horseAPI } from '@/lib/api/data-fetching'
+
+interface HorsePageProps {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Pre-render a page for every horse in the catalogue, including sold horses
+ */
+export async function generateStaticParams() {
+  const result = await horseAPI.getAll({ includeSold: true })
+  return (result.data ?? []).map((horse) => ({ id: horse.id }))
+}
+
+/**
+ * Horse-specific title, description and social image
+ */
+export async function generateMetadata({ params }: HorsePageProps): Promise<Metadata> {
+  const { id } = await params
+  const { data: horse } = await horseAPI.getById(id)
+
+  if (!horse) {
+    return { title: 'Horse Not Found' }
+  }
+
+  const image = horse.thumbnail || horse.images[0]
+
+  return {
+    title: horse.name,
+    description: horse.description,
+    openGraph: {
+      title: `${horse.name} | ${horse.breed}`,
+      description: horse.description,
+      images: image ? [{ url: image, alt: horse.name }] : undefined,
+    },
+  }
+}
+
+/**
+ * Horse detail page
+ */
+export default async function HorsePage({ params }: HorsePageProps) {
+  const { id } = await params
+  const [horseResult, relatedResult] = await Promise.all([
+    horseAPI.getById(id),
+    horseAPI.getRelated(id),
+  ])
+
+  if (horseResult.status === 404) {
+    notFound()
+  }
+
+  if (!horseResult.data) {
+    throw new Error(horseResult.error || 'Failed to load horse')
+  }
+
+  return (
+    <>
+      <Header />
+
+      <main className="pt-16 lg:pt-20">
+        <HorseDetailView
+          horse={horseResult.data}
+          relatedHorses={relatedResult.data ?? []}
+        />
+      </main>
+
+      <Footer />
+    </>
+  )
+}
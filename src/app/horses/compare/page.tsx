@@ -0,0 +1,75 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { Header, PageHeader } from '@/components/layout/Header'
+import { Footer } from '@/components/layout/Footer'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Paragraph } from '@/components/ui/Typography'
+import { HorseComparisonView } from '@/components/views/horse-comparison-view'
+import type { HorseDetail } from '@/components/sections/horse-detail'
+import { horseAPI } from '@/lib/api/data-fetching'
+import { COMPARE_PARAM, MAX_COMPARE, parseCompareIds } from '@/lib/horses/compare'
+import type { SearchParamsRecord } from '@/lib/horses/filter-params'
+
+export const metadata: Metadata = {
+  title: 'Compare Horses',
+  description: 'Compare MAM Center horses side by side.',
+  robots: { index: false },
+}
+
+interface ComparePageProps {
+  searchParams: Promise<SearchParamsRecord>
+}
+
+/**
+ * Horse comparison page
+ *
+ * Compares up to `MAX_COMPARE` horses named in `?ids=`. Unknown ids are skipped.
+ */
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const ids = parseCompareIds((await searchParams)[COMPARE_PARAM])
+  const results = await Promise.all(ids.map((id) => horseAPI.getById(id)))
+
+  const failed = results.find((result) => result.status !== 200 && result.status !== 404)
+  if (failed) {
+    throw new Error(failed.error || 'Failed to load horses')
+  }
+
+  const horses = results
+    .map((result) => result.data)
+    .filter((horse): horse is HorseDetail => horse !== null)
+
+  return (
+    <>
+      <Header />
+
+      <PageHeader
+        title="Compare Horses"
+        description={horses.length > 0 ? horses.map((horse) => horse.name).join(' vs ') : undefined}
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'Horses', href: '/horses' },
+          { label: 'Compare' },
+        ]}
+      />
+
+      {horses.length >= 2 ? (
+        <HorseComparisonView horses={horses} />
+      ) : (
+        <section className="py-24 px-4">
+          <GlassPanel className="max-w-xl mx-auto p-8 text-center">
+            <Paragraph className="mb-6">
+              Pick two or three horses to compare. Use the Compare button on any horse
+              card or detail page, then open the comparison from the tray (up to {MAX_COMPARE} horses).
+            </Paragraph>
+            <Link href="/horses">
+              <GlassButton variant="outline">Browse Horses</GlassButton>
+            </Link>
+          </GlassPanel>
+        </section>
+      )}
+
+      <Footer />
+    </>
+  )
+}
@@ -0,0 +1,58 @@
+import type { Metadata } from 'next'
+import { Header, PageHeader } from '@/components/layout/Header'
+import { Footer } from '@/components/layout/Footer'
+import { HorsePortfolioView } from '@/components/views/horse-portfolio-view'
+import { horseAPI } from '@/lib/api/data-fetching'
+import { parseHorseListParams, toHorseQuery, type SearchParamsRecord } from '@/lib/horses/filter-params'
+
+export const metadata: Metadata = {
+  title: 'Our Horses',
+  description: 'Browse championship horses from MAM Center, filtered by breed, discipline, age and price.',
+}
+
+interface HorsesPageProps {
+  searchParams: Promise<SearchParamsRecord>
+}
+
+/**
+ * Horse listing page
+ *
+ * Filters, sort order and page are read from the query string.
+ */
+export default async function HorsesPage({ searchParams }: HorsesPageProps) {
+  const state = parseHorseListParams(await searchParams)
+
+  const [horsesResult, breedsResult, disciplinesResult] = await Promise.all([
+    horseAPI.getAll(toHorseQuery(state)),
+    horseAPI.getBreeds(),
+    horseAPI.getDisciplines(),
+  ])
+
+  if (!horsesResult.data) {
+    throw new Error(horsesResult.error || 'Failed to load horses')
+  }
+
+  return (
+    <>
+      <Header />
+
+      <PageHeader
+        title="Our Horses"
+        description="Championship bloodlines, proven performers and exceptional prospects."
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'Horses' },
+        ]}
+      />
+
+      <HorsePortfolioView
+        horses={horsesResult.data}
+        breeds={breedsResult.data ?? []}
+        disciplines={disciplinesResult.data ?? []}
+        pagination={horsesResult.pagination}
+      />
+
+      <Footer />
+    </>
+  )
+}
@@ -3,6 +3,12 @@ import { Inter } from 'next/font/google'
 import './globals.css'
 import { MotionProvider } from '@/components/providers/MotionProvider'
 import { LenisProvider } from '@/components/providers/lenis-provider'
+import { CartProvider } from '@/components/providers/CartProvider'
+import { CartDrawer } from '@/components/shop/cart-drawer'
+import { SessionProvider } from '@/components/providers/SessionProvider'
+import { FavoritesProvider } from '@/components/providers/FavoritesProvider'
+import { CompareProvider } from '@/components/providers/CompareProvider'
+import { CompareTray } from '@/components/horses/compare-tray'
 
 // Import font configurations
 const inter = Inter({
@@ -114,7 +120,17 @@ export default function RootLayout({
       <body className={inter.variable}>
         <MotionProvider>
           <LenisProvider>
-            {children}
+            <SessionProvider>
+              <FavoritesProvider>
+                <CompareProvider>
+                  <CartProvider>
+                    {children}
+                    <CartDrawer />
+                    <CompareTray />
+                  </CartProvider>
+                </CompareProvider>
+              </FavoritesProvider>
+            </SessionProvider>
           </LenisProvider>
         </MotionProvider>
       </body>
@@ -0,0 +1,65 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { getMediaStorage } from '@/lib/media'
+import { getMediaContentType, isMediaKey } from '@/lib/media/media'
+
+/**
+ * First and last byte of a single `Range: bytes=...` request, or null when
+ * it can't be satisfied
+ */
+function parseRange(header: string, size: number): { start: number; end: number } | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim())
+  if (!match || (!match[1] && !match[2])) return null
+
+  // `bytes=-500` asks for the last 500 bytes
+  const start = match[1] ? Number(match[1]) : Math.max(size - Number(match[2]), 0)
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1
+  return start <= end && start < size ? { start, end } : null
+}
+
+/**
+ * GET /media/:id/:file
+ *
+ * Serves an uploaded image's original or variants, and video renditions and
+ * tracks. Files never change once written, so browsers and CDNs may cache
+ * them forever. Byte ranges are honoured so videos can stream and seek.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  const key = (await params).key.join('/')
+  if (!isMediaKey(key)) {
+    return new NextResponse('Not found', { status: 404 })
+  }
+
+  const storage = await getMediaStorage()
+  const data = await storage.get(key)
+  if (!data) {
+    return new NextResponse('Not found', { status: 404 })
+  }
+
+  const headers = {
+    'Content-Type': getMediaContentType(key),
+    'Cache-Control': 'public, max-age=31536000, immutable',
+    'X-Content-Type-Options': 'nosniff',
+    'Accept-Ranges': 'bytes',
+  }
+
+  const rangeHeader = request.headers.get('range')
+  if (!rangeHeader) {
+    return new NextResponse(new Uint8Array(data), { headers })
+  }
+
+  const range = parseRange(rangeHeader, data.byteLength)
+  if (!range) {
+    return new NextResponse(null, {
+      status: 416,
+      headers: { ...headers, 'Content-Range': `bytes */${data.byteLength}` },
+    })
+  }
+
+  return new NextResponse(new Uint8Array(data.subarray(range.start, range.end + 1)), {
+    status: 206,
+    headers: { ...headers, 'Content-Range': `bytes ${range.start}-${range.end}/${data.byteLength}` },
+  })
+}
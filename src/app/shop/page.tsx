@@ -0,0 +1,40 @@
+import type { Metadata } from 'next'
+import { Header, PageHeader } from '@/components/layout/Header'
+import { Footer } from '@/components/layout/Footer'
+import { ProductShowcaseView } from '@/components/views/product-showcase-view'
+import { productAPI } from '@/lib/api/data-fetching'
+
+export const metadata: Metadata = {
+  title: 'Shop',
+  description: 'Premium equestrian equipment, apparel and care products from MAM Center.',
+}
+
+/**
+ * Shop page
+ */
+export default async function ShopPage() {
+  const result = await productAPI.getAll()
+
+  if (!result.data) {
+    throw new Error(result.error || 'Failed to load products')
+  }
+
+  return (
+    <>
+      <Header />
+
+      <PageHeader
+        title="Shop"
+        description="Equipment and apparel chosen by our riders."
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'Shop' },
+        ]}
+      />
+
+      <ProductShowcaseView products={result.data} />
+
+      <Footer />
+    </>
+  )
+}
@@ -0,0 +1,70 @@
+import type { Metadata } from 'next'
+import { Header, PageHeader } from '@/components/layout/Header'
+import { Footer } from '@/components/layout/Footer'
+import { ShortlistView } from '@/components/views/shortlist-view'
+import { breedingAPI, horseAPI, productAPI } from '@/lib/api/data-fetching'
+import { SHARE_PARAM, decodeShareParam } from '@/lib/favorites/favorites'
+import {
+  horseToShortlistItem,
+  indexShortlistItems,
+  productToShortlistItem,
+  stallionToShortlistItem,
+} from '@/lib/favorites/shortlist-items'
+import type { SearchParamsRecord } from '@/lib/horses/filter-params'
+
+export const metadata: Metadata = {
+  title: 'Shortlist',
+  description: 'Horses, stallions and products you have saved at MAM Center.',
+  robots: { index: false },
+}
+
+interface ShortlistPageProps {
+  searchParams: Promise<SearchParamsRecord>
+}
+
+/**
+ * Shortlist page
+ *
+ * The shortlist itself lives in the browser (and on the server for signed-in
+ * users), so the page sends summaries of every saveable record and the view
+ * picks out the saved ones.
+ */
+export default async function ShortlistPage({ searchParams }: ShortlistPageProps) {
+  const shareParam = (await searchParams)[SHARE_PARAM]
+  const shared = decodeShareParam(Array.isArray(shareParam) ? shareParam[0] : shareParam)
+
+  const [horsesResult, stallionsResult, productsResult] = await Promise.all([
+    horseAPI.getAll({ includeSold: true }),
+    breedingAPI.getStallions(),
+    productAPI.getAll(),
+  ])
+
+  if (!horsesResult.data || !stallionsResult.data || !productsResult.data) {
+    throw new Error(horsesResult.error || stallionsResult.error || productsResult.error || 'Failed to load shortlist')
+  }
+
+  const items = indexShortlistItems([
+    ...horsesResult.data.map(horseToShortlistItem),
+    ...stallionsResult.data.map(stallionToShortlistItem),
+    ...productsResult.data.map(productToShortlistItem),
+  ])
+
+  return (
+    <>
+      <Header />
+
+      <PageHeader
+        title={shared.length > 0 ? 'Shared Shortlist' : 'Your Shortlist'}
+        description="Horses, stallions and products saved for later."
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'Shortlist' },
+        ]}
+      />
+
+      <ShortlistView items={items} shared={shared} />
+
+      <Footer />
+    </>
+  )
+}
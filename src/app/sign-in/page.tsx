@@ -0,0 +1,42 @@
+import type { Metadata } from 'next'
+import { Header, PageHeader } from '@/components/layout/Header'
+import { Footer } from '@/components/layout/Footer'
+import { SignInView } from '@/components/views/sign-in-view'
+import { getSafeRedirect } from '@/lib/auth/users'
+import type { SearchParamsRecord } from '@/lib/horses/filter-params'
+
+export const metadata: Metadata = {
+  title: 'Sign In',
+  description: 'Sign in to MAM Center to keep your shortlist and saved searches across devices.',
+  robots: { index: false },
+}
+
+interface SignInPageProps {
+  searchParams: Promise<SearchParamsRecord>
+}
+
+/**
+ * Sign in page
+ */
+export default async function SignInPage({ searchParams }: SignInPageProps) {
+  const { next } = await searchParams
+
+  return (
+    <>
+      <Header />
+
+      <PageHeader
+        title="Sign In"
+        description="Keep your shortlist, saved searches and enquiries in one place."
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'Sign In' },
+        ]}
+      />
+
+      <SignInView next={getSafeRedirect(Array.isArray(next) ? next[0] : next)} />
+
+      <Footer />
+    </>
+  )
+}
@@ -0,0 +1,41 @@
+import type { Metadata } from 'next'
+import { Header, PageHeader } from '@/components/layout/Header'
+import { Footer } from '@/components/layout/Footer'
+import { SignInView } from '@/components/views/sign-in-view'
+import type { SearchParamsRecord } from '@/lib/horses/filter-params'
+
+export const metadata: Metadata = {
+  title: 'Sign In',
+  robots: { index: false },
+  // Keep the token out of Referer headers sent to other sites
+  referrer: 'no-referrer',
+}
+
+interface VerifySignInPageProps {
+  searchParams: Promise<SearchParamsRecord>
+}
+
+/**
+ * Landing page for magic links from the sign-in email
+ */
+export default async function VerifySignInPage({ searchParams }: VerifySignInPageProps) {
+  const { token } = await searchParams
+
+  return (
+    <>
+      <Header />
+
+      <PageHeader
+        title="Sign In"
+        breadcrumbs={[
+          { label: 'Home', href: '/' },
+          { label: 'Sign In' },
+        ]}
+      />
+
+      <SignInView token={(Array.isArray(token) ? token[0] : token) || undefined} />
+
+      <Footer />
+    </>
+  )
+}
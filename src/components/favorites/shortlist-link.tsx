@@ -0,0 +1,33 @@
+'use client'
+
+import React from 'react'
+import Link from 'next/link'
+import { Heart } from 'lucide-react'
+import { useFavorites } from '@/components/providers/FavoritesProvider'
+import { cn } from '@/lib/utils'
+
+/**
+ * Header link to the shortlist page showing the number of saved records
+ */
+export function ShortlistLink({ className }: { className?: string }) {
+  const { count } = useFavorites()
+
+  return (
+    <Link
+      href="/shortlist"
+      className={cn(
+        'relative p-2 rounded-lg text-white/80 hover:text-white transition-colors',
+        'focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-gold',
+        className
+      )}
+      aria-label={`Shortlist (${count} saved)`}
+    >
+      <Heart className="h-6 w-6" />
+      {count > 0 && (
+        <span className="absolute -top-0.5 -right-0.5 min-w-5 h-5 px-1 rounded-full bg-gold text-midnight text-xs font-bold flex items-center justify-center">
+          {count}
+        </span>
+      )}
+    </Link>
+  )
+}
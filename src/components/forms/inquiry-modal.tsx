@@ -0,0 +1,313 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { X, Send, CheckCircle } from 'lucide-react'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Heading, Paragraph, Label, Caption } from '@/components/ui/Typography'
+import { inquiryAPI } from '@/lib/api/http-client'
+import {
+  HONEYPOT_FIELD,
+  PREFERRED_CONTACT_OPTIONS,
+  type InquiryField,
+  type InquirySubject,
+  type PreferredContact,
+} from '@/lib/inquiries/lead'
+import type { FieldErrors } from '@/lib/validation'
+import { cn } from '@/lib/utils'
+
+/**
+ * Props for InquiryModal
+ */
+export interface InquiryModalProps {
+  /** Whether the modal is visible */
+  isOpen: boolean
+  /** Close handler */
+  onClose: () => void
+  /** Horse or stallion the inquiry is about */
+  subject?: InquirySubject
+  /** Message the form starts with */
+  initialMessage?: string
+  /** Heading override */
+  title?: string
+}
+
+interface FormState {
+  name: string
+  email: string
+  phone: string
+  preferredContact: PreferredContact
+  message: string
+  [HONEYPOT_FIELD]: string
+}
+
+const inputClassName =
+  'w-full px-4 py-2 bg-midnight/50 border border-gold/20 rounded-lg text-white placeholder:text-gold/30 focus:outline-none focus:ring-2 focus:ring-gold/50'
+
+function createFormState(initialMessage = ''): FormState {
+  return {
+    name: '',
+    email: '',
+    phone: '',
+    preferredContact: 'email',
+    message: initialMessage,
+    [HONEYPOT_FIELD]: '',
+  }
+}
+
+/**
+ * Inline field error
+ */
+function FieldError({ id, message }: { id: string; message?: string }) {
+  if (!message) return null
+
+  return (
+    <Caption id={id} className="mt-1 block text-red-400" role="alert">
+      {message}
+    </Caption>
+  )
+}
+
+/**
+ * Inquiry Modal
+ *
+ * Contact form for horse and stallion inquiries. Submits through
+ * `inquiryAPI.submit`, shows server-side field errors inline, and
+ * includes a hidden honeypot field for spam protection.
+ *
+ * @example
+ * ```tsx
+ * <InquiryModal
+ *   isOpen={isOpen}
+ *   onClose={() => setIsOpen(false)}
+ *   subject={{ type: 'horse', id: horse.id, name: horse.name }}
+ * />
+ * ```
+ */
+export function InquiryModal({
+  isOpen,
+  onClose,
+  subject,
+  initialMessage,
+  title,
+}: InquiryModalProps) {
+  const [form, setForm] = useState<FormState>(() => createFormState(initialMessage))
+  const [errors, setErrors] = useState<FieldErrors<InquiryField>>({})
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isSubmitted, setIsSubmitted] = useState(false)
+
+  // Start fresh each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return
+
+    setForm(createFormState(initialMessage))
+    setErrors({})
+    setFormError(null)
+    setIsSubmitted(false)
+  }, [isOpen, initialMessage])
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, onClose])
+
+  if (!isOpen) return null
+
+  const update = <K extends keyof FormState>(key: K, value: FormState[K]) => {
+    setForm((current) => ({ ...current, [key]: value }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setFormError(null)
+
+    const result = await inquiryAPI.submit({
+      name: form.name,
+      email: form.email,
+      phone: form.phone || undefined,
+      preferredContact: form.preferredContact,
+      message: form.message,
+      subject,
+      website: form[HONEYPOT_FIELD],
+    })
+
+    setIsSubmitting(false)
+
+    if (result.status < 300) {
+      setIsSubmitted(true)
+      return
+    }
+
+    setErrors(result.errors ?? {})
+    setFormError(result.error || 'Something went wrong. Please try again.')
+  }
+
+  const fieldProps = (field: InquiryField) => ({
+    id: `inquiry-${field}`,
+    'aria-invalid': errors[field] ? true : undefined,
+    'aria-describedby': errors[field] ? `inquiry-${field}-error` : undefined,
+  })
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 overflow-y-auto"
+      onClick={onClose}
+    >
+      <GlassPanel
+        variant="elevated"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="inquiry-title"
+        className="w-full max-w-lg p-6 md:p-8 my-8"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-0 right-0 p-2 rounded-full bg-gold/10 hover:bg-gold/20 transition-colors"
+          aria-label="Close inquiry form"
+        >
+          <X className="h-5 w-5 text-gold" />
+        </button>
+
+        {isSubmitted ? (
+          <div className="text-center py-8">
+            <CheckCircle className="h-12 w-12 text-gold mx-auto mb-4" />
+            <Heading level={3} id="inquiry-title" className="mb-2">
+              Thank you
+            </Heading>
+            <Paragraph className="mb-6">
+              We&apos;ve received your inquiry and sent a confirmation to your email.
+              A member of our team will be in touch shortly.
+            </Paragraph>
+            <GlassButton variant="outline" onClick={onClose}>
+              Close
+            </GlassButton>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} noValidate>
+            <Heading level={3} id="inquiry-title" className="mb-1 pr-10">
+              {title ?? (subject ? `Inquire about ${subject.name}` : 'Send an Inquiry')}
+            </Heading>
+            <Paragraph size="sm" className="mb-6">
+              Tell us a little about yourself and we&apos;ll get back to you.
+            </Paragraph>
+
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="inquiry-name" required className="mb-2 block">Name</Label>
+                <input
+                  {...fieldProps('name')}
+                  type="text"
+                  autoComplete="name"
+                  value={form.name}
+                  onChange={(e) => update('name', e.target.value)}
+                  className={inputClassName}
+                />
+                <FieldError id="inquiry-name-error" message={errors.name} />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="inquiry-email" required className="mb-2 block">Email</Label>
+                  <input
+                    {...fieldProps('email')}
+                    type="email"
+                    autoComplete="email"
+                    value={form.email}
+                    onChange={(e) => update('email', e.target.value)}
+                    className={inputClassName}
+                  />
+                  <FieldError id="inquiry-email-error" message={errors.email} />
+                </div>
+                <div>
+                  <Label htmlFor="inquiry-phone" className="mb-2 block">Phone</Label>
+                  <input
+                    {...fieldProps('phone')}
+                    type="tel"
+                    autoComplete="tel"
+                    value={form.phone}
+                    onChange={(e) => update('phone', e.target.value)}
+                    className={inputClassName}
+                  />
+                  <FieldError id="inquiry-phone-error" message={errors.phone} />
+                </div>
+              </div>
+
+              <fieldset>
+                <legend className="mb-2 text-sm font-medium text-white/90">Preferred Contact</legend>
+                <div className="flex gap-2">
+                  {PREFERRED_CONTACT_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => update('preferredContact', option.value)}
+                      aria-pressed={form.preferredContact === option.value}
+                      className={cn(
+                        'px-3 py-1 rounded-full text-sm transition-colors',
+                        form.preferredContact === option.value
+                          ? 'bg-gold text-midnight'
+                          : 'bg-gold/10 text-gold hover:bg-gold/20'
+                      )}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </fieldset>
+
+              <div>
+                <Label htmlFor="inquiry-message" required className="mb-2 block">Message</Label>
+                <textarea
+                  {...fieldProps('message')}
+                  rows={5}
+                  value={form.message}
+                  onChange={(e) => update('message', e.target.value)}
+                  className={cn(inputClassName, 'resize-y')}
+                />
+                <FieldError id="inquiry-message-error" message={errors.message} />
+              </div>
+
+              {/* Honeypot: hidden from people and assistive tech, tempting to bots */}
+              <div className="absolute -left-[9999px] w-px h-px overflow-hidden" aria-hidden="true">
+                <label htmlFor={`inquiry-${HONEYPOT_FIELD}`}>Website</label>
+                <input
+                  id={`inquiry-${HONEYPOT_FIELD}`}
+                  type="text"
+                  tabIndex={-1}
+                  autoComplete="off"
+                  value={form[HONEYPOT_FIELD]}
+                  onChange={(e) => update(HONEYPOT_FIELD, e.target.value)}
+                />
+              </div>
+
+              {formError && (
+                <Paragraph size="sm" className="text-red-400" role="alert">
+                  {formError}
+                </Paragraph>
+              )}
+
+              <GlassButton
+                type="submit"
+                variant="primary"
+                className="w-full"
+                isLoading={isSubmitting}
+                rightIcon={<Send className="h-4 w-4" />}
+              >
+                Send Inquiry
+              </GlassButton>
+            </div>
+          </form>
+        )}
+      </GlassPanel>
+    </div>
+  )
+}
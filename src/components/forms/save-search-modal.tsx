@@ -0,0 +1,201 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { X, Bell, CheckCircle } from 'lucide-react'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Heading, Paragraph, Label, Caption } from '@/components/ui/Typography'
+import type { FilterOptions } from '@/components/sections/horse-portfolio'
+import { savedSearchAPI } from '@/lib/api/http-client'
+import { describeFilters, type SavedSearchField } from '@/lib/alerts/saved-search'
+import type { FieldErrors } from '@/lib/validation'
+
+/**
+ * Props for SaveSearchModal
+ */
+export interface SaveSearchModalProps {
+  /** Filters being saved; the modal is hidden when null */
+  filters: FilterOptions | null
+  /** Close handler */
+  onClose: () => void
+}
+
+const inputClassName =
+  'w-full px-4 py-2 bg-midnight/50 border border-gold/20 rounded-lg text-white placeholder:text-gold/30 focus:outline-none focus:ring-2 focus:ring-gold/50'
+
+/**
+ * Inline field error
+ */
+function FieldError({ id, message }: { id: string; message?: string }) {
+  if (!message) return null
+
+  return (
+    <Caption id={id} className="mt-1 block text-red-400" role="alert">
+      {message}
+    </Caption>
+  )
+}
+
+/**
+ * Save Search Modal
+ *
+ * Names the current horse filters and subscribes an email address to
+ * alerts when a matching horse is listed or reduced in price.
+ *
+ * @example
+ * ```tsx
+ * <SaveSearchModal filters={filtersToSave} onClose={() => setFiltersToSave(null)} />
+ * ```
+ */
+export function SaveSearchModal({ filters, onClose }: SaveSearchModalProps) {
+  const [name, setName] = useState('')
+  const [email, setEmail] = useState('')
+  const [errors, setErrors] = useState<FieldErrors<SavedSearchField>>({})
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isSaved, setIsSaved] = useState(false)
+
+  const isOpen = filters !== null
+  const summary = filters ? describeFilters(filters) : ''
+
+  // Start fresh each time the modal opens, suggesting a name from the filters
+  useEffect(() => {
+    if (!isOpen) return
+
+    setName(summary === 'All horses' ? '' : summary)
+    setErrors({})
+    setFormError(null)
+    setIsSaved(false)
+  }, [isOpen, summary])
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, onClose])
+
+  if (!filters) return null
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setFormError(null)
+
+    const result = await savedSearchAPI.create({ name, email, filters })
+
+    setIsSubmitting(false)
+
+    if (result.status < 300) {
+      setIsSaved(true)
+      return
+    }
+
+    setErrors(result.errors ?? {})
+    setFormError(result.error || 'Something went wrong. Please try again.')
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 overflow-y-auto"
+      onClick={onClose}
+    >
+      <GlassPanel
+        variant="elevated"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="save-search-title"
+        className="w-full max-w-md p-6 md:p-8 my-8"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-0 right-0 p-2 rounded-full bg-gold/10 hover:bg-gold/20 transition-colors"
+          aria-label="Close save search form"
+        >
+          <X className="h-5 w-5 text-gold" />
+        </button>
+
+        {isSaved ? (
+          <div className="text-center py-8">
+            <CheckCircle className="h-12 w-12 text-gold mx-auto mb-4" />
+            <Heading level={3} id="save-search-title" className="mb-2">
+              Search saved
+            </Heading>
+            <Paragraph className="mb-6">
+              We&apos;ll email {email} when a matching horse is listed or reduced in price.
+            </Paragraph>
+            <GlassButton variant="outline" onClick={onClose}>
+              Close
+            </GlassButton>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} noValidate>
+            <Heading level={3} id="save-search-title" className="mb-1 pr-10">
+              Save this search
+            </Heading>
+            <Paragraph size="sm" className="mb-6">
+              Get an email when a horse matching <span className="text-gold">{summary}</span> is
+              listed or reduced in price.
+            </Paragraph>
+
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="save-search-name" required className="mb-2 block">Name</Label>
+                <input
+                  id="save-search-name"
+                  type="text"
+                  value={name}
+                  placeholder="e.g. Young dressage prospects"
+                  onChange={(e) => setName(e.target.value)}
+                  aria-invalid={errors.name ? true : undefined}
+                  aria-describedby={errors.name ? 'save-search-name-error' : undefined}
+                  className={inputClassName}
+                />
+                <FieldError id="save-search-name-error" message={errors.name} />
+              </div>
+
+              <div>
+                <Label htmlFor="save-search-email" required className="mb-2 block">Email</Label>
+                <input
+                  id="save-search-email"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  aria-invalid={errors.email ? true : undefined}
+                  aria-describedby={errors.email ? 'save-search-email-error' : undefined}
+                  className={inputClassName}
+                />
+                <FieldError id="save-search-email-error" message={errors.email} />
+              </div>
+
+              <FieldError id="save-search-filters-error" message={errors.filters} />
+
+              {formError && (
+                <Paragraph size="sm" className="text-red-400" role="alert">
+                  {formError}
+                </Paragraph>
+              )}
+
+              <GlassButton
+                type="submit"
+                variant="primary"
+                className="w-full"
+                isLoading={isSubmitting}
+                rightIcon={<Bell className="h-4 w-4" />}
+              >
+                Create Alert
+              </GlassButton>
+            </div>
+          </form>
+        )}
+      </GlassPanel>
+    </div>
+  )
+}
@@ -0,0 +1,371 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { X, CalendarCheck, CheckCircle } from 'lucide-react'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Heading, Paragraph, Label, Caption, Text } from '@/components/ui/Typography'
+import type { Stallion } from '@/components/sections/breeding-program'
+import { breedingAPI } from '@/lib/api/http-client'
+import {
+  BREEDING_METHODS,
+  getBookingSeason,
+  type BookingField,
+  type BreedingMethod,
+  type SeasonAvailability,
+} from '@/lib/breeding/booking'
+import type { FieldErrors } from '@/lib/validation'
+import { cn } from '@/lib/utils'
+
+/**
+ * Props for StudBookingModal
+ */
+export interface StudBookingModalProps {
+  /** Stallion being booked; the modal is hidden when null */
+  stallion: Stallion | null
+  /** Close handler */
+  onClose: () => void
+}
+
+interface FormState {
+  season: number
+  mareName: string
+  mareBreed: string
+  mareAge: string
+  registrationNumber: string
+  ownerName: string
+  ownerEmail: string
+  ownerPhone: string
+  method: BreedingMethod
+  preferredFrom: string
+  preferredTo: string
+  notes: string
+}
+
+const inputClassName =
+  'w-full px-4 py-2 bg-midnight/50 border border-gold/20 rounded-lg text-white placeholder:text-gold/30 focus:outline-none focus:ring-2 focus:ring-gold/50'
+
+function createFormState(season: number): FormState {
+  return {
+    season,
+    mareName: '',
+    mareBreed: '',
+    mareAge: '',
+    registrationNumber: '',
+    ownerName: '',
+    ownerEmail: '',
+    ownerPhone: '',
+    method: 'natural_cover',
+    preferredFrom: '',
+    preferredTo: '',
+    notes: '',
+  }
+}
+
+/**
+ * Labelled text input with an inline error
+ */
+function Field({
+  field,
+  label,
+  required,
+  error,
+  children,
+}: {
+  field: string
+  label: string
+  required?: boolean
+  error?: string
+  children: React.ReactNode
+}) {
+  return (
+    <div>
+      <Label htmlFor={`booking-${field}`} required={required} className="mb-2 block">{label}</Label>
+      {children}
+      {error && (
+        <Caption id={`booking-${field}-error`} className="mt-1 block text-red-400" role="alert">
+          {error}
+        </Caption>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Stud Booking Modal
+ *
+ * Booking request form for a stallion: season, mare details, breeding
+ * method and preferred dates. Shows the remaining places per season and
+ * submits through `breedingAPI.requestBooking`.
+ *
+ * @example
+ * ```tsx
+ * <StudBookingModal stallion={selected} onClose={() => setSelected(null)} />
+ * ```
+ */
+export function StudBookingModal({ stallion, onClose }: StudBookingModalProps) {
+  const currentSeason = getBookingSeason()
+  const [form, setForm] = useState<FormState>(() => createFormState(currentSeason))
+  const [availability, setAvailability] = useState<SeasonAvailability[]>([])
+  const [errors, setErrors] = useState<FieldErrors<BookingField>>({})
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isSubmitted, setIsSubmitted] = useState(false)
+
+  // Reset and load live availability whenever a stallion is chosen
+  useEffect(() => {
+    if (!stallion) return
+
+    let cancelled = false
+    setForm(createFormState(currentSeason))
+    setErrors({})
+    setFormError(null)
+    setIsSubmitted(false)
+    setAvailability([])
+
+    breedingAPI.getAvailability(stallion.id).then((result) => {
+      if (cancelled || !result.data) return
+
+      const open = result.data.filter((entry) => entry.season >= currentSeason)
+      setAvailability(open)
+      // Default to the first season with places left
+      const firstOpen = open.find((entry) => entry.remaining > 0)
+      if (firstOpen) setForm((current) => ({ ...current, season: firstOpen.season }))
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [stallion, currentSeason])
+
+  // Close on Escape
+  useEffect(() => {
+    if (!stallion) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [stallion, onClose])
+
+  if (!stallion) return null
+
+  const selectedSeason = availability.find((entry) => entry.season === form.season)
+  const isFull = selectedSeason ? selectedSeason.remaining <= 0 : false
+
+  const update = <K extends keyof FormState>(key: K, value: FormState[K]) => {
+    setForm((current) => ({ ...current, [key]: value }))
+  }
+
+  const inputProps = (field: BookingField) => ({
+    id: `booking-${field}`,
+    'aria-invalid': errors[field] ? true : undefined,
+    'aria-describedby': errors[field] ? `booking-${field}-error` : undefined,
+  })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setFormError(null)
+
+    const result = await breedingAPI.requestBooking({
+      stallionId: stallion.id,
+      season: form.season,
+      mare: {
+        name: form.mareName,
+        breed: form.mareBreed,
+        age: Number(form.mareAge),
+        registrationNumber: form.registrationNumber || undefined,
+      },
+      owner: {
+        name: form.ownerName,
+        email: form.ownerEmail,
+        phone: form.ownerPhone || undefined,
+      },
+      method: form.method,
+      preferredDates: { from: form.preferredFrom, to: form.preferredTo },
+      notes: form.notes || undefined,
+    })
+
+    setIsSubmitting(false)
+
+    if (result.status < 300) {
+      setIsSubmitted(true)
+      return
+    }
+
+    setErrors(result.errors ?? {})
+    setFormError(result.error || 'Something went wrong. Please try again.')
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-start justify-center p-4 overflow-y-auto"
+      onClick={onClose}
+    >
+      <GlassPanel
+        variant="elevated"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="booking-title"
+        className="w-full max-w-2xl p-6 md:p-8 my-8"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-0 right-0 p-2 rounded-full bg-gold/10 hover:bg-gold/20 transition-colors"
+          aria-label="Close booking form"
+        >
+          <X className="h-5 w-5 text-gold" />
+        </button>
+
+        {isSubmitted ? (
+          <div className="text-center py-8">
+            <CheckCircle className="h-12 w-12 text-gold mx-auto mb-4" />
+            <Heading level={3} id="booking-title" className="mb-2">
+              Request received
+            </Heading>
+            <Paragraph className="mb-6">
+              Your {form.season} booking request for {stallion.name} has been sent to our
+              breeding team. We&apos;ll confirm availability with you shortly.
+            </Paragraph>
+            <GlassButton variant="outline" onClick={onClose}>
+              Close
+            </GlassButton>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} noValidate>
+            <Heading level={3} id="booking-title" className="mb-1 pr-10">
+              Book {stallion.name}
+            </Heading>
+            <Paragraph size="sm" className="mb-6">
+              Stud fee ${stallion.studFee.toLocaleString()} • {stallion.breed}
+            </Paragraph>
+
+            <div className="space-y-6">
+              {/* Season */}
+              <fieldset>
+                <legend className="mb-2 text-sm font-medium text-white/90">Season</legend>
+                <div className="flex flex-wrap gap-2">
+                  {availability.map((entry) => (
+                    <button
+                      key={entry.season}
+                      type="button"
+                      disabled={entry.remaining <= 0}
+                      onClick={() => update('season', entry.season)}
+                      aria-pressed={form.season === entry.season}
+                      className={cn(
+                        'px-4 py-2 rounded-lg text-sm transition-colors text-left',
+                        form.season === entry.season
+                          ? 'bg-gold text-midnight'
+                          : 'bg-gold/10 text-gold hover:bg-gold/20',
+                        entry.remaining <= 0 && 'opacity-50 cursor-not-allowed'
+                      )}
+                    >
+                      <span className="block font-semibold">{entry.season}</span>
+                      <span className="block text-xs">
+                        {entry.remaining > 0 ? `${entry.remaining} of ${entry.capacity} places left` : 'Fully booked'}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+                {errors.season && (
+                  <Caption className="mt-1 block text-red-400" role="alert">{errors.season}</Caption>
+                )}
+              </fieldset>
+
+              {/* Mare */}
+              <div>
+                <Text className="mb-3 font-semibold text-gold">Your Mare</Text>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <Field field="mareName" label="Name" required error={errors.mareName}>
+                    <input {...inputProps('mareName')} type="text" value={form.mareName} onChange={(e) => update('mareName', e.target.value)} className={inputClassName} />
+                  </Field>
+                  <Field field="mareBreed" label="Breed" required error={errors.mareBreed}>
+                    <input {...inputProps('mareBreed')} type="text" value={form.mareBreed} onChange={(e) => update('mareBreed', e.target.value)} className={inputClassName} />
+                  </Field>
+                  <Field field="mareAge" label="Age" required error={errors.mareAge}>
+                    <input {...inputProps('mareAge')} type="number" min={2} max={30} value={form.mareAge} onChange={(e) => update('mareAge', e.target.value)} className={inputClassName} />
+                  </Field>
+                  <Field field="registrationNumber" label="Registration Number">
+                    <input id="booking-registrationNumber" type="text" value={form.registrationNumber} onChange={(e) => update('registrationNumber', e.target.value)} className={inputClassName} />
+                  </Field>
+                </div>
+              </div>
+
+              {/* Method and dates */}
+              <div>
+                <Text className="mb-3 font-semibold text-gold">Breeding</Text>
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {BREEDING_METHODS.map((method) => (
+                    <button
+                      key={method.value}
+                      type="button"
+                      onClick={() => update('method', method.value)}
+                      aria-pressed={form.method === method.value}
+                      className={cn(
+                        'px-3 py-1 rounded-full text-sm transition-colors',
+                        form.method === method.value
+                          ? 'bg-gold text-midnight'
+                          : 'bg-gold/10 text-gold hover:bg-gold/20'
+                      )}
+                    >
+                      {method.label}
+                    </button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <Field field="preferredFrom" label="Preferred From" required error={errors.preferredFrom}>
+                    <input {...inputProps('preferredFrom')} type="date" value={form.preferredFrom} onChange={(e) => update('preferredFrom', e.target.value)} className={inputClassName} />
+                  </Field>
+                  <Field field="preferredTo" label="Preferred To" required error={errors.preferredTo}>
+                    <input {...inputProps('preferredTo')} type="date" value={form.preferredTo} onChange={(e) => update('preferredTo', e.target.value)} className={inputClassName} />
+                  </Field>
+                </div>
+              </div>
+
+              {/* Owner */}
+              <div>
+                <Text className="mb-3 font-semibold text-gold">Your Details</Text>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <Field field="ownerName" label="Name" required error={errors.ownerName}>
+                    <input {...inputProps('ownerName')} type="text" autoComplete="name" value={form.ownerName} onChange={(e) => update('ownerName', e.target.value)} className={inputClassName} />
+                  </Field>
+                  <Field field="ownerEmail" label="Email" required error={errors.ownerEmail}>
+                    <input {...inputProps('ownerEmail')} type="email" autoComplete="email" value={form.ownerEmail} onChange={(e) => update('ownerEmail', e.target.value)} className={inputClassName} />
+                  </Field>
+                  <Field field="ownerPhone" label="Phone" error={errors.ownerPhone}>
+                    <input {...inputProps('ownerPhone')} type="tel" autoComplete="tel" value={form.ownerPhone} onChange={(e) => update('ownerPhone', e.target.value)} className={inputClassName} />
+                  </Field>
+                </div>
+              </div>
+
+              <Field field="notes" label="Notes">
+                <textarea id="booking-notes" rows={3} value={form.notes} onChange={(e) => update('notes', e.target.value)} className={cn(inputClassName, 'resize-y')} />
+              </Field>
+
+              {formError && (
+                <Paragraph size="sm" className="text-red-400" role="alert">
+                  {formError}
+                </Paragraph>
+              )}
+
+              <GlassButton
+                type="submit"
+                variant="primary"
+                className="w-full"
+                isLoading={isSubmitting}
+                disabled={isFull}
+                leftIcon={<CalendarCheck className="h-4 w-4" />}
+              >
+                {isFull ? 'Fully Booked' : 'Request Booking'}
+              </GlassButton>
+            </div>
+          </form>
+        )}
+      </GlassPanel>
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+'use client'
+
+import React from 'react'
+import Link from 'next/link'
+import { usePathname } from 'next/navigation'
+import { X, Columns3 } from 'lucide-react'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Caption, Text } from '@/components/ui/Typography'
+import { useCompare } from '@/components/providers/CompareProvider'
+import { MAX_COMPARE, getCompareHref } from '@/lib/horses/compare'
+
+/**
+ * Compare Tray
+ *
+ * Bar pinned to the bottom of the viewport listing the horses picked for
+ * comparison, with a link to the comparison view. Rendered once in the root
+ * layout; hidden while empty and on the comparison page itself.
+ */
+export function CompareTray() {
+  const pathname = usePathname()
+  const { items, removeItem, clear } = useCompare()
+
+  if (items.length === 0 || pathname.startsWith('/horses/compare')) return null
+
+  return (
+    <aside
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-3xl rounded-2xl bg-midnight/95 backdrop-blur-xl border border-gold/20 shadow-2xl p-4"
+      aria-label="Horses to compare"
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <ul className="flex flex-1 gap-3 overflow-x-auto">
+          {items.map((item) => (
+            <li key={item.id} className="flex items-center gap-2 rounded-lg bg-gold/5 border border-gold/10 pr-2 flex-shrink-0">
+              {item.image && <img src={item.image} alt="" className="h-10 w-10 rounded-l-lg object-cover" />}
+              <Text size="sm" className="max-w-32 truncate">{item.name}</Text>
+              <button
+                onClick={() => removeItem(item.id)}
+                className="p-1 rounded text-white/50 hover:text-white transition-colors"
+                aria-label={`Remove ${item.name} from comparison`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+          {items.length < MAX_COMPARE && (
+            <li className="flex items-center flex-shrink-0">
+              <Caption className="text-gold/60">
+                Add up to {MAX_COMPARE - items.length} more
+              </Caption>
+            </li>
+          )}
+        </ul>
+
+        <div className="flex items-center gap-2">
+          <GlassButton variant="ghost" size="small" onClick={clear}>
+            Clear
+          </GlassButton>
+          {items.length > 1 ? (
+            <Link href={getCompareHref(items.map((item) => item.id))}>
+              <GlassButton variant="primary" size="small" leftIcon={<Columns3 className="h-4 w-4" />}>
+                Compare ({items.length})
+              </GlassButton>
+            </Link>
+          ) : (
+            <GlassButton variant="primary" size="small" leftIcon={<Columns3 className="h-4 w-4" />} disabled>
+              Compare ({items.length})
+            </GlassButton>
+          )}
+        </div>
+      </div>
+    </aside>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useEffect, useCallback } from 'react'
+import React, { useState, useEffect, useCallback, useRef } from 'react'
 import { GlassPanel } from '@/components/ui/GlassPanel'
 import { ViewportAnimator } from '@/components/motion/MotionWrapper'
 import { Text } from '@/components/ui/Typography'
@@ -341,40 +341,86 @@ export function Skeleton({
 
 /**
  * Image with blur-up loading technique
+ *
+ * With a `placeholder` (e.g. a media library asset's), the tiny blurred
+ * image shows behind the real one until it loads; without one the image
+ * fades in from a blur. `sources` render a `<picture>` so browsers pick the
+ * best format and width; spread a `ResponsiveImage` to fill them all.
  */
 export function BlurUpImage({
   src,
   alt,
   className,
   style,
+  placeholder,
+  sources,
+  sizes,
+  width,
+  height,
 }: {
   src: string
   alt: string
   className?: string
   style?: React.CSSProperties
+  /** Data URL shown while the image loads */
+  placeholder?: string
+  /** `<source>` candidates, best format first */
+  sources?: { type: string; srcSet: string }[]
+  /** `sizes` for the sources, e.g. `(min-width: 768px) 33vw, 100vw` */
+  sizes?: string
+  /** Intrinsic dimensions, to reserve space before loading */
+  width?: number
+  height?: number
 }) {
-  const [isLoaded, setIsLoaded] = useState(false)
-  const [currentSrc, setCurrentSrc] = useState(src)
+  // Tracks the loaded URL so a new src (e.g. in a gallery) blurs up again
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null)
+  const isLoaded = loadedSrc === src
+  const imageRef = useRef<HTMLImageElement>(null)
 
-  return (
+  // Images that finished before hydration never fire onLoad
+  useEffect(() => {
+    if (imageRef.current?.complete) setLoadedSrc(src)
+  }, [src])
+
+  const image = (
     <img
-      src={currentSrc}
+      ref={imageRef}
+      src={src}
       alt={alt}
+      width={width}
+      height={height}
+      decoding="async"
       className={cn(
         'transition-opacity duration-500',
-        !isLoaded && 'opacity-0',
+        !isLoaded && !placeholder && 'opacity-0',
         className
       )}
       style={{
-        filter: isLoaded ? 'none' : 'blur(20px)',
+        filter: isLoaded || placeholder ? 'none' : 'blur(20px)',
+        ...(placeholder && !isLoaded && {
+          backgroundImage: `url("${placeholder}")`,
+          backgroundSize: 'cover',
+          backgroundPosition: 'center',
+        }),
         ...style,
       }}
-      onLoad={() => setIsLoaded(true)}
+      onLoad={() => setLoadedSrc(src)}
       onError={() => {
         // Fallback or error handling
       }}
     />
   )
+
+  if (!sources?.length) return image
+
+  return (
+    <picture className="contents">
+      {sources.map((source) => (
+        <source key={source.type} type={source.type} srcSet={source.srcSet} sizes={sizes} />
+      ))}
+      {image}
+    </picture>
+  )
 }
 
 /**
@@ -2,13 +2,18 @@
 
 import React, { useState, useEffect, useRef } from 'react'
 import Link from 'next/link'
-import { usePathname } from 'next/navigation'
+import { usePathname, useRouter } from 'next/navigation'
 import * as NavigationMenu from '@radix-ui/react-navigation-menu'
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu'
 import { cn } from '@/lib/utils'
-import { ChevronDown, Menu, X } from 'lucide-react'
+import { ChevronDown, LayoutDashboard, LogOut, Menu, UserRound, X } from 'lucide-react'
 import { GlassButton } from '@/components/ui/GlassButton'
 import { useMotion } from '@/components/providers/MotionProvider'
+import { CartButton } from '@/components/shop/cart-drawer'
+import { ShortlistLink } from '@/components/favorites/shortlist-link'
+import { useSession } from '@/components/providers/SessionProvider'
+import { canManageContent } from '@/lib/admin/content'
+import { getDisplayName } from '@/lib/auth/users'
 
 // ============================================================================
 // NAVIGATION LINKS
@@ -32,10 +37,12 @@ const DEFAULT_NAV_LINKS: NavLink[] = [
       { href: '/for-sale/horses', label: 'Horses' },
       { href: '/for-sale/mares', label: 'Mares' },
       { href: '/for-sale/stallions', label: 'Stallions' },
+      { href: '/for-sale/geldings', label: 'Geldings' },
       { href: '/for-sale/foals', label: 'Foals' },
     ],
   },
   { href: '/breeding', label: 'Breeding Program' },
+  { href: '/shop', label: 'Shop' },
   { href: '/about', label: 'About' },
   { href: '/contact', label: 'Contact' },
 ]
@@ -165,10 +172,121 @@ function DropdownMenuSubmenu({ link, pathname }: { link: NavLink; pathname: stri
   )
 }
 
+// ============================================================================
+// ACCOUNT MENU
+// ============================================================================
+
+/**
+ * Sign out, leaving pages that need an account
+ */
+function useSignOut() {
+  const { signOut } = useSession()
+  const pathname = usePathname()
+  const router = useRouter()
+
+  return async () => {
+    await signOut()
+    if (pathname.startsWith('/account') || pathname.startsWith('/admin')) {
+      router.push('/')
+    } else {
+      router.refresh()
+    }
+  }
+}
+
+function AccountMenu() {
+  const { user, status } = useSession()
+  const pathname = usePathname()
+  const handleSignOut = useSignOut()
+
+  // Hold the space until the session check answers so the bar doesn't jump
+  if (status === 'loading') {
+    return <span className="h-9 w-9" aria-hidden="true" />
+  }
+
+  if (!user) {
+    return (
+      <Link
+        href={`/sign-in?next=${encodeURIComponent(pathname)}`}
+        className={cn(
+          'p-2 rounded-lg text-white/80 hover:text-white',
+          'focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-gold',
+          'transition-colors duration-200'
+        )}
+        aria-label="Sign in"
+      >
+        <UserRound className="h-5 w-5" />
+      </Link>
+    )
+  }
+
+  const itemClassName = cn(
+    'flex items-center gap-2 px-3 py-2 text-sm rounded-md cursor-pointer outline-none',
+    'transition-colors duration-150',
+    'text-white/80 hover:bg-white/5 hover:text-white data-[highlighted]:bg-white/5 data-[highlighted]:text-white'
+  )
+
+  return (
+    <DropdownMenu.Root>
+      <DropdownMenu.Trigger asChild>
+        <button
+          className={cn(
+            'flex h-9 w-9 items-center justify-center rounded-full bg-gold/20 text-sm font-semibold text-gold',
+            'focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-gold',
+            'hover:bg-gold/30 transition-colors duration-200'
+          )}
+          aria-label={`Account menu for ${getDisplayName(user)}`}
+        >
+          {getDisplayName(user).charAt(0).toUpperCase()}
+        </button>
+      </DropdownMenu.Trigger>
+
+      <DropdownMenu.Portal>
+        <DropdownMenu.Content
+          align="end"
+          sideOffset={8}
+          className="z-50 min-w-[220px] rounded-lg border border-white/10 bg-midnight/95 backdrop-blur-xl p-1 shadow-xl"
+        >
+          <DropdownMenu.Label className="px-3 py-2">
+            <span className="block text-sm font-medium text-white truncate">{getDisplayName(user)}</span>
+            {user.name && <span className="block text-xs text-white/50 truncate">{user.email}</span>}
+          </DropdownMenu.Label>
+          <DropdownMenu.Separator className="my-1 h-px bg-white/10" />
+          <DropdownMenu.Item asChild>
+            <Link href="/account" className={itemClassName}>
+              <UserRound className="h-4 w-4" />
+              My Account
+            </Link>
+          </DropdownMenu.Item>
+          {canManageContent(user) && (
+            <DropdownMenu.Item asChild>
+              <Link href="/admin" className={itemClassName}>
+                <LayoutDashboard className="h-4 w-4" />
+                Back Office
+              </Link>
+            </DropdownMenu.Item>
+          )}
+          <DropdownMenu.Separator className="my-1 h-px bg-white/10" />
+          <DropdownMenu.Item className={itemClassName} onSelect={handleSignOut}>
+            <LogOut className="h-4 w-4" />
+            Sign Out
+          </DropdownMenu.Item>
+        </DropdownMenu.Content>
+      </DropdownMenu.Portal>
+    </DropdownMenu.Root>
+  )
+}
+
 // ============================================================================
 // MOBILE NAVIGATION
 // ============================================================================
 
+const mobileAccountClassName = cn(
+  'flex items-center gap-2 px-4 py-3 rounded-lg text-sm font-medium transition-colors duration-150',
+  'focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-gold',
+  'text-white/80 hover:bg-white/5 hover:text-white'
+)
+
 interface MobileNavProps {
   links?: NavLink[]
   isOpen: boolean
@@ -178,6 +296,8 @@ interface MobileNavProps {
 function MobileNav({ links = DEFAULT_NAV_LINKS, isOpen, onClose }: MobileNavProps) {
   const pathname = usePathname()
   const { shouldReduceMotion } = useMotion()
+  const { user, status } = useSession()
+  const handleSignOut = useSignOut()
   const navRef = useRef<HTMLDivElement>(null)
 
   // Close route when clicking a link
@@ -315,6 +435,49 @@ function MobileNav({ links = DEFAULT_NAV_LINKS, isOpen, onClose }: MobileNavProp
               ))}
             </ul>
           </nav>
+
+          {/* Account */}
+          {status !== 'loading' && (
+            <div className="p-4 border-t border-white/10 space-y-1">
+              {user ? (
+                <>
+                  <p className="px-4 pb-2 text-xs text-white/50 truncate">
+                    Signed in as {getDisplayName(user)}
+                  </p>
+                  <Link href="/account" onClick={handleLinkClick} className={mobileAccountClassName}>
+                    <UserRound className="h-4 w-4" />
+                    My Account
+                  </Link>
+                  {canManageContent(user) && (
+                    <Link href="/admin" onClick={handleLinkClick} className={mobileAccountClassName}>
+                      <LayoutDashboard className="h-4 w-4" />
+                      Back Office
+                    </Link>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => {
+                      onClose()
+                      handleSignOut()
+                    }}
+                    className={cn(mobileAccountClassName, 'w-full')}
+                  >
+                    <LogOut className="h-4 w-4" />
+                    Sign Out
+                  </button>
+                </>
+              ) : (
+                <Link
+                  href={`/sign-in?next=${encodeURIComponent(pathname)}`}
+                  onClick={handleLinkClick}
+                  className={mobileAccountClassName}
+                >
+                  <UserRound className="h-4 w-4" />
+                  Sign In
+                </Link>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </>
@@ -464,7 +627,10 @@ export function Navigation({
           <DesktopNav links={links} />
 
           {/* Desktop CTA */}
-          <div className="hidden lg:block">
+          <div className="hidden lg:flex items-center gap-3">
+            <ShortlistLink />
+            <CartButton />
+            <AccountMenu />
             <Link href={ctaHref}>
               <GlassButton variant="primary" size="small">
                 {ctaText}
@@ -472,24 +638,28 @@ export function Navigation({
             </Link>
           </div>
 
-          {/* Mobile Menu Button */}
-          <button
-            onClick={() => setMobileOpen(!mobileOpen)}
-            className={cn(
-              'lg:hidden p-2 rounded-lg text-white/80 hover:text-white',
-              'focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-gold',
-              'transition-colors duration-200'
-            )}
-            aria-expanded={mobileOpen}
-            aria-controls="mobile-menu"
-            aria-label={mobileOpen ? 'Close menu' : 'Open menu'}
-          >
-            {mobileOpen ? (
-              <X className="h-6 w-6" />
-            ) : (
-              <Menu className="h-6 w-6" />
-            )}
-          </button>
+          {/* Mobile Cart and Menu Buttons */}
+          <div className="lg:hidden flex items-center gap-1">
+            <ShortlistLink />
+            <CartButton />
+            <button
+              onClick={() => setMobileOpen(!mobileOpen)}
+              className={cn(
+                'p-2 rounded-lg text-white/80 hover:text-white',
+                'focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-gold',
+                'transition-colors duration-200'
+              )}
+              aria-expanded={mobileOpen}
+              aria-controls="mobile-menu"
+              aria-label={mobileOpen ? 'Close menu' : 'Open menu'}
+            >
+              {mobileOpen ? (
+                <X className="h-6 w-6" />
+              ) : (
+                <Menu className="h-6 w-6" />
+              )}
+            </button>
+          </div>
         </div>
       </div>
 
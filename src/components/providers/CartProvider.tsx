@@ -0,0 +1,151 @@
+'use client'
+
+import React, { createContext, useContext, useEffect, useState, useCallback, useMemo } from 'react'
+import type { Product } from '@/components/sections/product-showcase'
+import {
+  addCartItem,
+  getCartItemCount,
+  getCartTotals,
+  parseStoredCart,
+  removeCartItem,
+  updateCartItemQuantity,
+  type CartItem,
+  type CartTotals,
+  type ProductVariant,
+} from '@/lib/shop/cart'
+
+/**
+ * localStorage key holding cart lines
+ */
+const STORAGE_KEY = 'mam-cart'
+
+/**
+ * Cart context interface
+ */
+interface CartContextValue {
+  /** Cart lines in the order they were added */
+  items: CartItem[]
+  /** Total units across all lines */
+  itemCount: number
+  /** Display totals */
+  totals: CartTotals
+  /** Whether the cart drawer is open */
+  isOpen: boolean
+  /** Add a product variant; out-of-stock products are ignored */
+  addItem: (product: Product, variant?: ProductVariant, quantity?: number) => void
+  /** Set a line's quantity; zero removes it */
+  updateQuantity: (key: string, quantity: number) => void
+  /** Remove a line */
+  removeItem: (key: string) => void
+  /** Empty the cart */
+  clear: () => void
+  openCart: () => void
+  closeCart: () => void
+}
+
+/**
+ * Cart context shared by product views, the cart drawer and checkout
+ */
+const CartContext = createContext<CartContextValue | undefined>(undefined)
+
+/**
+ * Props for the CartProvider component
+ */
+export interface CartProviderProps {
+  /** Child components that will have access to the cart */
+  children: React.ReactNode
+}
+
+/**
+ * Cart Provider Component
+ *
+ * Holds the shopping cart and persists it to localStorage so it survives
+ * reloads. Changes made in other tabs are picked up through the storage event.
+ *
+ * @example
+ * ```tsx
+ * <CartProvider>
+ *   <App />
+ * </CartProvider>
+ * ```
+ */
+export function CartProvider({ children }: CartProviderProps) {
+  const [items, setItems] = useState<CartItem[]>([])
+  const [isHydrated, setIsHydrated] = useState(false)
+  const [isOpen, setIsOpen] = useState(false)
+
+  // Restore the saved cart after mount so server and client render the same markup
+  useEffect(() => {
+    setItems(parseStoredCart(window.localStorage.getItem(STORAGE_KEY)))
+    setIsHydrated(true)
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) setItems(parseStoredCart(event.newValue))
+    }
+
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [])
+
+  // Persist every change once the saved cart has been restored
+  useEffect(() => {
+    if (!isHydrated) return
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(items))
+  }, [items, isHydrated])
+
+  const addItem = useCallback((product: Product, variant?: ProductVariant, quantity?: number) => {
+    setItems((current) => addCartItem(current, product, variant, quantity))
+  }, [])
+
+  const updateQuantity = useCallback((key: string, quantity: number) => {
+    setItems((current) => updateCartItemQuantity(current, key, quantity))
+  }, [])
+
+  const removeItem = useCallback((key: string) => {
+    setItems((current) => removeCartItem(current, key))
+  }, [])
+
+  const clear = useCallback(() => setItems([]), [])
+  const openCart = useCallback(() => setIsOpen(true), [])
+  const closeCart = useCallback(() => setIsOpen(false), [])
+
+  const contextValue = useMemo<CartContextValue>(() => ({
+    items,
+    itemCount: getCartItemCount(items),
+    totals: getCartTotals(items),
+    isOpen,
+    addItem,
+    updateQuantity,
+    removeItem,
+    clear,
+    openCart,
+    closeCart,
+  }), [items, isOpen, addItem, updateQuantity, removeItem, clear, openCart, closeCart])
+
+  return (
+    <CartContext.Provider value={contextValue}>
+      {children}
+    </CartContext.Provider>
+  )
+}
+
+/**
+ * Hook to access the cart
+ *
+ * @throws Error if used outside of CartProvider
+ * @returns Cart context value
+ *
+ * @example
+ * ```tsx
+ * const { addItem, openCart } = useCart()
+ * ```
+ */
+export function useCart(): CartContextValue {
+  const context = useContext(CartContext)
+
+  if (context === undefined) {
+    throw new Error('useCart must be used within a CartProvider')
+  }
+
+  return context
+}
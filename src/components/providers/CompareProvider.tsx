@@ -0,0 +1,138 @@
+'use client'
+
+import React, { createContext, useContext, useEffect, useState, useCallback, useMemo } from 'react'
+import { MAX_COMPARE, parseStoredCompareItems, type CompareItem } from '@/lib/horses/compare'
+
+/**
+ * localStorage key holding the compare tray
+ */
+const STORAGE_KEY = 'mam-compare'
+
+/**
+ * Compare context interface
+ */
+interface CompareContextValue {
+  /** Horses in the tray, in the order they were added */
+  items: CompareItem[]
+  /** Whether the tray holds the maximum number of horses */
+  isFull: boolean
+  isComparing: (id: string) => boolean
+  /** Add a horse; ignored when the tray is full */
+  addItem: (item: CompareItem) => void
+  removeItem: (id: string) => void
+  /** Add a horse if missing, or remove it if present */
+  toggleItem: (item: CompareItem) => void
+  clear: () => void
+}
+
+/**
+ * Compare context shared by horse listings, detail pages and the compare tray
+ */
+const CompareContext = createContext<CompareContextValue | undefined>(undefined)
+
+/**
+ * Props for the CompareProvider component
+ */
+export interface CompareProviderProps {
+  /** Child components that will have access to the compare tray */
+  children: React.ReactNode
+}
+
+/**
+ * Compare Provider Component
+ *
+ * Holds up to `MAX_COMPARE` horses picked for side-by-side comparison and
+ * persists them to localStorage.
+ *
+ * @example
+ * ```tsx
+ * <CompareProvider>
+ *   <App />
+ * </CompareProvider>
+ * ```
+ */
+export function CompareProvider({ children }: CompareProviderProps) {
+  const [items, setItems] = useState<CompareItem[]>([])
+  const [isHydrated, setIsHydrated] = useState(false)
+
+  // Restore the saved tray after mount so server and client render the same markup
+  useEffect(() => {
+    setItems(parseStoredCompareItems(window.localStorage.getItem(STORAGE_KEY)))
+    setIsHydrated(true)
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) setItems(parseStoredCompareItems(event.newValue))
+    }
+
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [])
+
+  // Persist every change once the saved tray has been restored
+  useEffect(() => {
+    if (!isHydrated) return
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(items))
+  }, [items, isHydrated])
+
+  const isComparing = useCallback((id: string) => items.some((item) => item.id === id), [items])
+
+  const addItem = useCallback((item: CompareItem) => {
+    setItems((current) =>
+      current.length >= MAX_COMPARE || current.some((existing) => existing.id === item.id)
+        ? current
+        : [...current, { id: item.id, name: item.name, image: item.image }]
+    )
+  }, [])
+
+  const removeItem = useCallback((id: string) => {
+    setItems((current) => current.filter((item) => item.id !== id))
+  }, [])
+
+  const toggleItem = useCallback((item: CompareItem) => {
+    setItems((current) => {
+      if (current.some((existing) => existing.id === item.id)) {
+        return current.filter((existing) => existing.id !== item.id)
+      }
+      return current.length >= MAX_COMPARE ? current : [...current, { id: item.id, name: item.name, image: item.image }]
+    })
+  }, [])
+
+  const clear = useCallback(() => setItems([]), [])
+
+  const contextValue = useMemo<CompareContextValue>(() => ({
+    items,
+    isFull: items.length >= MAX_COMPARE,
+    isComparing,
+    addItem,
+    removeItem,
+    toggleItem,
+    clear,
+  }), [items, isComparing, addItem, removeItem, toggleItem, clear])
+
+  return (
+    <CompareContext.Provider value={contextValue}>
+      {children}
+    </CompareContext.Provider>
+  )
+}
+
+/**
+ * Hook to access the compare tray
+ *
+ * @throws Error if used outside of CompareProvider
+ * @returns Compare context value
+ *
+ * @example
+ * ```tsx
+ * const { toggleItem, isComparing } = useCompare()
+ * ```
+ */
+export function useCompare(): CompareContextValue {
+  const context = useContext(CompareContext)
+
+  if (context === undefined) {
+    throw new Error('useCompare must be used within a CompareProvider')
+  }
+
+  return context
+}
@@ -0,0 +1,175 @@
+'use client'
+
+import React, { createContext, useContext, useEffect, useRef, useState, useCallback, useMemo } from 'react'
+import { favoritesAPI } from '@/lib/api/http-client'
+import { useSession } from './SessionProvider'
+import {
+  hasFavorite,
+  mergeFavorites,
+  parseStoredFavorites,
+  removeFavorite,
+  toggleFavorite,
+  type Favorite,
+  type FavoriteRef,
+} from '@/lib/favorites/favorites'
+
+/**
+ * localStorage key holding the shortlist
+ */
+const STORAGE_KEY = 'mam-favorites'
+
+/**
+ * Favorites context interface
+ */
+interface FavoritesContextValue {
+  /** Shortlisted records, oldest first */
+  favorites: Favorite[]
+  /** Number of shortlisted records */
+  count: number
+  /** Whether the shortlist is stored on the server as well as in this browser */
+  isSynced: boolean
+  isFavorite: (ref: FavoriteRef) => boolean
+  /** Add a record if missing, or remove it if present */
+  toggleFavorite: (ref: FavoriteRef) => void
+  removeFavorite: (ref: FavoriteRef) => void
+  /** Add several records at once, e.g. from a shared shortlist */
+  addFavorites: (refs: FavoriteRef[]) => void
+}
+
+/**
+ * Favorites context shared by detail views, listings and the shortlist page
+ */
+const FavoritesContext = createContext<FavoritesContextValue | undefined>(undefined)
+
+/**
+ * Props for the FavoritesProvider component
+ */
+export interface FavoritesProviderProps {
+  /** Child components that will have access to favorites */
+  children: React.ReactNode
+}
+
+/**
+ * Favorites Provider Component
+ *
+ * Keeps the shortlist in localStorage for every visitor. When a user is
+ * signed in, favorites saved in the browser are merged into their stored
+ * shortlist once, and later changes are written back to the server. Must be
+ * rendered inside SessionProvider.
+ *
+ * @example
+ * ```tsx
+ * <FavoritesProvider>
+ *   <App />
+ * </FavoritesProvider>
+ * ```
+ */
+export function FavoritesProvider({ children }: FavoritesProviderProps) {
+  const { user } = useSession()
+  const [favorites, setFavorites] = useState<Favorite[]>([])
+  const [isHydrated, setIsHydrated] = useState(false)
+  const [isSynced, setIsSynced] = useState(false)
+  // Last list the server confirmed, so echoes of it aren't written back
+  const lastSyncedRef = useRef<string | null>(null)
+  const userId = user?.id
+
+  // Restore the saved shortlist after mount so server and client render the same markup
+  useEffect(() => {
+    setFavorites(parseStoredFavorites(window.localStorage.getItem(STORAGE_KEY)))
+    setIsHydrated(true)
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) setFavorites(parseStoredFavorites(event.newValue))
+    }
+
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [])
+
+  // Carry anonymous favorites over to the signed-in user's stored shortlist
+  useEffect(() => {
+    setIsSynced(false)
+    lastSyncedRef.current = null
+    if (!isHydrated || !userId) return
+
+    let cancelled = false
+    const local = parseStoredFavorites(window.localStorage.getItem(STORAGE_KEY))
+
+    favoritesAPI.merge(local).then((result) => {
+      if (cancelled || !result.data) return
+
+      lastSyncedRef.current = JSON.stringify(result.data)
+      setFavorites((current) => mergeFavorites(result.data ?? [], current))
+      setIsSynced(true)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [isHydrated, userId])
+
+  // Persist every change once restored, and push it to the server when synced
+  useEffect(() => {
+    if (!isHydrated) return
+    const serialized = JSON.stringify(favorites)
+    window.localStorage.setItem(STORAGE_KEY, serialized)
+
+    if (!isSynced || serialized === lastSyncedRef.current) return
+    lastSyncedRef.current = serialized
+    favoritesAPI.replace(favorites).then((result) => {
+      if (result.error) console.error('Failed to sync shortlist', result.error)
+    })
+  }, [favorites, isHydrated, isSynced])
+
+  const isFavorite = useCallback((ref: FavoriteRef) => hasFavorite(favorites, ref), [favorites])
+
+  const toggle = useCallback((ref: FavoriteRef) => {
+    setFavorites((current) => toggleFavorite(current, ref))
+  }, [])
+
+  const remove = useCallback((ref: FavoriteRef) => {
+    setFavorites((current) => removeFavorite(current, ref))
+  }, [])
+
+  const addFavorites = useCallback((refs: FavoriteRef[]) => {
+    const addedAt = new Date().toISOString()
+    setFavorites((current) => mergeFavorites(current, refs.map((ref) => ({ type: ref.type, id: ref.id, addedAt }))))
+  }, [])
+
+  const contextValue = useMemo<FavoritesContextValue>(() => ({
+    favorites,
+    count: favorites.length,
+    isSynced,
+    isFavorite,
+    toggleFavorite: toggle,
+    removeFavorite: remove,
+    addFavorites,
+  }), [favorites, isSynced, isFavorite, toggle, remove, addFavorites])
+
+  return (
+    <FavoritesContext.Provider value={contextValue}>
+      {children}
+    </FavoritesContext.Provider>
+  )
+}
+
+/**
+ * Hook to access the shortlist
+ *
+ * @throws Error if used outside of FavoritesProvider
+ * @returns Favorites context value
+ *
+ * @example
+ * ```tsx
+ * const { isFavorite, toggleFavorite } = useFavorites()
+ * ```
+ */
+export function useFavorites(): FavoritesContextValue {
+  const context = useContext(FavoritesContext)
+
+  if (context === undefined) {
+    throw new Error('useFavorites must be used within a FavoritesProvider')
+  }
+
+  return context
+}
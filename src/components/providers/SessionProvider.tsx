@@ -0,0 +1,115 @@
+'use client'
+
+import React, { createContext, useContext, useEffect, useState, useCallback, useMemo } from 'react'
+import { authAPI } from '@/lib/api/http-client'
+import type { SessionUser } from '@/lib/auth/users'
+
+/**
+ * Where the session stands: `loading` until the first check answers
+ */
+export type SessionStatus = 'loading' | 'authenticated' | 'anonymous'
+
+/**
+ * Session context interface
+ */
+interface SessionContextValue {
+  /** Signed-in user, or null while loading and for anonymous visitors */
+  user: SessionUser | null
+  status: SessionStatus
+  /** Check the session again, e.g. after signing in */
+  refresh: () => Promise<void>
+  /** Adopt the user returned by a sign-in without another round trip */
+  setUser: (user: SessionUser | null) => void
+  signOut: () => Promise<void>
+}
+
+/**
+ * Session context shared by the navigation, account pages and providers
+ * that store data per user
+ */
+const SessionContext = createContext<SessionContextValue | undefined>(undefined)
+
+/**
+ * Props for the SessionProvider component
+ */
+export interface SessionProviderProps {
+  /** Child components that will have access to the session */
+  children: React.ReactNode
+}
+
+/**
+ * Session Provider Component
+ *
+ * Looks up the signed-in user from the browser after mount, so pages can
+ * stay static while the navigation still shows the right account menu.
+ *
+ * @example
+ * ```tsx
+ * <SessionProvider>
+ *   <App />
+ * </SessionProvider>
+ * ```
+ */
+export function SessionProvider({ children }: SessionProviderProps) {
+  const [user, setUserState] = useState<SessionUser | null>(null)
+  const [status, setStatus] = useState<SessionStatus>('loading')
+
+  const setUser = useCallback((next: SessionUser | null) => {
+    setUserState(next)
+    setStatus(next ? 'authenticated' : 'anonymous')
+  }, [])
+
+  const refresh = useCallback(async () => {
+    const result = await authAPI.getSession()
+    if (result.error) {
+      // Keep a known user through a failed check; otherwise treat the visitor as anonymous
+      setStatus((current) => (current === 'loading' ? 'anonymous' : current))
+      return
+    }
+    setUser(result.data)
+  }, [setUser])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const signOut = useCallback(async () => {
+    await authAPI.signOut()
+    setUser(null)
+  }, [setUser])
+
+  const contextValue = useMemo<SessionContextValue>(() => ({
+    user,
+    status,
+    refresh,
+    setUser,
+    signOut,
+  }), [user, status, refresh, setUser, signOut])
+
+  return (
+    <SessionContext.Provider value={contextValue}>
+      {children}
+    </SessionContext.Provider>
+  )
+}
+
+/**
+ * Hook to access the signed-in user
+ *
+ * @throws Error if used outside of SessionProvider
+ * @returns Session context value
+ *
+ * @example
+ * ```tsx
+ * const { user, status, signOut } = useSession()
+ * ```
+ */
+export function useSession(): SessionContextValue {
+  const context = useContext(SessionContext)
+
+  if (context === undefined) {
+    throw new Error('useSession must be used within a SessionProvider')
+  }
+
+  return context
+}
@@ -1,7 +1,8 @@
 'use client'
 
 import React, { useState } from 'react'
-import { Heart, Award, TrendingUp, Calendar, Info, Filter, ChevronDown } from 'lucide-react'
+import Link from 'next/link'
+import { Heart, Award, TrendingUp, Calendar, Info, Filter, ChevronDown, GitMerge } from 'lucide-react'
 import { GlassCard, GlassCardGrid } from '@/components/ui/GlassCard'
 import { GlassPanel } from '@/components/ui/GlassPanel'
 import { ScrollReveal } from '@/components/motion/scroll-reveal'
@@ -9,6 +10,11 @@ import { ViewportAnimator } from '@/components/motion/MotionWrapper'
 import { Display, Heading, Paragraph, Label, Caption, Text } from '@/components/ui/Typography'
 import { GlassButton } from '@/components/ui/GlassButton'
 import { cn } from '@/lib/utils'
+import type { StallionSeason, SeasonAvailability } from '@/lib/breeding/booking'
+import type { PedigreeNode } from '@/lib/pedigree/pedigree'
+import { formatGenotype, type CoatGenotype } from '@/lib/breeding/coat-color'
+import { formatResult, rankResults, type CompetitionResult } from '@/lib/horses/results'
+import type { ContentStatus } from '@/lib/admin/content'
 
 /**
  * Breeding stallion data
@@ -20,26 +26,38 @@ export interface Stallion {
   age: number
   height: string
   color: string
+  /** Coat color test results */
+  coatGenotype?: CoatGenotype
+  /** Stud book registration number */
+  registrationNumber?: string
   image: string
   images?: string[]
   studFee: number
   specialties: string[]
+  /** Legacy free-text achievements, shown when there are no structured results */
   achievements: string[]
+  /** Structured results newest first, filled in by the API */
+  results?: CompetitionResult[]
+  /** Ids that offspring results are recorded against */
   offspring?: string[]
   temperament?: string
   healthStatus?: string
   location?: string
+  /** Computed from the current season's remaining capacity; never stored */
   bookingStatus?: 'available' | 'limited' | 'fully_booked'
-  pedigree?: {
-    sire: string
-    dam: string
-    grandsire?: string
-  }
+  /** Capacity per breeding season */
+  seasons?: StallionSeason[]
+  /** Current season's capacity and bookings, filled in by the API */
+  availability?: SeasonAvailability
+  pedigree?: PedigreeNode
+  /** Computed by the API from offspring results once any are recorded */
   statistics?: {
     foalsBorn: number
     competitionWinners: number
     championOffspring: number
   }
+  /** Publishing state; absent means published */
+  status?: ContentStatus
 }
 
 /**
@@ -78,6 +96,9 @@ export interface BreedingProgramProps {
   onStallionClick?: (stallion: Stallion) => void
   onInquire?: (stallion: Stallion) => void
   onBookStud?: (stallion: Stallion) => void
+  onFavorite?: (stallion: Stallion) => void
+  /** Whether a stallion is on the visitor's shortlist */
+  isFavorite?: (stallion: Stallion) => boolean
   /** Additional class names */
   className?: string
 }
@@ -89,14 +110,23 @@ function StallionCard({
   stallion,
   onStallionClick,
   onInquire,
+  onBookStud,
+  onFavorite,
+  isFavorite = false,
   variant = 'showcase',
 }: {
   stallion: Stallion
   onStallionClick?: (stallion: Stallion) => void
   onInquire?: (stallion: Stallion) => void
+  onBookStud?: (stallion: Stallion) => void
+  onFavorite?: (stallion: Stallion) => void
+  isFavorite?: boolean
   variant?: 'showcase' | 'detailed' | 'minimal'
 }) {
   const [showDetails, setShowDetails] = useState(false)
+  const achievements = stallion.results && stallion.results.length > 0
+    ? rankResults(stallion.results).map(formatResult)
+    : stallion.achievements
 
   return (
     <GlassCard
@@ -105,16 +135,46 @@ function StallionCard({
       variant="elevated"
       onClick={() => onStallionClick?.(stallion)}
       action={
-        <GlassButton
-          variant="primary"
-          size="small"
-          onClick={(e) => {
-            e.stopPropagation()
-            onInquire?.(stallion)
-          }}
-        >
-          Inquire
-        </GlassButton>
+        <div className="flex gap-2">
+          {onFavorite && (
+            <GlassButton
+              variant="ghost"
+              size="small"
+              leftIcon={<Heart className={cn('h-4 w-4', isFavorite && 'fill-gold text-gold')} />}
+              onClick={(e) => {
+                e.stopPropagation()
+                onFavorite(stallion)
+              }}
+              aria-label={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+              aria-pressed={isFavorite}
+            >
+              <span className="sr-only">{isFavorite ? 'Remove from favorites' : 'Add to favorites'}</span>
+            </GlassButton>
+          )}
+          {onBookStud && (
+            <GlassButton
+              variant="primary"
+              size="small"
+              disabled={stallion.bookingStatus === 'fully_booked'}
+              onClick={(e) => {
+                e.stopPropagation()
+                onBookStud(stallion)
+              }}
+            >
+              Book
+            </GlassButton>
+          )}
+          <GlassButton
+            variant={onBookStud ? 'outline' : 'primary'}
+            size="small"
+            onClick={(e) => {
+              e.stopPropagation()
+              onInquire?.(stallion)
+            }}
+          >
+            Inquire
+          </GlassButton>
+        </div>
       }
     >
       {/* Image */}
@@ -130,6 +190,16 @@ function StallionCard({
       <div className="space-y-1 mb-4">
         <Text size="sm">Height: {stallion.height}</Text>
         <Text size="sm">Stud Fee: ${stallion.studFee.toLocaleString()}</Text>
+        {stallion.coatGenotype && (
+          <Text size="sm">Coat genetics: {formatGenotype(stallion.coatGenotype)}</Text>
+        )}
+        {stallion.availability && (
+          <Text size="sm" className="text-gold/80">
+            {stallion.availability.remaining > 0
+              ? `${stallion.availability.remaining} of ${stallion.availability.capacity} places left for ${stallion.availability.season}`
+              : `Fully booked for ${stallion.availability.season}`}
+          </Text>
+        )}
       </div>
       {/* Booking Status Badge */}
       {stallion.bookingStatus && (
@@ -198,11 +268,11 @@ function StallionCard({
               )}
 
               {/* Achievements */}
-              {stallion.achievements.length > 0 && (
+              {achievements.length > 0 && (
                 <div>
                   <Label className="mb-1">Top Achievements</Label>
                   <ul className="space-y-1">
-                    {stallion.achievements.slice(0, 3).map((achievement, index) => (
+                    {achievements.slice(0, 3).map((achievement, index) => (
                       <li key={index} className="flex items-start gap-2">
                         <Award className="h-3 w-3 text-gold flex-shrink-0 mt-0.5" />
                         <Text size="sm">{achievement}</Text>
@@ -211,6 +281,15 @@ function StallionCard({
                   </ul>
                 </div>
               )}
+
+              <Link
+                href={`/breeding/test-mating?stallion=${encodeURIComponent(stallion.id)}`}
+                onClick={(e) => e.stopPropagation()}
+                className="inline-flex items-center gap-2 text-sm text-gold hover:text-gold/80 transition-colors"
+              >
+                <GitMerge className="h-4 w-4" />
+                Try a test mating
+              </Link>
             </div>
           )}
         </div>
@@ -270,7 +349,8 @@ function ProcessTimeline({ steps }: { steps: ProcessStep[] }) {
  *   stallions={stallionsData}
  *   programInfo={breedingProgramData}
  *   variant="showcase"
- *   onInquire={(stallion) => openContactForm(stallion)}
+ *   onInquire={(stallion) => openInquiry(stallion)}
+ *   onBookStud={(stallion) => openBooking(stallion)}
  * />
  * ```
  */
@@ -281,6 +361,8 @@ export function BreedingProgram({
   onStallionClick,
   onInquire,
   onBookStud,
+  onFavorite,
+  isFavorite,
   className,
 }: BreedingProgramProps) {
   const [filterStatus, setFilterStatus] = useState<'all' | 'available' | 'limited'>('all')
@@ -413,6 +495,9 @@ export function BreedingProgram({
                 stallion={stallion}
                 onStallionClick={onStallionClick}
                 onInquire={onInquire}
+                onBookStud={onBookStud}
+                onFavorite={onFavorite}
+                isFavorite={isFavorite?.(stallion)}
                 variant={variant}
               />
             ))}
@@ -7,7 +7,10 @@ import { ScrollReveal } from '@/components/motion/scroll-reveal'
 import { ViewportAnimator } from '@/components/motion/MotionWrapper'
 import { Display, Heading, Paragraph, Caption, Label, Text } from '@/components/ui/Typography'
 import { GlassButton } from '@/components/ui/GlassButton'
+import { BlurUpImage } from '@/components/interactions/loading-overlay'
 import { cn } from '@/lib/utils'
+import type { ContentStatus } from '@/lib/admin/content'
+import type { ResponsiveImage } from '@/lib/media/types'
 
 /**
  * Article/Editorial content data
@@ -27,8 +30,14 @@ export interface Article {
   category?: string
   tags?: string[]
   image?: string
+  /** Media library asset the image comes from */
+  imageId?: string
+  /** Responsive image, filled in by the API from `imageId` */
+  photo?: ResponsiveImage
   featured?: boolean
   layout?: 'full-width' | 'split' | 'centered'
+  /** Publishing state; absent means published */
+  status?: ContentStatus
 }
 
 /**
@@ -66,9 +75,11 @@ function MagazineCard({ article, onClick }: { article: Article; onClick?: () =>
             'overflow-hidden',
             article.featured ? 'aspect-[21/9]' : 'aspect-[16/10] mb-4'
           )}>
-            <img
-              src={article.image}
+            <BlurUpImage
+              {...article.photo}
+              src={article.photo?.src ?? article.image}
               alt={article.title}
+              sizes={article.featured ? '100vw' : '(min-width: 768px) 33vw, 100vw'}
               className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-105"
             />
           </div>
@@ -0,0 +1,212 @@
+'use client'
+
+import React, { useState } from 'react'
+import { CalendarClock, FileText, Lock, ShieldAlert, ShieldCheck } from 'lucide-react'
+import { Heading, Paragraph, Caption, Text } from '@/components/ui/Typography'
+import { cn, formatDate } from '@/lib/utils'
+import {
+  getHealthRecordTypeLabel,
+  type HealthRecord,
+  type HealthRecordType,
+  type HorseHealth,
+} from '@/lib/horses/health'
+
+type HealthTab = 'overview' | 'vaccinations' | 'care' | 'exams'
+
+const HEALTH_TABS: { value: HealthTab; label: string; types: HealthRecordType[] }[] = [
+  { value: 'overview', label: 'Overview', types: [] },
+  { value: 'vaccinations', label: 'Vaccinations', types: ['vaccination'] },
+  { value: 'care', label: 'Farrier & Dental', types: ['farrier', 'dental'] },
+  { value: 'exams', label: 'Exams & Tests', types: ['pre_purchase_exam', 'xray', 'coggins', 'ehv_test', 'vet_visit'] },
+]
+
+/**
+ * Props for HealthRecords component
+ */
+export interface HealthRecordsProps {
+  health: HorseHealth
+  /** Used to label the tabs */
+  horseName: string
+  /** Additional class names */
+  className?: string
+}
+
+/**
+ * One record with its attachments and, for staff, private notes
+ */
+function HealthRecordItem({ record }: { record: HealthRecord }) {
+  return (
+    <li className="relative">
+      <span
+        className="absolute -left-[1.95rem] top-1.5 h-3 w-3 rounded-full border-2 border-midnight bg-gold/40"
+        aria-hidden="true"
+      />
+      <Caption className="block text-gold/70">
+        {formatDate(record.date)} · {getHealthRecordTypeLabel(record.type)}
+        {record.provider && ` · ${record.provider}`}
+      </Caption>
+      <div className="flex flex-wrap items-baseline justify-between gap-x-4">
+        <Text className="font-semibold">{record.title}</Text>
+        {record.outcome && <Text className="text-gold">{record.outcome}</Text>}
+      </div>
+      {record.summary && <Text size="sm" className="block">{record.summary}</Text>}
+      {record.nextDue && (
+        <Caption className="block text-gold/60">Next due {formatDate(record.nextDue)}</Caption>
+      )}
+      {record.attachments && record.attachments.length > 0 && (
+        <ul className="mt-2 flex flex-wrap gap-3">
+          {record.attachments.map((attachment) => (
+            <li key={attachment.url}>
+              <a
+                href={attachment.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-sm text-gold hover:text-gold/80"
+              >
+                <FileText className="h-4 w-4" />
+                {attachment.name}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+      {(record.privateNotes || record.visibility === 'staff') && (
+        <div className="mt-2 flex items-start gap-2 rounded-lg bg-gold/5 p-3">
+          <Lock className="h-4 w-4 text-gold/60 flex-shrink-0 mt-0.5" />
+          <Text size="sm">
+            {record.visibility === 'staff' && <span className="font-semibold">Staff only. </span>}
+            {record.privateNotes}
+          </Text>
+        </div>
+      )}
+    </li>
+  )
+}
+
+/**
+ * Coggins status, headline exams and anything falling due
+ */
+function HealthOverview({ health }: { health: HorseHealth }) {
+  const { latest } = health
+  const headline = [latest.pre_purchase_exam, latest.xray, latest.ehv_test].filter(
+    (record): record is HealthRecord => record !== undefined
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start gap-3">
+        {health.cogginsCurrent ? (
+          <ShieldCheck className="h-5 w-5 text-gold flex-shrink-0 mt-0.5" />
+        ) : (
+          <ShieldAlert className="h-5 w-5 text-gold/60 flex-shrink-0 mt-0.5" />
+        )}
+        <div>
+          <Text className="block font-semibold">
+            {health.cogginsCurrent ? 'Coggins test current' : 'No current Coggins test on file'}
+          </Text>
+          {latest.coggins && (
+            <Caption className="block text-gold/60">
+              {latest.coggins.outcome ?? 'Tested'} on {formatDate(latest.coggins.date)}
+            </Caption>
+          )}
+        </div>
+      </div>
+
+      {headline.length > 0 && (
+        <dl className="grid sm:grid-cols-3 gap-4">
+          {headline.map((record) => (
+            <div key={record.id}>
+              <dt><Caption className="text-gold/70">{getHealthRecordTypeLabel(record.type)}</Caption></dt>
+              <dd>
+                <Text className="block font-semibold">{record.outcome ?? record.title}</Text>
+                <Caption className="block text-gold/60">{formatDate(record.date)}</Caption>
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {health.dueSoon.length > 0 && (
+        <div>
+          <Heading level={6} className="mb-2">Coming up</Heading>
+          <ul className="space-y-2">
+            {health.dueSoon.map((record) => (
+              <li key={record.id} className="flex items-start gap-2">
+                <CalendarClock className="h-4 w-4 text-gold flex-shrink-0 mt-0.5" />
+                <Text size="sm">
+                  {getHealthRecordTypeLabel(record.type)}: {record.title}, due {formatDate(record.nextDue ?? '')}
+                </Text>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Health Records
+ *
+ * Tabbed view of a horse's vaccinations, farrier and dental visits, and
+ * exams and tests, with an overview of Coggins status and upcoming care.
+ */
+export function HealthRecords({ health, horseName, className }: HealthRecordsProps) {
+  const [activeTab, setActiveTab] = useState<HealthTab>('overview')
+  const active = HEALTH_TABS.find((tab) => tab.value === activeTab) ?? HEALTH_TABS[0]
+  const records = health.records.filter((record) => active.types.includes(record.type))
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key !== 'ArrowRight' && e.key !== 'ArrowLeft') return
+
+    const index = HEALTH_TABS.findIndex((tab) => tab.value === activeTab)
+    const step = e.key === 'ArrowRight' ? 1 : -1
+    const next = HEALTH_TABS[(index + step + HEALTH_TABS.length) % HEALTH_TABS.length]
+    setActiveTab(next.value)
+    document.getElementById(`health-tab-${next.value}`)?.focus()
+  }
+
+  return (
+    <div className={className}>
+      <div
+        role="tablist"
+        aria-label={`${horseName} health records`}
+        onKeyDown={handleKeyDown}
+        className="flex flex-wrap gap-2 mb-6"
+      >
+        {HEALTH_TABS.map((tab) => (
+          <button
+            key={tab.value}
+            id={`health-tab-${tab.value}`}
+            type="button"
+            role="tab"
+            aria-selected={activeTab === tab.value}
+            aria-controls="health-panel"
+            tabIndex={activeTab === tab.value ? 0 : -1}
+            onClick={() => setActiveTab(tab.value)}
+            className={cn(
+              'px-3 py-1 rounded-full text-sm transition-colors',
+              activeTab === tab.value ? 'bg-gold text-midnight' : 'bg-gold/10 text-gold hover:bg-gold/20'
+            )}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      <div id="health-panel" role="tabpanel" aria-labelledby={`health-tab-${activeTab}`}>
+        {activeTab === 'overview' ? (
+          <HealthOverview health={health} />
+        ) : records.length > 0 ? (
+          <ol className="space-y-5 border-l border-gold/20 pl-6">
+            {records.map((record) => (
+              <HealthRecordItem key={record.id} record={record} />
+            ))}
+          </ol>
+        ) : (
+          <Paragraph size="sm">No {active.label.toLowerCase()} records on file yet.</Paragraph>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,13 +1,16 @@
 'use client'
 
 import React, { useRef, useState, useEffect } from 'react'
-import { Play, Pause, ChevronDown } from 'lucide-react'
+import { Play, Pause, ChevronDown, Captions, CaptionsOff } from 'lucide-react'
 import { useMotion } from '@/components/providers/MotionProvider'
 import { GlassPanel } from '@/components/ui/GlassPanel'
 import { Display, Paragraph } from '@/components/ui/Typography'
 import { GlassButton } from '@/components/ui/GlassButton'
 import { ViewportAnimator } from '@/components/motion/MotionWrapper'
+import { BlurUpImage } from '@/components/interactions/loading-overlay'
 import { useLenisScroll } from '@/hooks/use-lenis'
+import { chooseVideoRendition, getVideoCodec, type VideoEntry, type VideoRendition } from '@/lib/media/video'
+import { cn } from '@/lib/utils'
 
 /**
  * Props for HeroSection component
@@ -23,12 +26,14 @@ export interface HeroSectionProps {
   ctaText?: string
   /** Secondary CTA text */
   ctaSecondary?: string
-  /** Video source URL */
+  /** Media library video; its poster shows until playback starts */
+  video?: VideoEntry
+  /** Plain MP4 URL, played when there's no `video` */
   videoSrc?: string
-  /** Fallback image URL */
-  imageSrc?: string
-  /** Video poster image */
+  /** Poster for `videoSrc` */
   posterSrc?: string
+  /** Background image when there's no video or poster */
+  imageSrc?: string
   /** Primary CTA click handler */
   onCtaClick?: () => void
   /** Secondary CTA click handler */
@@ -37,19 +42,44 @@ export interface HeroSectionProps {
   className?: string
 }
 
+/**
+ * A cue from the video's chapters track
+ */
+interface VideoChapter {
+  title: string
+  start: number
+}
+
+/**
+ * `navigator.connection`, which not every browser has
+ */
+type NetworkInformation = { saveData?: boolean; effectiveType?: string }
+
+function readChapters(track: TextTrack): VideoChapter[] {
+  return Array.from(track.cues ?? []).map((cue) => ({ title: (cue as VTTCue).text, start: cue.startTime }))
+}
+
 /**
  * Hero Section Component
  *
  * Full-viewport hero with video background, glassmorphic content panels,
- * progressive loading, and scroll indicator. Uses blur-up technique for video.
+ * progressive loading, and scroll indicator. The video rendition is chosen
+ * for the screen width and connection (none on Save-Data or 2G, where the
+ * poster stays); playback pauses off-screen and doesn't start by itself when
+ * reduced motion is on. Caption tracks get a toggle and chapter tracks a
+ * list of jump links. Without a library `video`, a plain `videoSrc` and
+ * `posterSrc` play as-is.
  *
  * @example
  * ```tsx
+ * const { data: video } = await videoAPI.getById(heroVideoId)
+ *
  * <HeroSection
  *   headline="Luxury Equestrian Excellence"
  *   subheadline="Welcome to MAM Center"
  *   description="Experience world-class equestrian facilities"
- *   videoSrc="/videos/hero.mp4"
+ *   video={video ?? undefined}
+ *   imageSrc="/images/hero.jpg"
  *   ctaText="Explore Our Services"
  * />
  * ```
@@ -60,121 +90,212 @@ export function HeroSection({
   description,
   ctaText = "Explore Our Services",
   ctaSecondary,
+  video,
   videoSrc,
-  imageSrc,
   posterSrc,
+  imageSrc,
   onCtaClick,
   onCtaSecondaryClick,
   className,
 }: HeroSectionProps) {
   const { shouldReduceMotion } = useMotion()
   const { scrollTo } = useLenisScroll()
+  // Chosen after mount, once the screen and connection are known
+  const [rendition, setRendition] = useState<VideoRendition | null>(null)
+  const [hasVideoError, setHasVideoError] = useState(false)
+  const [isInView, setIsInView] = useState(false)
+  // Set by the play button; overrides autoplay and reduced motion
+  const [userChoice, setUserChoice] = useState<'play' | 'pause' | null>(null)
   const [isVideoPlaying, setIsVideoPlaying] = useState(false)
   const [isVideoLoaded, setIsVideoLoaded] = useState(false)
-  const [canPlayVideo, setCanPlayVideo] = useState(false)
+  const [showCaptions, setShowCaptions] = useState(false)
+  const [chapters, setChapters] = useState<VideoChapter[]>([])
+  const [activeChapter, setActiveChapter] = useState<number | null>(null)
 
+  const sectionRef = useRef<HTMLElement>(null)
   const videoRef = useRef<HTMLVideoElement>(null)
 
+  const poster = video?.poster
+  const backgroundSrc = (!video && posterSrc) || imageSrc
+  // The chosen rendition, or the plain URL when there's no library video
+  const source = hasVideoError
+    ? null
+    : rendition
+      ? { url: rendition.url, type: getVideoCodec(rendition.codec).type }
+      : !video && videoSrc
+        ? { url: videoSrc, type: 'video/mp4' }
+        : null
+  const sourceUrl = source?.url
+  const captionTrack = video?.tracks.find((track) => track.kind === 'captions' || track.kind === 'subtitles')
+  const shouldPlay = isInView && (userChoice ? userChoice === 'play' : !shouldReduceMotion)
+
   // Scroll to next section
   const scrollDown = () => {
     scrollTo(window.innerHeight)
   }
 
-  // Handle video playback toggle
+  // Handle video playback toggle; called directly so blocked autoplay can be retried
   const toggleVideoPlayback = () => {
-    if (!videoRef.current) return
+    const element = videoRef.current
+    if (!element) return
 
     if (isVideoPlaying) {
-      videoRef.current.pause()
-      setIsVideoPlaying(false)
+      setUserChoice('pause')
+      element.pause()
     } else {
-      videoRef.current.play()
-      setIsVideoPlaying(true)
+      setUserChoice('play')
+      element.play().catch(() => {
+        // The browser refused; the button stays on play
+      })
     }
   }
 
-  // Auto-play video when in viewport
+  const jumpToChapter = (chapter: VideoChapter) => {
+    if (videoRef.current) videoRef.current.currentTime = chapter.start
+  }
+
+  // Pick the rendition for this screen and connection
   useEffect(() => {
-    if (shouldReduceMotion || !videoRef.current || !canPlayVideo) return
+    setHasVideoError(false)
+    if (!video) {
+      setRendition(null)
+      return
+    }
+
+    const connection = (navigator as Navigator & { connection?: NetworkInformation }).connection
+    const probe = document.createElement('video')
+    setRendition(
+      chooseVideoRendition(video.renditions, {
+        viewportWidth: window.innerWidth,
+        devicePixelRatio: window.devicePixelRatio,
+        saveData: connection?.saveData,
+        effectiveType: connection?.effectiveType,
+        canPlay: (type) => probe.canPlayType(type) !== '',
+      })
+    )
+  }, [video])
+
+  // Track whether the hero is on screen
+  useEffect(() => {
+    const section = sectionRef.current
+    if (!section || !sourceUrl) return
 
     const observer = new IntersectionObserver(
-      (entries) => {
-        entries.forEach((entry) => {
-          const video = videoRef.current
-          if (!video) return
-
-          if (entry.isIntersecting && !isVideoPlaying) {
-            video.play().catch(() => {
-              // Auto-play was prevented, that's okay
-            })
-          }
-        })
-      },
-      { threshold: 0.5 }
+      ([entry]) => setIsInView(entry.isIntersecting),
+      { threshold: 0.25 }
     )
+    observer.observe(section)
+
+    return () => observer.disconnect()
+  }, [sourceUrl])
+
+  // Play on screen, pause off screen or under reduced motion
+  useEffect(() => {
+    const element = videoRef.current
+    if (!element) return
 
-    const currentVideo = videoRef.current
-    if (currentVideo) {
-      observer.observe(currentVideo)
+    if (shouldPlay) {
+      element.play().catch(() => {
+        // Auto-play was prevented, that's okay
+      })
+    } else {
+      element.pause()
+    }
+  }, [shouldPlay, sourceUrl])
 
-      return () => {
-        if (currentVideo) {
-          observer.unobserve(currentVideo)
-        }
+  // Show or hide captions
+  useEffect(() => {
+    const element = videoRef.current
+    if (!element || !captionTrack) return
+
+    Array.from(element.textTracks).forEach((track) => {
+      if (track.kind === 'captions' || track.kind === 'subtitles') {
+        track.mode = showCaptions && track.label === captionTrack.label ? 'showing' : 'disabled'
       }
+    })
+  }, [showCaptions, captionTrack, sourceUrl])
+
+  // Load the chapter cues and follow the current chapter
+  useEffect(() => {
+    const element = videoRef.current?.querySelector<HTMLTrackElement>('track[kind="chapters"]')
+    if (!element) return
+
+    const track = element.track
+    const handleLoad = () => setChapters(readChapters(track))
+    const handleCueChange = () => {
+      const cue = track.activeCues?.[0]
+      setActiveChapter(cue ? readChapters(track).findIndex((chapter) => chapter.start === cue.startTime) : null)
     }
-  }, [shouldReduceMotion, canPlayVideo, isVideoPlaying])
+
+    // Hidden tracks load their cues without rendering them
+    track.mode = 'hidden'
+    if (element.readyState === HTMLTrackElement.LOADED) handleLoad()
+    element.addEventListener('load', handleLoad)
+    track.addEventListener('cuechange', handleCueChange)
+
+    return () => {
+      element.removeEventListener('load', handleLoad)
+      track.removeEventListener('cuechange', handleCueChange)
+    }
+  }, [sourceUrl])
 
   return (
     <section
+      ref={sectionRef}
       className={`relative min-h-screen flex items-center justify-center overflow-hidden ${className || ''}`}
     >
       {/* Video/Image Background */}
-      {videoSrc ? (
+      {poster || source || backgroundSrc ? (
         <div className="absolute inset-0 bg-midnight">
-          {/* Low-res blurred background for progressive loading */}
-          {!isVideoLoaded && imageSrc && (
+          {/* Poster, shown until the video can play and instead of it on slow connections */}
+          {poster ? (
+            <BlurUpImage
+              {...poster}
+              alt=""
+              sizes="100vw"
+              className="absolute inset-0 h-full w-full object-cover"
+            />
+          ) : backgroundSrc && (
             <div
-              className="absolute inset-0 bg-cover bg-center blur-2xl scale-110"
-              style={{ backgroundImage: `url(${imageSrc})` }}
+              className="absolute inset-0 bg-cover bg-center"
+              style={{ backgroundImage: `url(${backgroundSrc})` }}
             />
           )}
 
           {/* Main Video */}
-          <video
-            ref={videoRef}
-            className="absolute inset-0 w-full h-full object-cover"
-            autoPlay
-            muted
-            loop
-            playsInline
-            poster={posterSrc}
-            onCanPlay={() => {
-              setCanPlayVideo(true)
-              setIsVideoLoaded(true)
-            }}
-            onError={() => {
-              // Video failed to load, show image fallback
-              setIsVideoLoaded(false)
-              setCanPlayVideo(false)
-            }}
-          >
-            <source src={videoSrc} type="video/mp4" />
-          </video>
+          {source && (
+            <video
+              key={source.url}
+              ref={videoRef}
+              className={cn(
+                'absolute inset-0 w-full h-full object-cover transition-opacity duration-700',
+                isVideoLoaded ? 'opacity-100' : 'opacity-0'
+              )}
+              muted
+              loop
+              playsInline
+              preload={shouldReduceMotion ? 'none' : 'auto'}
+              aria-label={video?.title}
+              onCanPlay={() => setIsVideoLoaded(true)}
+              onPlay={() => setIsVideoPlaying(true)}
+              onPause={() => setIsVideoPlaying(false)}
+              onError={() => {
+                // Video failed to load, keep the poster
+                setHasVideoError(true)
+                setIsVideoLoaded(false)
+              }}
+            >
+              <source src={source.url} type={source.type} />
+              {video?.tracks.map((track) => (
+                <track key={track.id} kind={track.kind} label={track.label} srcLang={track.srcLang} src={track.url} />
+              ))}
+            </video>
+          )}
 
           {/* Dark overlay for readability */}
           <div className="absolute inset-0 bg-gradient-to-b from-midnight/80 via-midnight/60 to-midnight/80" />
           <div className="absolute inset-0 bg-midnight/40" />
         </div>
-      ) : imageSrc ? (
-        <div className="absolute inset-0 bg-midnight">
-          <div
-            className="absolute inset-0 bg-cover bg-center"
-            style={{ backgroundImage: `url(${imageSrc})` }}
-          />
-          <div className="absolute inset-0 bg-gradient-to-b from-midnight/80 via-midnight/60 to-midnight/80" />
-          <div className="absolute inset-0 bg-midnight/40" />
-        </div>
       ) : (
         <div className="absolute inset-0 bg-gradient-to-br from-midnight via-hunter to-midnight" />
       )}
@@ -225,26 +346,67 @@ export function HeroSection({
                   {ctaSecondary}
                 </GlassButton>
               )}
-
-              {/* Video control for accessibility */}
-              {videoSrc && (
-                <button
-                  onClick={toggleVideoPlayback}
-                  className="absolute top-4 right-4 p-2 rounded-full bg-gold/10 hover:bg-gold/20 transition-colors"
-                  aria-label={isVideoPlaying ? 'Pause video' : 'Play video'}
-                >
-                  {isVideoPlaying ? (
-                    <Pause className="h-5 w-5 text-gold" />
-                  ) : (
-                    <Play className="h-5 w-5 text-gold" />
-                  )}
-                </button>
-              )}
             </div>
           </ViewportAnimator>
         </div>
       </div>
 
+      {/* Video controls for accessibility */}
+      {source && (
+        <div className="absolute top-4 right-4 z-10 flex flex-col items-end gap-3">
+          <div className="flex gap-2">
+            {captionTrack && (
+              <button
+                onClick={() => setShowCaptions((show) => !show)}
+                className="p-2 rounded-full bg-gold/10 hover:bg-gold/20 transition-colors"
+                aria-label={showCaptions ? 'Hide captions' : 'Show captions'}
+                aria-pressed={showCaptions}
+              >
+                {showCaptions ? (
+                  <Captions className="h-5 w-5 text-gold" />
+                ) : (
+                  <CaptionsOff className="h-5 w-5 text-gold" />
+                )}
+              </button>
+            )}
+            <button
+              onClick={toggleVideoPlayback}
+              className="p-2 rounded-full bg-gold/10 hover:bg-gold/20 transition-colors"
+              aria-label={isVideoPlaying ? 'Pause video' : 'Play video'}
+            >
+              {isVideoPlaying ? (
+                <Pause className="h-5 w-5 text-gold" />
+              ) : (
+                <Play className="h-5 w-5 text-gold" />
+              )}
+            </button>
+          </div>
+
+          {chapters.length > 0 && (
+            <nav aria-label="Video chapters">
+              <GlassPanel className="p-2">
+                <ol className="space-y-1">
+                  {chapters.map((chapter, index) => (
+                    <li key={`${chapter.start}-${chapter.title}`}>
+                      <button
+                        onClick={() => jumpToChapter(chapter)}
+                        aria-current={activeChapter === index ? 'step' : undefined}
+                        className={cn(
+                          'w-full rounded-md px-3 py-1 text-left text-sm transition-colors hover:bg-gold/10',
+                          activeChapter === index ? 'text-gold' : 'text-gold/60'
+                        )}
+                      >
+                        {chapter.title}
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              </GlassPanel>
+            </nav>
+          )}
+        </div>
+      )}
+
       {/* Scroll Indicator */}
       {!shouldReduceMotion && (
         <ViewportAnimator animation="fade-in" delay={500}>
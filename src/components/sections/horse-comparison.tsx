@@ -0,0 +1,136 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { X } from 'lucide-react'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { Heading, Paragraph, Text, Caption } from '@/components/ui/Typography'
+import { buildCompareRows } from '@/lib/horses/compare'
+import { cn } from '@/lib/utils'
+import type { HorseDetail } from './horse-detail'
+
+/**
+ * Props for HorseComparison component
+ */
+export interface HorseComparisonProps {
+  /** Horses to compare, in column order */
+  horses: HorseDetail[]
+  /** Base path for horse detail links */
+  basePath?: string
+  /** Remove a horse from the comparison */
+  onRemove?: (horse: HorseDetail) => void
+  /** Additional class names */
+  className?: string
+}
+
+/**
+ * Horse Comparison Section
+ *
+ * Lines horses up in columns with one row per attribute. Rows where the
+ * horses differ are highlighted, and can be shown on their own.
+ *
+ * @example
+ * ```tsx
+ * <HorseComparison
+ *   horses={horses}
+ *   onRemove={(horse) => removeFromComparison(horse.id)}
+ * />
+ * ```
+ */
+export function HorseComparison({
+  horses,
+  basePath = '/horses',
+  onRemove,
+  className,
+}: HorseComparisonProps) {
+  const [differencesOnly, setDifferencesOnly] = useState(false)
+  const rows = useMemo(() => buildCompareRows(horses), [horses])
+  const visibleRows = differencesOnly ? rows.filter((row) => row.differs) : rows
+
+  return (
+    <section className={cn('px-6 py-16 bg-midnight', className)}>
+      <div className="mx-auto max-w-7xl">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <Paragraph>
+            {rows.filter((row) => row.differs).length} of {rows.length} attributes differ
+          </Paragraph>
+          <label className="flex items-center gap-2 text-sm text-white/80 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={differencesOnly}
+              onChange={(e) => setDifferencesOnly(e.target.checked)}
+              className="accent-gold"
+            />
+            Show differences only
+          </label>
+        </div>
+
+        <GlassPanel className="overflow-x-auto p-0">
+          <table className="w-full min-w-[640px] border-collapse text-left">
+            <caption className="sr-only">Side-by-side comparison of {horses.map((h) => h.name).join(', ')}</caption>
+            <thead>
+              <tr className="border-b border-gold/20">
+                <th scope="col" className="w-48 p-4">
+                  <span className="sr-only">Attribute</span>
+                </th>
+                {horses.map((horse) => (
+                  <th key={horse.id} scope="col" className="p-4 align-top">
+                    <div className="relative">
+                      <img
+                        src={horse.thumbnail || horse.images[0]}
+                        alt={horse.name}
+                        className="aspect-[4/3] w-full rounded-lg object-cover mb-3"
+                      />
+                      {onRemove && (
+                        <button
+                          onClick={() => onRemove(horse)}
+                          className="absolute top-2 right-2 p-1.5 rounded-full bg-midnight/80 hover:bg-midnight text-gold transition-colors"
+                          aria-label={`Remove ${horse.name} from comparison`}
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                    <Link href={`${basePath}/${horse.id}`} className="hover:text-gold transition-colors">
+                      <Heading level={5}>{horse.name}</Heading>
+                    </Link>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRows.map((row) => (
+                <tr
+                  key={row.key}
+                  className={cn(
+                    'border-b border-gold/10 last:border-b-0',
+                    row.differs && 'bg-gold/5'
+                  )}
+                >
+                  <th scope="row" className="p-4 align-top font-normal">
+                    <Text size="sm" className={cn('block font-medium', row.differs ? 'text-gold' : 'text-white/70')}>
+                      {row.label}
+                    </Text>
+                    {row.differs && <Caption className="block text-gold/60">Differs</Caption>}
+                  </th>
+                  {row.values.map((value, index) => (
+                    <td key={horses[index].id} className="p-4 align-top">
+                      <Text size="sm" className="whitespace-pre-line">{value}</Text>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              {visibleRows.length === 0 && (
+                <tr>
+                  <td colSpan={horses.length + 1} className="p-8 text-center">
+                    <Paragraph>These horses match on every attribute we compare.</Paragraph>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </GlassPanel>
+      </div>
+    </section>
+  )
+}
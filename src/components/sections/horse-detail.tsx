@@ -1,7 +1,7 @@
 'use client'
 
 import React, { useState, useRef, useEffect } from 'react'
-import { X, ChevronLeft, ChevronRight, ZoomIn, Info, Heart, Share2, ArrowLeft } from 'lucide-react'
+import { X, ChevronLeft, ChevronRight, ZoomIn, Info, Heart, Share2, ArrowLeft, Check, Columns3, FileDown } from 'lucide-react'
 import { GlassCard, GlassCardGrid } from '@/components/ui/GlassCard'
 import { GlassPanel } from '@/components/ui/GlassPanel'
 import { ScrollReveal } from '@/components/motion/scroll-reveal'
@@ -10,6 +10,21 @@ import { Display, Heading, Paragraph, Label, Caption, Text } from '@/components/
 import { GlassButton } from '@/components/ui/GlassButton'
 import { ScrollControlled3D } from '@/components/3d/scroll-controlled-3d'
 import { CanvasWrapper } from '@/components/3d/canvas-wrapper'
+import { PedigreeChart } from '@/components/sections/pedigree-chart'
+import { HealthRecords } from '@/components/sections/health-records'
+import { BlurUpImage } from '@/components/interactions/loading-overlay'
+import { cn } from '@/lib/utils'
+import { getSaleClassLabel } from '@/lib/horses/sale-class'
+import type { PedigreeNode } from '@/lib/pedigree/pedigree'
+import { formatGenotype, type CoatGenotype } from '@/lib/breeding/coat-color'
+import {
+  formatPlacing,
+  getResultLevelLabel,
+  type CompetitionResult,
+} from '@/lib/horses/results'
+import type { HorseHealth } from '@/lib/horses/health'
+import type { ContentStatus } from '@/lib/admin/content'
+import type { ResponsiveImage } from '@/lib/media/types'
 import * as THREE from 'three'
 
 /**
@@ -21,34 +36,47 @@ export interface HorseDetail {
   breed: string
   age: number
   gender: 'Male' | 'Female'
+  /** Gelded (castrated) male */
+  castrated?: boolean
+  /** Year the horse was foaled */
+  foalYear?: number
+  /** Stud book registration number */
+  registrationNumber?: string
   color: string
+  /** Coat color test results */
+  coatGenotype?: CoatGenotype
   height: string
   discipline: string[]
   price: number
   images: string[]
   thumbnail?: string
+  /** Media library asset the thumbnail comes from */
+  imageId?: string
+  /** Responsive thumbnail, filled in by the API from `imageId` */
+  photo?: ResponsiveImage
+  /** Media library assets the images come from */
+  imageIds?: string[]
+  /** Responsive versions of `images`, filled in by the API from `imageIds` */
+  photos?: ResponsiveImage[]
   description: string
+  /** Legacy free-text results, shown when there are no structured results */
   competitionRecord?: string[]
+  /** Structured results newest first, filled in by the API */
+  results?: CompetitionResult[]
   pedigree?: PedigreeNode
   training?: string[]
   temperament?: string
+  /** Legacy free-text summary, shown when there are no health records */
   healthStatus?: string
+  /** Buyer-visible health records, filled in by the API */
+  health?: HorseHealth
   location?: string
   availability?: 'available' | 'reserved' | 'sold'
+  /** ISO date the horse was listed */
+  listedAt?: string
   modelPath?: string // For 3D viewer
-}
-
-/**
- * Pedigree tree node
- */
-export interface PedigreeNode {
-  id: string
-  name: string
-  breed?: string
-  gender?: 'stallion' | 'mare'
-  achievements?: string[]
-  sire?: PedigreeNode
-  dam?: PedigreeNode
+  /** Publishing state; absent means published */
+  status?: ContentStatus
 }
 
 /**
@@ -65,8 +93,17 @@ export interface HorseDetailProps {
   onPrevHorse?: () => void
   /** Action callbacks */
   onInquire?: (horse: HorseDetail) => void
+  onScheduleViewing?: (horse: HorseDetail) => void
   onFavorite?: (horse: HorseDetail) => void
   onShare?: (horse: HorseDetail) => void
+  /** Whether the horse is on the visitor's shortlist */
+  isFavorite?: boolean
+  /** Add or remove the horse from the comparison */
+  onCompare?: (horse: HorseDetail) => void
+  /** Whether the horse is selected for comparison */
+  isComparing?: boolean
+  /** Whether no more horses can be added to the comparison */
+  isCompareFull?: boolean
   /** Additional class names */
   className?: string
 }
@@ -77,10 +114,16 @@ export interface HorseDetailProps {
 function ImageGallery({
   images,
   thumbnail,
+  photo,
+  photos,
   alt
 }: {
   images: string[]
   thumbnail?: string
+  /** Responsive thumbnail, when it comes from the media library */
+  photo?: ResponsiveImage
+  /** Responsive versions of `images`, when they come from the media library */
+  photos?: ResponsiveImage[]
   alt: string
 }) {
   const [currentIndex, setCurrentIndex] = useState(0)
@@ -90,6 +133,9 @@ function ImageGallery({
   const [transform, setTransform] = useState({ x: 0, y: 0, scale: 1 })
 
   const allImages = thumbnail ? [thumbnail, ...images] : images
+  // Lined up with allImages; undefined for plain links
+  const allPhotos = thumbnail ? [photo, ...(photos ?? [])] : photos ?? []
+  const currentPhoto = allPhotos[currentIndex]
 
   const handlePrevious = () => {
     setCurrentIndex((prev) => (prev === 0 ? allImages.length - 1 : prev - 1))
@@ -143,9 +189,11 @@ function ImageGallery({
             onMouseMove={handleMouseMove}
             onMouseLeave={handleMouseLeave}
           >
-            <img
-              src={allImages[currentIndex]}
+            <BlurUpImage
+              {...currentPhoto}
+              src={currentPhoto?.src ?? allImages[currentIndex]}
               alt={`${alt} - Image ${currentIndex + 1}`}
+              sizes="(min-width: 1280px) 1280px, 100vw"
               className="w-full h-full object-cover transition-transform duration-300"
               style={{
                 transform: `scale(${transform.scale}) translate(${transform.x}%, ${transform.y}%)`
@@ -202,9 +250,11 @@ function ImageGallery({
                       : 'border-transparent hover:border-gold/50'
                   }`}
                 >
-                  <img
-                    src={image}
+                  <BlurUpImage
+                    {...allPhotos[index]}
+                    src={allPhotos[index]?.src ?? image}
                     alt={`Thumbnail ${index + 1}`}
+                    sizes="80px"
                     className="w-full h-full object-cover"
                   />
                 </button>
@@ -234,9 +284,11 @@ function ImageGallery({
           </button>
 
           <div className="max-w-7xl max-h-[90vh] w-full h-full flex items-center justify-center">
-            <img
-              src={allImages[currentIndex]}
+            <BlurUpImage
+              {...currentPhoto}
+              src={currentPhoto?.src ?? allImages[currentIndex]}
               alt={`${alt} - Image ${currentIndex + 1}`}
+              sizes="100vw"
               className="max-w-full max-h-full object-contain"
             />
           </div>
@@ -274,6 +326,38 @@ function InfoSection({ title, children, delay = 0 }: { title: string; children:
   )
 }
 
+/**
+ * Structured results as a timeline, newest first
+ */
+function ResultsTimeline({ results }: { results: CompetitionResult[] }) {
+  return (
+    <ol className="space-y-5 border-l border-gold/20 pl-6">
+      {results.map((result) => (
+        <li key={result.id} className="relative">
+          <span
+            className={cn(
+              'absolute -left-[1.95rem] top-1.5 h-3 w-3 rounded-full border-2 border-midnight',
+              result.placing === 1 ? 'bg-gold' : 'bg-gold/40'
+            )}
+            aria-hidden="true"
+          />
+          <Caption className="block text-gold/70">
+            {result.date} · {getResultLevelLabel(result.level)} · {result.discipline}
+          </Caption>
+          <div className="flex flex-wrap items-baseline justify-between gap-x-4">
+            <Text className="font-semibold">{result.event}</Text>
+            <Text className="text-gold">
+              {result.placing ? formatPlacing(result.placing) : 'Completed'}
+              {result.score !== undefined && ` · ${result.score}`}
+            </Text>
+          </div>
+          {result.rider && <Text size="sm" className="block">Ridden by {result.rider}</Text>}
+        </li>
+      ))}
+    </ol>
+  )
+}
+
 /**
  * Horse Detail Section
  *
@@ -286,7 +370,7 @@ function InfoSection({ title, children, delay = 0 }: { title: string; children:
  *   horse={horseData}
  *   relatedHorses={relatedHorses}
  *   onBack={() => router.back()}
- *   onInquire={(horse) => openContactForm(horse)}
+ *   onInquire={(horse) => openInquiry(horse)}
  * />
  * ```
  */
@@ -297,11 +381,17 @@ export function HorseDetail({
   onNextHorse,
   onPrevHorse,
   onInquire,
+  onScheduleViewing,
   onFavorite,
   onShare,
+  isFavorite = false,
+  onCompare,
+  isComparing = false,
+  isCompareFull = false,
   className,
 }: HorseDetailProps) {
   const horse3DRef = useRef<THREE.Group>(null)
+  const hasHealthRecords = (horse.health?.records.length ?? 0) > 0
 
   return (
     <section className={`min-h-screen bg-midnight ${className || ''}`}>
@@ -322,15 +412,36 @@ export function HorseDetail({
           </div>
 
           <div className="flex items-center gap-2">
+            <a
+              href={`/api/horses/${horse.id}/brochure`}
+              download
+              className="inline-flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-sm font-medium text-white/90 hover:text-white hover:bg-white/5 transition-colors"
+            >
+              <FileDown className="h-4 w-4" />
+              Brochure
+            </a>
+            {onCompare && (
+              <GlassButton
+                variant={isComparing ? 'primary' : 'ghost'}
+                size="small"
+                leftIcon={isComparing ? <Check className="h-4 w-4" /> : <Columns3 className="h-4 w-4" />}
+                disabled={!isComparing && isCompareFull}
+                onClick={() => onCompare(horse)}
+                aria-pressed={isComparing}
+              >
+                {isComparing ? 'Comparing' : 'Compare'}
+              </GlassButton>
+            )}
             {onFavorite && (
               <GlassButton
                 variant="ghost"
                 size="small"
-                leftIcon={<Heart className="h-4 w-4" />}
+                leftIcon={<Heart className={`h-4 w-4 ${isFavorite ? 'fill-gold text-gold' : ''}`} />}
                 onClick={() => onFavorite(horse)}
-                aria-label="Add to favorites"
+                aria-label={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                aria-pressed={isFavorite}
               >
-                <span className="sr-only">Add to favorites</span>
+                <span className="sr-only">{isFavorite ? 'Remove from favorites' : 'Add to favorites'}</span>
               </GlassButton>
             )}
             {onShare && (
@@ -354,7 +465,7 @@ export function HorseDetail({
           <ViewportAnimator animation="fade-in">
             <div className="text-center mb-8">
               <Caption className="text-gold uppercase tracking-widest mb-2">
-                {horse.breed} • {horse.age} Years • {horse.gender}
+                {horse.breed} • {horse.age} Years • {getSaleClassLabel(horse)}
               </Caption>
               <Display size="3xl" gradient="gold" className="mb-4">
                 {horse.name}
@@ -376,6 +487,8 @@ export function HorseDetail({
           <ImageGallery
             images={horse.images}
             thumbnail={horse.thumbnail}
+            photo={horse.photo}
+            photos={horse.photos}
             alt={horse.name}
           />
         </div>
@@ -408,6 +521,9 @@ export function HorseDetail({
               <GlassPanel variant="dark" className="p-4 text-center">
                 <Caption className="text-gold mb-1">Color</Caption>
                 <Paragraph size="sm" className="font-semibold">{horse.color}</Paragraph>
+                {horse.coatGenotype && (
+                  <Caption className="block mt-1 text-gold/60">{formatGenotype(horse.coatGenotype)}</Caption>
+                )}
               </GlassPanel>
             </div>
           </ScrollReveal>
@@ -450,7 +566,15 @@ export function HorseDetail({
       )}
 
       {/* Competition Record */}
-      {horse.competitionRecord && horse.competitionRecord.length > 0 && (
+      {horse.results && horse.results.length > 0 ? (
+        <div className="px-6 py-12 bg-gradient-to-b from-hunter to-midnight">
+          <div className="mx-auto max-w-4xl">
+            <InfoSection title="Competition Record">
+              <ResultsTimeline results={horse.results} />
+            </InfoSection>
+          </div>
+        </div>
+      ) : horse.competitionRecord && horse.competitionRecord.length > 0 && (
         <div className="px-6 py-12 bg-gradient-to-b from-hunter to-midnight">
           <div className="mx-auto max-w-4xl">
             <InfoSection title="Competition Record">
@@ -466,6 +590,11 @@ export function HorseDetail({
         </div>
       )}
 
+      {/* Pedigree */}
+      {horse.pedigree && (horse.pedigree.sire || horse.pedigree.dam) && (
+        <PedigreeChart pedigree={horse.pedigree} exportUrl={`/api/horses/${horse.id}/pedigree`} />
+      )}
+
       {/* 3D Model Viewer */}
       {horse.modelPath && (
         <div className="px-6 py-12 bg-midnight">
@@ -523,7 +652,7 @@ export function HorseDetail({
       )}
 
       {/* Temperament & Health */}
-      {(horse.temperament || horse.healthStatus) && (
+      {(horse.temperament || horse.healthStatus || hasHealthRecords) && (
         <div className="px-6 py-12 bg-gradient-to-b from-midnight to-hunter">
           <div className="mx-auto max-w-4xl">
             {horse.temperament && (
@@ -534,7 +663,11 @@ export function HorseDetail({
               </InfoSection>
             )}
 
-            {horse.healthStatus && (
+            {hasHealthRecords && horse.health ? (
+              <InfoSection title="Health" delay={200}>
+                <HealthRecords health={horse.health} horseName={horse.name} />
+              </InfoSection>
+            ) : horse.healthStatus && (
               <InfoSection title="Health Status" delay={200}>
                 <Paragraph size="lg" maxWidth="prose">
                   {horse.healthStatus}
@@ -567,6 +700,7 @@ export function HorseDetail({
                 <GlassButton
                   variant="outline"
                   size="large"
+                  onClick={() => onScheduleViewing?.(horse)}
                 >
                   Schedule Viewing
                 </GlassButton>
@@ -1,13 +1,26 @@
 'use client'
 
-import React, { useState, useMemo } from 'react'
-import { Search, SlidersHorizontal, ArrowUpDown, Filter } from 'lucide-react'
+import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react'
+import { Search, SlidersHorizontal, ArrowUpDown, Filter, ChevronLeft, ChevronRight, Check, Columns3, Bell } from 'lucide-react'
 import { GlassCard, GlassCardGrid } from '@/components/ui/GlassCard'
 import { ScrollReveal } from '@/components/motion/scroll-reveal'
 import { ViewportAnimator } from '@/components/motion/MotionWrapper'
 import { Display, Paragraph, Heading, Label, Text } from '@/components/ui/Typography'
 import { GlassButton } from '@/components/ui/GlassButton'
 import { GlassPanel } from '@/components/ui/GlassPanel'
+import { BlurUpImage } from '@/components/interactions/loading-overlay'
+import { getSaleClassLabel } from '@/lib/horses/sale-class'
+import { createDefaultFilters } from '@/lib/horses/filter-params'
+import type { PaginationMeta } from '@/lib/api/pagination'
+import type { CoatGenotype } from '@/lib/breeding/coat-color'
+import { compareResults, type CompetitionResult } from '@/lib/horses/results'
+import type { ContentStatus } from '@/lib/admin/content'
+import type { ResponsiveImage } from '@/lib/media/types'
+
+/**
+ * Sale availability of a horse
+ */
+export type HorseAvailability = 'available' | 'reserved' | 'sold'
 
 /**
  * Horse data type
@@ -18,13 +31,33 @@ export interface Horse {
   breed: string
   age: number
   gender: 'Male' | 'Female'
+  /** Gelded (castrated) male */
+  castrated?: boolean
+  /** Year the horse was foaled */
+  foalYear?: number
+  /** Stud book registration number */
+  registrationNumber?: string
   color: string
+  /** Coat color test results */
+  coatGenotype?: CoatGenotype
   height: string
   discipline: string[]
   price: number
   image: string
+  /** Media library asset the image comes from */
+  imageId?: string
+  /** Responsive image, filled in by the API from `imageId` */
+  photo?: ResponsiveImage
   description: string
+  /** Legacy free-text results, shown when there are no structured results */
   competitionRecord?: string[]
+  /** Highest-ranked structured result, filled in by the API */
+  bestResult?: CompetitionResult
+  availability?: HorseAvailability
+  /** ISO date the horse was listed */
+  listedAt?: string
+  /** Publishing state; absent means published */
+  status?: ContentStatus
 }
 
 /**
@@ -38,7 +71,7 @@ export interface FilterOptions {
   minPrice: number
   maxPrice: number
   searchQuery: string
-  sortBy: 'name' | 'price' | 'age' | 'recent'
+  sortBy: 'name' | 'price' | 'age' | 'recent' | 'results'
 }
 
 /**
@@ -57,6 +90,24 @@ export interface HorsePortfolioProps {
   priceRange?: [number, number]
   /** Horse card click handler */
   onHorseClick?: (horse: Horse) => void
+  /** Controlled filter state (e.g. restored from the URL) */
+  filters?: FilterOptions
+  /** Filter change handler for controlled mode */
+  onFiltersChange?: (filters: FilterOptions) => void
+  /** Filter in the browser, or trust that `horses` is already filtered and sorted by the server */
+  filterMode?: 'client' | 'server'
+  /** Pagination metadata for server-paginated lists */
+  pagination?: PaginationMeta
+  /** Page change handler */
+  onPageChange?: (page: number) => void
+  /** Add or remove a horse from the comparison */
+  onCompare?: (horse: Horse) => void
+  /** Whether a horse is selected for comparison */
+  isComparing?: (horse: Horse) => boolean
+  /** Whether no more horses can be added to the comparison */
+  isCompareFull?: boolean
+  /** Save the current filters for new-listing alerts */
+  onSaveSearch?: (filters: FilterOptions) => void
   /** Additional class names */
   className?: string
 }
@@ -69,13 +120,41 @@ function FilterControls({
   onFilterChange,
   breeds,
   disciplines,
+  priceRange,
 }: {
   filters: FilterOptions
   onFilterChange: (filters: FilterOptions) => void
   breeds: string[]
   disciplines: string[]
+  priceRange: [number, number]
 }) {
   const [showFilters, setShowFilters] = useState(false)
+  const [searchInput, setSearchInput] = useState(filters.searchQuery)
+  const priceStep = Math.max(1000, Math.round((priceRange[1] - priceRange[0]) / 20 / 1000) * 1000)
+
+  // Last query the input sent, so its own round trip through the URL isn't
+  // mistaken for an external change
+  const committedSearch = useRef(filters.searchQuery)
+
+  // Keep the input in sync when filters change externally (back button, clear)
+  useEffect(() => {
+    if (filters.searchQuery === committedSearch.current) return
+
+    committedSearch.current = filters.searchQuery
+    setSearchInput(filters.searchQuery)
+  }, [filters.searchQuery])
+
+  // Debounce search so typing doesn't trigger a request per keystroke
+  useEffect(() => {
+    if (searchInput === filters.searchQuery) return
+
+    const timeout = setTimeout(() => {
+      committedSearch.current = searchInput
+      onFilterChange({ ...filters, searchQuery: searchInput })
+    }, 300)
+
+    return () => clearTimeout(timeout)
+  }, [searchInput, filters, onFilterChange])
 
   return (
     <div className="mb-8">
@@ -103,8 +182,8 @@ function FilterControls({
                 <input
                   type="text"
                   placeholder="Search horses..."
-                  value={filters.searchQuery}
-                  onChange={(e) => onFilterChange({ ...filters, searchQuery: e.target.value })}
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
                   className="w-full pl-10 pr-4 py-2 bg-midnight/50 border border-gold/20 rounded-lg text-white placeholder:text-gold/30 focus:outline-none focus:ring-2 focus:ring-gold/50"
                 />
               </div>
@@ -151,13 +230,14 @@ function FilterControls({
               <Label className="mb-2">Sort By</Label>
               <select
                 value={filters.sortBy}
-                onChange={(e) => onFilterChange({ ...filters, sortBy: e.target.value as any })}
+                onChange={(e) => onFilterChange({ ...filters, sortBy: e.target.value as FilterOptions['sortBy'] })}
                 className="w-full px-4 py-2 bg-midnight/50 border border-gold/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-gold/50"
               >
                 <option value="name">Name (A-Z)</option>
                 <option value="price">Price (Low to High)</option>
                 <option value="age">Age (Young to Old)</option>
                 <option value="recent">Most Recent</option>
+                <option value="results">Best Results</option>
               </select>
             </div>
           </div>
@@ -169,18 +249,18 @@ function FilterControls({
             </Label>
             <input
               type="range"
-              min={0}
-              max={100000}
-              step={5000}
+              min={priceRange[0]}
+              max={priceRange[1]}
+              step={priceStep}
               value={filters.minPrice}
               onChange={(e) => onFilterChange({ ...filters, minPrice: Number(e.target.value) })}
               className="w-full mb-2 accent-gold"
             />
             <input
               type="range"
-              min={0}
-              max={100000}
-              step={5000}
+              min={priceRange[0]}
+              max={priceRange[1]}
+              step={priceStep}
               value={filters.maxPrice}
               onChange={(e) => onFilterChange({ ...filters, maxPrice: Number(e.target.value) })}
               className="w-full accent-gold"
@@ -196,7 +276,9 @@ function FilterControls({
  * Horse Portfolio Section
  *
  * Grid-based horse portfolio with filtering, sorting, and search.
- * Displays glass cards with scroll reveal animations.
+ * Displays glass cards with scroll reveal animations. Filters can be kept
+ * in local state or controlled (e.g. synced to the URL), and filtering can
+ * happen in the browser or on the server with paginated results.
  *
  * @example
  * ```tsx
@@ -215,21 +297,34 @@ export function HorsePortfolio({
   ageRange = [0, 30],
   priceRange = [0, 100000],
   onHorseClick,
+  filters: controlledFilters,
+  onFiltersChange,
+  filterMode = 'client',
+  pagination,
+  onPageChange,
+  onCompare,
+  isComparing,
+  isCompareFull = false,
+  onSaveSearch,
   className,
 }: HorsePortfolioProps) {
-  const [filters, setFilters] = useState<FilterOptions>({
-    breed: [],
-    discipline: [],
-    minAge: ageRange[0],
-    maxAge: ageRange[1],
-    minPrice: priceRange[0],
-    maxPrice: priceRange[1],
-    searchQuery: '',
-    sortBy: 'name',
-  })
+  const defaultFilters = useMemo(
+    () => createDefaultFilters(ageRange, priceRange),
+    [ageRange[0], ageRange[1], priceRange[0], priceRange[1]]
+  )
+  const [localFilters, setLocalFilters] = useState<FilterOptions>(defaultFilters)
+  const filters = controlledFilters ?? localFilters
+
+  const handleFiltersChange = useCallback((next: FilterOptions) => {
+    if (!controlledFilters) setLocalFilters(next)
+    onFiltersChange?.(next)
+  }, [controlledFilters, onFiltersChange])
 
   // Filter and sort horses
   const filteredHorses = useMemo(() => {
+    // Server mode: results arrive filtered, sorted and paginated
+    if (filterMode === 'server') return horses
+
     let filtered = [...horses]
 
     // Apply search filter
@@ -268,59 +363,100 @@ export function HorsePortfolio({
         case 'age':
           return a.age - b.age
         case 'recent':
-          return 0 // Placeholder - would need actual date field
+          return (b.listedAt ?? '').localeCompare(a.listedAt ?? '')
+        case 'results':
+          return compareResults(b.bestResult, a.bestResult)
         default:
           return a.name.localeCompare(b.name)
       }
     })
 
     return filtered
-  }, [horses, filters])
+  }, [horses, filters, filterMode])
+
+  const total = pagination?.total ?? horses.length
+  const firstShown = pagination ? (pagination.page - 1) * pagination.pageSize + 1 : 1
 
   return (
     <section className={`px-6 py-24 bg-midnight ${className || ''}`}>
       <FilterControls
         filters={filters}
-        onFilterChange={setFilters}
+        onFilterChange={handleFiltersChange}
         breeds={breeds}
         disciplines={disciplines}
+        priceRange={priceRange}
       />
 
       {/* Results count */}
       <ViewportAnimator animation="fade-in">
-        <Paragraph className="mb-6">
-          Showing {filteredHorses.length} of {horses.length} horses
-        </Paragraph>
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <Paragraph>
+            {pagination && pagination.totalPages > 1
+              ? `Showing ${firstShown}–${firstShown + filteredHorses.length - 1} of ${total} horses`
+              : `Showing ${filteredHorses.length} of ${total} horses`}
+          </Paragraph>
+          {onSaveSearch && (
+            <GlassButton
+              variant="outline"
+              size="small"
+              leftIcon={<Bell className="h-4 w-4" />}
+              onClick={() => onSaveSearch(filters)}
+            >
+              Save Search
+            </GlassButton>
+          )}
+        </div>
       </ViewportAnimator>
 
       {/* Horse Grid */}
       {filteredHorses.length > 0 ? (
         <ScrollReveal stagger={100} threshold={0.1}>
           <GlassCardGrid cols={3} gap="lg">
-            {filteredHorses.map((horse) => (
-              <GlassCard
-                key={horse.id}
-                title={horse.name}
-                description={`${horse.breed} • ${horse.age} years • ${horse.gender}`}
-                variant="elevated"
-                onClick={() => onHorseClick?.(horse)}
-              >
-                {/* Image */}
-                <div className="aspect-[4/3] rounded-lg overflow-hidden mb-4 -mt-10 -mx-10">
-                  <img
-                    src={horse.image}
-                    alt={horse.name}
-                    className="w-full h-full object-cover"
-                  />
-                </div>
-
-                {/* Metadata */}
-                <div className="space-y-1 mb-4">
-                  <Text size="sm">Height: {horse.height}</Text>
-                  <Text size="sm">Discipline: {horse.discipline.join(', ')}</Text>
-                </div>
-              </GlassCard>
-            ))}
+            {filteredHorses.map((horse) => {
+              const comparing = isComparing?.(horse) ?? false
+
+              return (
+                <GlassCard
+                  key={horse.id}
+                  title={horse.name}
+                  description={`${horse.breed} • ${horse.age} years • ${getSaleClassLabel(horse)}`}
+                  variant="elevated"
+                  onClick={() => onHorseClick?.(horse)}
+                  action={onCompare && (
+                    <GlassButton
+                      variant={comparing ? 'primary' : 'outline'}
+                      size="small"
+                      leftIcon={comparing ? <Check className="h-4 w-4" /> : <Columns3 className="h-4 w-4" />}
+                      disabled={!comparing && isCompareFull}
+                      aria-pressed={comparing}
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onCompare(horse)
+                      }}
+                    >
+                      {comparing ? 'Comparing' : 'Compare'}
+                    </GlassButton>
+                  )}
+                >
+                  {/* Image */}
+                  <div className="aspect-[4/3] rounded-lg overflow-hidden mb-4 -mt-10 -mx-10">
+                    <BlurUpImage
+                      {...horse.photo}
+                      src={horse.photo?.src ?? horse.image}
+                      alt={horse.name}
+                      sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+                      className="w-full h-full object-cover"
+                    />
+                  </div>
+
+                  {/* Metadata */}
+                  <div className="space-y-1 mb-4">
+                    <Text size="sm">Height: {horse.height}</Text>
+                    <Text size="sm">Discipline: {horse.discipline.join(', ')}</Text>
+                  </div>
+                </GlassCard>
+              )
+            })}
           </GlassCardGrid>
         </ScrollReveal>
       ) : (
@@ -330,22 +466,40 @@ export function HorsePortfolio({
             <GlassButton
               variant="outline"
               className="mt-4"
-              onClick={() => setFilters({
-                breed: [],
-                discipline: [],
-                minAge: ageRange[0],
-                maxAge: ageRange[1],
-                minPrice: priceRange[0],
-                maxPrice: priceRange[1],
-                searchQuery: '',
-                sortBy: 'name',
-              })}
+              onClick={() => handleFiltersChange(defaultFilters)}
             >
               Clear Filters
             </GlassButton>
           </GlassPanel>
         </ViewportAnimator>
       )}
+
+      {/* Pagination */}
+      {pagination && pagination.totalPages > 1 && (
+        <nav className="mt-12 flex items-center justify-center gap-4" aria-label="Pagination">
+          <GlassButton
+            variant="outline"
+            size="small"
+            leftIcon={<ChevronLeft className="h-4 w-4" />}
+            disabled={pagination.page <= 1}
+            onClick={() => onPageChange?.(pagination.page - 1)}
+          >
+            Previous
+          </GlassButton>
+          <Text size="sm">
+            Page {pagination.page} of {pagination.totalPages}
+          </Text>
+          <GlassButton
+            variant="outline"
+            size="small"
+            rightIcon={<ChevronRight className="h-4 w-4" />}
+            disabled={pagination.page >= pagination.totalPages}
+            onClick={() => onPageChange?.(pagination.page + 1)}
+          >
+            Next
+          </GlassButton>
+        </nav>
+      )}
     </section>
   )
 }
@@ -1,29 +1,22 @@
 'use client'
 
-import React, { useState } from 'react'
-import { ChevronDown, ChevronRight, Info } from 'lucide-react'
+import React, { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { ChevronDown, ChevronRight, Download, ExternalLink, Info, Repeat } from 'lucide-react'
 import { GlassPanel } from '@/components/ui/GlassPanel'
 import { ScrollReveal } from '@/components/motion/scroll-reveal'
 import { ViewportAnimator } from '@/components/motion/MotionWrapper'
 import { Display, Heading, Paragraph, Caption, Text } from '@/components/ui/Typography'
 import { cn } from '@/lib/utils'
-
-/**
- * Pedigree tree node data
- */
-export interface PedigreeNode {
-  id: string
-  name: string
-  breed?: string
-  birthYear?: number
-  deathYear?: number
-  achievements?: string[]
-  color?: string
-  gender?: 'stallion' | 'mare'
-  imageUrl?: string
-  sire?: PedigreeNode
-  dam?: PedigreeNode
-}
+import { DEFAULT_PEDIGREE_GENERATIONS, getPedigreeHref, type PedigreeNode } from '@/lib/pedigree/pedigree'
+import {
+  analyzeInbreeding,
+  describePosition,
+  formatCoefficient,
+  getAncestorKey,
+  type InbreedingAnalysis,
+} from '@/lib/pedigree/inbreeding'
+import { PEDIGREE_FORMATS, PEDIGREE_FORMAT_LABELS } from '@/lib/pedigree/formats'
 
 /**
  * Props for PedigreeChart component
@@ -31,14 +24,87 @@ export interface PedigreeNode {
 export interface PedigreeChartProps {
   /** Root pedigree data (the horse) */
   pedigree: PedigreeNode
-  /** Maximum depth to display (1-4 generations) */
+  /** Ancestor generations to display (1-5) */
   maxDepth?: number
   /** Layout variant */
   variant?: 'tree' | 'horizontal' | 'compact'
+  /** Show the inbreeding coefficient and repeated ancestors */
+  showAnalysis?: boolean
+  /** Pedigree API route; adds CSV, GEDCOM and JSON download links */
+  exportUrl?: string
   /** Additional class names */
   className?: string
 }
 
+/**
+ * Colours for repeated ancestors, assigned in analysis order
+ */
+const HIGHLIGHT_STYLES = [
+  { ring: 'ring-2 ring-amber-400/80', swatch: 'bg-amber-400' },
+  { ring: 'ring-2 ring-emerald-400/80', swatch: 'bg-emerald-400' },
+  { ring: 'ring-2 ring-violet-400/80', swatch: 'bg-violet-400' },
+  { ring: 'ring-2 ring-cyan-400/80', swatch: 'bg-cyan-400' },
+  { ring: 'ring-2 ring-rose-400/80', swatch: 'bg-rose-400' },
+]
+
+interface AncestorHighlight {
+  ring: string
+  swatch: string
+  /** Times the ancestor appears in the displayed generations */
+  count: number
+}
+
+/**
+ * Highlight styles keyed by ancestor
+ */
+type Highlights = Map<string, AncestorHighlight>
+
+function getHighlights(analysis: InbreedingAnalysis): Highlights {
+  return new Map(analysis.repeatedAncestors.map((ancestor, index) => [
+    ancestor.key,
+    { ...HIGHLIGHT_STYLES[index % HIGHLIGHT_STYLES.length], count: ancestor.positions.length },
+  ]))
+}
+
+/**
+ * Highlight for an ancestor; the horse itself is never highlighted
+ */
+function getHighlight(highlights: Highlights, node: PedigreeNode, depth: number): AncestorHighlight | undefined {
+  return depth > 0 ? highlights.get(getAncestorKey(node)) : undefined
+}
+
+/**
+ * Swatch and count marking a repeated ancestor
+ */
+function RepeatBadge({ highlight }: { highlight: AncestorHighlight }) {
+  return (
+    <span
+      className="inline-flex items-center gap-1 text-xs text-white/70"
+      title={`Appears ${highlight.count} times in this pedigree`}
+    >
+      <span className={cn('h-2.5 w-2.5 rounded-full', highlight.swatch)} aria-hidden="true" />
+      ×{highlight.count}
+    </span>
+  )
+}
+
+/**
+ * Ancestor name, linked when the horse is in our catalogue
+ */
+function PedigreeName({ node }: { node: PedigreeNode }) {
+  if (!node.link) return <>{node.name}</>
+
+  return (
+    <Link
+      href={getPedigreeHref(node.link)}
+      className="inline-flex items-center gap-1 hover:text-gold transition-colors"
+    >
+      {node.name}
+      <ExternalLink className="h-3 w-3 text-gold" aria-hidden="true" />
+    </Link>
+  )
+}
+
 /**
  * Individual Pedigree Node Component
  */
@@ -48,12 +114,14 @@ function PedigreeNodeCard({
   maxDepth,
   isExpanded,
   onToggle,
+  highlight,
 }: {
   node: PedigreeNode
   depth: number
   maxDepth: number
   isExpanded: boolean
   onToggle: () => void
+  highlight?: AncestorHighlight
 }) {
   const hasChildren = depth < maxDepth && (node.sire || node.dam)
   const canExpand = hasChildren && depth < maxDepth
@@ -67,7 +135,8 @@ function PedigreeNodeCard({
           'p-4 transition-all duration-300 hover:scale-105',
           depth === 0 && 'border-gold/30',
           depth === 1 && 'border-gold/20',
-          depth > 1 && 'border-gold/10'
+          depth > 1 && 'border-gold/10',
+          highlight?.ring
         )}
       >
         <div className="flex items-start justify-between gap-2">
@@ -87,7 +156,7 @@ function PedigreeNodeCard({
               level={depth === 0 ? 4 : depth === 1 ? 5 : 6}
               className="mb-1"
             >
-              {node.name}
+              <PedigreeName node={node} />
             </Heading>
 
             {/* Details */}
@@ -97,12 +166,18 @@ function PedigreeNodeCard({
               </Text>
             )}
 
-            {node.color && (
+            {(node.color || node.country) && (
               <Text variant="muted" size="sm">
-                {node.color}
+                {[node.color, node.country].filter(Boolean).join(' • ')}
               </Text>
             )}
 
+            {node.registrationNumber && (
+              <Caption className="block mt-1 text-white/50">
+                Reg. {node.registrationNumber}
+              </Caption>
+            )}
+
             {/* Years */}
             {(node.birthYear || node.deathYear) && (
               <Caption className="mt-2 text-gold/60">
@@ -130,6 +205,8 @@ function PedigreeNodeCard({
             )}
           </div>
 
+          {highlight && <RepeatBadge highlight={highlight} />}
+
           {/* Expand/Collapse Button */}
           {canExpand && (
             <button
@@ -157,10 +234,12 @@ function TreeLayout({
   node,
   depth = 0,
   maxDepth = 4,
+  highlights,
 }: {
   node: PedigreeNode
   depth?: number
   maxDepth?: number
+  highlights: Highlights
 }) {
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set([node.id]))
 
@@ -189,6 +268,7 @@ function TreeLayout({
           maxDepth={maxDepth}
           isExpanded={isExpanded}
           onToggle={() => toggleNode(node.id)}
+          highlight={getHighlight(highlights, node, depth)}
         />
       </div>
 
@@ -203,7 +283,7 @@ function TreeLayout({
                   Sire
                 </Caption>
               </div>
-              <TreeLayout node={node.sire} depth={depth + 1} maxDepth={maxDepth} />
+              <TreeLayout node={node.sire} depth={depth + 1} maxDepth={maxDepth} highlights={highlights} />
             </div>
           )}
 
@@ -215,7 +295,7 @@ function TreeLayout({
                   Dam
                 </Caption>
               </div>
-              <TreeLayout node={node.dam} depth={depth + 1} maxDepth={maxDepth} />
+              <TreeLayout node={node.dam} depth={depth + 1} maxDepth={maxDepth} highlights={highlights} />
             </div>
           )}
         </div>
@@ -231,10 +311,12 @@ function HorizontalLayout({
   node,
   depth = 0,
   maxDepth = 4,
+  highlights,
 }: {
   node: PedigreeNode
   depth?: number
   maxDepth?: number
+  highlights: Highlights
 }) {
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set([node.id]))
 
@@ -263,6 +345,7 @@ function HorizontalLayout({
           maxDepth={maxDepth}
           isExpanded={isExpanded}
           onToggle={() => toggleNode(node.id)}
+          highlight={getHighlight(highlights, node, depth)}
         />
       </div>
 
@@ -275,7 +358,7 @@ function HorizontalLayout({
               <Caption className="text-blue-400 uppercase tracking-wider text-xs mb-2">
                 Sire
               </Caption>
-              <HorizontalLayout node={node.sire} depth={depth + 1} maxDepth={maxDepth} />
+              <HorizontalLayout node={node.sire} depth={depth + 1} maxDepth={maxDepth} highlights={highlights} />
             </div>
           )}
 
@@ -285,7 +368,7 @@ function HorizontalLayout({
               <Caption className="text-pink-400 uppercase tracking-wider text-xs mb-2">
                 Dam
               </Caption>
-              <HorizontalLayout node={node.dam} depth={depth + 1} maxDepth={maxDepth} />
+              <HorizontalLayout node={node.dam} depth={depth + 1} maxDepth={maxDepth} highlights={highlights} />
             </div>
           )}
         </div>
@@ -300,31 +383,30 @@ function HorizontalLayout({
 function CompactLayout({
   pedigree,
   maxDepth = 4,
+  highlights,
 }: {
   pedigree: PedigreeNode
   maxDepth?: number
+  highlights: Highlights
 }) {
-  // Flatten pedigree into generations
-  const generations: PedigreeNode[][] = [[pedigree]]
+  // One slot per position so each ancestor lines up with its offspring,
+  // leaving unknown ancestors empty
+  const generations: (PedigreeNode | undefined)[][] = [[pedigree]]
 
-  for (let i = 1; i < maxDepth; i++) {
+  for (let i = 1; i <= maxDepth; i++) {
     const prevGen = generations[i - 1]
-    const currentGen: PedigreeNode[] = []
-
-    prevGen.forEach((node) => {
-      if (node.sire) currentGen.push(node.sire)
-      if (node.dam) currentGen.push(node.dam)
-    })
-
-    if (currentGen.length === 0) break
-    generations.push(currentGen)
+    if (!prevGen.some((node) => node?.sire || node?.dam)) break
+    generations.push(prevGen.flatMap((node) => [node?.sire, node?.dam]))
   }
 
+  const rows = Math.pow(2, generations.length - 1)
+  const gridTemplateColumns = `repeat(${generations.length}, minmax(0, 1fr))`
+
   return (
     <div className="overflow-x-auto">
       <div className="min-w-[800px]">
         {/* Header */}
-        <div className="grid grid-cols-4 gap-4 mb-4">
+        <div className="grid gap-4 mb-4" style={{ gridTemplateColumns }}>
           {generations.map((_, index) => (
             <div key={index} className="text-center">
               <Caption className="text-gold uppercase tracking-wider">
@@ -334,24 +416,30 @@ function CompactLayout({
           ))}
         </div>
 
-        {/* Rows */}
-        {generations[0].map((rootNode, rowIndex) => (
-          <div key={rowIndex} className="grid grid-cols-4 gap-4">
-            {generations.map((generation, colIndex) => {
-              const nodeIndex = Math.floor(rowIndex / Math.pow(2, colIndex))
-              const node = generation[nodeIndex]
+        {/* Cells, each spanning the rows of its ancestors */}
+        <div className="grid gap-x-4 gap-y-2" style={{ gridTemplateColumns }}>
+          {generations.map((generation, colIndex) => {
+            const span = rows / generation.length
 
-              if (!node) return <div key={colIndex} />
+            return generation.map((node, index) => {
+              const style = { gridColumn: colIndex + 1, gridRow: `${index * span + 1} / span ${span}` }
+              if (!node) return <div key={`${colIndex}-${index}`} style={style} />
+
+              const highlight = getHighlight(highlights, node, colIndex)
 
               return (
                 <GlassPanel
-                  key={colIndex}
+                  key={`${colIndex}-${index}`}
                   variant={colIndex === 0 ? 'elevated' : 'dark'}
-                  className="p-3"
+                  className={cn('p-3 flex flex-col justify-center', highlight?.ring)}
+                  style={style}
                 >
-                  <Heading level={6} className="mb-1">
-                    {node.name}
-                  </Heading>
+                  <div className="flex items-start justify-between gap-2">
+                    <Heading level={6} className="mb-1">
+                      <PedigreeName node={node} />
+                    </Heading>
+                    {highlight && <RepeatBadge highlight={highlight} />}
+                  </div>
                   {node.breed && (
                     <Text size="xs" variant="muted">
                       {node.breed}
@@ -369,19 +457,82 @@ function CompactLayout({
                   )}
                 </GlassPanel>
               )
-            })}
-          </div>
-        ))}
+            })
+          })}
+        </div>
       </div>
     </div>
   )
 }
 
+/**
+ * Coefficient of inbreeding and the ancestors behind it
+ */
+function InbreedingSummary({
+  analysis,
+  highlights,
+}: {
+  analysis: InbreedingAnalysis
+  highlights: Highlights
+}) {
+  return (
+    <GlassPanel variant="elevated" className="mt-8 p-6">
+      <div className="flex flex-wrap items-baseline justify-between gap-4 mb-4">
+        <div className="flex items-center gap-3">
+          <Repeat className="h-5 w-5 text-gold flex-shrink-0" />
+          <Heading level={5}>Inbreeding Analysis</Heading>
+        </div>
+        <div className="text-right">
+          <Caption className="block text-gold/70">
+            Coefficient of inbreeding ({analysis.generations} generations)
+          </Caption>
+          <Text className="text-2xl font-semibold text-gold">
+            {formatCoefficient(analysis.coefficient)}
+          </Text>
+        </div>
+      </div>
+
+      {analysis.repeatedAncestors.length === 0 ? (
+        <Paragraph size="sm">
+          No ancestor appears more than once in the {analysis.generations} generations shown.
+        </Paragraph>
+      ) : (
+        <ul className="divide-y divide-gold/10">
+          {analysis.repeatedAncestors.map((ancestor) => (
+            <li key={ancestor.key} className="flex flex-wrap items-start justify-between gap-4 py-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span
+                    className={cn('h-3 w-3 rounded-full flex-shrink-0', highlights.get(ancestor.key)?.swatch)}
+                    aria-hidden="true"
+                  />
+                  <Text className="font-semibold">{ancestor.name}</Text>
+                  {ancestor.crossNotation && (
+                    <Caption className="text-gold/70">{ancestor.crossNotation}</Caption>
+                  )}
+                </div>
+                <Caption className="block mt-1 text-white/60">
+                  {ancestor.positions.map((position) => describePosition(position.path)).join(' • ')}
+                </Caption>
+              </div>
+              <Text size="sm" className={ancestor.contribution > 0 ? 'text-gold' : 'text-white/50'}>
+                {ancestor.contribution > 0 ? `+${formatCoefficient(ancestor.contribution)}` : 'Same side only'}
+              </Text>
+            </li>
+          ))}
+        </ul>
+      )}
+    </GlassPanel>
+  )
+}
+
 /**
  * Pedigree Chart Section
  *
  * Interactive pedigree tree visualization with multiple layout options.
- * Displays ancestral lineage with expandable nodes and detailed information.
+ * Displays ancestral lineage with expandable nodes and detailed information,
+ * highlights ancestors that appear more than once and reports the
+ * coefficient of inbreeding over the displayed generations.
  *
  * @example
  * ```tsx
@@ -389,15 +540,21 @@ function CompactLayout({
  *   pedigree={horsePedigreeData}
  *   maxDepth={4}
  *   variant="tree"
+ *   exportUrl={`/api/horses/${horse.id}/pedigree`}
  * />
  * ```
  */
 export function PedigreeChart({
   pedigree,
-  maxDepth = 4,
+  maxDepth = DEFAULT_PEDIGREE_GENERATIONS,
   variant = 'tree',
+  showAnalysis = true,
+  exportUrl,
   className,
 }: PedigreeChartProps) {
+  const analysis = useMemo(() => analyzeInbreeding(pedigree, maxDepth), [pedigree, maxDepth])
+  const highlights = useMemo(() => getHighlights(analysis), [analysis])
+
   return (
     <section className={`px-6 py-16 bg-midnight ${className || ''}`}>
       <div className="mx-auto max-w-7xl">
@@ -425,10 +582,32 @@ export function PedigreeChart({
                 <div className="w-4 h-4 rounded bg-pink-400/20 border border-pink-400" />
                 <Text size="sm">Dam (Mother)</Text>
               </div>
+              {highlights.size > 0 && (
+                <div className="flex items-center gap-2">
+                  <div className="w-4 h-4 rounded ring-2 ring-amber-400/80" />
+                  <Text size="sm">Repeated ancestor</Text>
+                </div>
+              )}
               <div className="flex items-center gap-2">
                 <Info className="h-4 w-4 text-gold" />
                 <Text size="sm">Click arrows to expand/collapse</Text>
               </div>
+              {exportUrl && (
+                <div className="flex items-center gap-2">
+                  <Download className="h-4 w-4 text-gold" />
+                  <Text size="sm">Download</Text>
+                  {PEDIGREE_FORMATS.map((format) => (
+                    <a
+                      key={format}
+                      href={`${exportUrl}?format=${format}&generations=${maxDepth}`}
+                      download
+                      className="text-sm text-gold hover:text-gold/80 transition-colors"
+                    >
+                      {PEDIGREE_FORMAT_LABELS[format]}
+                    </a>
+                  ))}
+                </div>
+              )}
             </div>
           </GlassPanel>
         </ScrollReveal>
@@ -438,7 +617,7 @@ export function PedigreeChart({
           {variant === 'tree' && (
             <div className="flex justify-center">
               <div className="w-full max-w-4xl">
-                <TreeLayout node={pedigree} maxDepth={maxDepth} />
+                <TreeLayout node={pedigree} maxDepth={maxDepth} highlights={highlights} />
               </div>
             </div>
           )}
@@ -446,16 +625,22 @@ export function PedigreeChart({
           {variant === 'horizontal' && (
             <div className="overflow-x-auto pb-4">
               <div className="min-w-max">
-                <HorizontalLayout node={pedigree} maxDepth={maxDepth} />
+                <HorizontalLayout node={pedigree} maxDepth={maxDepth} highlights={highlights} />
               </div>
             </div>
           )}
 
           {variant === 'compact' && (
-            <CompactLayout pedigree={pedigree} maxDepth={maxDepth} />
+            <CompactLayout pedigree={pedigree} maxDepth={maxDepth} highlights={highlights} />
           )}
         </ScrollReveal>
 
+        {showAnalysis && (
+          <ScrollReveal delay={300}>
+            <InbreedingSummary analysis={analysis} highlights={highlights} />
+          </ScrollReveal>
+        )}
+
         {/* Info Panel */}
         <ScrollReveal delay={400}>
           <GlassPanel variant="elevated" className="mt-8 p-6">
@@ -10,7 +10,10 @@ import { Display, Heading, Paragraph, Label, Caption, Text } from '@/components/
 import { GlassButton } from '@/components/ui/GlassButton'
 import { ProductViewer } from '@/components/3d/product-viewer'
 import { CanvasWrapper } from '@/components/3d/canvas-wrapper'
+import { BlurUpImage } from '@/components/interactions/loading-overlay'
 import { cn } from '@/lib/utils'
+import type { ContentStatus } from '@/lib/admin/content'
+import type { ResponsiveImage } from '@/lib/media/types'
 
 /**
  * Product data type
@@ -23,6 +26,10 @@ export interface Product {
   currency?: string
   images: string[]
   thumbnail?: string
+  /** Media library assets the images come from */
+  imageIds?: string[]
+  /** Responsive versions of `images`, filled in by the API from `imageIds` */
+  photos?: ResponsiveImage[]
   description: string
   features: string[]
   specifications?: Record<string, string>
@@ -35,6 +42,8 @@ export interface Product {
   sizes?: string[]
   rating?: number
   reviewCount?: number
+  /** Publishing state; absent means published */
+  status?: ContentStatus
 }
 
 /**
@@ -54,6 +63,8 @@ export interface ProductShowcaseProps {
   onAddToCart?: (product: Product, variant?: { color?: string; size?: string }) => void
   onFavorite?: (product: Product) => void
   onShare?: (product: Product) => void
+  /** Whether a product is on the visitor's shortlist */
+  isFavorite?: (product: Product) => boolean
   /** Additional class names */
   className?: string
 }
@@ -116,12 +127,14 @@ function ProductCard({
   onProductClick,
   onAddToCart,
   onFavorite,
+  isFavorite = false,
   layout = 'grid',
 }: {
   product: Product
   onProductClick?: (product: Product) => void
   onAddToCart?: (product: Product, variant?: { color?: string; size?: string }) => void
   onFavorite?: (product: Product) => void
+  isFavorite?: boolean
   layout?: 'grid' | 'magazine'
 }) {
   const [selectedColor, setSelectedColor] = useState(product.colors?.[0])
@@ -143,14 +156,15 @@ function ProductCard({
             <GlassButton
               variant="ghost"
               size="small"
-              leftIcon={<Heart className="h-4 w-4" />}
+              leftIcon={<Heart className={cn('h-4 w-4', isFavorite && 'fill-gold text-gold')} />}
               onClick={(e) => {
                 e.stopPropagation()
                 onFavorite(product)
               }}
-              aria-label="Add to favorites"
+              aria-label={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+              aria-pressed={isFavorite}
             >
-              <span className="sr-only">Add to favorites</span>
+              <span className="sr-only">{isFavorite ? 'Remove from favorites' : 'Add to favorites'}</span>
             </GlassButton>
           )}
           {onAddToCart && product.inStock && (
@@ -171,9 +185,11 @@ function ProductCard({
     >
       {/* Image */}
       <div className="aspect-[4/3] rounded-lg overflow-hidden mb-4 -mt-10 -mx-10">
-        <img
-          src={product.thumbnail || product.images[0]}
+        <BlurUpImage
+          {...(product.thumbnail ? undefined : product.photos?.[0])}
+          src={product.thumbnail || product.photos?.[0]?.src || product.images[0]}
           alt={product.name}
+          sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
           className="w-full h-full object-cover"
         />
       </div>
@@ -283,9 +299,11 @@ function FeaturedProductHero({
       {/* Product Image/3D Preview */}
       <ViewportAnimator animation="fade-in">
         <div className="relative aspect-square rounded-2xl overflow-hidden">
-          <img
-            src={product.images[0]}
+          <BlurUpImage
+            {...product.photos?.[0]}
+            src={product.photos?.[0]?.src ?? product.images[0]}
             alt={product.name}
+            sizes="(min-width: 1024px) 50vw, 100vw"
             className="w-full h-full object-cover"
           />
 
@@ -409,7 +427,7 @@ function FeaturedProductHero({
  *   products={productsData}
  *   featuredProductId="prod-001"
  *   layout="hero-grid"
- *   onAddToCart={(product) => addToCart(product)}
+ *   onAddToCart={(product, variant) => addItem(product, variant)}
  *   onProductClick={(product) => navigateToProduct(product.id)}
  * />
  * ```
@@ -423,6 +441,7 @@ export function ProductShowcase({
   onAddToCart,
   onFavorite,
   onShare,
+  isFavorite,
   className,
 }: ProductShowcaseProps) {
   const [is3DViewerOpen, setIs3DViewerOpen] = useState(false)
@@ -443,8 +462,9 @@ export function ProductShowcase({
     setIs3DViewerOpen(true)
   }
 
+  // The hero has no option pickers, so use the same defaults as the cards
   const handleAddToCart = (product: Product) => {
-    onAddToCart?.(product)
+    onAddToCart?.(product, { color: product.colors?.[0], size: product.sizes?.[0] })
   }
 
   const handleProductClick = (product: Product) => {
@@ -512,6 +532,7 @@ export function ProductShowcase({
                   onProductClick={handleProductClick}
                   onAddToCart={onAddToCart}
                   onFavorite={onFavorite}
+                  isFavorite={isFavorite?.(product)}
                   layout={layout === 'magazine' ? 'magazine' : 'grid'}
                 />
               ))}
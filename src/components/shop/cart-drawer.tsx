@@ -0,0 +1,192 @@
+'use client'
+
+import React, { useEffect } from 'react'
+import Link from 'next/link'
+import { X, Minus, Plus, ShoppingBag, Trash2 } from 'lucide-react'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Heading, Paragraph, Text, Caption } from '@/components/ui/Typography'
+import { useCart } from '@/components/providers/CartProvider'
+import { FREE_SHIPPING_THRESHOLD, MAX_LINE_QUANTITY, formatPrice, type CartItem } from '@/lib/shop/cart'
+import { cn } from '@/lib/utils'
+
+/**
+ * Quantity stepper and remove control for a cart line
+ */
+export function CartLine({ item, compact = false }: { item: CartItem; compact?: boolean }) {
+  const { updateQuantity, removeItem } = useCart()
+  const options = [item.color, item.size].filter(Boolean).join(' • ')
+
+  return (
+    <li className="flex gap-4 py-4 border-b border-gold/10 last:border-b-0">
+      {item.image && (
+        <img
+          src={item.image}
+          alt={item.name}
+          className={cn('rounded-lg object-cover flex-shrink-0', compact ? 'h-14 w-14' : 'h-20 w-20')}
+        />
+      )}
+      <div className="flex-1 min-w-0">
+        <Text className="font-semibold truncate">{item.name}</Text>
+        {options && <Caption className="text-gold/60">{options}</Caption>}
+        <div className="mt-2 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => updateQuantity(item.key, item.quantity - 1)}
+              className="p-1 rounded bg-gold/10 hover:bg-gold/20 text-gold transition-colors"
+              aria-label={`Decrease quantity of ${item.name}`}
+            >
+              <Minus className="h-3 w-3" />
+            </button>
+            <Text size="sm" className="w-6 text-center" aria-live="polite">{item.quantity}</Text>
+            <button
+              onClick={() => updateQuantity(item.key, item.quantity + 1)}
+              disabled={item.quantity >= MAX_LINE_QUANTITY}
+              className="p-1 rounded bg-gold/10 hover:bg-gold/20 text-gold transition-colors disabled:opacity-40"
+              aria-label={`Increase quantity of ${item.name}`}
+            >
+              <Plus className="h-3 w-3" />
+            </button>
+            <button
+              onClick={() => removeItem(item.key)}
+              className="ml-2 p-1 rounded text-white/50 hover:text-red-300 transition-colors"
+              aria-label={`Remove ${item.name}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+          <Text size="sm" className="font-semibold text-gold">
+            {formatPrice(item.price * item.quantity, item.currency)}
+          </Text>
+        </div>
+      </div>
+    </li>
+  )
+}
+
+/**
+ * Header button showing the number of items in the cart
+ */
+export function CartButton({ className }: { className?: string }) {
+  const { itemCount, openCart } = useCart()
+
+  return (
+    <button
+      onClick={openCart}
+      className={cn(
+        'relative p-2 rounded-lg text-white/80 hover:text-white transition-colors',
+        'focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-gold',
+        className
+      )}
+      aria-label={`Open cart (${itemCount} ${itemCount === 1 ? 'item' : 'items'})`}
+    >
+      <ShoppingBag className="h-6 w-6" />
+      {itemCount > 0 && (
+        <span className="absolute -top-0.5 -right-0.5 min-w-5 h-5 px-1 rounded-full bg-gold text-midnight text-xs font-bold flex items-center justify-center">
+          {itemCount}
+        </span>
+      )}
+    </button>
+  )
+}
+
+/**
+ * Cart Drawer
+ *
+ * Slide-out panel listing cart lines with quantity controls, totals and a
+ * link to checkout. Rendered once in the root layout and opened through `useCart`.
+ */
+export function CartDrawer() {
+  const { items, totals, isOpen, closeCart } = useCart()
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') closeCart()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, closeCart])
+
+  const remainingForFreeShipping = FREE_SHIPPING_THRESHOLD - totals.subtotal
+
+  return (
+    <>
+      {/* Overlay */}
+      <div
+        className={cn(
+          'fixed inset-0 z-[60] bg-midnight/80 backdrop-blur-sm transition-opacity duration-300',
+          isOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'
+        )}
+        onClick={closeCart}
+        aria-hidden="true"
+      />
+
+      {/* Panel */}
+      <aside
+        className={cn(
+          'fixed top-0 right-0 bottom-0 z-[60] w-full max-w-md flex flex-col',
+          'bg-midnight/95 backdrop-blur-xl border-l border-gold/20',
+          'transition-transform duration-300 ease-luxury',
+          isOpen ? 'translate-x-0' : 'translate-x-full'
+        )}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Shopping cart"
+        aria-hidden={!isOpen}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-gold/10">
+          <Heading level={4}>Your Cart</Heading>
+          <button
+            onClick={closeCart}
+            className="p-2 rounded-full bg-gold/10 hover:bg-gold/20 transition-colors"
+            aria-label="Close cart"
+          >
+            <X className="h-5 w-5 text-gold" />
+          </button>
+        </div>
+
+        {items.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center p-6 text-center">
+            <ShoppingBag className="h-12 w-12 text-gold/40 mb-4" />
+            <Paragraph className="mb-6">Your cart is empty.</Paragraph>
+            <Link href="/shop" onClick={closeCart}>
+              <GlassButton variant="outline">Browse the Shop</GlassButton>
+            </Link>
+          </div>
+        ) : (
+          <>
+            <ul className="flex-1 overflow-y-auto px-6">
+              {items.map((item) => (
+                <CartLine key={item.key} item={item} />
+              ))}
+            </ul>
+
+            <div className="p-6 border-t border-gold/10 space-y-3">
+              <div className="flex justify-between">
+                <Text>Subtotal</Text>
+                <Text className="font-semibold">{formatPrice(totals.subtotal, totals.currency)}</Text>
+              </div>
+              <div className="flex justify-between">
+                <Text>Shipping</Text>
+                <Text>{totals.shipping === 0 ? 'Free' : formatPrice(totals.shipping, totals.currency)}</Text>
+              </div>
+              {remainingForFreeShipping > 0 && (
+                <Caption className="block text-gold/70">
+                  Add {formatPrice(remainingForFreeShipping, totals.currency)} more for free shipping
+                </Caption>
+              )}
+              <Link href="/checkout" onClick={closeCart} className="block pt-2">
+                <GlassButton variant="primary" className="w-full">
+                  Checkout • {formatPrice(totals.total, totals.currency)}
+                </GlassButton>
+              </Link>
+            </div>
+          </>
+        )}
+      </aside>
+    </>
+  )
+}
@@ -0,0 +1,202 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Heart, KeyRound, LayoutDashboard, LogOut } from 'lucide-react'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Heading, Paragraph, Label, Caption, Text } from '@/components/ui/Typography'
+import { useSession } from '@/components/providers/SessionProvider'
+import { authAPI } from '@/lib/api/http-client'
+import { canManageContent } from '@/lib/admin/content'
+import { MIN_PASSWORD_LENGTH, getUserRoleLabel, type SessionUser } from '@/lib/auth/users'
+import type { FieldErrors } from '@/lib/validation'
+
+const inputClassName =
+  'w-full px-4 py-2 bg-midnight/50 border border-gold/20 rounded-lg text-white placeholder:text-gold/30 focus:outline-none focus:ring-2 focus:ring-gold/50'
+
+/**
+ * Inline field error
+ */
+function FieldError({ id, message }: { id: string; message?: string }) {
+  if (!message) return null
+
+  return (
+    <Caption id={id} className="mt-1 block text-red-400" role="alert">
+      {message}
+    </Caption>
+  )
+}
+
+/**
+ * Props for AccountView
+ */
+export interface AccountViewProps {
+  user: SessionUser
+}
+
+/**
+ * Account View
+ *
+ * The signed-in user's details, password sign-in setup and links to their
+ * shortlist and, for staff, the back office.
+ */
+export function AccountView({ user: initialUser }: AccountViewProps) {
+  const router = useRouter()
+  const { setUser, signOut } = useSession()
+  const [user, setLocalUser] = useState(initialUser)
+  const [currentPassword, setCurrentPassword] = useState('')
+  const [password, setPassword] = useState('')
+  const [errors, setErrors] = useState<FieldErrors<'currentPassword' | 'password'>>({})
+  const [formError, setFormError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setFormError(null)
+    setMessage(null)
+
+    const result = await authAPI.changePassword(password, user.hasPassword ? currentPassword : undefined)
+    setIsSubmitting(false)
+
+    if (!result.data) {
+      setErrors(result.errors ?? {})
+      setFormError(result.error || 'Something went wrong. Please try again.')
+      return
+    }
+
+    setErrors({})
+    setCurrentPassword('')
+    setPassword('')
+    setMessage(user.hasPassword ? 'Your password has been changed.' : 'You can now sign in with your password.')
+    setLocalUser(result.data)
+    setUser(result.data)
+  }
+
+  const handleSignOut = async () => {
+    await signOut()
+    router.push('/')
+  }
+
+  return (
+    <section className="px-6 py-16 bg-midnight">
+      <div className="max-w-3xl mx-auto grid gap-6 md:grid-cols-2">
+        <GlassPanel className="p-6 space-y-4">
+          <Heading level={5}>Details</Heading>
+          <dl className="space-y-3">
+            {user.name && (
+              <div>
+                <dt><Caption className="text-gold/70">Name</Caption></dt>
+                <dd><Text>{user.name}</Text></dd>
+              </div>
+            )}
+            <div>
+              <dt><Caption className="text-gold/70">Email</Caption></dt>
+              <dd><Text>{user.email}</Text></dd>
+            </div>
+            <div>
+              <dt><Caption className="text-gold/70">Access</Caption></dt>
+              <dd><Text>{getUserRoleLabel(user.role)}</Text></dd>
+            </div>
+          </dl>
+
+          <div className="flex flex-wrap gap-3 pt-2">
+            <Link href="/shortlist">
+              <GlassButton variant="outline" size="small" leftIcon={<Heart className="h-4 w-4" />}>
+                Shortlist
+              </GlassButton>
+            </Link>
+            {canManageContent(user) && (
+              <Link href="/admin">
+                <GlassButton variant="outline" size="small" leftIcon={<LayoutDashboard className="h-4 w-4" />}>
+                  Back Office
+                </GlassButton>
+              </Link>
+            )}
+            <GlassButton
+              variant="ghost"
+              size="small"
+              leftIcon={<LogOut className="h-4 w-4" />}
+              onClick={handleSignOut}
+            >
+              Sign Out
+            </GlassButton>
+          </div>
+        </GlassPanel>
+
+        <GlassPanel className="p-6">
+          <form onSubmit={handlePasswordSubmit} noValidate className="space-y-4">
+            <Heading level={5}>{user.hasPassword ? 'Change Password' : 'Add a Password'}</Heading>
+            {!user.hasPassword && (
+              <Paragraph size="sm">
+                Sign in without waiting for an email. Links keep working either way.
+              </Paragraph>
+            )}
+
+            {user.hasPassword && (
+              <div>
+                <Label htmlFor="account-current-password" required className="mb-2 block">
+                  Current password
+                </Label>
+                <input
+                  id="account-current-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  aria-invalid={errors.currentPassword ? true : undefined}
+                  aria-describedby={errors.currentPassword ? 'account-current-password-error' : undefined}
+                  className={inputClassName}
+                />
+                <FieldError id="account-current-password-error" message={errors.currentPassword} />
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="account-password" required className="mb-2 block">
+                {user.hasPassword ? 'New password' : 'Password'}
+              </Label>
+              <input
+                id="account-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                aria-invalid={errors.password ? true : undefined}
+                aria-describedby={errors.password ? 'account-password-error' : 'account-password-hint'}
+                className={inputClassName}
+              />
+              <Caption id="account-password-hint" className="mt-1 block text-gold/50">
+                At least {MIN_PASSWORD_LENGTH} characters.
+              </Caption>
+              <FieldError id="account-password-error" message={errors.password} />
+            </div>
+
+            {formError && (
+              <Paragraph size="sm" className="text-red-400" role="alert">
+                {formError}
+              </Paragraph>
+            )}
+            {message && (
+              <Paragraph size="sm" className="text-gold" role="status">
+                {message}
+              </Paragraph>
+            )}
+
+            <GlassButton
+              type="submit"
+              variant="primary"
+              isLoading={isSubmitting}
+              leftIcon={<KeyRound className="h-4 w-4" />}
+            >
+              {user.hasPassword ? 'Change Password' : 'Save Password'}
+            </GlassButton>
+          </form>
+        </GlassPanel>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,143 @@
+'use client'
+
+import React, { useState } from 'react'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Paragraph, Caption, Text } from '@/components/ui/Typography'
+import { adminAPI } from '@/lib/api/http-client'
+import {
+  BOOKING_STATES,
+  BOOKING_TRANSITIONS,
+  getBookingStateLabel,
+  getBreedingMethodLabel,
+  type BookingState,
+  type StudBooking,
+} from '@/lib/breeding/booking'
+import { cn, formatDate } from '@/lib/utils'
+
+const STATUS_STYLES: Record<BookingState, string> = {
+  requested: 'bg-white/10 text-white/80',
+  confirmed: 'bg-gold/20 text-gold',
+  paid: 'bg-gold/20 text-gold',
+  completed: 'bg-white/5 text-white/60',
+  cancelled: 'bg-white/5 text-white/40',
+}
+
+/**
+ * Button label for moving a booking into a state
+ */
+const ACTION_LABELS: Record<BookingState, string> = {
+  requested: 'Reopen',
+  confirmed: 'Confirm',
+  paid: 'Mark paid',
+  completed: 'Complete',
+  cancelled: 'Cancel',
+}
+
+/**
+ * Props for AdminBookingsView
+ */
+export interface AdminBookingsViewProps {
+  bookings: StudBooking[]
+  /** Stallion names by id */
+  stallionNames: Record<string, string>
+}
+
+/**
+ * Back Office Stud Bookings
+ *
+ * Booking requests filterable by state, offering only the moves the
+ * booking lifecycle allows. Confirming fails once the season is full.
+ */
+export function AdminBookingsView({ bookings: initialBookings, stallionNames }: AdminBookingsViewProps) {
+  const [bookings, setBookings] = useState(initialBookings)
+  const [filter, setFilter] = useState<BookingState | 'all'>('requested')
+  const [error, setError] = useState<string | null>(null)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const visible = filter === 'all' ? bookings : bookings.filter((booking) => booking.status === filter)
+
+  const transition = async (booking: StudBooking, status: BookingState) => {
+    setError(null)
+    setPendingId(booking.id)
+    const response = await adminAPI.transitionBooking(booking.id, status)
+    setPendingId(null)
+
+    if (!response.data) {
+      setError(response.error || `The booking for ${booking.mare.name} could not be updated.`)
+      return
+    }
+
+    const updated = response.data
+    setBookings((current) => current.map((b) => (b.id === updated.id ? updated : b)))
+  }
+
+  return (
+    <section className="px-6 py-16 bg-midnight">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by status">
+          {[{ value: 'all' as const, label: 'All' }, ...BOOKING_STATES].map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setFilter(option.value)}
+              aria-pressed={filter === option.value}
+              className={cn(
+                'px-3 py-1 rounded-full text-sm transition-colors',
+                filter === option.value ? 'bg-gold text-midnight' : 'bg-gold/10 text-gold hover:bg-gold/20'
+              )}
+            >
+              {option.label} ({option.value === 'all' ? bookings.length : bookings.filter((b) => b.status === option.value).length})
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <Paragraph size="sm" className="text-red-400" role="alert">
+            {error}
+          </Paragraph>
+        )}
+
+        {visible.length === 0 ? (
+          <Paragraph className="text-center">No bookings here.</Paragraph>
+        ) : (
+          <GlassPanel className="divide-y divide-gold/10">
+            {visible.map((booking) => (
+              <article key={booking.id} className="flex flex-wrap items-center gap-4 p-4">
+                <div className="flex-1 min-w-0">
+                  <Text className="block font-semibold truncate">
+                    {stallionNames[booking.stallionId] ?? 'Unknown stallion'} × {booking.mare.name}
+                  </Text>
+                  <Caption className="block text-gold/60">
+                    {booking.season} season · {getBreedingMethodLabel(booking.method)} · {booking.mare.breed},{' '}
+                    {booking.mare.age} years
+                  </Caption>
+                  <Caption className="block text-gold/60">
+                    {booking.owner.name} · {booking.owner.email}
+                    {booking.owner.phone && ` · ${booking.owner.phone}`} · requested {formatDate(booking.createdAt)}
+                  </Caption>
+                </div>
+
+                <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium', STATUS_STYLES[booking.status])}>
+                  {getBookingStateLabel(booking.status)}
+                </span>
+
+                {BOOKING_TRANSITIONS[booking.status].map((next) => (
+                  <GlassButton
+                    key={next}
+                    variant={next === 'cancelled' ? 'ghost' : 'secondary'}
+                    size="small"
+                    onClick={() => transition(booking, next)}
+                    disabled={pendingId !== null}
+                    aria-label={`${ACTION_LABELS[next]} the booking for ${booking.mare.name}`}
+                  >
+                    {ACTION_LABELS[next]}
+                  </GlassButton>
+                ))}
+              </article>
+            ))}
+          </GlassPanel>
+        )}
+      </div>
+    </section>
+  )
+}
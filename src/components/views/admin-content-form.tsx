@@ -0,0 +1,329 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Archive, Save } from 'lucide-react'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Paragraph, Label, Caption } from '@/components/ui/Typography'
+import { adminAPI } from '@/lib/api/http-client'
+import { getAdminEntity, type AdminEntity } from '@/lib/admin/content'
+import { ADMIN_FIELDS, type AdminField, type AdminFormValues, type AdminRecord } from '@/lib/admin/forms'
+import { IMAGE_SIZES } from '@/lib/constants'
+import { getMediaSrc, type MediaAsset } from '@/lib/media/media'
+import type { FieldErrors } from '@/lib/validation'
+import { cn } from '@/lib/utils'
+
+/**
+ * Form state: text for inputs, with list fields as one entry per line
+ */
+type FormState = Record<string, string | boolean>
+
+const inputClassName =
+  'w-full px-4 py-2 bg-midnight/50 border border-gold/20 rounded-lg text-white placeholder:text-gold/30 focus:outline-none focus:ring-2 focus:ring-gold/50'
+
+/**
+ * Inline field error
+ */
+function FieldError({ id, message }: { id: string; message?: string }) {
+  if (!message) return null
+
+  return (
+    <Caption id={id} className="mt-1 block text-red-400" role="alert">
+      {message}
+    </Caption>
+  )
+}
+
+function toFormState(fields: AdminField[], values: AdminFormValues): FormState {
+  const state: FormState = {}
+  fields.forEach((field) => {
+    const value = values[field.name]
+    if (field.kind === 'checkbox') {
+      state[field.name] = value === true
+    } else if (Array.isArray(value)) {
+      state[field.name] = value.join('\n')
+    } else {
+      state[field.name] = value === undefined ? '' : String(value)
+    }
+  })
+  return state
+}
+
+/**
+ * Props for AdminContentForm
+ */
+export interface AdminContentFormProps {
+  entity: AdminEntity
+  /** Record to edit; omit to create one */
+  record?: AdminRecord
+  /** Media library, newest first, for the photo fields */
+  media?: MediaAsset[]
+}
+
+/**
+ * Back Office Form
+ *
+ * Create and edit form for any collection, built from `ADMIN_FIELDS`. The
+ * server validates against the same definitions and its field errors are
+ * shown inline. New records start as drafts.
+ */
+export function AdminContentForm({ entity, record, media = [] }: AdminContentFormProps) {
+  const router = useRouter()
+  const fields = ADMIN_FIELDS[entity]
+  const { label, singular } = getAdminEntity(entity)
+  const [form, setForm] = useState<FormState>(() =>
+    toFormState(fields, record?.values ?? { status: 'draft' })
+  )
+  const [errors, setErrors] = useState<FieldErrors>({})
+  const [formError, setFormError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const setValue = (name: string, value: string | boolean) => {
+    setForm((current) => ({ ...current, [name]: value }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setFormError(null)
+    setMessage(null)
+
+    const response = record
+      ? await adminAPI.update(entity, record.id, form)
+      : await adminAPI.create(entity, form)
+
+    setIsSubmitting(false)
+
+    if (!response.data) {
+      setErrors(response.errors ?? {})
+      setFormError(response.error || 'Something went wrong. Please try again.')
+      return
+    }
+
+    setErrors({})
+    if (!record) {
+      router.push(`/admin/${entity}/${response.data.id}`)
+      return
+    }
+
+    setForm(toFormState(fields, response.data.values))
+    setMessage('Saved. The public pages will show the changes on their next visit.')
+  }
+
+  const handleArchive = async () => {
+    if (!record) return
+
+    setIsSubmitting(true)
+    setFormError(null)
+    const response = await adminAPI.archive(entity, record.id)
+    setIsSubmitting(false)
+
+    if (!response.data) {
+      setFormError(response.error || 'Something went wrong. Please try again.')
+      return
+    }
+
+    router.push(`/admin/${entity}`)
+  }
+
+  const renderInput = (field: AdminField) => {
+    const id = `admin-${field.name}`
+    const errorId = `${id}-error`
+    const value = form[field.name]
+    const common = {
+      id,
+      name: field.name,
+      'aria-invalid': errors[field.name] ? true : undefined,
+      'aria-describedby': errors[field.name] ? errorId : undefined,
+    }
+
+    switch (field.kind) {
+      case 'checkbox':
+        return (
+          <input
+            {...common}
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => setValue(field.name, e.target.checked)}
+            className="h-4 w-4 accent-gold"
+          />
+        )
+      case 'textarea':
+      case 'list':
+      case 'urlList':
+        return (
+          <textarea
+            {...common}
+            value={String(value ?? '')}
+            rows={field.kind === 'textarea' ? 5 : 3}
+            onChange={(e) => setValue(field.name, e.target.value)}
+            className={inputClassName}
+          />
+        )
+      case 'media':
+      case 'mediaList': {
+        const selected = String(value ?? '').split('\n').filter(Boolean)
+        const toggle = (assetId: string) => {
+          const isSelected = selected.includes(assetId)
+          const next =
+            field.kind === 'media'
+              ? isSelected ? [] : [assetId]
+              : isSelected ? selected.filter((s) => s !== assetId) : [...selected, assetId]
+          setValue(field.name, next.join('\n'))
+        }
+
+        if (media.length === 0) {
+          return (
+            <Caption className="block text-gold/60">
+              No images yet. <Link href="/admin/media" className="text-gold underline">Upload some</Link> first.
+            </Caption>
+          )
+        }
+
+        return (
+          <div
+            {...common}
+            role="group"
+            aria-label={field.label}
+            className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-2"
+          >
+            {media.map((asset) => {
+              const position = selected.indexOf(asset.id)
+              return (
+                <button
+                  key={asset.id}
+                  type="button"
+                  onClick={() => toggle(asset.id)}
+                  aria-pressed={position >= 0}
+                  aria-label={asset.alt || asset.filename}
+                  className={cn(
+                    'relative aspect-square rounded-lg overflow-hidden border-2 transition-colors',
+                    position >= 0 ? 'border-gold' : 'border-transparent hover:border-gold/50'
+                  )}
+                >
+                  <img src={getMediaSrc(asset, IMAGE_SIZES.MEDIUM)} alt="" className="h-full w-full object-cover" />
+                  {field.kind === 'mediaList' && position >= 0 && (
+                    <span className="absolute top-1 left-1 h-5 min-w-5 px-1 rounded-full bg-gold text-midnight text-xs font-semibold">
+                      {position + 1}
+                    </span>
+                  )}
+                </button>
+              )
+            })}
+          </div>
+        )
+      }
+      case 'select':
+        return (
+          <select
+            {...common}
+            value={String(value ?? '')}
+            onChange={(e) => setValue(field.name, e.target.value)}
+            className={inputClassName}
+          >
+            {!field.required && <option value="">—</option>}
+            {field.options?.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        )
+      default:
+        return (
+          <input
+            {...common}
+            type={field.kind === 'url' ? 'text' : field.kind}
+            value={String(value ?? '')}
+            min={field.min}
+            max={field.max}
+            step={field.kind === 'number' && !field.integer ? 'any' : undefined}
+            onChange={(e) => setValue(field.name, e.target.value)}
+            className={inputClassName}
+          />
+        )
+    }
+  }
+
+  return (
+    <section className="px-6 py-16 bg-midnight">
+      <div className="max-w-3xl mx-auto">
+        <GlassPanel variant="elevated" className="p-6 md:p-8">
+          <form onSubmit={handleSubmit} noValidate className="space-y-6">
+            {fields.map((field) => {
+              const id = `admin-${field.name}`
+              const isList = field.kind === 'list' || field.kind === 'urlList'
+
+              if (field.kind === 'checkbox') {
+                return (
+                  <div key={field.name} className="flex items-center gap-3">
+                    {renderInput(field)}
+                    <Label htmlFor={id}>{field.label}</Label>
+                  </div>
+                )
+              }
+
+              return (
+                <div key={field.name}>
+                  <Label htmlFor={id} required={field.required} className="mb-2 block">
+                    {field.label}
+                  </Label>
+                  {renderInput(field)}
+                  {(field.hint || isList || field.kind === 'mediaList') && (
+                    <Caption className="mt-1 block text-gold/50">
+                      {[
+                        isList && 'One per line.',
+                        field.kind === 'mediaList' && 'Shown in the order chosen.',
+                        field.hint,
+                      ].filter(Boolean).join(' ')}
+                    </Caption>
+                  )}
+                  <FieldError id={`${id}-error`} message={errors[field.name]} />
+                </div>
+              )
+            })}
+
+            {formError && (
+              <Paragraph size="sm" className="text-red-400" role="alert">
+                {formError}
+              </Paragraph>
+            )}
+            {message && (
+              <Paragraph size="sm" className="text-gold" role="status">
+                {message}
+              </Paragraph>
+            )}
+
+            <div className="flex flex-wrap gap-4">
+              <GlassButton
+                type="submit"
+                variant="primary"
+                isLoading={isSubmitting}
+                leftIcon={<Save className="h-4 w-4" />}
+              >
+                {record ? 'Save Changes' : `Create ${singular}`}
+              </GlassButton>
+              {record && record.status !== 'archived' && (
+                <GlassButton
+                  type="button"
+                  variant="outline"
+                  disabled={isSubmitting}
+                  leftIcon={<Archive className="h-4 w-4" />}
+                  onClick={handleArchive}
+                >
+                  Archive
+                </GlassButton>
+              )}
+              <GlassButton type="button" variant="ghost" onClick={() => router.push(`/admin/${entity}`)}>
+                Back to {label}
+              </GlassButton>
+            </div>
+          </form>
+        </GlassPanel>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,189 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { Archive, ArrowDown, ArrowUp, Pencil, Plus } from 'lucide-react'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Paragraph, Caption, Text } from '@/components/ui/Typography'
+import { adminAPI } from '@/lib/api/http-client'
+import {
+  CONTENT_STATUSES,
+  getAdminEntity,
+  getContentStatusLabel,
+  type AdminEntity,
+  type AdminListItem,
+  type ContentStatus,
+} from '@/lib/admin/content'
+import { cn } from '@/lib/utils'
+
+const STATUS_STYLES: Record<ContentStatus, string> = {
+  draft: 'bg-white/10 text-white/80',
+  published: 'bg-gold/20 text-gold',
+  archived: 'bg-white/5 text-white/40',
+}
+
+/**
+ * Props for AdminContentList
+ */
+export interface AdminContentListProps {
+  entity: AdminEntity
+  /** Records in display order */
+  items: AdminListItem[]
+}
+
+/**
+ * Back Office List
+ *
+ * A collection in display order with status filters, move up/down controls
+ * and archiving. Reordering saves straight away and is only offered while
+ * every record is shown, so the saved order always covers the whole list.
+ */
+export function AdminContentList({ entity, items: initialItems }: AdminContentListProps) {
+  const [items, setItems] = useState(initialItems)
+  const [filter, setFilter] = useState<ContentStatus | 'all'>('all')
+  const [error, setError] = useState<string | null>(null)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const { singular } = getAdminEntity(entity)
+
+  const visible = filter === 'all' ? items : items.filter((item) => item.status === filter)
+
+  const move = async (index: number, offset: -1 | 1) => {
+    const previous = items
+    const next = [...items]
+    const [item] = next.splice(index, 1)
+    next.splice(index + offset, 0, item)
+
+    setItems(next)
+    setError(null)
+    setPendingId(item.id)
+    const response = await adminAPI.reorder(entity, next.map((i) => i.id))
+    setPendingId(null)
+
+    if (!response.data) {
+      setItems(previous)
+      setError(response.error || 'The new order could not be saved.')
+    }
+  }
+
+  const archive = async (item: AdminListItem) => {
+    setError(null)
+    setPendingId(item.id)
+    const response = await adminAPI.archive(entity, item.id)
+    setPendingId(null)
+
+    if (!response.data) {
+      setError(response.error || `${item.title} could not be archived.`)
+      return
+    }
+
+    setItems((current) => current.map((i) => (i.id === item.id ? { ...i, status: 'archived' } : i)))
+  }
+
+  return (
+    <section className="px-6 py-16 bg-midnight">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by status">
+            {[{ value: 'all' as const, label: 'All' }, ...CONTENT_STATUSES].map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setFilter(option.value)}
+                aria-pressed={filter === option.value}
+                className={cn(
+                  'px-3 py-1 rounded-full text-sm transition-colors',
+                  filter === option.value ? 'bg-gold text-midnight' : 'bg-gold/10 text-gold hover:bg-gold/20'
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <Link href={`/admin/${entity}/new`}>
+            <GlassButton variant="primary" size="small" leftIcon={<Plus className="h-4 w-4" />}>
+              New {singular}
+            </GlassButton>
+          </Link>
+        </div>
+
+        {error && (
+          <Paragraph size="sm" className="text-red-400" role="alert">
+            {error}
+          </Paragraph>
+        )}
+
+        <GlassPanel className="divide-y divide-gold/10">
+          {visible.length === 0 && (
+            <Paragraph size="sm" className="p-6">Nothing here yet.</Paragraph>
+          )}
+          {visible.map((item) => {
+            const index = items.indexOf(item)
+
+            return (
+              <div key={item.id} className="flex items-center gap-4 p-4">
+                {filter === 'all' && (
+                  <div className="flex flex-col">
+                    <button
+                      type="button"
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0 || pendingId !== null}
+                      aria-label={`Move ${item.title} up`}
+                      className="p-1 text-gold/70 hover:text-gold disabled:opacity-30"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => move(index, 1)}
+                      disabled={index === items.length - 1 || pendingId !== null}
+                      aria-label={`Move ${item.title} down`}
+                      className="p-1 text-gold/70 hover:text-gold disabled:opacity-30"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+
+                {item.image ? (
+                  <img src={item.image} alt="" className="h-12 w-12 rounded-lg object-cover flex-shrink-0" />
+                ) : (
+                  <div className="h-12 w-12 rounded-lg bg-gold/10 flex-shrink-0" aria-hidden="true" />
+                )}
+
+                <div className="flex-1 min-w-0">
+                  <Link href={`/admin/${entity}/${item.id}`} className="hover:text-gold transition-colors">
+                    <Text className="block font-semibold truncate">{item.title}</Text>
+                  </Link>
+                  <Caption className="block text-gold/60 truncate">{item.subtitle}</Caption>
+                </div>
+
+                <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium', STATUS_STYLES[item.status])}>
+                  {getContentStatusLabel(item.status)}
+                </span>
+
+                <Link href={`/admin/${entity}/${item.id}`} aria-label={`Edit ${item.title}`}>
+                  <GlassButton variant="ghost" size="small" leftIcon={<Pencil className="h-4 w-4" />}>
+                    Edit
+                  </GlassButton>
+                </Link>
+                {item.status !== 'archived' && (
+                  <GlassButton
+                    variant="ghost"
+                    size="small"
+                    leftIcon={<Archive className="h-4 w-4" />}
+                    onClick={() => archive(item)}
+                    disabled={pendingId !== null}
+                    aria-label={`Archive ${item.title}`}
+                  >
+                    Archive
+                  </GlassButton>
+                )}
+              </div>
+            )
+          })}
+        </GlassPanel>
+      </div>
+    </section>
+  )
+}
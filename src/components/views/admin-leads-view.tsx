@@ -0,0 +1,125 @@
+'use client'
+
+import React, { useState } from 'react'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { Paragraph, Caption, Text } from '@/components/ui/Typography'
+import { adminAPI } from '@/lib/api/http-client'
+import {
+  LEAD_STATUSES,
+  PREFERRED_CONTACT_OPTIONS,
+  isLeadStatus,
+  type Lead,
+  type LeadStatus,
+} from '@/lib/inquiries/lead'
+import { cn, formatDate } from '@/lib/utils'
+
+/**
+ * Props for AdminLeadsView
+ */
+export interface AdminLeadsViewProps {
+  /** Newest first */
+  leads: Lead[]
+}
+
+/**
+ * Back Office Leads
+ *
+ * Inquiries from the site, filterable by pipeline stage, with a status
+ * picker that saves on change.
+ */
+export function AdminLeadsView({ leads: initialLeads }: AdminLeadsViewProps) {
+  const [leads, setLeads] = useState(initialLeads)
+  const [filter, setFilter] = useState<LeadStatus | 'all'>('new')
+  const [error, setError] = useState<string | null>(null)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+  const visible = filter === 'all' ? leads : leads.filter((lead) => lead.status === filter)
+
+  const handleStatusChange = async (lead: Lead, status: string) => {
+    if (!isLeadStatus(status)) return
+
+    setError(null)
+    setPendingId(lead.id)
+    const response = await adminAPI.setLeadStatus(lead.id, status)
+    setPendingId(null)
+
+    if (!response.data) {
+      setError(response.error || `${lead.name}'s inquiry could not be updated.`)
+      return
+    }
+
+    const updated = response.data
+    setLeads((current) => current.map((l) => (l.id === updated.id ? updated : l)))
+  }
+
+  return (
+    <section className="px-6 py-16 bg-midnight">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by status">
+          {[{ value: 'all' as const, label: 'All' }, ...LEAD_STATUSES].map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setFilter(option.value)}
+              aria-pressed={filter === option.value}
+              className={cn(
+                'px-3 py-1 rounded-full text-sm transition-colors',
+                filter === option.value ? 'bg-gold text-midnight' : 'bg-gold/10 text-gold hover:bg-gold/20'
+              )}
+            >
+              {option.label} ({option.value === 'all' ? leads.length : leads.filter((l) => l.status === option.value).length})
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <Paragraph size="sm" className="text-red-400" role="alert">
+            {error}
+          </Paragraph>
+        )}
+
+        {visible.length === 0 ? (
+          <Paragraph className="text-center">No inquiries here.</Paragraph>
+        ) : (
+          <GlassPanel className="divide-y divide-gold/10">
+            {visible.map((lead) => (
+              <article key={lead.id} className="p-4 space-y-2">
+                <div className="flex flex-wrap items-start gap-4">
+                  <div className="flex-1 min-w-0">
+                    <Text className="block font-semibold truncate">{lead.name}</Text>
+                    <Caption className="block text-gold/60">
+                      {lead.email}
+                      {lead.phone && ` · ${lead.phone}`} · prefers{' '}
+                      {PREFERRED_CONTACT_OPTIONS.find((o) => o.value === lead.preferredContact)?.label.toLowerCase()}
+                    </Caption>
+                    <Caption className="block text-gold/60">
+                      {formatDate(lead.createdAt)}
+                      {lead.subject && ` · About ${lead.subject.type === 'stallion' ? 'stallion' : 'horse'} ${lead.subject.name}`}
+                    </Caption>
+                  </div>
+
+                  <label htmlFor={`lead-status-${lead.id}`} className="sr-only">
+                    Status of {lead.name}&apos;s inquiry
+                  </label>
+                  <select
+                    id={`lead-status-${lead.id}`}
+                    value={lead.status}
+                    onChange={(e) => handleStatusChange(lead, e.target.value)}
+                    disabled={pendingId !== null}
+                    className="px-3 py-1.5 bg-midnight/50 border border-gold/20 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-gold/50 disabled:opacity-50"
+                  >
+                    {LEAD_STATUSES.map((status) => (
+                      <option key={status.value} value={status.value}>
+                        {status.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <Paragraph size="sm" className="whitespace-pre-line">{lead.message}</Paragraph>
+              </article>
+            ))}
+          </GlassPanel>
+        )}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,279 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Save, Trash2, Upload } from 'lucide-react'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Heading, Paragraph, Label, Caption, Text } from '@/components/ui/Typography'
+import { adminAPI } from '@/lib/api/http-client'
+import { IMAGE_SIZES } from '@/lib/constants'
+import {
+  ACCEPTED_IMAGE_TYPES,
+  MAX_ALT_LENGTH,
+  MAX_UPLOAD_BYTES,
+  formatFileSize,
+  getMediaSrc,
+  type MediaAsset,
+} from '@/lib/media/media'
+import type { MediaVideo } from '@/lib/media/video'
+import type { FieldErrors } from '@/lib/validation'
+import { AdminVideosView } from './admin-videos-view'
+
+const inputClassName =
+  'w-full px-4 py-2 bg-midnight/50 border border-gold/20 rounded-lg text-white placeholder:text-gold/30 focus:outline-none focus:ring-2 focus:ring-gold/50'
+
+/**
+ * Inline field error
+ */
+function FieldError({ id, message }: { id: string; message?: string }) {
+  if (!message) return null
+
+  return (
+    <Caption id={id} className="mt-1 block text-red-400" role="alert">
+      {message}
+    </Caption>
+  )
+}
+
+/**
+ * One image with its alt text editor
+ */
+function MediaCard({
+  asset,
+  onSaved,
+  onDeleted,
+}: {
+  asset: MediaAsset
+  onSaved: (asset: MediaAsset) => void
+  onDeleted: (id: string) => void
+}) {
+  const [alt, setAlt] = useState(asset.alt ?? '')
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const inputId = `media-alt-${asset.id}`
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError(null)
+    const response = await adminAPI.updateMedia(asset.id, { alt })
+    setIsSaving(false)
+
+    if (!response.data) {
+      setError(response.errors?.alt || response.error || 'Something went wrong. Please try again.')
+      return
+    }
+    onSaved(response.data)
+  }
+
+  const handleDelete = async () => {
+    setIsSaving(true)
+    setError(null)
+    const response = await adminAPI.deleteMedia(asset.id)
+    setIsSaving(false)
+
+    if (!response.data) {
+      setError(response.error || 'Something went wrong. Please try again.')
+      return
+    }
+    onDeleted(asset.id)
+  }
+
+  return (
+    <GlassPanel className="overflow-hidden">
+      <img
+        src={getMediaSrc(asset, IMAGE_SIZES.MEDIUM)}
+        alt={asset.alt ?? ''}
+        width={asset.width}
+        height={asset.height}
+        className="aspect-[4/3] w-full object-cover"
+        style={{ backgroundImage: `url("${asset.placeholder}")`, backgroundSize: 'cover' }}
+      />
+      <form onSubmit={handleSave} className="p-4 space-y-3">
+        <div className="min-w-0">
+          <Text className="block font-semibold truncate">{asset.filename}</Text>
+          <Caption className="block text-gold/60">
+            {asset.width} × {asset.height} · {formatFileSize(asset.bytes)}
+          </Caption>
+        </div>
+
+        <div>
+          <Label htmlFor={inputId} className="mb-1 block">Alt text</Label>
+          <input
+            id={inputId}
+            value={alt}
+            maxLength={MAX_ALT_LENGTH}
+            onChange={(e) => setAlt(e.target.value)}
+            placeholder="Describe the image"
+            className={inputClassName}
+          />
+        </div>
+
+        {error && (
+          <Caption className="block text-red-400" role="alert">
+            {error}
+          </Caption>
+        )}
+
+        <div className="flex gap-2">
+          <GlassButton
+            type="submit"
+            variant="outline"
+            size="small"
+            isLoading={isSaving}
+            disabled={alt === (asset.alt ?? '')}
+            leftIcon={<Save className="h-4 w-4" />}
+          >
+            Save
+          </GlassButton>
+          <GlassButton
+            type="button"
+            variant="ghost"
+            size="small"
+            disabled={isSaving}
+            leftIcon={<Trash2 className="h-4 w-4" />}
+            onClick={handleDelete}
+          >
+            Delete
+          </GlassButton>
+        </div>
+      </form>
+    </GlassPanel>
+  )
+}
+
+/**
+ * Props for AdminMediaView
+ */
+export interface AdminMediaViewProps {
+  /** Newest first */
+  assets: MediaAsset[]
+  /** Newest first */
+  videos: MediaVideo[]
+}
+
+/**
+ * Back Office Media Library
+ *
+ * Upload form and every uploaded image. Uploads are resized and re-encoded
+ * on the server, which can take a few seconds for large photos. Videos for
+ * the home page hero follow the images.
+ */
+export function AdminMediaView({ assets: initialAssets, videos }: AdminMediaViewProps) {
+  const [assets, setAssets] = useState(initialAssets)
+  const [file, setFile] = useState<File | null>(null)
+  const [alt, setAlt] = useState('')
+  const [errors, setErrors] = useState<FieldErrors<'file' | 'alt'>>({})
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isUploading, setIsUploading] = useState(false)
+  // Changing the key clears the file input after an upload
+  const [inputKey, setInputKey] = useState(0)
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!file) {
+      setErrors({ file: 'Please choose an image to upload' })
+      return
+    }
+
+    setIsUploading(true)
+    setFormError(null)
+    const response = await adminAPI.uploadMedia(file, alt)
+    setIsUploading(false)
+
+    if (!response.data) {
+      setErrors(response.errors ?? {})
+      setFormError(response.error || 'Something went wrong. Please try again.')
+      return
+    }
+
+    const uploaded = response.data
+    setErrors({})
+    setFile(null)
+    setAlt('')
+    setInputKey((key) => key + 1)
+    setAssets((current) => [uploaded, ...current])
+  }
+
+  return (
+    <section className="px-6 py-16 bg-midnight">
+      <div className="max-w-5xl mx-auto space-y-8">
+        <GlassPanel variant="elevated" className="p-6">
+          <form onSubmit={handleUpload} noValidate className="space-y-4">
+            <Heading level={5}>Upload an Image</Heading>
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="media-file" required className="mb-2 block">Image</Label>
+                <input
+                  key={inputKey}
+                  id="media-file"
+                  type="file"
+                  accept={ACCEPTED_IMAGE_TYPES.map((type) => type.mimeType).join(',')}
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                  aria-invalid={errors.file ? true : undefined}
+                  aria-describedby={errors.file ? 'media-file-error' : 'media-file-hint'}
+                  className="block w-full text-sm text-gold/80 file:mr-4 file:rounded-full file:border-0 file:bg-gold/10 file:px-4 file:py-2 file:text-gold hover:file:bg-gold/20"
+                />
+                <Caption id="media-file-hint" className="mt-1 block text-gold/50">
+                  JPEG, PNG, WebP or AVIF up to {formatFileSize(MAX_UPLOAD_BYTES)}. Location data is removed.
+                </Caption>
+                <FieldError id="media-file-error" message={errors.file} />
+              </div>
+              <div>
+                <Label htmlFor="media-alt" className="mb-2 block">Alt text</Label>
+                <input
+                  id="media-alt"
+                  value={alt}
+                  maxLength={MAX_ALT_LENGTH}
+                  onChange={(e) => setAlt(e.target.value)}
+                  placeholder="e.g. Bay mare jumping an oxer"
+                  aria-invalid={errors.alt ? true : undefined}
+                  aria-describedby={errors.alt ? 'media-alt-error' : undefined}
+                  className={inputClassName}
+                />
+                <FieldError id="media-alt-error" message={errors.alt} />
+              </div>
+            </div>
+
+            {formError && (
+              <Paragraph size="sm" className="text-red-400" role="alert">
+                {formError}
+              </Paragraph>
+            )}
+
+            <GlassButton
+              type="submit"
+              variant="primary"
+              isLoading={isUploading}
+              leftIcon={<Upload className="h-4 w-4" />}
+            >
+              Upload
+            </GlassButton>
+          </form>
+        </GlassPanel>
+
+        {assets.length === 0 ? (
+          <Paragraph className="text-center">No images yet. Uploads appear here.</Paragraph>
+        ) : (
+          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {assets.map((asset) => (
+              <MediaCard
+                key={asset.id}
+                asset={asset}
+                onSaved={(saved) => setAssets((current) => current.map((a) => (a.id === saved.id ? saved : a)))}
+                onDeleted={(id) => setAssets((current) => current.filter((a) => a.id !== id))}
+              />
+            ))}
+          </div>
+        )}
+
+        <Heading level={4} className="pt-8">Videos</Heading>
+        <AdminVideosView
+          videos={videos}
+          images={assets}
+          onImageUploaded={(asset) => setAssets((current) => [asset, ...current])}
+        />
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import React, { useState } from 'react'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { Paragraph, Caption, Text } from '@/components/ui/Typography'
+import { adminAPI } from '@/lib/api/http-client'
+import { USER_ROLES, getDisplayName, isUserRole, type SessionUser } from '@/lib/auth/users'
+
+/**
+ * Props for AdminUsersView
+ */
+export interface AdminUsersViewProps {
+  users: SessionUser[]
+  /** The signed-in admin, whose own role can't be changed here */
+  currentUserId: string
+}
+
+/**
+ * Back Office Accounts
+ *
+ * Every account with a role picker that saves on change.
+ */
+export function AdminUsersView({ users: initialUsers, currentUserId }: AdminUsersViewProps) {
+  const [users, setUsers] = useState(initialUsers)
+  const [error, setError] = useState<string | null>(null)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+
+  const handleRoleChange = async (user: SessionUser, role: string) => {
+    if (!isUserRole(role)) return
+
+    setError(null)
+    setPendingId(user.id)
+    const response = await adminAPI.setUserRole(user.id, role)
+    setPendingId(null)
+
+    if (!response.data) {
+      setError(response.error || `${getDisplayName(user)}'s role could not be changed.`)
+      return
+    }
+
+    const updated = response.data
+    setUsers((current) => current.map((u) => (u.id === updated.id ? updated : u)))
+  }
+
+  return (
+    <section className="px-6 py-16 bg-midnight">
+      <div className="max-w-5xl mx-auto space-y-6">
+        {error && (
+          <Paragraph size="sm" className="text-red-400" role="alert">
+            {error}
+          </Paragraph>
+        )}
+
+        <GlassPanel className="divide-y divide-gold/10">
+          {users.map((user) => (
+            <div key={user.id} className="flex flex-wrap items-center gap-4 p-4">
+              <div className="flex-1 min-w-0">
+                <Text className="block font-semibold truncate">{getDisplayName(user)}</Text>
+                {user.name && <Caption className="block text-gold/60 truncate">{user.email}</Caption>}
+              </div>
+
+              <label htmlFor={`role-${user.id}`} className="sr-only">
+                Role for {getDisplayName(user)}
+              </label>
+              <select
+                id={`role-${user.id}`}
+                value={user.role}
+                onChange={(e) => handleRoleChange(user, e.target.value)}
+                disabled={user.id === currentUserId || pendingId !== null}
+                className="px-3 py-1.5 bg-midnight/50 border border-gold/20 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-gold/50 disabled:opacity-50"
+              >
+                {USER_ROLES.map((role) => (
+                  <option key={role.value} value={role.value}>
+                    {role.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </GlassPanel>
+      </div>
+    </section>
+  )
+}
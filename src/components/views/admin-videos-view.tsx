@@ -0,0 +1,629 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Camera, Copy, Plus, Trash2, Upload } from 'lucide-react'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Heading, Paragraph, Label, Caption, Text } from '@/components/ui/Typography'
+import { adminAPI } from '@/lib/api/http-client'
+import { IMAGE_SIZES } from '@/lib/constants'
+import { formatFileSize, getMediaSrc, type MediaAsset } from '@/lib/media/media'
+import {
+  MAX_VIDEO_BYTES,
+  VIDEO_CODECS,
+  VIDEO_TRACK_KINDS,
+  getVideoCodec,
+  type MediaVideo,
+  type VideoCodec,
+  type VideoTrackKind,
+} from '@/lib/media/video'
+import { captureVideoFrame, readVideoDimensions } from '@/lib/media/video-file'
+import { hasErrors, type FieldErrors } from '@/lib/validation'
+
+const inputClassName =
+  'w-full px-4 py-2 bg-midnight/50 border border-gold/20 rounded-lg text-white placeholder:text-gold/30 focus:outline-none focus:ring-2 focus:ring-gold/50'
+
+const fileInputClassName =
+  'block w-full text-sm text-gold/80 file:mr-4 file:rounded-full file:border-0 file:bg-gold/10 file:px-4 file:py-2 file:text-gold hover:file:bg-gold/20'
+
+/**
+ * Inline field error
+ */
+function FieldError({ id, message }: { id: string; message?: string }) {
+  if (!message) return null
+
+  return (
+    <Caption id={id} className="mt-1 block text-red-400" role="alert">
+      {message}
+    </Caption>
+  )
+}
+
+/**
+ * A rendition being filled in
+ */
+interface RenditionDraft {
+  file: File | null
+  codec: VideoCodec
+  width: string
+  height: string
+}
+
+const EMPTY_RENDITION: RenditionDraft = { file: null, codec: 'h264', width: '', height: '' }
+
+/**
+ * File, codec and size inputs for a rendition. Choosing a file fills in its
+ * dimensions and a likely codec, which editors can correct.
+ */
+function RenditionFields({
+  idPrefix,
+  value,
+  onChange,
+  errors,
+  inputKey,
+}: {
+  idPrefix: string
+  value: RenditionDraft
+  onChange: (value: RenditionDraft) => void
+  errors: FieldErrors<'file' | 'codec' | 'width'>
+  inputKey: number
+}) {
+  const handleFile = async (file: File | null) => {
+    const codec = file?.type === 'video/webm' ? 'vp9' : value.codec === 'vp9' ? 'h264' : value.codec
+    onChange({ ...value, file, codec })
+    if (!file) return
+
+    const dimensions = await readVideoDimensions(file)
+    if (dimensions) {
+      onChange({ file, codec, width: String(dimensions.width), height: String(dimensions.height) })
+    }
+  }
+
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      <div>
+        <Label htmlFor={`${idPrefix}-file`} required className="mb-2 block">Video file</Label>
+        <input
+          key={inputKey}
+          id={`${idPrefix}-file`}
+          type="file"
+          accept="video/mp4,video/webm"
+          onChange={(e) => handleFile(e.target.files?.[0] ?? null)}
+          aria-invalid={errors.file ? true : undefined}
+          aria-describedby={errors.file ? `${idPrefix}-file-error` : `${idPrefix}-file-hint`}
+          className={fileInputClassName}
+        />
+        <Caption id={`${idPrefix}-file-hint`} className="mt-1 block text-gold/50">
+          Encoded MP4 or WebM up to {formatFileSize(MAX_VIDEO_BYTES)}. Upload one file per size and codec.
+        </Caption>
+        <FieldError id={`${idPrefix}-file-error`} message={errors.file} />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-codec`} required className="mb-2 block">Codec</Label>
+        <select
+          id={`${idPrefix}-codec`}
+          value={value.codec}
+          onChange={(e) => onChange({ ...value, codec: e.target.value as VideoCodec })}
+          aria-invalid={errors.codec ? true : undefined}
+          aria-describedby={errors.codec ? `${idPrefix}-codec-error` : undefined}
+          className={inputClassName}
+        >
+          {VIDEO_CODECS.map((codec) => (
+            <option key={codec.value} value={codec.value}>
+              {codec.label}
+            </option>
+          ))}
+        </select>
+        <FieldError id={`${idPrefix}-codec-error`} message={errors.codec} />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-width`} required className="mb-2 block">Width × height (px)</Label>
+        <div className="flex gap-2">
+          <input
+            id={`${idPrefix}-width`}
+            type="number"
+            min={1}
+            value={value.width}
+            onChange={(e) => onChange({ ...value, width: e.target.value })}
+            aria-label="Width in pixels"
+            aria-invalid={errors.width ? true : undefined}
+            aria-describedby={errors.width ? `${idPrefix}-width-error` : undefined}
+            className={inputClassName}
+          />
+          <input
+            type="number"
+            min={1}
+            value={value.height}
+            onChange={(e) => onChange({ ...value, height: e.target.value })}
+            aria-label="Height in pixels"
+            className={inputClassName}
+          />
+        </div>
+        <FieldError id={`${idPrefix}-width-error`} message={errors.width} />
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Upload a drafted rendition; returns the errors to show, if any
+ */
+async function uploadRendition(
+  videoId: string,
+  draft: RenditionDraft
+): Promise<{ errors: FieldErrors<'file' | 'codec' | 'width'>; error?: string }> {
+  if (!draft.file) return { errors: { file: 'Please choose a video to upload' } }
+
+  const response = await adminAPI.uploadVideoRendition(videoId, draft.file, {
+    codec: draft.codec,
+    width: Number(draft.width),
+    height: Number(draft.height),
+  })
+  if (response.data) return { errors: {} }
+  return { errors: response.errors ?? {}, error: response.error || 'Something went wrong. Please try again.' }
+}
+
+/**
+ * One video with its renditions and tracks, and forms to add more
+ */
+function VideoCard({
+  video,
+  onChanged,
+  onDeleted,
+}: {
+  video: MediaVideo
+  onChanged: () => Promise<void>
+  onDeleted: (id: string) => void
+}) {
+  const [rendition, setRendition] = useState<RenditionDraft>(EMPTY_RENDITION)
+  const [renditionErrors, setRenditionErrors] = useState<FieldErrors<'file' | 'codec' | 'width'>>({})
+  const [track, setTrack] = useState<{ file: File | null; kind: VideoTrackKind; label: string; srcLang: string }>({
+    file: null,
+    kind: 'captions',
+    label: '',
+    srcLang: '',
+  })
+  const [trackErrors, setTrackErrors] = useState<FieldErrors<'file' | 'kind' | 'label' | 'srcLang'>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  // Changing the key clears the file inputs after an upload
+  const [inputKey, setInputKey] = useState(0)
+  const idPrefix = `video-${video.id}`
+
+  const run = async (action: () => Promise<string | null>) => {
+    setIsSaving(true)
+    setError(null)
+    const message = await action()
+    setIsSaving(false)
+
+    if (message) {
+      setError(message)
+      return
+    }
+    setInputKey((key) => key + 1)
+    await onChanged()
+  }
+
+  const handleAddRendition = (e: React.FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      const result = await uploadRendition(video.id, rendition)
+      setRenditionErrors(result.errors)
+      if (!result.error && !hasErrors(result.errors)) setRendition(EMPTY_RENDITION)
+      return result.error ?? (hasErrors(result.errors) ? 'Please correct the highlighted fields' : null)
+    })
+  }
+
+  const handleAddTrack = (e: React.FormEvent) => {
+    e.preventDefault()
+    run(async () => {
+      if (!track.file) {
+        setTrackErrors({ file: 'Please choose a WebVTT (.vtt) file' })
+        return 'Please correct the highlighted fields'
+      }
+
+      const response = await adminAPI.uploadVideoTrack(video.id, track.file, track)
+      setTrackErrors(response.errors ?? {})
+      if (!response.data) return response.error || 'Something went wrong. Please try again.'
+      setTrack({ file: null, kind: 'captions', label: '', srcLang: '' })
+      return null
+    })
+  }
+
+  const handleRemoveFile = (fileId: string) => {
+    run(async () => {
+      const response = await adminAPI.deleteVideoFile(video.id, fileId)
+      return response.data ? null : response.error || 'Something went wrong. Please try again.'
+    })
+  }
+
+  const handleDelete = async () => {
+    setIsSaving(true)
+    setError(null)
+    const response = await adminAPI.deleteVideo(video.id)
+    setIsSaving(false)
+
+    if (!response.data) {
+      setError(response.error || 'Something went wrong. Please try again.')
+      return
+    }
+    onDeleted(video.id)
+  }
+
+  return (
+    <GlassPanel className="p-6 space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="min-w-0">
+          <Heading level={5}>{video.title}</Heading>
+          <Caption className="flex items-center gap-2 text-gold/60">
+            ID <code className="truncate">{video.id}</code>
+            <button
+              type="button"
+              onClick={() => navigator.clipboard?.writeText(video.id)}
+              aria-label="Copy video ID"
+              className="text-gold/60 hover:text-gold"
+            >
+              <Copy className="h-3.5 w-3.5" />
+            </button>
+          </Caption>
+        </div>
+        <GlassButton
+          type="button"
+          variant="ghost"
+          size="small"
+          disabled={isSaving}
+          leftIcon={<Trash2 className="h-4 w-4" />}
+          onClick={handleDelete}
+        >
+          Delete video
+        </GlassButton>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div>
+          <Label className="mb-2 block">Renditions</Label>
+          {video.renditions.length === 0 ? (
+            <Caption className="block text-gold/50">No renditions yet; the poster shows instead.</Caption>
+          ) : (
+            <ul className="space-y-1">
+              {video.renditions.map((r) => (
+                <li key={r.id} className="flex items-center justify-between gap-2">
+                  <Text size="sm">
+                    {getVideoCodec(r.codec).label} · {r.width} × {r.height} · {formatFileSize(r.bytes)}
+                  </Text>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveFile(r.id)}
+                    disabled={isSaving}
+                    aria-label={`Remove ${r.width}px ${getVideoCodec(r.codec).label} rendition`}
+                    className="text-gold/60 hover:text-gold"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div>
+          <Label className="mb-2 block">Captions and chapters</Label>
+          {video.tracks.length === 0 ? (
+            <Caption className="block text-gold/50">No tracks yet.</Caption>
+          ) : (
+            <ul className="space-y-1">
+              {video.tracks.map((t) => (
+                <li key={t.id} className="flex items-center justify-between gap-2">
+                  <Text size="sm">
+                    {VIDEO_TRACK_KINDS.find((kind) => kind.value === t.kind)?.label} · {t.label} ({t.srcLang})
+                  </Text>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveFile(t.id)}
+                    disabled={isSaving}
+                    aria-label={`Remove ${t.label} ${t.kind}`}
+                    className="text-gold/60 hover:text-gold"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <Paragraph size="sm" className="text-red-400" role="alert">
+          {error}
+        </Paragraph>
+      )}
+
+      <details>
+        <summary className="cursor-pointer text-gold">Add a rendition</summary>
+        <form onSubmit={handleAddRendition} noValidate className="mt-4 space-y-4">
+          <RenditionFields
+            idPrefix={`${idPrefix}-rendition`}
+            value={rendition}
+            onChange={setRendition}
+            errors={renditionErrors}
+            inputKey={inputKey}
+          />
+          <GlassButton type="submit" variant="outline" size="small" isLoading={isSaving} leftIcon={<Plus className="h-4 w-4" />}>
+            Add rendition
+          </GlassButton>
+        </form>
+      </details>
+
+      <details>
+        <summary className="cursor-pointer text-gold">Add captions or chapters</summary>
+        <form onSubmit={handleAddTrack} noValidate className="mt-4 space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor={`${idPrefix}-track-file`} required className="mb-2 block">WebVTT file</Label>
+              <input
+                key={inputKey}
+                id={`${idPrefix}-track-file`}
+                type="file"
+                accept=".vtt,text/vtt"
+                onChange={(e) => setTrack({ ...track, file: e.target.files?.[0] ?? null })}
+                aria-invalid={trackErrors.file ? true : undefined}
+                aria-describedby={trackErrors.file ? `${idPrefix}-track-file-error` : undefined}
+                className={fileInputClassName}
+              />
+              <FieldError id={`${idPrefix}-track-file-error`} message={trackErrors.file} />
+            </div>
+            <div>
+              <Label htmlFor={`${idPrefix}-track-kind`} required className="mb-2 block">Type</Label>
+              <select
+                id={`${idPrefix}-track-kind`}
+                value={track.kind}
+                onChange={(e) => setTrack({ ...track, kind: e.target.value as VideoTrackKind })}
+                className={inputClassName}
+              >
+                {VIDEO_TRACK_KINDS.map((kind) => (
+                  <option key={kind.value} value={kind.value}>
+                    {kind.label}
+                  </option>
+                ))}
+              </select>
+              <FieldError id={`${idPrefix}-track-kind-error`} message={trackErrors.kind} />
+            </div>
+            <div>
+              <Label htmlFor={`${idPrefix}-track-label`} required className="mb-2 block">Label</Label>
+              <input
+                id={`${idPrefix}-track-label`}
+                value={track.label}
+                onChange={(e) => setTrack({ ...track, label: e.target.value })}
+                placeholder="e.g. English"
+                aria-invalid={trackErrors.label ? true : undefined}
+                aria-describedby={trackErrors.label ? `${idPrefix}-track-label-error` : undefined}
+                className={inputClassName}
+              />
+              <FieldError id={`${idPrefix}-track-label-error`} message={trackErrors.label} />
+            </div>
+            <div>
+              <Label htmlFor={`${idPrefix}-track-lang`} required className="mb-2 block">Language code</Label>
+              <input
+                id={`${idPrefix}-track-lang`}
+                value={track.srcLang}
+                onChange={(e) => setTrack({ ...track, srcLang: e.target.value })}
+                placeholder="e.g. en"
+                aria-invalid={trackErrors.srcLang ? true : undefined}
+                aria-describedby={trackErrors.srcLang ? `${idPrefix}-track-lang-error` : undefined}
+                className={inputClassName}
+              />
+              <FieldError id={`${idPrefix}-track-lang-error`} message={trackErrors.srcLang} />
+            </div>
+          </div>
+          <GlassButton type="submit" variant="outline" size="small" isLoading={isSaving} leftIcon={<Plus className="h-4 w-4" />}>
+            Add track
+          </GlassButton>
+        </form>
+      </details>
+    </GlassPanel>
+  )
+}
+
+/**
+ * Props for AdminVideosView
+ */
+export interface AdminVideosViewProps {
+  /** Newest first */
+  videos: MediaVideo[]
+  /** Library images, for choosing a poster */
+  images: MediaAsset[]
+  /** Called with a poster captured from a video, so the image grid shows it */
+  onImageUploaded: (asset: MediaAsset) => void
+}
+
+/**
+ * Back Office Video Library
+ *
+ * Adds videos for the home page hero. Renditions are encoded before upload
+ * (e.g. 1920 and 1280 wide, in AV1 or VP9 plus H.264) and visitors get the
+ * one that fits their screen and connection. The poster can be a library
+ * image or a frame captured from the first rendition.
+ */
+export function AdminVideosView({ videos: initialVideos, images, onImageUploaded }: AdminVideosViewProps) {
+  const [videos, setVideos] = useState(initialVideos)
+  const [title, setTitle] = useState('')
+  const [posterId, setPosterId] = useState('')
+  const [frameSeconds, setFrameSeconds] = useState('1')
+  const [rendition, setRendition] = useState<RenditionDraft>(EMPTY_RENDITION)
+  const [errors, setErrors] = useState<FieldErrors<'title' | 'posterId' | 'file' | 'codec' | 'width'>>({})
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isCapturing, setIsCapturing] = useState(false)
+  const [inputKey, setInputKey] = useState(0)
+  const poster = images.find((image) => image.id === posterId)
+
+  const reload = async () => {
+    const response = await adminAPI.listVideos()
+    if (response.data) setVideos(response.data)
+  }
+
+  const handleCaptureFrame = async () => {
+    if (!rendition.file) {
+      setErrors({ ...errors, file: 'Choose a video first to capture its frame' })
+      return
+    }
+
+    setIsCapturing(true)
+    setFormError(null)
+    const frame = await captureVideoFrame(rendition.file, Number(frameSeconds) || 0)
+    const response = frame ? await adminAPI.uploadMedia(frame, title) : null
+    setIsCapturing(false)
+
+    if (!response?.data) {
+      setErrors({ ...errors, posterId: response?.errors?.file || 'This browser couldn\'t read a frame from the video' })
+      return
+    }
+    onImageUploaded(response.data)
+    setPosterId(response.data.id)
+    setErrors({ ...errors, posterId: undefined })
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!rendition.file) {
+      setErrors({ file: 'Please choose a video to upload' })
+      return
+    }
+
+    setIsSaving(true)
+    setFormError(null)
+    const created = await adminAPI.createVideo({ title, posterId: posterId || undefined })
+    if (!created.data) {
+      setIsSaving(false)
+      setErrors(created.errors ?? {})
+      setFormError(created.error || 'Something went wrong. Please try again.')
+      return
+    }
+
+    // The video exists now; a rejected file can be re-added from its card
+    const result = await uploadRendition(created.data.id, rendition)
+    setIsSaving(false)
+    setErrors(result.errors)
+    setFormError(result.error ? `The video was added, but its file wasn't: ${result.error}` : null)
+    if (!result.error) {
+      setTitle('')
+      setPosterId('')
+      setRendition(EMPTY_RENDITION)
+      setInputKey((key) => key + 1)
+    }
+    await reload()
+  }
+
+  return (
+    <div className="space-y-8">
+      <GlassPanel variant="elevated" className="p-6">
+        <form onSubmit={handleCreate} noValidate className="space-y-4">
+          <Heading level={5}>Add a Video</Heading>
+          <div>
+            <Label htmlFor="video-title" required className="mb-2 block">Title</Label>
+            <input
+              id="video-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Morning turnout"
+              aria-invalid={errors.title ? true : undefined}
+              aria-describedby={errors.title ? 'video-title-error' : undefined}
+              className={inputClassName}
+            />
+            <FieldError id="video-title-error" message={errors.title} />
+          </div>
+
+          <RenditionFields
+            idPrefix="video-new"
+            value={rendition}
+            onChange={setRendition}
+            errors={errors}
+            inputKey={inputKey}
+          />
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="video-poster" className="mb-2 block">Poster</Label>
+              <select
+                id="video-poster"
+                value={posterId}
+                onChange={(e) => setPosterId(e.target.value)}
+                aria-invalid={errors.posterId ? true : undefined}
+                aria-describedby={errors.posterId ? 'video-poster-error' : 'video-poster-hint'}
+                className={inputClassName}
+              >
+                <option value="">—</option>
+                {images.map((image) => (
+                  <option key={image.id} value={image.id}>
+                    {image.alt || image.filename}
+                  </option>
+                ))}
+              </select>
+              <Caption id="video-poster-hint" className="mt-1 block text-gold/50">
+                Shown while the video loads, and instead of it on slow connections.
+              </Caption>
+              <FieldError id="video-poster-error" message={errors.posterId} />
+            </div>
+            <div>
+              <Label htmlFor="video-frame" className="mb-2 block">Or capture a frame at (seconds)</Label>
+              <div className="flex gap-2">
+                <input
+                  id="video-frame"
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={frameSeconds}
+                  onChange={(e) => setFrameSeconds(e.target.value)}
+                  className={inputClassName}
+                />
+                <GlassButton
+                  type="button"
+                  variant="outline"
+                  isLoading={isCapturing}
+                  disabled={!rendition.file}
+                  leftIcon={<Camera className="h-4 w-4" />}
+                  onClick={handleCaptureFrame}
+                >
+                  Capture
+                </GlassButton>
+              </div>
+            </div>
+          </div>
+
+          {poster && (
+            <img
+              src={getMediaSrc(poster, IMAGE_SIZES.MEDIUM)}
+              alt=""
+              width={poster.width}
+              height={poster.height}
+              className="h-32 w-auto rounded-lg object-cover"
+            />
+          )}
+
+          {formError && (
+            <Paragraph size="sm" className="text-red-400" role="alert">
+              {formError}
+            </Paragraph>
+          )}
+
+          <GlassButton type="submit" variant="primary" isLoading={isSaving} leftIcon={<Upload className="h-4 w-4" />}>
+            Add video
+          </GlassButton>
+        </form>
+      </GlassPanel>
+
+      {videos.length === 0 ? (
+        <Paragraph className="text-center">No videos yet.</Paragraph>
+      ) : (
+        videos.map((video) => (
+          <VideoCard
+            key={video.id}
+            video={video}
+            onChanged={reload}
+            onDeleted={(id) => setVideos((current) => current.filter((v) => v.id !== id))}
+          />
+        ))
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+'use client'
+
+import React, { useCallback, useState } from 'react'
+import { BreedingProgram, type BreedingProgramProps, type Stallion } from '@/components/sections/breeding-program'
+import { InquiryModal } from '@/components/forms/inquiry-modal'
+import { StudBookingModal } from '@/components/forms/stud-booking-modal'
+import { useFavorites } from '@/components/providers/FavoritesProvider'
+
+/**
+ * Props for BreedingProgramView
+ */
+export type BreedingProgramViewProps = Omit<BreedingProgramProps, 'onInquire' | 'onBookStud' | 'onFavorite' | 'isFavorite'>
+
+/**
+ * Breeding Program View
+ *
+ * Route-level wrapper that wires BreedingProgram inquiry and booking
+ * actions to the inquiry and stud booking modals, and favorites to the shortlist.
+ */
+export function BreedingProgramView(props: BreedingProgramViewProps) {
+  const [inquiryStallion, setInquiryStallion] = useState<Stallion | null>(null)
+  const [bookingStallion, setBookingStallion] = useState<Stallion | null>(null)
+  const closeInquiry = useCallback(() => setInquiryStallion(null), [])
+  const closeBooking = useCallback(() => setBookingStallion(null), [])
+  const { isFavorite, toggleFavorite } = useFavorites()
+
+  return (
+    <>
+      <BreedingProgram
+        {...props}
+        onInquire={setInquiryStallion}
+        onBookStud={setBookingStallion}
+        onFavorite={(stallion) => toggleFavorite({ type: 'stallion', id: stallion.id })}
+        isFavorite={(stallion) => isFavorite({ type: 'stallion', id: stallion.id })}
+      />
+
+      <InquiryModal
+        isOpen={inquiryStallion !== null}
+        onClose={closeInquiry}
+        subject={inquiryStallion ? { type: 'stallion', id: inquiryStallion.id, name: inquiryStallion.name } : undefined}
+      />
+
+      <StudBookingModal stallion={bookingStallion} onClose={closeBooking} />
+    </>
+  )
+}
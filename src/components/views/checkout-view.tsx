@@ -0,0 +1,311 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { CheckCircle, Lock, ShoppingBag } from 'lucide-react'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Heading, Paragraph, Label, Caption, Text } from '@/components/ui/Typography'
+import { CartLine } from '@/components/shop/cart-drawer'
+import { useCart } from '@/components/providers/CartProvider'
+import { orderAPI } from '@/lib/api/http-client'
+import { formatPrice } from '@/lib/shop/cart'
+import type { Order, OrderField, ShippingDetails, ShippingField } from '@/lib/shop/order'
+import type { FieldErrors } from '@/lib/validation'
+
+type ShippingForm = Required<ShippingDetails>
+
+const inputClassName =
+  'w-full px-4 py-2 bg-midnight/50 border border-gold/20 rounded-lg text-white placeholder:text-gold/30 focus:outline-none focus:ring-2 focus:ring-gold/50'
+
+const EMPTY_SHIPPING: ShippingForm = {
+  name: '',
+  email: '',
+  phone: '',
+  addressLine1: '',
+  addressLine2: '',
+  city: '',
+  region: '',
+  postalCode: '',
+  country: '',
+}
+
+interface ShippingInputProps {
+  field: ShippingField
+  label: string
+  value: string
+  error?: string
+  required?: boolean
+  type?: string
+  autoComplete?: string
+  className?: string
+  onChange: (field: ShippingField, value: string) => void
+}
+
+/**
+ * Labelled shipping input with its field error
+ */
+function ShippingInput({
+  field,
+  label,
+  value,
+  error,
+  required = false,
+  type = 'text',
+  autoComplete,
+  className,
+  onChange,
+}: ShippingInputProps) {
+  const id = `checkout-${field}`
+
+  return (
+    <div className={className}>
+      <Label htmlFor={id} required={required} className="mb-2 block">{label}</Label>
+      <input
+        id={id}
+        type={type}
+        autoComplete={autoComplete}
+        value={value}
+        onChange={(e) => onChange(field, e.target.value)}
+        aria-invalid={error ? true : undefined}
+        aria-describedby={error ? `${id}-error` : undefined}
+        className={inputClassName}
+      />
+      {error && (
+        <Caption id={`${id}-error`} className="mt-1 block text-red-400" role="alert">
+          {error}
+        </Caption>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Checkout View
+ *
+ * Shipping form and order summary for the current cart. Prices shown here are
+ * for display only; the order is re-priced on the server before payment.
+ */
+export function CheckoutView() {
+  const { items, totals, clear } = useCart()
+  const [shipping, setShipping] = useState<ShippingForm>(EMPTY_SHIPPING)
+  const [errors, setErrors] = useState<FieldErrors<OrderField>>({})
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [order, setOrder] = useState<Order | null>(null)
+
+  const update = (field: ShippingField, value: string) => {
+    setShipping((current) => ({ ...current, [field]: value }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setFormError(null)
+
+    const result = await orderAPI.create({
+      items: items.map(({ productId, quantity, color, size }) => ({ productId, quantity, color, size })),
+      shipping: {
+        ...shipping,
+        phone: shipping.phone || undefined,
+        addressLine2: shipping.addressLine2 || undefined,
+        region: shipping.region || undefined,
+      },
+    })
+
+    setIsSubmitting(false)
+
+    if (result.data && result.status < 300) {
+      setOrder(result.data)
+      clear()
+      return
+    }
+
+    setErrors(result.errors ?? {})
+    setFormError(result.error || 'Something went wrong. Please try again.')
+  }
+
+  if (order) {
+    return (
+      <section className="py-24 px-4">
+        <GlassPanel variant="elevated" className="max-w-xl mx-auto p-8 text-center">
+          <CheckCircle className="h-12 w-12 text-gold mx-auto mb-4" />
+          <Heading level={2} className="mb-2">Thank you for your order</Heading>
+          <Paragraph className="mb-2">
+            Your order number is <span className="text-gold font-semibold">{order.number}</span>.
+          </Paragraph>
+          <Paragraph size="sm" className="mb-8">
+            A confirmation has been sent to {order.shipping.email}.
+          </Paragraph>
+          <Link href="/shop">
+            <GlassButton variant="outline">Continue Shopping</GlassButton>
+          </Link>
+        </GlassPanel>
+      </section>
+    )
+  }
+
+  if (items.length === 0) {
+    return (
+      <section className="py-24 px-4">
+        <GlassPanel className="max-w-xl mx-auto p-8 text-center">
+          <ShoppingBag className="h-12 w-12 text-gold/40 mx-auto mb-4" />
+          <Paragraph className="mb-6">Your cart is empty.</Paragraph>
+          <Link href="/shop">
+            <GlassButton variant="outline">Browse the Shop</GlassButton>
+          </Link>
+        </GlassPanel>
+      </section>
+    )
+  }
+
+  return (
+    <section className="py-16 px-4">
+      <form
+        onSubmit={handleSubmit}
+        noValidate
+        className="container mx-auto max-w-6xl grid grid-cols-1 lg:grid-cols-5 gap-8"
+      >
+        <GlassPanel className="lg:col-span-3 p-6 md:p-8">
+          <Heading level={3} className="mb-6">Shipping Details</Heading>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <ShippingInput
+              field="name"
+              label="Full Name"
+              required
+              autoComplete="name"
+              value={shipping.name}
+              error={errors.name}
+              onChange={update}
+              className="sm:col-span-2"
+            />
+            <ShippingInput
+              field="email"
+              label="Email"
+              type="email"
+              required
+              autoComplete="email"
+              value={shipping.email}
+              error={errors.email}
+              onChange={update}
+            />
+            <ShippingInput
+              field="phone"
+              label="Phone"
+              type="tel"
+              autoComplete="tel"
+              value={shipping.phone}
+              error={errors.phone}
+              onChange={update}
+            />
+            <ShippingInput
+              field="addressLine1"
+              label="Address"
+              required
+              autoComplete="address-line1"
+              value={shipping.addressLine1}
+              error={errors.addressLine1}
+              onChange={update}
+              className="sm:col-span-2"
+            />
+            <ShippingInput
+              field="addressLine2"
+              label="Apartment, suite, etc."
+              autoComplete="address-line2"
+              value={shipping.addressLine2}
+              error={errors.addressLine2}
+              onChange={update}
+              className="sm:col-span-2"
+            />
+            <ShippingInput
+              field="city"
+              label="City"
+              required
+              autoComplete="address-level2"
+              value={shipping.city}
+              error={errors.city}
+              onChange={update}
+            />
+            <ShippingInput
+              field="region"
+              label="State / Region"
+              autoComplete="address-level1"
+              value={shipping.region}
+              error={errors.region}
+              onChange={update}
+            />
+            <ShippingInput
+              field="postalCode"
+              label="Postal Code"
+              required
+              autoComplete="postal-code"
+              value={shipping.postalCode}
+              error={errors.postalCode}
+              onChange={update}
+            />
+            <ShippingInput
+              field="country"
+              label="Country"
+              required
+              autoComplete="country-name"
+              value={shipping.country}
+              error={errors.country}
+              onChange={update}
+            />
+          </div>
+        </GlassPanel>
+
+        <GlassPanel variant="elevated" className="lg:col-span-2 p-6 md:p-8 h-fit">
+          <Heading level={3} className="mb-4">Order Summary</Heading>
+
+          <ul>
+            {items.map((item) => (
+              <CartLine key={item.key} item={item} compact />
+            ))}
+          </ul>
+          {errors.items && (
+            <Caption className="mt-1 block text-red-400" role="alert">{errors.items}</Caption>
+          )}
+
+          <div className="mt-4 pt-4 border-t border-gold/10 space-y-2">
+            <div className="flex justify-between">
+              <Text>Subtotal</Text>
+              <Text>{formatPrice(totals.subtotal, totals.currency)}</Text>
+            </div>
+            <div className="flex justify-between">
+              <Text>Shipping</Text>
+              <Text>{totals.shipping === 0 ? 'Free' : formatPrice(totals.shipping, totals.currency)}</Text>
+            </div>
+            <div className="flex justify-between pt-2">
+              <Text className="font-semibold">Total</Text>
+              <Text className="font-semibold text-gold">{formatPrice(totals.total, totals.currency)}</Text>
+            </div>
+          </div>
+
+          <div className="mt-6 p-3 rounded-lg bg-gold/5 border border-gold/10 flex gap-2 items-start">
+            <Lock className="h-4 w-4 text-gold mt-0.5 flex-shrink-0" />
+            <Caption className="text-white/70">
+              Payments are processed in test mode. No card is charged.
+            </Caption>
+          </div>
+
+          {formError && (
+            <Paragraph size="sm" className="mt-4 text-red-400" role="alert">
+              {formError}
+            </Paragraph>
+          )}
+
+          <GlassButton
+            type="submit"
+            variant="primary"
+            className="w-full mt-6"
+            isLoading={isSubmitting}
+          >
+            Place Order • {formatPrice(totals.total, totals.currency)}
+          </GlassButton>
+        </GlassPanel>
+      </form>
+    </section>
+  )
+}
@@ -0,0 +1,298 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Palette } from 'lucide-react'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Heading, Paragraph, Label, Caption, Text } from '@/components/ui/Typography'
+import type { Horse } from '@/components/sections/horse-portfolio'
+import type { Stallion } from '@/components/sections/breeding-program'
+import { breedingAPI } from '@/lib/api/http-client'
+import {
+  COAT_COLORS,
+  COAT_LOCI,
+  COAT_LOCUS_INFO,
+  formatGenotype,
+  type CoatColorPrediction,
+  type CoatColorPredictionField,
+  type CoatGenotype,
+  type CoatLocus,
+  type CoatParentSummary,
+} from '@/lib/breeding/coat-color'
+import type { FieldErrors } from '@/lib/validation'
+import { cn } from '@/lib/utils'
+
+type MareSource = 'ours' | 'described'
+
+const inputClassName =
+  'w-full px-4 py-2 bg-midnight/50 border border-gold/20 rounded-lg text-white placeholder:text-gold/30 focus:outline-none focus:ring-2 focus:ring-gold/50'
+
+/**
+ * Genotype options for a locus, e.g. E/E, E/e, e/e
+ */
+function getLocusOptions(locus: CoatLocus): string[] {
+  const [first, second] = COAT_LOCUS_INFO[locus].alleles
+  return [`${first}/${first}`, `${first}/${second}`, `${second}/${second}`]
+}
+
+function formatProbability(probability: number): string {
+  return probability < 0.001 ? '<0.1%' : `${(probability * 100).toFixed(1)}%`
+}
+
+/**
+ * Inline field error
+ */
+function FieldError({ id, message }: { id: string; message?: string }) {
+  if (!message) return null
+
+  return (
+    <Caption id={id} className="mt-1 block text-red-400" role="alert">
+      {message}
+    </Caption>
+  )
+}
+
+/**
+ * What the prediction assumed about one parent
+ */
+function ParentSummary({ role, parent }: { role: string; parent: CoatParentSummary }) {
+  const genotype = formatGenotype(parent.genotype)
+
+  return (
+    <div>
+      <Caption className="block text-gold/70">{role}</Caption>
+      <Text className="block font-semibold">{parent.name}</Text>
+      <Text size="sm" className="block">
+        {parent.color ?? 'Color unknown'}
+        {genotype && ` · ${genotype}`}
+      </Text>
+      {parent.basis === 'estimated' && (
+        <Caption className="block text-gold/50">Untested genes estimated from color</Caption>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Props for CoatColorPredictor
+ */
+export interface CoatColorPredictorProps {
+  /** Stallions available to choose from */
+  stallions: Stallion[]
+  /** Our mares, offered instead of describing one */
+  mares: Horse[]
+}
+
+/**
+ * Coat Color Predictor
+ *
+ * Pairs one of our stallions with one of our mares or a mare described by
+ * color and DNA test results, and shows the chance of each foal coat color.
+ */
+export function CoatColorPredictor({ stallions, mares }: CoatColorPredictorProps) {
+  const [stallionId, setStallionId] = useState(stallions[0]?.id ?? '')
+  const [source, setSource] = useState<MareSource>(mares.length > 0 ? 'ours' : 'described')
+  const [mareId, setMareId] = useState(mares[0]?.id ?? '')
+  const [color, setColor] = useState('')
+  const [genotype, setGenotype] = useState<CoatGenotype>({})
+  const [errors, setErrors] = useState<FieldErrors<CoatColorPredictionField>>({})
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [result, setResult] = useState<CoatColorPrediction | null>(null)
+
+  const updateLocus = (locus: CoatLocus, value: string) => {
+    setGenotype((current) => ({ ...current, [locus]: value || undefined }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setFormError(null)
+
+    const response = await breedingAPI.predictCoatColors(
+      source === 'ours'
+        ? { stallionId, mareId }
+        : { stallionId, mare: { color: color || undefined, genotype } }
+    )
+
+    setIsSubmitting(false)
+
+    if (response.data) {
+      setErrors({})
+      setResult(response.data)
+      return
+    }
+
+    setErrors(response.errors ?? {})
+    setFormError(response.error || 'Something went wrong. Please try again.')
+  }
+
+  return (
+    <section className="px-6 pb-16 bg-midnight">
+      <GlassPanel variant="elevated" className="mx-auto max-w-4xl p-6 md:p-8">
+        <div className="text-center mb-8">
+          <Heading level={3} className="mb-2">Foal Color Predictor</Heading>
+          <Paragraph>
+            See which coat colors a foal could have. Enter your mare&apos;s DNA test results
+            for exact odds; from color alone the hidden genes are estimated.
+          </Paragraph>
+        </div>
+
+        <form onSubmit={handleSubmit} noValidate className="space-y-6">
+          <div>
+            <Label htmlFor="coat-color-stallion" required className="mb-2 block">Stallion</Label>
+            <select
+              id="coat-color-stallion"
+              value={stallionId}
+              onChange={(e) => setStallionId(e.target.value)}
+              aria-invalid={errors.stallionId ? true : undefined}
+              className={inputClassName}
+            >
+              {stallions.map((stallion) => (
+                <option key={stallion.id} value={stallion.id}>
+                  {stallion.name} ({stallion.color})
+                </option>
+              ))}
+            </select>
+            <FieldError id="coat-color-stallion-error" message={errors.stallionId} />
+          </div>
+
+          <fieldset>
+            <legend className="mb-2 text-sm font-medium text-white/90">Mare</legend>
+            <div className="flex gap-2 mb-4">
+              {mares.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setSource('ours')}
+                  aria-pressed={source === 'ours'}
+                  className={cn(
+                    'px-3 py-1 rounded-full text-sm transition-colors',
+                    source === 'ours' ? 'bg-gold text-midnight' : 'bg-gold/10 text-gold hover:bg-gold/20'
+                  )}
+                >
+                  One of our mares
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setSource('described')}
+                aria-pressed={source === 'described'}
+                className={cn(
+                  'px-3 py-1 rounded-full text-sm transition-colors',
+                  source === 'described' ? 'bg-gold text-midnight' : 'bg-gold/10 text-gold hover:bg-gold/20'
+                )}
+              >
+                Describe my mare
+              </button>
+            </div>
+
+            {source === 'ours' ? (
+              <div>
+                <Label htmlFor="coat-color-mare" className="mb-2 block">Choose a mare</Label>
+                <select
+                  id="coat-color-mare"
+                  value={mareId}
+                  onChange={(e) => setMareId(e.target.value)}
+                  aria-invalid={errors.mareId ? true : undefined}
+                  className={inputClassName}
+                >
+                  {mares.map((horse) => (
+                    <option key={horse.id} value={horse.id}>
+                      {horse.name} ({horse.color})
+                    </option>
+                  ))}
+                </select>
+                <FieldError id="coat-color-mare-error" message={errors.mareId} />
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="coat-color-mare-color" className="mb-2 block">Color</Label>
+                  <select
+                    id="coat-color-mare-color"
+                    value={color}
+                    onChange={(e) => setColor(e.target.value)}
+                    aria-invalid={errors.mareColor ? true : undefined}
+                    aria-describedby={errors.mareColor ? 'coat-color-mare-color-error' : undefined}
+                    className={inputClassName}
+                  >
+                    <option value="">Not sure</option>
+                    {COAT_COLORS.map((name) => (
+                      <option key={name} value={name}>{name}</option>
+                    ))}
+                  </select>
+                  <FieldError id="coat-color-mare-color-error" message={errors.mareColor} />
+                </div>
+
+                <div>
+                  <Caption className="block mb-2 text-gold/70">DNA test results (optional)</Caption>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                    {COAT_LOCI.map((locus) => (
+                      <div key={locus}>
+                        <Label htmlFor={`coat-color-mare-${locus}`} className="mb-2 block">
+                          {COAT_LOCUS_INFO[locus].label}
+                        </Label>
+                        <select
+                          id={`coat-color-mare-${locus}`}
+                          value={genotype[locus] ?? ''}
+                          onChange={(e) => updateLocus(locus, e.target.value)}
+                          className={inputClassName}
+                        >
+                          <option value="">Not tested</option>
+                          {getLocusOptions(locus).map((option) => (
+                            <option key={option} value={option}>{option}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                  <FieldError id="coat-color-mare-genotype-error" message={errors.mareGenotype} />
+                </div>
+              </div>
+            )}
+          </fieldset>
+
+          {formError && (
+            <Paragraph size="sm" className="text-red-400" role="alert">
+              {formError}
+            </Paragraph>
+          )}
+
+          <GlassButton
+            type="submit"
+            variant="primary"
+            className="w-full"
+            isLoading={isSubmitting}
+            rightIcon={<Palette className="h-4 w-4" />}
+          >
+            Predict Foal Colors
+          </GlassButton>
+        </form>
+
+        {result && (
+          <div className="mt-10 pt-8 border-t border-gold/10" aria-live="polite">
+            <div className="grid sm:grid-cols-2 gap-6 mb-8">
+              <ParentSummary role="Sire" parent={result.sire} />
+              <ParentSummary role="Dam" parent={result.dam} />
+            </div>
+
+            <Heading level={5} className="mb-4">Possible foal colors</Heading>
+            <ul className="space-y-3">
+              {result.outcomes.map((outcome) => (
+                <li key={outcome.color}>
+                  <div className="flex justify-between mb-1">
+                    <Text size="sm">{outcome.color}</Text>
+                    <Text size="sm" className="text-gold">{formatProbability(outcome.probability)}</Text>
+                  </div>
+                  <div className="h-2 rounded-full bg-gold/10 overflow-hidden">
+                    <div className="h-full rounded-full bg-gold" style={{ width: `${outcome.probability * 100}%` }} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </GlassPanel>
+    </section>
+  )
+}
@@ -0,0 +1,285 @@
+'use client'
+
+import React, { useState } from 'react'
+import { AlertTriangle, CalendarDays, CalendarPlus } from 'lucide-react'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Heading, Paragraph, Label, Caption, Text } from '@/components/ui/Typography'
+import type { Stallion } from '@/components/sections/breeding-program'
+import { breedingAPI } from '@/lib/api/http-client'
+import {
+  getFoalingEventCategoryLabel,
+  type FoalingPlan,
+  type FoalingPlanField,
+  type FoalingPlanInput,
+} from '@/lib/breeding/foaling'
+import type { FieldErrors } from '@/lib/validation'
+import { cn, formatDate } from '@/lib/utils'
+
+type PlanFrom = 'cover' | 'foaling'
+
+const inputClassName =
+  'w-full px-4 py-2 bg-midnight/50 border border-gold/20 rounded-lg text-white placeholder:text-gold/30 focus:outline-none focus:ring-2 focus:ring-gold/50'
+
+/**
+ * Inline field error
+ */
+function FieldError({ id, message }: { id: string; message?: string }) {
+  if (!message) return null
+
+  return (
+    <Caption id={id} className="mt-1 block text-red-400" role="alert">
+      {message}
+    </Caption>
+  )
+}
+
+function formatRange(from: string, to?: string): string {
+  return to && to !== from ? `${formatDate(from)} – ${formatDate(to)}` : formatDate(from)
+}
+
+/**
+ * Download link for a plan as an iCalendar file
+ */
+function getCalendarUrl(input: FoalingPlanInput): string {
+  const query = new URLSearchParams({ format: 'ics' })
+  Object.entries(input).forEach(([key, value]) => {
+    if (value) query.set(key, value)
+  })
+  return `/api/foaling-plans?${query.toString()}`
+}
+
+/**
+ * Props for FoalingPlanner
+ */
+export interface FoalingPlannerProps {
+  /** Stallions available to choose from */
+  stallions: Stallion[]
+  /** Stallion selected when the page opens */
+  initialStallionId?: string
+}
+
+/**
+ * Foaling Planner
+ *
+ * Mare owners enter a cover date, or the window they want the foal born in,
+ * and get a dated plan for the chosen stallion that they can add to their
+ * calendar.
+ */
+export function FoalingPlanner({ stallions, initialStallionId }: FoalingPlannerProps) {
+  const initialStallion = stallions.find((stallion) => stallion.id === initialStallionId) ?? stallions[0]
+  const [stallionId, setStallionId] = useState(initialStallion?.id ?? '')
+  const [planFrom, setPlanFrom] = useState<PlanFrom>('cover')
+  const [coverDate, setCoverDate] = useState('')
+  const [foalingFrom, setFoalingFrom] = useState('')
+  const [foalingTo, setFoalingTo] = useState('')
+  const [errors, setErrors] = useState<FieldErrors<FoalingPlanField>>({})
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [result, setResult] = useState<{ plan: FoalingPlan; input: FoalingPlanInput } | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setFormError(null)
+
+    const input: FoalingPlanInput = planFrom === 'cover'
+      ? { stallionId, coverDate }
+      : { stallionId, foalingFrom, foalingTo: foalingTo || undefined }
+    const response = await breedingAPI.planFoaling(input)
+
+    setIsSubmitting(false)
+
+    if (response.data) {
+      setErrors({})
+      setResult({ plan: response.data, input })
+      return
+    }
+
+    setErrors(response.errors ?? {})
+    setFormError(response.error || 'Something went wrong. Please try again.')
+  }
+
+  return (
+    <section className="px-6 py-16 bg-midnight">
+      <div className="max-w-4xl mx-auto space-y-10">
+        <GlassPanel variant="elevated" className="p-6 md:p-8">
+          <form onSubmit={handleSubmit} noValidate className="space-y-6">
+            <div>
+              <Label htmlFor="planner-stallion" required className="mb-2 block">Stallion</Label>
+              <select
+                id="planner-stallion"
+                value={stallionId}
+                onChange={(e) => setStallionId(e.target.value)}
+                aria-invalid={errors.stallionId ? true : undefined}
+                className={inputClassName}
+              >
+                {stallions.map((stallion) => (
+                  <option key={stallion.id} value={stallion.id}>
+                    {stallion.name} ({stallion.breed})
+                  </option>
+                ))}
+              </select>
+              <FieldError id="planner-stallion-error" message={errors.stallionId} />
+            </div>
+
+            <fieldset>
+              <legend className="mb-2 text-sm font-medium text-white/90">Plan from</legend>
+              <div className="flex gap-2 mb-4">
+                <button
+                  type="button"
+                  onClick={() => setPlanFrom('cover')}
+                  aria-pressed={planFrom === 'cover'}
+                  className={cn(
+                    'px-3 py-1 rounded-full text-sm transition-colors',
+                    planFrom === 'cover' ? 'bg-gold text-midnight' : 'bg-gold/10 text-gold hover:bg-gold/20'
+                  )}
+                >
+                  Cover date
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setPlanFrom('foaling')}
+                  aria-pressed={planFrom === 'foaling'}
+                  className={cn(
+                    'px-3 py-1 rounded-full text-sm transition-colors',
+                    planFrom === 'foaling' ? 'bg-gold text-midnight' : 'bg-gold/10 text-gold hover:bg-gold/20'
+                  )}
+                >
+                  Target foaling window
+                </button>
+              </div>
+
+              {planFrom === 'cover' ? (
+                <div>
+                  <Label htmlFor="planner-cover-date" required className="mb-2 block">
+                    Cover or insemination date
+                  </Label>
+                  <input
+                    id="planner-cover-date"
+                    type="date"
+                    value={coverDate}
+                    onChange={(e) => setCoverDate(e.target.value)}
+                    aria-invalid={errors.coverDate ? true : undefined}
+                    aria-describedby={errors.coverDate ? 'planner-cover-date-error' : undefined}
+                    className={inputClassName}
+                  />
+                  <FieldError id="planner-cover-date-error" message={errors.coverDate} />
+                </div>
+              ) : (
+                <div className="grid sm:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="planner-foaling-from" required className="mb-2 block">Foal born from</Label>
+                    <input
+                      id="planner-foaling-from"
+                      type="date"
+                      value={foalingFrom}
+                      onChange={(e) => setFoalingFrom(e.target.value)}
+                      aria-invalid={errors.foalingFrom || errors.coverDate ? true : undefined}
+                      aria-describedby={errors.foalingFrom ? 'planner-foaling-from-error' : undefined}
+                      className={inputClassName}
+                    />
+                    <FieldError id="planner-foaling-from-error" message={errors.foalingFrom ?? errors.coverDate} />
+                  </div>
+                  <div>
+                    <Label htmlFor="planner-foaling-to" className="mb-2 block">Until</Label>
+                    <input
+                      id="planner-foaling-to"
+                      type="date"
+                      value={foalingTo}
+                      min={foalingFrom || undefined}
+                      onChange={(e) => setFoalingTo(e.target.value)}
+                      aria-invalid={errors.foalingTo ? true : undefined}
+                      aria-describedby={errors.foalingTo ? 'planner-foaling-to-error' : undefined}
+                      className={inputClassName}
+                    />
+                    <FieldError id="planner-foaling-to-error" message={errors.foalingTo} />
+                  </div>
+                </div>
+              )}
+            </fieldset>
+
+            {formError && (
+              <Paragraph size="sm" className="text-red-400" role="alert">
+                {formError}
+              </Paragraph>
+            )}
+
+            <GlassButton
+              type="submit"
+              variant="primary"
+              className="w-full"
+              isLoading={isSubmitting}
+              rightIcon={<CalendarDays className="h-4 w-4" />}
+            >
+              Build My Plan
+            </GlassButton>
+          </form>
+        </GlassPanel>
+
+        {result && (
+          <div aria-live="polite" className="space-y-6">
+            <GlassPanel className="p-6 md:p-8">
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <Caption className="block text-gold/70">Expected foaling date</Caption>
+                  <Heading level={3}>{formatDate(result.plan.expectedFoalingDate)}</Heading>
+                  <Text size="sm" className="block mt-1">
+                    Most likely between {formatRange(result.plan.foalingWindow.from, result.plan.foalingWindow.to)}
+                  </Text>
+                  <Text size="sm" className="block">
+                    Breed with {result.plan.stallion.name}:{' '}
+                    {formatRange(result.plan.breedingWindow.from, result.plan.breedingWindow.to)}
+                  </Text>
+                  {result.plan.availability && result.plan.availability.remaining > 0 && (
+                    <Caption className="block mt-1 text-gold/60">
+                      {result.plan.availability.remaining} of {result.plan.availability.capacity} places left for {result.plan.season}
+                    </Caption>
+                  )}
+                </div>
+                <a href={getCalendarUrl(result.input)} download>
+                  <GlassButton variant="outline" leftIcon={<CalendarPlus className="h-4 w-4" />}>
+                    Add to Calendar (.ics)
+                  </GlassButton>
+                </a>
+              </div>
+
+              {result.plan.warnings.length > 0 && (
+                <ul className="mt-6 space-y-2">
+                  {result.plan.warnings.map((warning) => (
+                    <li key={warning} className="flex items-start gap-2">
+                      <AlertTriangle className="h-4 w-4 text-gold flex-shrink-0 mt-0.5" />
+                      <Text size="sm">{warning}</Text>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </GlassPanel>
+
+            <GlassPanel className="p-6 md:p-8">
+              <Heading level={5} className="mb-4">Your plan</Heading>
+              <ol className="space-y-4 border-l border-gold/20 pl-6">
+                {result.plan.events.map((event) => (
+                  <li key={event.id} className="relative">
+                    <span
+                      className={cn(
+                        'absolute -left-[1.95rem] top-1.5 h-3 w-3 rounded-full border-2 border-midnight',
+                        event.category === 'foaling' ? 'bg-gold' : 'bg-gold/40'
+                      )}
+                      aria-hidden="true"
+                    />
+                    <Caption className="block text-gold/70">
+                      {formatRange(event.date, event.endDate)} · {getFoalingEventCategoryLabel(event.category)}
+                    </Caption>
+                    <Text className="block font-semibold">{event.title}</Text>
+                    <Text size="sm" className="block">{event.description}</Text>
+                  </li>
+                ))}
+              </ol>
+            </GlassPanel>
+          </div>
+        )}
+      </div>
+    </section>
+  )
+}
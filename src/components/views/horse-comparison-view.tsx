@@ -0,0 +1,41 @@
+'use client'
+
+import React, { useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { HorseComparison, type HorseComparisonProps } from '@/components/sections/horse-comparison'
+import { useCompare } from '@/components/providers/CompareProvider'
+import { getCompareHref } from '@/lib/horses/compare'
+
+/**
+ * Props for HorseComparisonView
+ */
+export type HorseComparisonViewProps = Omit<HorseComparisonProps, 'onRemove'>
+
+/**
+ * Horse Comparison View
+ *
+ * Route-level wrapper that keeps the compare tray in step with the horses
+ * in the URL, so a shared comparison link can be refined from the tray.
+ * Removing a horse updates both.
+ */
+export function HorseComparisonView(props: HorseComparisonViewProps) {
+  const router = useRouter()
+  const { addItem, removeItem } = useCompare()
+
+  useEffect(() => {
+    props.horses.forEach((horse) =>
+      addItem({ id: horse.id, name: horse.name, image: horse.thumbnail || horse.images[0] })
+    )
+  }, [props.horses, addItem])
+
+  return (
+    <HorseComparison
+      {...props}
+      onRemove={(horse) => {
+        removeItem(horse.id)
+        const remaining = props.horses.filter((h) => h.id !== horse.id).map((h) => h.id)
+        router.replace(remaining.length > 0 ? getCompareHref(remaining) : '/horses')
+      }}
+    />
+  )
+}
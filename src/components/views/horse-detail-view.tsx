@@ -0,0 +1,55 @@
+'use client'
+
+import React, { useCallback, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { HorseDetail, type HorseDetailProps } from '@/components/sections/horse-detail'
+import { InquiryModal } from '@/components/forms/inquiry-modal'
+import { useFavorites } from '@/components/providers/FavoritesProvider'
+import { useCompare } from '@/components/providers/CompareProvider'
+
+/**
+ * Props for HorseDetailView
+ */
+export interface HorseDetailViewProps extends Pick<HorseDetailProps, 'horse' | 'relatedHorses' | 'className'> {
+  /** Listing path used by the back button */
+  backHref?: string
+}
+
+/**
+ * Horse Detail View
+ *
+ * Route-level wrapper that wires HorseDetail navigation callbacks
+ * to the App Router, its inquiry actions to the inquiry modal, its
+ * favorite button to the shortlist and its compare button to the compare tray.
+ */
+export function HorseDetailView({ backHref = '/horses', ...props }: HorseDetailViewProps) {
+  const router = useRouter()
+  const [inquiryMessage, setInquiryMessage] = useState<string | null>(null)
+  const closeInquiry = useCallback(() => setInquiryMessage(null), [])
+  const { isFavorite, toggleFavorite } = useFavorites()
+  const favoriteRef = { type: 'horse', id: props.horse.id } as const
+  const { isComparing, isFull, toggleItem } = useCompare()
+
+  return (
+    <>
+      <HorseDetail
+        {...props}
+        onBack={() => router.push(backHref)}
+        onInquire={() => setInquiryMessage('')}
+        onScheduleViewing={(horse) => setInquiryMessage(`I would like to schedule a viewing of ${horse.name}.`)}
+        onFavorite={() => toggleFavorite(favoriteRef)}
+        isFavorite={isFavorite(favoriteRef)}
+        onCompare={(horse) => toggleItem({ id: horse.id, name: horse.name, image: horse.thumbnail || horse.images[0] })}
+        isComparing={isComparing(props.horse.id)}
+        isCompareFull={isFull}
+      />
+
+      <InquiryModal
+        isOpen={inquiryMessage !== null}
+        onClose={closeInquiry}
+        subject={{ type: 'horse', id: props.horse.id, name: props.horse.name }}
+        initialMessage={inquiryMessage ?? ''}
+      />
+    </>
+  )
+}
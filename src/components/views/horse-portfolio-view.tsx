@@ -0,0 +1,74 @@
+'use client'
+
+import React, { useCallback, useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { HorsePortfolio, type FilterOptions, type HorsePortfolioProps } from '@/components/sections/horse-portfolio'
+import { SaveSearchModal } from '@/components/forms/save-search-modal'
+import { useHorseFilters } from '@/hooks/use-horse-filters'
+import { useCompare } from '@/components/providers/CompareProvider'
+import {
+  DEFAULT_AGE_RANGE,
+  DEFAULT_PRICE_RANGE,
+  createDefaultFilters,
+} from '@/lib/horses/filter-params'
+
+/**
+ * Props for HorsePortfolioView
+ */
+export interface HorsePortfolioViewProps extends Omit<
+  HorsePortfolioProps,
+  | 'onHorseClick'
+  | 'filters'
+  | 'onFiltersChange'
+  | 'filterMode'
+  | 'onPageChange'
+  | 'ageRange'
+  | 'priceRange'
+  | 'onCompare'
+  | 'isComparing'
+  | 'isCompareFull'
+  | 'onSaveSearch'
+> {
+  /** Base path for horse detail links */
+  basePath?: string
+}
+
+/**
+ * Horse Portfolio View
+ *
+ * Route-level wrapper that lets server pages render HorsePortfolio with
+ * cards navigating to the horse detail route. Filters, sort order and page
+ * live in the URL; the server page reads them back and passes the matching
+ * page of horses, so listings survive reloads and can be shared. Card
+ * compare buttons feed the compare tray, and the current filters can be
+ * saved for new-listing alerts.
+ */
+export function HorsePortfolioView({ basePath = '/horses', ...props }: HorsePortfolioViewProps) {
+  const router = useRouter()
+  const defaults = useMemo(() => createDefaultFilters(), [])
+  const { filters, setFilters, setPage } = useHorseFilters(defaults)
+  const { isComparing, isFull, toggleItem } = useCompare()
+  const [filtersToSave, setFiltersToSave] = useState<FilterOptions | null>(null)
+  const closeSaveSearch = useCallback(() => setFiltersToSave(null), [])
+
+  return (
+    <>
+      <HorsePortfolio
+        {...props}
+        ageRange={DEFAULT_AGE_RANGE}
+        priceRange={DEFAULT_PRICE_RANGE}
+        filters={filters}
+        onFiltersChange={setFilters}
+        filterMode="server"
+        onPageChange={setPage}
+        onHorseClick={(horse) => router.push(`${basePath}/${horse.id}`)}
+        onCompare={(horse) => toggleItem({ id: horse.id, name: horse.name, image: horse.image })}
+        isComparing={(horse) => isComparing(horse.id)}
+        isCompareFull={isFull}
+        onSaveSearch={setFiltersToSave}
+      />
+
+      <SaveSearchModal filters={filtersToSave} onClose={closeSaveSearch} />
+    </>
+  )
+}
@@ -0,0 +1,34 @@
+'use client'
+
+import React from 'react'
+import { ProductShowcase, type ProductShowcaseProps } from '@/components/sections/product-showcase'
+import { useCart } from '@/components/providers/CartProvider'
+import { useFavorites } from '@/components/providers/FavoritesProvider'
+
+/**
+ * Props for ProductShowcaseView
+ */
+export type ProductShowcaseViewProps = Omit<ProductShowcaseProps, 'onAddToCart' | 'onFavorite' | 'isFavorite'>
+
+/**
+ * Product Showcase View
+ *
+ * Route-level wrapper that adds products to the cart and opens the cart drawer,
+ * and saves favorites to the shortlist.
+ */
+export function ProductShowcaseView(props: ProductShowcaseViewProps) {
+  const { addItem, openCart } = useCart()
+  const { isFavorite, toggleFavorite } = useFavorites()
+
+  return (
+    <ProductShowcase
+      {...props}
+      onAddToCart={(product, variant) => {
+        addItem(product, variant)
+        openCart()
+      }}
+      onFavorite={(product) => toggleFavorite({ type: 'product', id: product.id })}
+      isFavorite={(product) => isFavorite({ type: 'product', id: product.id })}
+    />
+  )
+}
@@ -0,0 +1,191 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Heart, Share2, Trash2, Check } from 'lucide-react'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Heading, Paragraph, Text, Caption } from '@/components/ui/Typography'
+import { useFavorites } from '@/components/providers/FavoritesProvider'
+import {
+  FAVORITE_TYPES,
+  SHARE_PARAM,
+  encodeShareParam,
+  getFavoriteKey,
+  type FavoriteRef,
+  type FavoriteType,
+} from '@/lib/favorites/favorites'
+import type { ShortlistItem } from '@/lib/favorites/shortlist-items'
+
+/**
+ * Props for ShortlistView
+ */
+export interface ShortlistViewProps {
+  /** Every record that can be shortlisted, keyed by favorite key */
+  items: Record<string, ShortlistItem>
+  /** Records from a shared link; the visitor's own shortlist is shown when empty */
+  shared?: FavoriteRef[]
+}
+
+const SECTION_TITLES: Record<FavoriteType, string> = {
+  horse: 'Horses',
+  stallion: 'Stallions',
+  product: 'Products',
+}
+
+/**
+ * Look up display items for a list of references, skipping records that no longer exist
+ */
+function resolveItems(refs: FavoriteRef[], items: Record<string, ShortlistItem>): ShortlistItem[] {
+  return refs
+    .map((ref) => items[getFavoriteKey(ref)])
+    .filter((item): item is ShortlistItem => Boolean(item))
+}
+
+/**
+ * A shortlisted record, optionally removable
+ */
+function ShortlistRow({ item, onRemove }: { item: ShortlistItem; onRemove?: (item: ShortlistItem) => void }) {
+  return (
+    <li className="flex gap-4 py-4 border-b border-gold/10 last:border-b-0">
+      {item.image && (
+        <img src={item.image} alt={item.name} className="h-20 w-28 rounded-lg object-cover flex-shrink-0" />
+      )}
+      <div className="flex-1 min-w-0">
+        <Link href={item.href} className="hover:text-gold transition-colors">
+          <Text className="font-semibold truncate">{item.name}</Text>
+        </Link>
+        <Caption className="block text-gold/60 capitalize">{item.summary}</Caption>
+        {item.price && <Text size="sm" className="mt-1 text-gold">{item.price}</Text>}
+      </div>
+      {onRemove && (
+        <button
+          onClick={() => onRemove(item)}
+          className="self-start p-2 rounded text-white/50 hover:text-red-300 transition-colors"
+          aria-label={`Remove ${item.name} from shortlist`}
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      )}
+    </li>
+  )
+}
+
+/**
+ * Shortlist View
+ *
+ * Lists saved horses, stallions and products grouped by type, with remove
+ * and share actions. A shared link (`/shortlist?items=...`) shows the shared
+ * records instead, with an option to add them to the visitor's own shortlist.
+ */
+export function ShortlistView({ items, shared = [] }: ShortlistViewProps) {
+  const router = useRouter()
+  const { favorites, removeFavorite, addFavorites } = useFavorites()
+  const [shareStatus, setShareStatus] = useState<'idle' | 'copied' | 'failed'>('idle')
+
+  const isShared = shared.length > 0
+  const entries = resolveItems(isShared ? shared : favorites, items)
+
+  const handleShare = async () => {
+    const url = `${window.location.origin}/shortlist?${SHARE_PARAM}=${encodeURIComponent(encodeShareParam(entries))}`
+
+    if (navigator.share) {
+      // Dismissing the share sheet rejects; nothing to report
+      await navigator.share({ title: 'My MAM Center shortlist', url }).catch(() => undefined)
+      return
+    }
+
+    try {
+      await navigator.clipboard.writeText(url)
+      setShareStatus('copied')
+    } catch {
+      setShareStatus('failed')
+    }
+  }
+
+  const handleSaveShared = () => {
+    addFavorites(entries)
+    router.replace('/shortlist')
+  }
+
+  if (entries.length === 0) {
+    return (
+      <section className="py-24 px-4">
+        <GlassPanel className="max-w-xl mx-auto p-8 text-center">
+          <Heart className="h-12 w-12 text-gold/40 mx-auto mb-4" />
+          <Paragraph className="mb-6">
+            {isShared
+              ? 'The records in this shortlist are no longer available.'
+              : 'Your shortlist is empty. Tap the heart on any horse, stallion or product to save it here.'}
+          </Paragraph>
+          <div className="flex flex-wrap justify-center gap-3">
+            <Link href="/horses">
+              <GlassButton variant="outline">Browse Horses</GlassButton>
+            </Link>
+            <Link href="/breeding">
+              <GlassButton variant="outline">Browse Stallions</GlassButton>
+            </Link>
+          </div>
+        </GlassPanel>
+      </section>
+    )
+  }
+
+  return (
+    <section className="py-16 px-4">
+      <div className="container mx-auto max-w-4xl">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <Paragraph>
+            {isShared
+              ? `Someone shared ${entries.length} ${entries.length === 1 ? 'record' : 'records'} with you.`
+              : `${entries.length} saved ${entries.length === 1 ? 'record' : 'records'}`}
+          </Paragraph>
+
+          {isShared ? (
+            <GlassButton variant="primary" leftIcon={<Heart className="h-4 w-4" />} onClick={handleSaveShared}>
+              Save to My Shortlist
+            </GlassButton>
+          ) : (
+            <div className="flex items-center gap-3">
+              {shareStatus !== 'idle' && (
+                <Caption className={shareStatus === 'copied' ? 'text-gold' : 'text-red-400'} role="status">
+                  {shareStatus === 'copied' ? 'Link copied' : 'Could not copy the link'}
+                </Caption>
+              )}
+              <GlassButton
+                variant="outline"
+                leftIcon={shareStatus === 'copied' ? <Check className="h-4 w-4" /> : <Share2 className="h-4 w-4" />}
+                onClick={handleShare}
+              >
+                Share
+              </GlassButton>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-8">
+          {FAVORITE_TYPES.map((type) => {
+            const group = entries.filter((entry) => entry.type === type)
+            if (group.length === 0) return null
+
+            return (
+              <GlassPanel key={type} className="p-6">
+                <Heading level={4} className="mb-2">{SECTION_TITLES[type]}</Heading>
+                <ul>
+                  {group.map((item) => (
+                    <ShortlistRow
+                      key={getFavoriteKey(item)}
+                      item={item}
+                      onRemove={isShared ? undefined : removeFavorite}
+                    />
+                  ))}
+                </ul>
+              </GlassPanel>
+            )
+          })}
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,261 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { KeyRound, LogIn, Mail } from 'lucide-react'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Heading, Paragraph, Label, Caption } from '@/components/ui/Typography'
+import { useSession } from '@/components/providers/SessionProvider'
+import { authAPI } from '@/lib/api/http-client'
+import type { SignInResult } from '@/lib/auth/users'
+import type { ApiResponse } from '@/lib/api/types'
+import type { FieldErrors } from '@/lib/validation'
+import { cn } from '@/lib/utils'
+
+type SignInMethod = 'link' | 'password'
+
+const SIGN_IN_METHODS: { value: SignInMethod; label: string }[] = [
+  { value: 'link', label: 'Email me a link' },
+  { value: 'password', label: 'Use a password' },
+]
+
+const inputClassName =
+  'w-full px-4 py-2 bg-midnight/50 border border-gold/20 rounded-lg text-white placeholder:text-gold/30 focus:outline-none focus:ring-2 focus:ring-gold/50'
+
+/**
+ * Inline field error
+ */
+function FieldError({ id, message }: { id: string; message?: string }) {
+  if (!message) return null
+
+  return (
+    <Caption id={id} className="mt-1 block text-red-400" role="alert">
+      {message}
+    </Caption>
+  )
+}
+
+/**
+ * Adopt the signed-in user and go where the sign-in asked
+ */
+function useCompleteSignIn() {
+  const router = useRouter()
+  const { setUser } = useSession()
+
+  return (result: ApiResponse<SignInResult>): boolean => {
+    if (!result.data) return false
+
+    setUser(result.data.user)
+    router.replace(result.data.next)
+    router.refresh()
+    return true
+  }
+}
+
+/**
+ * Props for SignInView
+ */
+export interface SignInViewProps {
+  /** Path to return to afterwards */
+  next?: string
+  /** Token from a magic link; shows the confirmation step instead of the form */
+  token?: string
+}
+
+/**
+ * Magic link confirmation
+ *
+ * Signing in takes a click rather than happening on page load, so mail
+ * scanners that open links can't use the token up first.
+ */
+function VerifyMagicLink({ token }: { token: string }) {
+  const completeSignIn = useCompleteSignIn()
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleVerify = async () => {
+    setIsSubmitting(true)
+    setError(null)
+    const result = await authAPI.verifyMagicLink(token)
+
+    if (!completeSignIn(result)) {
+      setIsSubmitting(false)
+      setError(result.error || 'Something went wrong. Please try again.')
+    }
+  }
+
+  return (
+    <div className="space-y-6 text-center">
+      <Paragraph>Welcome back. Continue to finish signing in on this device.</Paragraph>
+      {error && (
+        <Paragraph size="sm" className="text-red-400" role="alert">
+          {error}
+        </Paragraph>
+      )}
+      <div className="flex flex-wrap justify-center gap-4">
+        <GlassButton
+          variant="primary"
+          isLoading={isSubmitting}
+          leftIcon={<LogIn className="h-4 w-4" />}
+          onClick={handleVerify}
+        >
+          Continue
+        </GlassButton>
+        {error && (
+          <Link href="/sign-in">
+            <GlassButton variant="ghost">Request a new link</GlassButton>
+          </Link>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Sign In View
+ *
+ * Email magic link or password sign-in. New visitors get an account the
+ * first time they follow a link; passwords can be added from the account
+ * page afterwards.
+ */
+export function SignInView({ next, token }: SignInViewProps) {
+  const completeSignIn = useCompleteSignIn()
+  const [method, setMethod] = useState<SignInMethod>('link')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [errors, setErrors] = useState<FieldErrors<'email' | 'password'>>({})
+  const [formError, setFormError] = useState<string | null>(null)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setFormError(null)
+
+    if (method === 'link') {
+      const result = await authAPI.requestMagicLink(email, next)
+      setIsSubmitting(false)
+
+      if (!result.data) {
+        setErrors(result.errors ?? {})
+        setFormError(result.error || 'Something went wrong. Please try again.')
+        return
+      }
+
+      setErrors({})
+      setSentTo(result.data.email)
+      return
+    }
+
+    const result = await authAPI.signIn(email, password, next)
+    if (!completeSignIn(result)) {
+      setIsSubmitting(false)
+      setErrors(result.errors ?? {})
+      setFormError(result.error || 'Something went wrong. Please try again.')
+    }
+  }
+
+  return (
+    <section className="px-6 py-16 bg-midnight">
+      <div className="max-w-md mx-auto">
+        <GlassPanel variant="elevated" className="p-6 md:p-8">
+          {token ? (
+            <VerifyMagicLink token={token} />
+          ) : sentTo ? (
+            <div className="space-y-4 text-center" role="status">
+              <Mail className="h-10 w-10 text-gold mx-auto" />
+              <Heading level={4}>Check your inbox</Heading>
+              <Paragraph>
+                We&apos;ve sent a sign-in link to <span className="text-gold">{sentTo}</span>. It works once and
+                expires shortly.
+              </Paragraph>
+              <GlassButton variant="ghost" onClick={() => setSentTo(null)}>
+                Use a different email
+              </GlassButton>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} noValidate className="space-y-6">
+              <div className="flex flex-wrap gap-2" role="group" aria-label="Sign-in method">
+                {SIGN_IN_METHODS.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => {
+                      setMethod(option.value)
+                      setErrors({})
+                      setFormError(null)
+                    }}
+                    aria-pressed={method === option.value}
+                    className={cn(
+                      'px-3 py-1 rounded-full text-sm transition-colors',
+                      method === option.value ? 'bg-gold text-midnight' : 'bg-gold/10 text-gold hover:bg-gold/20'
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+
+              <div>
+                <Label htmlFor="sign-in-email" required className="mb-2 block">Email</Label>
+                <input
+                  id="sign-in-email"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  aria-invalid={errors.email ? true : undefined}
+                  aria-describedby={errors.email ? 'sign-in-email-error' : undefined}
+                  className={inputClassName}
+                />
+                <FieldError id="sign-in-email-error" message={errors.email} />
+              </div>
+
+              {method === 'password' && (
+                <div>
+                  <Label htmlFor="sign-in-password" required className="mb-2 block">Password</Label>
+                  <input
+                    id="sign-in-password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    aria-invalid={errors.password ? true : undefined}
+                    aria-describedby={errors.password ? 'sign-in-password-error' : undefined}
+                    className={inputClassName}
+                  />
+                  <FieldError id="sign-in-password-error" message={errors.password} />
+                </div>
+              )}
+
+              {formError && (
+                <Paragraph size="sm" className="text-red-400" role="alert">
+                  {formError}
+                </Paragraph>
+              )}
+
+              <GlassButton
+                type="submit"
+                variant="primary"
+                className="w-full"
+                isLoading={isSubmitting}
+                leftIcon={method === 'link' ? <Mail className="h-4 w-4" /> : <KeyRound className="h-4 w-4" />}
+              >
+                {method === 'link' ? 'Send Sign-in Link' : 'Sign In'}
+              </GlassButton>
+
+              <Caption className="block text-center text-gold/50">
+                {method === 'link'
+                  ? 'New here? The link creates your account.'
+                  : 'No password yet? Sign in with a link, then add one from your account.'}
+              </Caption>
+            </form>
+          )}
+        </GlassPanel>
+      </div>
+    </section>
+  )
+}
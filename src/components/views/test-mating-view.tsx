@@ -0,0 +1,374 @@
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { Award, GitMerge } from 'lucide-react'
+import { GlassPanel } from '@/components/ui/GlassPanel'
+import { GlassButton } from '@/components/ui/GlassButton'
+import { Heading, Paragraph, Label, Caption, Text } from '@/components/ui/Typography'
+import { PedigreeChart } from '@/components/sections/pedigree-chart'
+import type { Horse } from '@/components/sections/horse-portfolio'
+import type { Stallion } from '@/components/sections/breeding-program'
+import { breedingAPI } from '@/lib/api/http-client'
+import { describePosition, formatCoefficient } from '@/lib/pedigree/inbreeding'
+import { MAX_PEDIGREE_GENERATIONS } from '@/lib/pedigree/pedigree'
+import {
+  MARE_ANCESTOR_FIELDS,
+  type LineAchievement,
+  type MareAncestorField,
+  type TestMatingField,
+  type TestMatingResult,
+} from '@/lib/pedigree/test-mating'
+import type { FieldErrors } from '@/lib/validation'
+import { cn } from '@/lib/utils'
+
+type MareSource = 'ours' | 'entered'
+
+type MareForm = Record<'name' | 'breed' | 'registrationNumber' | 'birthYear' | 'color' | MareAncestorField, string>
+
+const EMPTY_MARE: MareForm = {
+  name: '',
+  breed: '',
+  registrationNumber: '',
+  birthYear: '',
+  color: '',
+  sire: '',
+  dam: '',
+  siresSire: '',
+  siresDam: '',
+  damsSire: '',
+  damsDam: '',
+}
+
+const inputClassName =
+  'w-full px-4 py-2 bg-midnight/50 border border-gold/20 rounded-lg text-white placeholder:text-gold/30 focus:outline-none focus:ring-2 focus:ring-gold/50'
+
+/**
+ * Inline field error
+ */
+function FieldError({ id, message }: { id: string; message?: string }) {
+  if (!message) return null
+
+  return (
+    <Caption id={id} className="mt-1 block text-red-400" role="alert">
+      {message}
+    </Caption>
+  )
+}
+
+/**
+ * Achievements inherited through one parent
+ */
+function LineSummary({ title, entries }: { title: string; entries: LineAchievement[] }) {
+  return (
+    <div>
+      <Heading level={5} className="mb-3">{title}</Heading>
+      {entries.length === 0 ? (
+        <Paragraph size="sm">No achievements recorded on this side of the pedigree.</Paragraph>
+      ) : (
+        <ul className="space-y-3">
+          {entries.map((entry) => (
+            <li key={entry.path}>
+              <Text className="block font-semibold">{entry.name}</Text>
+              <Caption className="block text-gold/60 mb-1">{describePosition(entry.path)}</Caption>
+              <ul className="space-y-1">
+                {entry.achievements.map((achievement, index) => (
+                  <li key={index} className="flex items-start gap-2">
+                    <Award className="h-3 w-3 text-gold flex-shrink-0 mt-1" />
+                    <Text size="sm">{achievement}</Text>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Props for TestMatingView
+ */
+export interface TestMatingViewProps {
+  /** Stallions available to choose from */
+  stallions: Stallion[]
+  /** Our mares, offered instead of entering a pedigree */
+  mares: Horse[]
+  /** Stallion selected when the page opens */
+  initialStallionId?: string
+}
+
+/**
+ * Test Mating View
+ *
+ * Pairs one of our stallions with one of our mares or a mare pedigree the
+ * owner enters, then shows the hypothetical foal's pedigree chart with its
+ * inbreeding coefficient and the achievements behind each side.
+ */
+export function TestMatingView({ stallions, mares, initialStallionId }: TestMatingViewProps) {
+  const initialStallion = stallions.find((stallion) => stallion.id === initialStallionId) ?? stallions[0]
+  const [stallionId, setStallionId] = useState(initialStallion?.id ?? '')
+  const [source, setSource] = useState<MareSource>(mares.length > 0 ? 'ours' : 'entered')
+  const [mareId, setMareId] = useState(mares[0]?.id ?? '')
+  const [mare, setMare] = useState<MareForm>(EMPTY_MARE)
+  const [errors, setErrors] = useState<FieldErrors<TestMatingField>>({})
+  const [formError, setFormError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [result, setResult] = useState<TestMatingResult | null>(null)
+
+  const updateMare = (field: keyof MareForm, value: string) => {
+    setMare((current) => ({ ...current, [field]: value }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setFormError(null)
+
+    const response = await breedingAPI.testMating(
+      source === 'ours'
+        ? { stallionId, mareId }
+        : {
+            stallionId,
+            mare: {
+              ...mare,
+              birthYear: mare.birthYear ? Number(mare.birthYear) : undefined,
+            },
+          }
+    )
+
+    setIsSubmitting(false)
+
+    if (response.data) {
+      setErrors({})
+      setResult(response.data)
+      return
+    }
+
+    setErrors(response.errors ?? {})
+    setFormError(response.error || 'Something went wrong. Please try again.')
+  }
+
+  const sharedAncestors = result?.analysis.repeatedAncestors.filter((ancestor) => ancestor.crossNotation) ?? []
+
+  return (
+    <>
+      <section className="px-6 py-16">
+        <GlassPanel variant="elevated" className="mx-auto max-w-4xl p-6 md:p-8">
+          <form onSubmit={handleSubmit} noValidate className="space-y-6">
+            <div>
+              <Label htmlFor="test-mating-stallion" required className="mb-2 block">Stallion</Label>
+              <select
+                id="test-mating-stallion"
+                value={stallionId}
+                onChange={(e) => setStallionId(e.target.value)}
+                aria-invalid={errors.stallionId ? true : undefined}
+                className={inputClassName}
+              >
+                {stallions.map((stallion) => (
+                  <option key={stallion.id} value={stallion.id}>
+                    {stallion.name} ({stallion.breed})
+                  </option>
+                ))}
+              </select>
+              <FieldError id="test-mating-stallion-error" message={errors.stallionId} />
+            </div>
+
+            <fieldset>
+              <legend className="mb-2 text-sm font-medium text-white/90">Mare</legend>
+              <div className="flex gap-2 mb-4">
+                {mares.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setSource('ours')}
+                    aria-pressed={source === 'ours'}
+                    className={cn(
+                      'px-3 py-1 rounded-full text-sm transition-colors',
+                      source === 'ours' ? 'bg-gold text-midnight' : 'bg-gold/10 text-gold hover:bg-gold/20'
+                    )}
+                  >
+                    One of our mares
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setSource('entered')}
+                  aria-pressed={source === 'entered'}
+                  className={cn(
+                    'px-3 py-1 rounded-full text-sm transition-colors',
+                    source === 'entered' ? 'bg-gold text-midnight' : 'bg-gold/10 text-gold hover:bg-gold/20'
+                  )}
+                >
+                  Enter my mare&apos;s pedigree
+                </button>
+              </div>
+
+              {source === 'ours' ? (
+                <div>
+                  <Label htmlFor="test-mating-mare" className="mb-2 block">Choose a mare</Label>
+                  <select
+                    id="test-mating-mare"
+                    value={mareId}
+                    onChange={(e) => setMareId(e.target.value)}
+                    aria-invalid={errors.mareId ? true : undefined}
+                    className={inputClassName}
+                  >
+                    {mares.map((horse) => (
+                      <option key={horse.id} value={horse.id}>
+                        {horse.name} ({horse.breed})
+                      </option>
+                    ))}
+                  </select>
+                  <FieldError id="test-mating-mare-error" message={errors.mareId} />
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="test-mating-mare-name" required className="mb-2 block">Name</Label>
+                      <input
+                        id="test-mating-mare-name"
+                        type="text"
+                        value={mare.name}
+                        onChange={(e) => updateMare('name', e.target.value)}
+                        aria-invalid={errors.mareName ? true : undefined}
+                        aria-describedby={errors.mareName ? 'test-mating-mare-name-error' : undefined}
+                        className={inputClassName}
+                      />
+                      <FieldError id="test-mating-mare-name-error" message={errors.mareName} />
+                    </div>
+                    <div>
+                      <Label htmlFor="test-mating-mare-breed" className="mb-2 block">Breed</Label>
+                      <input
+                        id="test-mating-mare-breed"
+                        type="text"
+                        value={mare.breed}
+                        onChange={(e) => updateMare('breed', e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="test-mating-mare-registration" className="mb-2 block">Registration Number</Label>
+                      <input
+                        id="test-mating-mare-registration"
+                        type="text"
+                        value={mare.registrationNumber}
+                        onChange={(e) => updateMare('registrationNumber', e.target.value)}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="test-mating-mare-year" className="mb-2 block">Birth Year</Label>
+                        <input
+                          id="test-mating-mare-year"
+                          type="number"
+                          inputMode="numeric"
+                          value={mare.birthYear}
+                          onChange={(e) => updateMare('birthYear', e.target.value)}
+                          aria-invalid={errors.mareBirthYear ? true : undefined}
+                          aria-describedby={errors.mareBirthYear ? 'test-mating-mare-year-error' : undefined}
+                          className={inputClassName}
+                        />
+                        <FieldError id="test-mating-mare-year-error" message={errors.mareBirthYear} />
+                      </div>
+                      <div>
+                        <Label htmlFor="test-mating-mare-color" className="mb-2 block">Color</Label>
+                        <input
+                          id="test-mating-mare-color"
+                          type="text"
+                          value={mare.color}
+                          onChange={(e) => updateMare('color', e.target.value)}
+                          className={inputClassName}
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    {MARE_ANCESTOR_FIELDS.map((field) => (
+                      <div key={field.key}>
+                        <Label htmlFor={`test-mating-mare-${field.key}`} className="mb-2 block">{field.label}</Label>
+                        <input
+                          id={`test-mating-mare-${field.key}`}
+                          type="text"
+                          value={mare[field.key]}
+                          onChange={(e) => updateMare(field.key, e.target.value)}
+                          className={inputClassName}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </fieldset>
+
+            {formError && (
+              <Paragraph size="sm" className="text-red-400" role="alert">
+                {formError}
+              </Paragraph>
+            )}
+
+            <GlassButton
+              type="submit"
+              variant="primary"
+              className="w-full"
+              isLoading={isSubmitting}
+              rightIcon={<GitMerge className="h-4 w-4" />}
+            >
+              Show Foal Pedigree
+            </GlassButton>
+          </form>
+        </GlassPanel>
+      </section>
+
+      {result && (
+        <>
+          <section className="px-6 pb-4">
+            <GlassPanel variant="elevated" className="mx-auto max-w-4xl p-6 md:p-8">
+              <div className="flex flex-wrap items-start justify-between gap-6 mb-8">
+                <div>
+                  <Caption className="block text-gold/70">Hypothetical foal</Caption>
+                  <Heading level={3}>{result.pedigree.name}</Heading>
+                </div>
+                <div className="flex gap-6 text-right">
+                  <div>
+                    <Caption className="block text-gold/70">COI ({result.analysis.generations} gen.)</Caption>
+                    <Text className="text-2xl font-semibold text-gold">
+                      {formatCoefficient(result.analysis.coefficient)}
+                    </Text>
+                  </div>
+                  <div>
+                    <Caption className="block text-gold/70">Shared ancestors</Caption>
+                    <Text className="text-2xl font-semibold text-gold">{sharedAncestors.length}</Text>
+                  </div>
+                </div>
+              </div>
+
+              {sharedAncestors.length > 0 && (
+                <Paragraph size="sm" className="mb-8">
+                  Appearing on both sides:{' '}
+                  {sharedAncestors.map((ancestor) => `${ancestor.name} (${ancestor.crossNotation})`).join(', ')}
+                </Paragraph>
+              )}
+
+              <div className="grid md:grid-cols-2 gap-8">
+                <LineSummary title="Sire Line" entries={result.sireLine} />
+                <LineSummary title="Dam Line" entries={result.damLine} />
+              </div>
+
+              <div className="mt-8 text-center">
+                <Link href="/breeding">
+                  <GlassButton variant="outline">Book a Season</GlassButton>
+                </Link>
+              </div>
+            </GlassPanel>
+          </section>
+
+          <PedigreeChart pedigree={result.pedigree} maxDepth={MAX_PEDIGREE_GENERATIONS} />
+        </>
+      )}
+    </>
+  )
+}
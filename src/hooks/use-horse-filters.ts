@@ -0,0 +1,60 @@
+'use client'
+
+import { useCallback, useMemo } from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import type { FilterOptions } from '@/components/sections/horse-portfolio'
+import {
+  HORSE_LIST_PARAM_KEYS,
+  parseHorseListParams,
+  serializeHorseListParams,
+  type HorseListState,
+} from '@/lib/horses/filter-params'
+
+/**
+ * Horse filter URL state hook
+ * Reads filters, sort and page from the query string and writes changes back
+ * with `router.replace`, so server pages re-render with the new params.
+ * Params the listing doesn't own (e.g. `includeSold`) are preserved.
+ *
+ * @param defaults - Unfiltered state; must be referentially stable
+ */
+export function useHorseFilters(defaults: FilterOptions) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const state = useMemo(
+    () => parseHorseListParams(new URLSearchParams(searchParams.toString()), defaults),
+    [searchParams, defaults]
+  )
+
+  const navigate = useCallback((next: HorseListState) => {
+    const params = new URLSearchParams(searchParams.toString())
+    HORSE_LIST_PARAM_KEYS.forEach((key) => params.delete(key))
+    serializeHorseListParams(next, defaults).forEach((value, key) => params.append(key, value))
+
+    const query = params.toString()
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+  }, [router, pathname, searchParams, defaults])
+
+  // Any filter change starts again from the first page
+  const setFilters = useCallback((filters: FilterOptions) => {
+    navigate({ filters, page: 1 })
+  }, [navigate])
+
+  const setPage = useCallback((page: number) => {
+    navigate({ filters: state.filters, page })
+  }, [navigate, state.filters])
+
+  const resetFilters = useCallback(() => {
+    navigate({ filters: defaults, page: 1 })
+  }, [navigate, defaults])
+
+  return {
+    filters: state.filters,
+    page: state.page,
+    setFilters,
+    setPage,
+    resetFilters,
+  }
+}
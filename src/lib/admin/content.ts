@@ -0,0 +1,128 @@
+/**
+ * Content Status
+ *
+ * Publishing state shared by every record managed from the back office.
+ * Records without a status predate the back office and count as published.
+ * Public queries only ever return published records.
+ */
+
+import type { UserRole } from '@/lib/auth/users'
+
+/**
+ * Drafts are hidden until published; archived records are retired listings
+ * kept for reference and can be restored
+ */
+export type ContentStatus = 'draft' | 'published' | 'archived'
+
+export const CONTENT_STATUSES: { value: ContentStatus; label: string }[] = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'published', label: 'Published' },
+  { value: 'archived', label: 'Archived' },
+]
+
+/**
+ * Collections editable from the back office, named after their API routes
+ */
+export type AdminEntity = 'horses' | 'stallions' | 'products' | 'articles'
+
+export const ADMIN_ENTITIES: { value: AdminEntity; label: string; singular: string }[] = [
+  { value: 'horses', label: 'Horses', singular: 'Horse' },
+  { value: 'stallions', label: 'Stallions', singular: 'Stallion' },
+  { value: 'products', label: 'Products', singular: 'Product' },
+  { value: 'articles', label: 'Articles', singular: 'Article' },
+]
+
+/**
+ * Roles that may edit each collection: the sales team looks after listings
+ * and the shop, the breeding team after the stallions, and both write articles
+ */
+export const CONTENT_EDITORS: Record<AdminEntity, UserRole[]> = {
+  horses: ['sales', 'admin'],
+  stallions: ['breeder', 'admin'],
+  products: ['sales', 'admin'],
+  articles: ['breeder', 'sales', 'admin'],
+}
+
+/**
+ * Row in a back office list
+ */
+export interface AdminListItem {
+  id: string
+  title: string
+  /** Short description, e.g. breed and price */
+  subtitle: string
+  image?: string
+  status: ContentStatus
+}
+
+/**
+ * Label for a content status
+ */
+export function getContentStatusLabel(status: ContentStatus): string {
+  return CONTENT_STATUSES.find((s) => s.value === status)?.label ?? status
+}
+
+/**
+ * Whether a record may be shown on the public site
+ */
+export function isPublished(record: { status?: ContentStatus }): boolean {
+  return (record.status ?? 'published') === 'published'
+}
+
+/**
+ * Whether the user may edit a collection, or any collection when none is given
+ */
+export function canManageContent(user: { role: UserRole } | null | undefined, entity?: AdminEntity): boolean {
+  if (!user) return false
+  return entity
+    ? CONTENT_EDITORS[entity].includes(user.role)
+    : ADMIN_ENTITIES.some(({ value }) => CONTENT_EDITORS[value].includes(user.role))
+}
+
+/**
+ * Whether a route segment names a back office collection
+ */
+export function isAdminEntity(value: string): value is AdminEntity {
+  return ADMIN_ENTITIES.some((entity) => entity.value === value)
+}
+
+/**
+ * Labels for a collection
+ */
+export function getAdminEntity(entity: AdminEntity): { value: AdminEntity; label: string; singular: string } {
+  return ADMIN_ENTITIES.find((e) => e.value === entity) ?? ADMIN_ENTITIES[0]
+}
+
+/**
+ * Public pages that show a collection, plus the record's own page when an id
+ * is given; revalidated after a save
+ */
+export function getPublicPaths(entity: AdminEntity, id?: string): string[] {
+  switch (entity) {
+    case 'horses':
+      return [
+        '/',
+        '/horses',
+        ...(id ? [`/horses/${id}`] : []),
+        '/horses/compare',
+        '/for-sale',
+        '/for-sale/[category]',
+        '/shortlist',
+      ]
+    case 'stallions':
+      return ['/breeding', '/breeding/planner', '/breeding/test-mating', '/shortlist']
+    case 'products':
+      return ['/', '/shop', '/shortlist']
+    case 'articles':
+      return ['/']
+  }
+}
+
+/**
+ * Fetch cache tags for a collection and record, matching the tags the client
+ * API objects use
+ */
+export function getCacheTags(entity: AdminEntity, id?: string): string[] {
+  const singular = getAdminEntity(entity).singular.toLowerCase()
+  return id ? [entity, `${singular}:${id}`] : [entity]
+}
@@ -0,0 +1,351 @@
+/**
+ * Back Office Forms
+ *
+ * Field definitions for each collection's edit form, mirroring the record
+ * interfaces. The same definitions render the form and validate submissions,
+ * so the two can't drift apart. Nested data the forms don't cover (pedigrees,
+ * coat genotypes, stud seasons, specifications) is kept as is on save.
+ */
+
+import { isIsoDate } from '@/lib/breeding/booking'
+import { hasErrors, readString, type FieldErrors, type ValidationResult } from '@/lib/validation'
+import { CONTENT_STATUSES, type AdminEntity, type ContentStatus } from './content'
+
+export type AdminFieldKind =
+  | 'text'
+  | 'textarea'
+  | 'number'
+  | 'select'
+  | 'checkbox'
+  | 'date'
+  | 'url'
+  /** One entry per line */
+  | 'list'
+  /** One link per line */
+  | 'urlList'
+  /** Media library asset id */
+  | 'media'
+  /** Media library asset ids, in display order */
+  | 'mediaList'
+
+/**
+ * A single form field
+ */
+export interface AdminField {
+  /** Record property, except where noted */
+  name: string
+  label: string
+  kind: AdminFieldKind
+  required?: boolean
+  options?: { value: string; label: string }[]
+  min?: number
+  max?: number
+  /** Whole numbers only */
+  integer?: boolean
+  /** Shown under the input */
+  hint?: string
+  /** Media fields: the link field filled in from the chosen assets on save */
+  fills?: string
+}
+
+export type AdminFieldValue = string | number | boolean | string[]
+
+/**
+ * Form values by field name
+ */
+export type AdminFormValues = Record<string, AdminFieldValue | undefined>
+
+/**
+ * A record as the edit form sees it
+ */
+export interface AdminRecord {
+  id: string
+  status: ContentStatus
+  values: AdminFormValues
+}
+
+const STATUS_FIELD: AdminField = {
+  name: 'status',
+  label: 'Status',
+  kind: 'select',
+  required: true,
+  options: CONTENT_STATUSES,
+  hint: 'Drafts and archived records are hidden from the public site.',
+}
+
+/**
+ * Horse fields shown on the detail page only; stored on the horse's detail record
+ */
+export const HORSE_DETAIL_FIELDS = ['imageIds', 'images', 'training', 'temperament', 'healthStatus', 'location'] as const
+
+/**
+ * Form fields per collection, in form order
+ */
+export const ADMIN_FIELDS: Record<AdminEntity, AdminField[]> = {
+  horses: [
+    { name: 'name', label: 'Name', kind: 'text', required: true },
+    STATUS_FIELD,
+    { name: 'breed', label: 'Breed', kind: 'text', required: true },
+    {
+      name: 'gender',
+      label: 'Sex',
+      kind: 'select',
+      required: true,
+      options: [
+        { value: 'Female', label: 'Mare' },
+        { value: 'Male', label: 'Stallion or gelding' },
+      ],
+    },
+    { name: 'castrated', label: 'Gelded', kind: 'checkbox' },
+    { name: 'age', label: 'Age', kind: 'number', required: true, min: 0, max: 40, integer: true },
+    {
+      name: 'foalYear',
+      label: 'Year foaled',
+      kind: 'number',
+      min: 1980,
+      integer: true,
+      hint: 'Keeps the age current; takes precedence over the age above.',
+    },
+    { name: 'registrationNumber', label: 'Registration number', kind: 'text' },
+    { name: 'color', label: 'Color', kind: 'text', required: true },
+    { name: 'height', label: 'Height', kind: 'text', required: true, hint: 'e.g. 16.1 hh' },
+    { name: 'discipline', label: 'Disciplines', kind: 'list', required: true },
+    { name: 'price', label: 'Price (USD)', kind: 'number', required: true, min: 0 },
+    {
+      name: 'availability',
+      label: 'Availability',
+      kind: 'select',
+      options: [
+        { value: 'available', label: 'Available' },
+        { value: 'reserved', label: 'Reserved' },
+        { value: 'sold', label: 'Sold' },
+      ],
+    },
+    { name: 'listedAt', label: 'Listed on', kind: 'date' },
+    { name: 'imageId', label: 'Listing photo', kind: 'media', fills: 'image' },
+    {
+      name: 'image',
+      label: 'Listing image link',
+      kind: 'url',
+      hint: 'For images hosted elsewhere; replaced by the listing photo when one is chosen.',
+    },
+    {
+      name: 'imageIds',
+      label: 'Gallery photos',
+      kind: 'mediaList',
+      fills: 'images',
+      hint: 'Defaults to the listing image.',
+    },
+    { name: 'images', label: 'Gallery image links', kind: 'urlList', hint: 'Replaced by gallery photos when chosen.' },
+    { name: 'description', label: 'Description', kind: 'textarea', required: true },
+    {
+      name: 'competitionRecord',
+      label: 'Competition record',
+      kind: 'list',
+      hint: 'Free text, shown until structured results are recorded.',
+    },
+    { name: 'training', label: 'Training', kind: 'list' },
+    { name: 'temperament', label: 'Temperament', kind: 'textarea' },
+    {
+      name: 'healthStatus',
+      label: 'Health summary',
+      kind: 'textarea',
+      hint: 'Shown until health records are added.',
+    },
+    { name: 'location', label: 'Location', kind: 'text' },
+  ],
+  stallions: [
+    { name: 'name', label: 'Name', kind: 'text', required: true },
+    STATUS_FIELD,
+    { name: 'breed', label: 'Breed', kind: 'text', required: true },
+    { name: 'age', label: 'Age', kind: 'number', required: true, min: 0, max: 40, integer: true },
+    { name: 'height', label: 'Height', kind: 'text', required: true, hint: 'e.g. 16.1 hh' },
+    { name: 'color', label: 'Color', kind: 'text', required: true },
+    { name: 'registrationNumber', label: 'Registration number', kind: 'text' },
+    { name: 'studFee', label: 'Stud fee (USD)', kind: 'number', required: true, min: 0 },
+    { name: 'specialties', label: 'Specialties', kind: 'list', required: true },
+    {
+      name: 'achievements',
+      label: 'Achievements',
+      kind: 'list',
+      hint: 'Free text, shown until structured results are recorded.',
+    },
+    { name: 'image', label: 'Main image', kind: 'url', required: true },
+    { name: 'images', label: 'Gallery images', kind: 'urlList' },
+    { name: 'temperament', label: 'Temperament', kind: 'textarea' },
+    { name: 'healthStatus', label: 'Health summary', kind: 'textarea' },
+    { name: 'location', label: 'Location', kind: 'text' },
+  ],
+  products: [
+    { name: 'name', label: 'Name', kind: 'text', required: true },
+    STATUS_FIELD,
+    {
+      name: 'category',
+      label: 'Category',
+      kind: 'select',
+      required: true,
+      options: [
+        { value: 'equipment', label: 'Equipment' },
+        { value: 'apparel', label: 'Apparel' },
+        { value: 'accessories', label: 'Accessories' },
+        { value: 'nutrition', label: 'Nutrition' },
+        { value: 'care', label: 'Care' },
+      ],
+    },
+    { name: 'price', label: 'Price', kind: 'number', required: true, min: 0 },
+    { name: 'currency', label: 'Currency', kind: 'text', hint: 'Three-letter code; defaults to USD.' },
+    { name: 'imageIds', label: 'Photos', kind: 'mediaList', fills: 'images' },
+    { name: 'images', label: 'Image links', kind: 'urlList', hint: 'Replaced by photos when chosen.' },
+    { name: 'thumbnail', label: 'Thumbnail', kind: 'url' },
+    { name: 'description', label: 'Description', kind: 'textarea', required: true },
+    { name: 'features', label: 'Features', kind: 'list' },
+    { name: 'colors', label: 'Colors', kind: 'list' },
+    { name: 'sizes', label: 'Sizes', kind: 'list' },
+    { name: 'inStock', label: 'In stock', kind: 'checkbox' },
+    { name: 'featured', label: 'Featured', kind: 'checkbox' },
+  ],
+  articles: [
+    { name: 'title', label: 'Title', kind: 'text', required: true },
+    STATUS_FIELD,
+    { name: 'publishDate', label: 'Publish date', kind: 'date', required: true },
+    { name: 'excerpt', label: 'Excerpt', kind: 'textarea' },
+    { name: 'content', label: 'Content', kind: 'textarea' },
+    { name: 'authorName', label: 'Author', kind: 'text', hint: 'Stored as the author\'s name.' },
+    { name: 'readTime', label: 'Read time', kind: 'text', hint: 'e.g. 5 min read' },
+    { name: 'category', label: 'Category', kind: 'text' },
+    { name: 'tags', label: 'Tags', kind: 'list' },
+    { name: 'imageId', label: 'Photo', kind: 'media', fills: 'image' },
+    { name: 'image', label: 'Image link', kind: 'url', hint: 'Replaced by the photo when one is chosen.' },
+    {
+      name: 'layout',
+      label: 'Layout',
+      kind: 'select',
+      options: [
+        { value: 'full-width', label: 'Full width' },
+        { value: 'split', label: 'Split' },
+        { value: 'centered', label: 'Centered' },
+      ],
+    },
+    { name: 'featured', label: 'Featured', kind: 'checkbox' },
+  ],
+}
+
+function isLink(value: string): boolean {
+  return value.startsWith('/') || /^https?:\/\/\S+$/.test(value)
+}
+
+/**
+ * Lines of a list field, accepting an array or newline-separated text
+ */
+function readList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split('\n') : []
+  return items.map(readString).filter(Boolean)
+}
+
+/**
+ * Read and check one field, returning its value or an error message
+ */
+function readField(field: AdminField, raw: unknown): { value?: AdminFieldValue; error?: string } {
+  const label = field.label.toLowerCase()
+
+  switch (field.kind) {
+    case 'checkbox':
+      return { value: raw === true || raw === 'true' || raw === 'on' }
+
+    case 'list':
+    case 'urlList':
+    case 'mediaList': {
+      const items = readList(raw)
+      if (field.required && items.length === 0) return { error: `Please add at least one entry to ${label}` }
+      if (field.kind === 'urlList' && !items.every(isLink)) return { error: 'Each line must be a link' }
+      return { value: items }
+    }
+
+    case 'number': {
+      const text = typeof raw === 'number' ? String(raw) : readString(raw)
+      if (!text) return field.required ? { error: `Please enter the ${label}` } : {}
+
+      const value = Number(text)
+      if (!Number.isFinite(value)) return { error: `${field.label} must be a number` }
+      if (field.integer && !Number.isInteger(value)) return { error: `${field.label} must be a whole number` }
+      if (field.min !== undefined && value < field.min) return { error: `${field.label} must be at least ${field.min}` }
+      if (field.max !== undefined && value > field.max) return { error: `${field.label} must be at most ${field.max}` }
+      return { value }
+    }
+
+    default: {
+      const value = readString(raw)
+      if (!value) return field.required ? { error: `Please enter the ${label}` } : {}
+
+      if (field.kind === 'select' && !field.options?.some((option) => option.value === value)) {
+        return { error: `Please choose a valid ${label}` }
+      }
+      if (field.kind === 'date' && !isIsoDate(value)) return { error: 'Please enter a valid date' }
+      if (field.kind === 'url' && !isLink(value)) return { error: 'Please enter a link starting with https:// or /' }
+      return { value }
+    }
+  }
+}
+
+/**
+ * Validate untrusted form input for a collection
+ *
+ * Every field is returned, with empty optional fields as undefined so saving
+ * clears them.
+ */
+export function validateAdminForm(
+  entity: AdminEntity,
+  input: unknown
+): ValidationResult<AdminFormValues & { status: ContentStatus }> {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const errors: FieldErrors = {}
+  const values: AdminFormValues = {}
+
+  ADMIN_FIELDS[entity].forEach((field) => {
+    const { value, error } = readField(field, body[field.name])
+    if (error) errors[field.name] = error
+    values[field.name] = value
+  })
+
+  if (entity === 'horses' && typeof values.foalYear === 'number' && values.foalYear > new Date().getFullYear()) {
+    errors.foalYear = 'Year foaled can\'t be in the future'
+  }
+
+  // Listings and products need a picture, from the library or a link
+  if (entity === 'horses' && !values.imageId && !values.image) {
+    errors.image = 'Please choose a listing photo or enter an image link'
+  }
+  if (entity === 'products' && !(values.imageIds as string[]).length && !(values.images as string[]).length) {
+    errors.images = 'Please choose photos or add image links'
+  }
+
+  const status = CONTENT_STATUSES.find((s) => s.value === values.status)?.value
+  if (hasErrors(errors) || !status) {
+    return { success: false, errors }
+  }
+
+  return { success: true, data: { ...values, status } }
+}
+
+/**
+ * A stored record's values for the edit form
+ */
+export function toFormValues(entity: AdminEntity, record: object): AdminFormValues {
+  const source: Record<string, unknown> = { ...record }
+  if (entity === 'articles') {
+    source.authorName = (record as { author?: { name?: string } }).author?.name
+  }
+
+  const values: AdminFormValues = {}
+  ADMIN_FIELDS[entity].forEach((field) => {
+    const value = source[field.name]
+    if (Array.isArray(value)) {
+      values[field.name] = value.filter((item): item is string => typeof item === 'string')
+    } else if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      values[field.name] = value
+    }
+  })
+  values.status ??= 'published'
+
+  return values
+}
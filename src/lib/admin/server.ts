@@ -0,0 +1,88 @@
+/**
+ * Back Office Route Support
+ *
+ * Access checks and cache revalidation for the `/admin` pages and the
+ * `app/api/admin` route handlers. Server-only: never import this module from
+ * client components.
+ */
+
+import { revalidatePath, revalidateTag } from 'next/cache'
+import { notFound } from 'next/navigation'
+import type { NextResponse } from 'next/server'
+import { errorResponse } from '@/lib/api/route-helpers'
+import type { ApiResponse } from '@/lib/api/types'
+import { getSessionUser } from '@/lib/auth/session'
+import { isAdmin, isStaff, type SessionUser } from '@/lib/auth/users'
+import { canManageContent, getAdminEntity, getCacheTags, getPublicPaths, type AdminEntity } from './content'
+
+/**
+ * Error response for callers who may not edit a collection (or any
+ * collection, when none is given), or null when they may
+ */
+export async function checkContentAccess(entity?: AdminEntity): Promise<NextResponse<ApiResponse<never>> | null> {
+  const user = await getSessionUser()
+  if (!user) return errorResponse(401, 'Sign in to manage content')
+  if (!canManageContent(user, entity)) {
+    const label = entity ? getAdminEntity(entity).label.toLowerCase() : 'content'
+    return errorResponse(403, `You don't have access to manage ${label}`)
+  }
+
+  return null
+}
+
+/**
+ * Render the not-found page for anyone who may not edit the collection (or
+ * any collection, when none is given), so the back office doesn't reveal
+ * itself or its drafts
+ */
+export async function requireContentPage(entity?: AdminEntity): Promise<SessionUser> {
+  const user = await getSessionUser()
+  if (!user || !canManageContent(user, entity)) {
+    notFound()
+  }
+
+  return user
+}
+
+/**
+ * Render the not-found page for anyone but staff
+ */
+export async function requireStaffPage(): Promise<SessionUser> {
+  const user = await getSessionUser()
+  if (!user || !isStaff(user)) {
+    notFound()
+  }
+
+  return user
+}
+
+/**
+ * Render the not-found page for anyone but admins
+ */
+export async function requireAdminPage(): Promise<SessionUser> {
+  const user = await getSessionUser()
+  if (!user || !isAdmin(user)) {
+    notFound()
+  }
+
+  return user
+}
+
+/**
+ * Refresh the public pages and cached API responses showing a collection,
+ * and a record's own page when an id is given
+ */
+export function revalidateContent(entity: AdminEntity, id?: string): void {
+  getPublicPaths(entity, id).forEach((path) => {
+    revalidatePath(path, path.includes('[') ? 'page' : undefined)
+  })
+  getCacheTags(entity, id).forEach((tag) => revalidateTag(tag, { expire: 0 }))
+}
+
+/**
+ * Refresh cached API responses for a library video after its files or
+ * details change
+ */
+export function revalidateVideo(id: string): void {
+  revalidateTag(`video:${id}`, { expire: 0 })
+}
@@ -0,0 +1,19 @@
+/**
+ * Email Notifier
+ *
+ * Sends each alert as an email through the configured mail transport.
+ */
+
+import { sendMail } from '@/lib/mail'
+import { renderSavedSearchAlert } from '@/lib/mail/templates'
+import type { Notifier } from './types'
+
+export function createEmailNotifier(): Notifier {
+  return {
+    name: 'email',
+
+    async deliver(alert, search) {
+      await sendMail({ to: alert.email, ...renderSavedSearchAlert(alert, search) })
+    },
+  }
+}
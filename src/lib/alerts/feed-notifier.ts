@@ -0,0 +1,18 @@
+/**
+ * Feed Notifier
+ *
+ * Local stand-in that sends nothing: alerts are only shown in the in-app
+ * notification feed. Logs each delivery so development runs show activity.
+ */
+
+import type { Notifier } from './types'
+
+export function createFeedNotifier(): Notifier {
+  return {
+    name: 'feed',
+
+    async deliver(alert) {
+      console.info(`[alerts] ${alert.searchName}: ${alert.horseName} (${alert.kind}) for ${alert.email}`)
+    },
+  }
+}
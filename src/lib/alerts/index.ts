@@ -0,0 +1,42 @@
+/**
+ * Alerts
+ *
+ * Resolves the notifier used for saved-search alerts. Email is the default;
+ * set `ALERT_NOTIFIER=feed` to keep alerts in the in-app feed only, or
+ * register another channel (SMS, push) at startup with `setNotifier`.
+ */
+
+import type { Notifier, NotifierKind } from './types'
+import { createEmailNotifier } from './email-notifier'
+import { createFeedNotifier } from './feed-notifier'
+
+export type { Notifier, NotifierKind } from './types'
+
+// Cached on globalThis so dev-server hot reloads keep a single notifier
+const globalForAlerts = globalThis as unknown as {
+  mamNotifier?: Notifier
+}
+
+/**
+ * Get the configured notifier kind
+ */
+export function getNotifierKind(): NotifierKind {
+  return process.env.ALERT_NOTIFIER === 'feed' ? 'feed' : 'email'
+}
+
+/**
+ * Get the active notifier
+ */
+export function getNotifier(): Notifier {
+  if (!globalForAlerts.mamNotifier) {
+    globalForAlerts.mamNotifier = getNotifierKind() === 'feed' ? createFeedNotifier() : createEmailNotifier()
+  }
+  return globalForAlerts.mamNotifier
+}
+
+/**
+ * Replace the active notifier (e.g. with a push or SMS channel)
+ */
+export function setNotifier(notifier: Notifier): void {
+  globalForAlerts.mamNotifier = notifier
+}
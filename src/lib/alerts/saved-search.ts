@@ -0,0 +1,208 @@
+/**
+ * Saved Searches
+ *
+ * Named horse filter sets that buyers subscribe to. When a horse is listed
+ * or its price drops, every active search it matches queues an alert for
+ * delivery through the configured notifier.
+ */
+
+import type { FilterOptions, Horse } from '@/components/sections/horse-portfolio'
+import { createDefaultFilters, toHorseQuery } from '@/lib/horses/filter-params'
+import { matchesHorseQuery } from '@/lib/horses/horse-query'
+import { getAvailability } from '@/lib/horses/sale-class'
+import {
+  hasErrors,
+  isEmail,
+  readString,
+  type FieldErrors,
+  type ValidationResult,
+} from '@/lib/validation'
+
+/**
+ * Stored filter set with a subscriber
+ */
+export interface SavedSearch {
+  id: string
+  name: string
+  /** Where alerts are sent */
+  email: string
+  /** Owner, when saved while signed in */
+  userId?: string
+  filters: FilterOptions
+  /** Inactive searches are kept but no longer alert */
+  active: boolean
+  /** Secret for managing the search from an alert email without signing in */
+  token: string
+  /** ISO timestamp of creation */
+  createdAt: string
+  /** ISO timestamp of the last queued alert */
+  lastAlertAt?: string
+}
+
+/**
+ * Save-search submission
+ */
+export interface SavedSearchInput {
+  name: string
+  email: string
+  filters: FilterOptions
+}
+
+export type SavedSearchField = keyof SavedSearchInput
+
+/**
+ * Why a horse triggered alerts
+ */
+export type ListingChangeKind = 'new_listing' | 'price_reduced'
+
+/**
+ * A listing event evaluated against saved searches
+ */
+export interface ListingChange {
+  kind: ListingChangeKind
+  horse: Horse
+  /** Price before a reduction */
+  previousPrice?: number
+}
+
+/**
+ * Delivery state of a queued alert
+ */
+export type AlertStatus = 'queued' | 'sent' | 'failed'
+
+/**
+ * An alert queued for a saved search; doubles as an in-app notification
+ */
+export interface SearchAlert {
+  id: string
+  searchId: string
+  searchName: string
+  email: string
+  userId?: string
+  kind: ListingChangeKind
+  horseId: string
+  horseName: string
+  price: number
+  previousPrice?: number
+  status: AlertStatus
+  /** Delivery error from the last failed attempt */
+  error?: string
+  /** ISO timestamp of queueing */
+  createdAt: string
+  /** ISO timestamp of successful delivery */
+  sentAt?: string
+  /** ISO timestamp the user opened it in the notification feed */
+  readAt?: string
+}
+
+/**
+ * Most searches a single email address can hold
+ */
+export const MAX_SAVED_SEARCHES_PER_EMAIL = 10
+
+const MAX_NAME_LENGTH = 80
+
+function readStrings(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.map(readString).filter(Boolean)
+    : []
+}
+
+function readNumber(value: unknown, fallback: number): number {
+  const parsed = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(parsed) ? parsed : fallback
+}
+
+/**
+ * Read a filter set from untrusted input, falling back to the defaults per field
+ */
+export function readFilters(value: unknown): FilterOptions {
+  const defaults = createDefaultFilters()
+  const input = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>
+  const sortBy = input.sortBy as FilterOptions['sortBy']
+
+  return {
+    breed: readStrings(input.breed),
+    discipline: readStrings(input.discipline),
+    minAge: readNumber(input.minAge, defaults.minAge),
+    maxAge: readNumber(input.maxAge, defaults.maxAge),
+    minPrice: readNumber(input.minPrice, defaults.minPrice),
+    maxPrice: readNumber(input.maxPrice, defaults.maxPrice),
+    searchQuery: readString(input.searchQuery),
+    sortBy: ['name', 'price', 'age', 'recent', 'results'].includes(sortBy) ? sortBy : defaults.sortBy,
+  }
+}
+
+/**
+ * Validate untrusted save-search input
+ */
+export function validateSavedSearch(input: unknown): ValidationResult<SavedSearchInput, SavedSearchField> {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const errors: FieldErrors<SavedSearchField> = {}
+
+  const data: SavedSearchInput = {
+    name: readString(body.name),
+    email: readString(body.email).toLowerCase(),
+    filters: readFilters(body.filters),
+  }
+
+  if (!data.name) errors.name = 'Please name this search'
+  else if (data.name.length > MAX_NAME_LENGTH) errors.name = `Please keep the name under ${MAX_NAME_LENGTH} characters`
+
+  if (!data.email) errors.email = 'Please enter your email address'
+  else if (!isEmail(data.email)) errors.email = 'Please enter a valid email address'
+
+  if (data.filters.minAge > data.filters.maxAge || data.filters.minPrice > data.filters.maxPrice) {
+    errors.filters = 'The age or price range is empty'
+  }
+
+  return hasErrors(errors) ? { success: false, errors } : { success: true, data }
+}
+
+/**
+ * Classify an edit to a horse as an alertable listing change
+ *
+ * New listings and price drops on horses that are not sold qualify;
+ * anything else returns null.
+ */
+export function getListingChange(previous: Horse | null, next: Horse): ListingChange | null {
+  if (getAvailability(next) === 'sold') return null
+
+  if (!previous || getAvailability(previous) === 'sold') {
+    return { kind: 'new_listing', horse: next }
+  }
+
+  if (next.price < previous.price) {
+    return { kind: 'price_reduced', horse: next, previousPrice: previous.price }
+  }
+
+  return null
+}
+
+/**
+ * Whether a horse matches a saved search's filters
+ */
+export function matchesSavedSearch(horse: Horse, search: SavedSearch): boolean {
+  // Paging and sort fields in the query are ignored by the matcher
+  return matchesHorseQuery(horse, toHorseQuery({ filters: search.filters, page: 1 }))
+}
+
+/**
+ * One-line summary of a filter set, e.g. `Arabian • Dressage • $50,000–$150,000`
+ */
+export function describeFilters(filters: FilterOptions): string {
+  const defaults = createDefaultFilters()
+  const parts: string[] = []
+
+  if (filters.breed.length > 0) parts.push(filters.breed.join(', '))
+  if (filters.discipline.length > 0) parts.push(filters.discipline.join(', '))
+  if (filters.minAge !== defaults.minAge || filters.maxAge !== defaults.maxAge) {
+    parts.push(`${filters.minAge}–${filters.maxAge} years`)
+  }
+  if (filters.minPrice !== defaults.minPrice || filters.maxPrice !== defaults.maxPrice) {
+    parts.push(`$${filters.minPrice.toLocaleString()}–$${filters.maxPrice.toLocaleString()}`)
+  }
+  if (filters.searchQuery) parts.push(`“${filters.searchQuery}”`)
+
+  return parts.length > 0 ? parts.join(' • ') : 'All horses'
+}
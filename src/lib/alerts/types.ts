@@ -0,0 +1,24 @@
+/**
+ * Notifier Types
+ *
+ * Channel-agnostic alert delivery contract. The email notifier sends through
+ * the mail transport; the feed notifier stands in locally by leaving alerts
+ * in the in-app notification feed only.
+ */
+
+import type { SavedSearch, SearchAlert } from './saved-search'
+
+/**
+ * Delivers saved-search alerts
+ */
+export interface Notifier {
+  /** Identifier used in logs */
+  name: string
+  /** Deliver one alert; throw to mark it failed */
+  deliver(alert: SearchAlert, search: SavedSearch): Promise<void>
+}
+
+/**
+ * Configured notifier
+ */
+export type NotifierKind = 'email' | 'feed'
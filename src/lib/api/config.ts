@@ -0,0 +1,68 @@
+/**
+ * API Configuration
+ *
+ * Controls whether the client API objects resolve data in-process (mock mode)
+ * or over HTTP against the route handlers in `app/api` or a live backend.
+ */
+
+/**
+ * Data access mode
+ */
+export type ApiMode = 'mock' | 'http'
+
+/**
+ * API configuration values
+ */
+export interface ApiConfig {
+  /** Where the client API objects read data from */
+  mode: ApiMode
+  /** Base URL prepended to endpoint paths in HTTP mode */
+  baseUrl: string
+}
+
+function resolveMode(value: string | undefined): ApiMode {
+  return value === 'http' ? 'http' : 'mock'
+}
+
+function resolveBaseUrl(value: string | undefined): string {
+  if (value) return value.replace(/\/$/, '')
+
+  // Relative URLs only work in the browser; server-side fetches need an origin
+  if (typeof window === 'undefined') {
+    return `http://localhost:${process.env.PORT ?? 3000}`
+  }
+
+  return ''
+}
+
+const config: ApiConfig = {
+  mode: resolveMode(process.env.NEXT_PUBLIC_API_MODE),
+  baseUrl: resolveBaseUrl(process.env.NEXT_PUBLIC_API_BASE_URL),
+}
+
+/**
+ * Get the current API configuration
+ */
+export function getApiConfig(): Readonly<ApiConfig> {
+  return config
+}
+
+/**
+ * Override API configuration at runtime
+ *
+ * @example
+ * ```ts
+ * configureApi({ mode: 'http', baseUrl: 'https://api.mamcenter.com' })
+ * ```
+ */
+export function configureApi(overrides: Partial<ApiConfig>): void {
+  if (overrides.mode) config.mode = overrides.mode
+  if (overrides.baseUrl !== undefined) config.baseUrl = resolveBaseUrl(overrides.baseUrl)
+}
+
+/**
+ * Whether the client API objects should go over HTTP
+ */
+export function isHttpMode(): boolean {
+  return config.mode === 'http'
+}
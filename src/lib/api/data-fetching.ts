@@ -2,156 +2,191 @@
  * Data Fetching Utilities
  *
  * Centralized data fetching with caching, error handling, and TypeScript support.
- * Provides both mock data and real API integration patterns.
+ * Each API object resolves data in-process (mock mode) or through the
+ * `app/api` route handlers (HTTP mode), depending on `getApiConfig().mode`.
+ *
+ * Server-only, like the local data source it reads in mock mode. Client
+ * Components import from `./http-client`, whose APIs always go over HTTP.
  */
 
+import 'server-only'
+
 import type { Horse } from '@/components/sections/horse-portfolio'
 import type { HorseDetail } from '@/components/sections/horse-detail'
 import type { Product } from '@/components/sections/product-showcase'
 import type { Stallion, BreedingInfo } from '@/components/sections/breeding-program'
 import type { Article } from '@/components/sections/editorial-layouts'
+import type { PedigreeNode } from '@/lib/pedigree/pedigree'
+import type { CompetitionResult, CompetitionResultInput } from '@/lib/horses/results'
+import type { HealthRecord, HealthRecordInput, HorseHealth } from '@/lib/horses/health'
+import type { VideoEntry } from '@/lib/media/video'
+import { isHttpMode } from './config'
+import { breedingAPI as httpBreedingAPI, fetchFromAPI, toQueryString } from './http-client'
+import type {
+  ApiResponse,
+  PaginatedApiResponse,
+  HorseQueryParams,
+  ProductQueryParams,
+  StallionQueryParams,
+  ArticleQueryParams,
+  SearchResults,
+} from './types'
+
+export type {
+  ApiResponse,
+  PaginatedApiResponse,
+  HorseQueryParams,
+  HorseSortBy,
+  ProductQueryParams,
+  ProductSortBy,
+  StallionQueryParams,
+  StallionSortBy,
+  ArticleQueryParams,
+  ArticleSortBy,
+  SearchResults,
+} from './types'
+export type { PageParams, PaginationMeta, SortOrder, SortParams } from './pagination'
+export { configureApi, getApiConfig } from './config'
+export { adminAPI, authAPI, favoritesAPI, inquiryAPI, orderAPI, savedSearchAPI } from './http-client'
+export type { FetchOptions, InquirySubmission } from './http-client'
 
 /**
- * API response wrapper
+ * Load the in-process data source for mock mode
+ *
+ * Imported on first use, so HTTP mode never opens the database.
  */
-export interface ApiResponse<T> {
-  data: T | null
-  error?: string
-  status: number
-  cached?: boolean
+function loadLocalSource() {
+  return import('./local-source')
 }
 
 /**
- * Fetch options
+ * Horse Data API
  */
-export interface FetchOptions {
-  cache?: 'no-store' | 'force-cache' | 'default'
-  revalidate?: number
-  tags?: string[]
-}
+export const horseAPI = {
+  /**
+   * Get all horses with optional filtering
+   */
+  async getAll(params?: HorseQueryParams): Promise<PaginatedApiResponse<Horse>> {
+    if (isHttpMode()) {
+      return fetchFromAPI<Horse[]>(`/api/horses${toQueryString(params)}`, { tags: ['horses'] })
+    }
 
-/**
- * Generic fetch function with error handling
- */
-async function fetchFromAPI<T>(
-  endpoint: string,
-  options: FetchOptions = {}
-): Promise<ApiResponse<T>> {
-  try {
-    const response = await fetch(endpoint, {
-      cache: options.cache,
-      next: {
-        revalidate: options.revalidate,
-        tags: options.tags,
-      },
-    })
+    const { localHorses } = await loadLocalSource()
+    return localHorses.list(params)
+  },
 
-    if (!response.ok) {
-      return {
-        data: null,
-        error: `HTTP error! status: ${response.status}`,
-        status: response.status,
-      }
+  /**
+   * Get horse by ID with full details
+   */
+  async getById(id: string): Promise<ApiResponse<HorseDetail>> {
+    if (isHttpMode()) {
+      return fetchFromAPI<HorseDetail>(`/api/horses/${encodeURIComponent(id)}`, { tags: ['horses', `horse:${id}`] })
     }
 
-    const data = await response.json()
-    return {
-      data,
-      status: response.status,
-      cached: response.headers.get('x-cache') === 'HIT',
-    }
-  } catch (error) {
-    return {
-      data: null,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      status: 500,
+    const { localHorses } = await loadLocalSource()
+    return localHorses.getById(id)
+  },
+
+  /**
+   * Get a horse's pedigree with ancestors linked to our catalogue
+   */
+  async getPedigree(id: string, generations?: number): Promise<ApiResponse<PedigreeNode>> {
+    if (isHttpMode()) {
+      return fetchFromAPI<PedigreeNode>(
+        `/api/horses/${encodeURIComponent(id)}/pedigree${toQueryString({ generations })}`,
+        { tags: ['horses', `horse:${id}`] }
+      )
     }
-  }
-}
 
-/**
- * Horse Data API
- */
-export const horseAPI = {
+    const { localHorses } = await loadLocalSource()
+    return localHorses.getPedigree(id, generations)
+  },
+
   /**
-   * Get all horses with optional filtering
+   * Get a horse's or stallion's structured competition results, newest first
    */
-  async getAll(params?: {
-    breed?: string
-    discipline?: string
-    minAge?: number
-    maxAge?: number
-    minPrice?: number
-    maxPrice?: number
-    search?: string
-  }): Promise<ApiResponse<Horse[]>> {
-    // In production, this would fetch from your API
-    // const query = new URLSearchParams(params as any).toString()
-    // return fetchFromAPI<Horse[]>(`/api/horses?${query}`)
-
-    // For now, return mock data
-    const { getMockHorses } = await import('@/lib/data/mock-data')
-    let horses = getMockHorses()
-
-    // Apply filters
-    if (params) {
-      if (params.breed) {
-        horses = horses.filter(h => h.breed === params.breed)
-      }
-      if (params.discipline) {
-        horses = horses.filter(h => h.discipline.includes(params.discipline!))
-      }
-      if (params.minAge !== undefined) {
-        horses = horses.filter(h => h.age >= params.minAge!)
-      }
-      if (params.maxAge !== undefined) {
-        horses = horses.filter(h => h.age <= params.maxAge!)
-      }
-      if (params.minPrice !== undefined) {
-        horses = horses.filter(h => h.price >= params.minPrice!)
-      }
-      if (params.maxPrice !== undefined) {
-        horses = horses.filter(h => h.price <= params.maxPrice!)
-      }
-      if (params.search) {
-        const query = params.search.toLowerCase()
-        horses = horses.filter(h =>
-          h.name.toLowerCase().includes(query) ||
-          h.breed.toLowerCase().includes(query)
-        )
-      }
+  async getResults(id: string): Promise<ApiResponse<CompetitionResult[]>> {
+    if (isHttpMode()) {
+      return fetchFromAPI<CompetitionResult[]>(`/api/horses/${encodeURIComponent(id)}/results`, {
+        tags: ['horses', `horse:${id}`],
+      })
     }
 
-    return { data: horses, status: 200 }
+    const { localResults } = await loadLocalSource()
+    return localResults.list(id)
   },
 
   /**
-   * Get horse by ID with full details
+   * Record a competition result; staff only, 422 with field `errors` on invalid input
+   *
+   * Always goes through the route, which checks the session before writing.
    */
-  async getById(id: string): Promise<ApiResponse<HorseDetail>> {
-    // In production: return fetchFromAPI<HorseDetail>(`/api/horses/${id}`)
+  async addResult(id: string, input: CompetitionResultInput): Promise<ApiResponse<CompetitionResult>> {
+    return fetchFromAPI<CompetitionResult>(`/api/horses/${encodeURIComponent(id)}/results`, {
+      method: 'POST',
+      body: input,
+      cache: 'no-store',
+    })
+  },
 
-    const { getMockHorseDetail } = await import('@/lib/data/mock-data')
-    const horse = getMockHorseDetail(id)
+  /**
+   * Delete a competition result; staff only
+   */
+  async removeResult(id: string, resultId: string): Promise<ApiResponse<CompetitionResult>> {
+    return fetchFromAPI<CompetitionResult>(
+      `/api/horses/${encodeURIComponent(id)}/results/${encodeURIComponent(resultId)}`,
+      { method: 'DELETE', cache: 'no-store' }
+    )
+  },
 
-    if (!horse) {
-      return {
-        data: null,
-        error: 'Horse not found',
-        status: 404,
-      }
+  /**
+   * Get a horse's or stallion's health records
+   *
+   * Over HTTP the server decides from the session whether staff-only records
+   * and private notes are included; the local source always answers as a buyer.
+   */
+  async getHealth(id: string): Promise<ApiResponse<HorseHealth>> {
+    if (isHttpMode()) {
+      return fetchFromAPI<HorseHealth>(`/api/horses/${encodeURIComponent(id)}/health`, {
+        cache: 'no-store',
+      })
     }
 
-    return { data: horse, status: 200 }
+    const { localHealth } = await loadLocalSource()
+    return localHealth.get(id, 'buyer')
+  },
+
+  /**
+   * Record a vet visit, treatment or test; staff only, 422 with field `errors` on invalid input
+   *
+   * Always goes through the route, which checks the session before writing.
+   */
+  async addHealthRecord(id: string, input: HealthRecordInput): Promise<ApiResponse<HealthRecord>> {
+    return fetchFromAPI<HealthRecord>(`/api/horses/${encodeURIComponent(id)}/health`, {
+      method: 'POST',
+      body: input,
+      cache: 'no-store',
+    })
+  },
+
+  /**
+   * Delete a health record; staff only
+   */
+  async removeHealthRecord(id: string, recordId: string): Promise<ApiResponse<HealthRecord>> {
+    return fetchFromAPI<HealthRecord>(
+      `/api/horses/${encodeURIComponent(id)}/health/${encodeURIComponent(recordId)}`,
+      { method: 'DELETE', cache: 'no-store' }
+    )
   },
 
   /**
    * Get related horses
    */
   async getRelated(id: string, limit = 4): Promise<ApiResponse<Omit<HorseDetail, 'description' | 'pedigree'>[]>> {
-    const { getMockHorses } = await import('@/lib/data/mock-data')
-    const horses = getMockHorses()
-    const related = horses
+    const result = await this.getAll()
+    if (!result.data) return { data: null, error: result.error, status: result.status }
+
+    const related = result.data
       .filter(h => h.id !== id)
       .slice(0, limit)
       .map(h => ({
@@ -166,10 +201,10 @@ export const horseAPI = {
    * Get available breeds
    */
   async getBreeds(): Promise<ApiResponse<string[]>> {
-    const { getMockHorses } = await import('@/lib/data/mock-data')
-    const horses = getMockHorses()
-    const breeds = Array.from(new Set(horses.map(h => h.breed)))
+    const result = await this.getAll()
+    if (!result.data) return { data: null, error: result.error, status: result.status }
 
+    const breeds = Array.from(new Set(result.data.map(h => h.breed)))
     return { data: breeds, status: 200 }
   },
 
@@ -177,10 +212,10 @@ export const horseAPI = {
    * Get available disciplines
    */
   async getDisciplines(): Promise<ApiResponse<string[]>> {
-    const { getMockHorses } = await import('@/lib/data/mock-data')
-    const horses = getMockHorses()
-    const disciplines = Array.from(new Set(horses.flatMap(h => h.discipline)))
+    const result = await this.getAll()
+    if (!result.data) return { data: null, error: result.error, status: result.status }
 
+    const disciplines = Array.from(new Set(result.data.flatMap(h => h.discipline)))
     return { data: disciplines, status: 200 }
   },
 }
@@ -192,111 +227,102 @@ export const productAPI = {
   /**
    * Get all products with optional filtering
    */
-  async getAll(params?: {
-    category?: Product['category'] | 'all'
-    featured?: boolean
-    inStock?: boolean
-  }): Promise<ApiResponse<Product[]>> {
-    const { getMockProducts } = await import('@/lib/data/mock-data')
-    let products = getMockProducts()
-
-    if (params) {
-      if (params.category && params.category !== 'all') {
-        products = products.filter(p => p.category === params.category)
-      }
-      if (params.featured !== undefined) {
-        products = products.filter(p => p.featured === params.featured)
-      }
-      if (params.inStock !== undefined) {
-        products = products.filter(p => p.inStock === params.inStock)
-      }
+  async getAll(params?: ProductQueryParams): Promise<PaginatedApiResponse<Product>> {
+    if (isHttpMode()) {
+      return fetchFromAPI<Product[]>(`/api/products${toQueryString(params)}`, { tags: ['products'] })
     }
 
-    return { data: products, status: 200 }
+    const { localProducts } = await loadLocalSource()
+    return localProducts.list(params)
   },
 
   /**
    * Get product by ID
    */
   async getById(id: string): Promise<ApiResponse<Product>> {
-    const { getMockProducts } = await import('@/lib/data/mock-data')
-    const product = getMockProducts().find(p => p.id === id)
-
-    if (!product) {
-      return {
-        data: null,
-        error: 'Product not found',
-        status: 404,
-      }
+    if (isHttpMode()) {
+      return fetchFromAPI<Product>(`/api/products/${encodeURIComponent(id)}`, { tags: ['products', `product:${id}`] })
     }
 
-    return { data: product, status: 200 }
+    const { localProducts } = await loadLocalSource()
+    return localProducts.getById(id)
   },
 
   /**
    * Get featured products
    */
-  async getFeatured(limit = 6): Promise<ApiResponse<Product[]>> {
-    const { getMockProducts } = await import('@/lib/data/mock-data')
-    const products = getMockProducts()
-      .filter(p => p.featured)
-      .slice(0, limit)
-
-    return { data: products, status: 200 }
+  async getFeatured(limit = 6): Promise<PaginatedApiResponse<Product>> {
+    return this.getAll({ featured: true, pageSize: limit })
   },
 
   /**
    * Get products by category
    */
-  async getByCategory(category: Product['category']): Promise<ApiResponse<Product[]>> {
+  async getByCategory(category: Product['category']): Promise<PaginatedApiResponse<Product>> {
     return this.getAll({ category })
   },
 }
 
 /**
  * Breeding Program API
+ *
+ * Stallion reads, plus the booking and breeding tools from `http-client`
  */
 export const breedingAPI = {
+  ...httpBreedingAPI,
+
   /**
    * Get all stallions
    */
-  async getStallions(params?: {
-    bookingStatus?: Stallion['bookingStatus']
-  }): Promise<ApiResponse<Stallion[]>> {
-    const { getMockStallions } = await import('@/lib/data/mock-data')
-    let stallions = getMockStallions()
-
-    if (params?.bookingStatus) {
-      stallions = stallions.filter(s => s.bookingStatus === params.bookingStatus)
+  async getStallions(params?: StallionQueryParams): Promise<PaginatedApiResponse<Stallion>> {
+    if (isHttpMode()) {
+      return fetchFromAPI<Stallion[]>(`/api/stallions${toQueryString(params)}`, { tags: ['stallions'] })
     }
 
-    return { data: stallions, status: 200 }
+    const { localBreeding } = await loadLocalSource()
+    return localBreeding.listStallions(params)
   },
 
   /**
    * Get breeding program info
    */
   async getProgramInfo(): Promise<ApiResponse<BreedingInfo>> {
-    const { getMockBreedingInfo } = await import('@/lib/data/mock-data')
-    return { data: getMockBreedingInfo(), status: 200 }
+    if (isHttpMode()) {
+      return fetchFromAPI<BreedingInfo>('/api/breeding-program', { tags: ['breeding-program'] })
+    }
+
+    const { localBreeding } = await loadLocalSource()
+    return localBreeding.getProgramInfo()
   },
 
   /**
    * Get stallion by ID
    */
-  async getStallionById(id: string): Promise<ApiResponse<Stallion>> {
-    const { getMockStallions } = await import('@/lib/data/mock-data')
-    const stallion = getMockStallions().find(s => s.id === id)
-
-    if (!stallion) {
-      return {
-        data: null,
-        error: 'Stallion not found',
-        status: 404,
-      }
+  async getStallionById(id: string, season?: number): Promise<ApiResponse<Stallion>> {
+    if (isHttpMode()) {
+      return fetchFromAPI<Stallion>(
+        `/api/stallions/${encodeURIComponent(id)}${toQueryString({ season })}`,
+        { tags: ['stallions', `stallion:${id}`] }
+      )
     }
 
-    return { data: stallion, status: 200 }
+    const { localBreeding } = await loadLocalSource()
+    return localBreeding.getStallionById(id, season)
+  },
+
+  /**
+   * Get a stallion's pedigree with ancestors linked to our catalogue
+   */
+  async getPedigree(id: string, generations?: number): Promise<ApiResponse<PedigreeNode>> {
+    if (isHttpMode()) {
+      return fetchFromAPI<PedigreeNode>(
+        `/api/stallions/${encodeURIComponent(id)}/pedigree${toQueryString({ generations })}`,
+        { tags: ['stallions', `stallion:${id}`] }
+      )
+    }
+
+    const { localBreeding } = await loadLocalSource()
+    return localBreeding.getPedigree(id, generations)
   },
 }
 
@@ -307,58 +333,38 @@ export const editorialAPI = {
   /**
    * Get all articles
    */
-  async getAll(params?: {
-    category?: string
-    featured?: boolean
-    limit?: number
-  }): Promise<ApiResponse<Article[]>> {
-    const { getMockArticles } = await import('@/lib/data/mock-data')
-    let articles = getMockArticles()
-
-    if (params) {
-      if (params.category) {
-        articles = articles.filter(a => a.category === params.category)
-      }
-      if (params.featured !== undefined) {
-        articles = articles.filter(a => a.featured === params.featured)
-      }
-      if (params.limit) {
-        articles = articles.slice(0, params.limit)
-      }
+  async getAll(params?: ArticleQueryParams): Promise<PaginatedApiResponse<Article>> {
+    if (isHttpMode()) {
+      return fetchFromAPI<Article[]>(`/api/articles${toQueryString(params)}`, { tags: ['articles'] })
     }
 
-    return { data: articles, status: 200 }
+    const { localArticles } = await loadLocalSource()
+    return localArticles.list(params)
   },
 
   /**
    * Get article by ID
    */
   async getById(id: string): Promise<ApiResponse<Article>> {
-    const { getMockArticles } = await import('@/lib/data/mock-data')
-    const article = getMockArticles().find(a => a.id === id)
-
-    if (!article) {
-      return {
-        data: null,
-        error: 'Article not found',
-        status: 404,
-      }
+    if (isHttpMode()) {
+      return fetchFromAPI<Article>(`/api/articles/${encodeURIComponent(id)}`, { tags: ['articles', `article:${id}`] })
     }
 
-    return { data: article, status: 200 }
+    const { localArticles } = await loadLocalSource()
+    return localArticles.getById(id)
   },
 
   /**
    * Get featured articles
    */
-  async getFeatured(limit = 3): Promise<ApiResponse<Article[]>> {
+  async getFeatured(limit = 3): Promise<PaginatedApiResponse<Article>> {
     return this.getAll({ featured: true, limit })
   },
 
   /**
    * Get articles by category
    */
-  async getByCategory(category: string, limit = 6): Promise<ApiResponse<Article[]>> {
+  async getByCategory(category: string, limit = 6): Promise<PaginatedApiResponse<Article>> {
     return this.getAll({ category, limit })
   },
 }
@@ -370,37 +376,30 @@ export const searchAPI = {
   /**
    * Global search across all content types
    */
-  async search(query: string): Promise<ApiResponse<{
-    horses: Horse[]
-    products: Product[]
-    articles: Article[]
-  }>> {
-    const q = query.toLowerCase()
-
-    const [horsesResult, productsResult, articlesResult] = await Promise.all([
-      horseAPI.getAll({ search: query }),
-      productAPI.getAll(),
-      editorialAPI.getAll(),
-    ])
-
-    const filteredProducts = productsResult.data?.filter(p =>
-      p.name.toLowerCase().includes(q) ||
-      p.description.toLowerCase().includes(q)
-    ) || []
-
-    const filteredArticles = articlesResult.data?.filter(a =>
-      a.title.toLowerCase().includes(q) ||
-      a.excerpt?.toLowerCase().includes(q)
-    ) || []
-
-    return {
-      data: {
-        horses: horsesResult.data || [],
-        products: filteredProducts,
-        articles: filteredArticles,
-      },
-      status: 200,
+  async search(query: string): Promise<ApiResponse<SearchResults>> {
+    if (isHttpMode()) {
+      return fetchFromAPI<SearchResults>(`/api/search${toQueryString({ q: query })}`, { cache: 'no-store' })
+    }
+
+    const { localSearch } = await loadLocalSource()
+    return localSearch(query)
+  },
+}
+
+/**
+ * Video API
+ */
+export const videoAPI = {
+  /**
+   * A library video's renditions, tracks and poster
+   */
+  async getById(id: string): Promise<ApiResponse<VideoEntry>> {
+    if (isHttpMode()) {
+      return fetchFromAPI<VideoEntry>(`/api/videos/${encodeURIComponent(id)}`, { tags: ['videos', `video:${id}`] })
     }
+
+    const { localVideos } = await loadLocalSource()
+    return localVideos.getById(id)
   },
 }
 
@@ -0,0 +1,518 @@
+/**
+ * HTTP API Client
+ *
+ * The fetch wrapper and the API objects that always go through the `app/api`
+ * route handlers: writes, sessions and the breeding tools. It never touches
+ * the server-only local data source, so Client Components import from here;
+ * `data-fetching` re-exports it alongside the server-side reads.
+ */
+
+import type { BookingRequestInput, BookingState, SeasonAvailability, StudBooking } from '@/lib/breeding/booking'
+import type { InquiryInput, Lead, LeadStatus } from '@/lib/inquiries/lead'
+import type { Order, OrderRequest } from '@/lib/shop/order'
+import type { Favorite } from '@/lib/favorites/favorites'
+import type { SavedSearch, SavedSearchInput } from '@/lib/alerts/saved-search'
+import type { TestMatingInput, TestMatingResult } from '@/lib/pedigree/test-mating'
+import type { PedigreeImportInput, PedigreeImportPreview } from '@/lib/pedigree/formats'
+import type { CoatColorPrediction, CoatColorPredictionInput } from '@/lib/breeding/coat-color'
+import type { FoalingPlan, FoalingPlanInput } from '@/lib/breeding/foaling'
+import type { AdminEntity, AdminListItem } from '@/lib/admin/content'
+import type { AdminFormValues, AdminRecord } from '@/lib/admin/forms'
+import type { SessionUser, SignInResult, UserRole } from '@/lib/auth/users'
+import type { MediaAsset, MediaChanges } from '@/lib/media/media'
+import type { MediaVideo, VideoCodec, VideoRendition, VideoTrack, VideoTrackKind } from '@/lib/media/video'
+import { getApiConfig } from './config'
+import type { ApiResponse } from './types'
+
+/**
+ * Fetch options
+ */
+export interface FetchOptions {
+  cache?: 'no-store' | 'force-cache' | 'default'
+  revalidate?: number
+  tags?: string[]
+  /** HTTP method; defaults to GET */
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+  /** JSON request body, or FormData sent as multipart */
+  body?: unknown
+}
+
+/**
+ * Serialize query params, skipping empty values and repeating array keys
+ */
+export function toQueryString(params?: object): string {
+  if (!params) return ''
+
+  const query = new URLSearchParams()
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return
+    if (Array.isArray(value)) {
+      value.forEach((item) => query.append(key, String(item)))
+      return
+    }
+    query.set(key, String(value))
+  })
+
+  const serialized = query.toString()
+  return serialized ? `?${serialized}` : ''
+}
+
+/**
+ * Generic fetch function with error handling
+ */
+export async function fetchFromAPI<T>(
+  endpoint: string,
+  options: FetchOptions = {}
+): Promise<ApiResponse<T>> {
+  // The browser sets the multipart boundary itself
+  const isForm = typeof FormData !== 'undefined' && options.body instanceof FormData
+
+  try {
+    const response = await fetch(`${getApiConfig().baseUrl}${endpoint}`, {
+      method: options.method,
+      headers: options.body !== undefined && !isForm ? { 'Content-Type': 'application/json' } : undefined,
+      body: isForm ? (options.body as FormData) : options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      cache: options.cache,
+      next: {
+        revalidate: options.revalidate,
+        tags: options.tags,
+      },
+    })
+
+    // Route handlers always answer with an ApiResponse envelope
+    const body = (await response.json().catch(() => null)) as ApiResponse<T> | null
+
+    if (!response.ok) {
+      return {
+        data: null,
+        error: body?.error || `HTTP error! status: ${response.status}`,
+        errors: body?.errors,
+        status: response.status,
+      }
+    }
+
+    return {
+      ...body,
+      data: body?.data ?? null,
+      status: response.status,
+      cached: response.headers.get('x-cache') === 'HIT',
+    }
+  } catch (error) {
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      status: 500,
+    }
+  }
+}
+
+/**
+ * Order API
+ */
+export const orderAPI = {
+  /**
+   * Place an order; 422 with field `errors` on invalid input, 409 when out of stock, 402 when payment fails
+   *
+   * Always goes through `/api/orders`: prices, stock and payment are checked
+   * on the server, never in the shopper's browser.
+   */
+  async create(request: OrderRequest): Promise<ApiResponse<Order>> {
+    return fetchFromAPI<Order>('/api/orders', { method: 'POST', body: request, cache: 'no-store' })
+  },
+}
+
+/**
+ * Shortlist API
+ *
+ * Always goes through `/api/favorites`: the stored shortlist belongs to the
+ * signed-in session, which only the route handlers can read. Anonymous
+ * callers get a 401 and should keep using their browser copy.
+ */
+export const favoritesAPI = {
+  async get(): Promise<ApiResponse<Favorite[]>> {
+    return fetchFromAPI<Favorite[]>('/api/favorites', { cache: 'no-store' })
+  },
+
+  /**
+   * Merge favorites saved while signed out into the stored shortlist
+   */
+  async merge(favorites: Favorite[]): Promise<ApiResponse<Favorite[]>> {
+    return fetchFromAPI<Favorite[]>('/api/favorites', { method: 'POST', body: favorites, cache: 'no-store' })
+  },
+
+  async replace(favorites: Favorite[]): Promise<ApiResponse<Favorite[]>> {
+    return fetchFromAPI<Favorite[]>('/api/favorites', { method: 'PUT', body: favorites, cache: 'no-store' })
+  },
+}
+
+/**
+ * Breeding API
+ *
+ * Booking requests and the breeding tools, answered by the route handlers.
+ * `data-fetching` extends it with the stallion reads for server components.
+ */
+export const breedingAPI = {
+  /**
+   * Get a stallion's capacity and remaining places per season
+   *
+   * Always asks the server: places depend on bookings stored there.
+   */
+  async getAvailability(id: string): Promise<ApiResponse<SeasonAvailability[]>> {
+    return fetchFromAPI<SeasonAvailability[]>(`/api/stallions/${encodeURIComponent(id)}/availability`, { cache: 'no-store' })
+  },
+
+  /**
+   * Preview the foal of a stallion and mare; 422 with field `errors` on invalid input
+   */
+  async testMating(input: TestMatingInput): Promise<ApiResponse<TestMatingResult>> {
+    return fetchFromAPI<TestMatingResult>('/api/test-matings', { method: 'POST', body: input, cache: 'no-store' })
+  },
+
+  /**
+   * Chance of each foal coat color; 422 with field `errors` on invalid input
+   */
+  async predictCoatColors(input: CoatColorPredictionInput): Promise<ApiResponse<CoatColorPrediction>> {
+    return fetchFromAPI<CoatColorPrediction>('/api/color-predictions', { method: 'POST', body: input, cache: 'no-store' })
+  },
+
+  /**
+   * Dated breeding and foaling plan for a stallion; 422 with field `errors` on invalid input
+   */
+  async planFoaling(input: FoalingPlanInput): Promise<ApiResponse<FoalingPlan>> {
+    return fetchFromAPI<FoalingPlan>(`/api/foaling-plans${toQueryString(input)}`, { cache: 'no-store' })
+  },
+
+  /**
+   * Parse and validate a pedigree file without saving it; 422 lists problems by line in `errors.content`
+   */
+  async previewPedigreeImport(input: PedigreeImportInput): Promise<ApiResponse<PedigreeImportPreview>> {
+    return fetchFromAPI<PedigreeImportPreview>('/api/pedigrees/import', { method: 'POST', body: input, cache: 'no-store' })
+  },
+
+  /**
+   * Request a stud booking; 422 with field `errors` on invalid input, 409 when fully booked
+   *
+   * Always goes through `/api/bookings`, which checks capacity against stored
+   * bookings, rate limits and sends the acknowledgement email.
+   */
+  async requestBooking(input: BookingRequestInput): Promise<ApiResponse<StudBooking>> {
+    return fetchFromAPI<StudBooking>('/api/bookings', { method: 'POST', body: input, cache: 'no-store' })
+  },
+}
+
+/**
+ * Inquiry submission
+ */
+export type InquirySubmission = InquiryInput & {
+  /** Honeypot field; left empty by people, filled in by bots */
+  website?: string
+}
+
+/**
+ * Inquiry API
+ *
+ * Always goes through `/api/inquiries`: leads are stored, rate limited and
+ * acknowledged by email on the server, never in the visitor's browser.
+ */
+export const inquiryAPI = {
+  /**
+   * Submit an inquiry; validation failures come back as 422 with field `errors`
+   */
+  async submit(input: InquirySubmission): Promise<ApiResponse<Lead>> {
+    return fetchFromAPI<Lead>('/api/inquiries', { method: 'POST', body: input, cache: 'no-store' })
+  },
+}
+
+/**
+ * Saved Search API
+ */
+export const savedSearchAPI = {
+  /**
+   * Save filters for alerts; 422 with field `errors` on invalid input, 409 when the address has too many
+   *
+   * Always goes through `/api/saved-searches`: searches are stored on the
+   * server, tied to the session and rate limited, so the alert job sees them.
+   */
+  async create(input: SavedSearchInput): Promise<ApiResponse<SavedSearch>> {
+    return fetchFromAPI<SavedSearch>('/api/saved-searches', { method: 'POST', body: input, cache: 'no-store' })
+  },
+}
+
+/**
+ * Back Office API
+ *
+ * Always goes through `/api/admin`: only the route handlers can check the
+ * session and revalidate the public pages after a save.
+ */
+export const adminAPI = {
+  async list(entity: AdminEntity): Promise<ApiResponse<AdminListItem[]>> {
+    return fetchFromAPI<AdminListItem[]>(`/api/admin/${entity}`, { cache: 'no-store' })
+  },
+
+  async get(entity: AdminEntity, id: string): Promise<ApiResponse<AdminRecord>> {
+    return fetchFromAPI<AdminRecord>(`/api/admin/${entity}/${encodeURIComponent(id)}`, { cache: 'no-store' })
+  },
+
+  /**
+   * Add a record; 422 with field `errors` on invalid input
+   */
+  async create(entity: AdminEntity, values: AdminFormValues): Promise<ApiResponse<AdminRecord>> {
+    return fetchFromAPI<AdminRecord>(`/api/admin/${entity}`, { method: 'POST', body: values, cache: 'no-store' })
+  },
+
+  /**
+   * Save a record; 422 with field `errors` on invalid input
+   */
+  async update(entity: AdminEntity, id: string, values: AdminFormValues): Promise<ApiResponse<AdminRecord>> {
+    return fetchFromAPI<AdminRecord>(`/api/admin/${entity}/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: values,
+      cache: 'no-store',
+    })
+  },
+
+  /**
+   * Hide a record from the public site
+   */
+  async archive(entity: AdminEntity, id: string): Promise<ApiResponse<AdminRecord>> {
+    return fetchFromAPI<AdminRecord>(`/api/admin/${entity}/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      cache: 'no-store',
+    })
+  },
+
+  /**
+   * Set the display order; `ids` must list every record in the collection
+   */
+  async reorder(entity: AdminEntity, ids: string[]): Promise<ApiResponse<AdminListItem[]>> {
+    return fetchFromAPI<AdminListItem[]>(`/api/admin/${entity}/order`, {
+      method: 'PUT',
+      body: { ids },
+      cache: 'no-store',
+    })
+  },
+
+  /**
+   * Every uploaded image, newest first
+   */
+  async listMedia(): Promise<ApiResponse<MediaAsset[]>> {
+    return fetchFromAPI<MediaAsset[]>('/api/admin/media', { cache: 'no-store' })
+  },
+
+  /**
+   * Upload an image; 422 with field `errors` when it isn't a supported image
+   */
+  async uploadMedia(file: File, alt?: string): Promise<ApiResponse<MediaAsset>> {
+    const body = new FormData()
+    body.append('file', file)
+    if (alt) body.append('alt', alt)
+    return fetchFromAPI<MediaAsset>('/api/admin/media', { method: 'POST', body, cache: 'no-store' })
+  },
+
+  /**
+   * Edit an image's alt text
+   */
+  async updateMedia(id: string, changes: MediaChanges): Promise<ApiResponse<MediaAsset>> {
+    return fetchFromAPI<MediaAsset>(`/api/admin/media/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: changes,
+      cache: 'no-store',
+    })
+  },
+
+  /**
+   * Delete an image; 409 while a record still shows it
+   */
+  async deleteMedia(id: string): Promise<ApiResponse<MediaAsset>> {
+    return fetchFromAPI<MediaAsset>(`/api/admin/media/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      cache: 'no-store',
+    })
+  },
+
+  /**
+   * Every library video, newest first
+   */
+  async listVideos(): Promise<ApiResponse<MediaVideo[]>> {
+    return fetchFromAPI<MediaVideo[]>('/api/admin/media/videos', { cache: 'no-store' })
+  },
+
+  /**
+   * Add a video; upload its renditions and tracks next
+   */
+  async createVideo(input: { title: string; posterId?: string }): Promise<ApiResponse<MediaVideo>> {
+    return fetchFromAPI<MediaVideo>('/api/admin/media/videos', { method: 'POST', body: input, cache: 'no-store' })
+  },
+
+  /**
+   * Change a video's title and poster
+   */
+  async updateVideo(id: string, input: { title: string; posterId?: string }): Promise<ApiResponse<MediaVideo>> {
+    return fetchFromAPI<MediaVideo>(`/api/admin/media/videos/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: input,
+      cache: 'no-store',
+    })
+  },
+
+  /**
+   * Upload a pre-encoded rendition; 409 when the video already has that size and codec
+   */
+  async uploadVideoRendition(
+    id: string,
+    file: File,
+    details: { codec: VideoCodec; width: number; height: number }
+  ): Promise<ApiResponse<VideoRendition>> {
+    const body = new FormData()
+    body.append('file', file)
+    body.append('codec', details.codec)
+    body.append('width', String(details.width))
+    body.append('height', String(details.height))
+    return fetchFromAPI<VideoRendition>(`/api/admin/media/videos/${encodeURIComponent(id)}/renditions`, {
+      method: 'POST',
+      body,
+      cache: 'no-store',
+    })
+  },
+
+  /**
+   * Upload a WebVTT track; 409 when the video already has that kind in that language
+   */
+  async uploadVideoTrack(
+    id: string,
+    file: File,
+    details: { kind: VideoTrackKind; label: string; srcLang: string }
+  ): Promise<ApiResponse<VideoTrack>> {
+    const body = new FormData()
+    body.append('file', file)
+    body.append('kind', details.kind)
+    body.append('label', details.label)
+    body.append('srcLang', details.srcLang)
+    return fetchFromAPI<VideoTrack>(`/api/admin/media/videos/${encodeURIComponent(id)}/tracks`, {
+      method: 'POST',
+      body,
+      cache: 'no-store',
+    })
+  },
+
+  /**
+   * Remove one rendition or track
+   */
+  async deleteVideoFile(id: string, fileId: string): Promise<ApiResponse<MediaVideo>> {
+    return fetchFromAPI<MediaVideo>(
+      `/api/admin/media/videos/${encodeURIComponent(id)}/files/${encodeURIComponent(fileId)}`,
+      { method: 'DELETE', cache: 'no-store' }
+    )
+  },
+
+  /**
+   * Delete a video and its files; the poster stays in the library
+   */
+  async deleteVideo(id: string): Promise<ApiResponse<MediaVideo>> {
+    return fetchFromAPI<MediaVideo>(`/api/admin/media/videos/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      cache: 'no-store',
+    })
+  },
+
+  /**
+   * Move a lead through the pipeline; staff only
+   */
+  async setLeadStatus(id: string, status: LeadStatus): Promise<ApiResponse<Lead>> {
+    return fetchFromAPI<Lead>(`/api/admin/leads/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      body: { status },
+      cache: 'no-store',
+    })
+  },
+
+  /**
+   * Move a stud booking to its next state; staff only, 409 when the move
+   * isn't allowed or the season is full
+   */
+  async transitionBooking(id: string, status: BookingState): Promise<ApiResponse<StudBooking>> {
+    return fetchFromAPI<StudBooking>(`/api/bookings/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      body: { status },
+      cache: 'no-store',
+    })
+  },
+
+  async listUsers(): Promise<ApiResponse<SessionUser[]>> {
+    return fetchFromAPI<SessionUser[]>('/api/admin/users', { cache: 'no-store' })
+  },
+
+  /**
+   * Change someone else's role; admins only
+   */
+  async setUserRole(id: string, role: UserRole): Promise<ApiResponse<SessionUser>> {
+    return fetchFromAPI<SessionUser>(`/api/admin/users/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: { role },
+      cache: 'no-store',
+    })
+  },
+}
+
+/**
+ * Auth API
+ *
+ * Always goes through `/api/auth`: the session lives in an httpOnly cookie
+ * that only the route handlers can set or read.
+ */
+export const authAPI = {
+  /**
+   * The signed-in user; `data` is null for anonymous visitors
+   */
+  async getSession(): Promise<ApiResponse<SessionUser>> {
+    return fetchFromAPI<SessionUser>('/api/auth/session', { cache: 'no-store' })
+  },
+
+  /**
+   * Email a sign-in link; 422 with field `errors` on invalid input
+   */
+  async requestMagicLink(email: string, next?: string): Promise<ApiResponse<{ email: string }>> {
+    return fetchFromAPI<{ email: string }>('/api/auth/magic-link', {
+      method: 'POST',
+      body: { email, next },
+      cache: 'no-store',
+    })
+  },
+
+  /**
+   * Sign in with the token from a magic link; 410 once it has expired or been used
+   */
+  async verifyMagicLink(token: string): Promise<ApiResponse<SignInResult>> {
+    return fetchFromAPI<SignInResult>('/api/auth/magic-link/verify', {
+      method: 'POST',
+      body: { token },
+      cache: 'no-store',
+    })
+  },
+
+  /**
+   * Sign in with a password; 401 when the email or password is wrong
+   */
+  async signIn(email: string, password: string, next?: string): Promise<ApiResponse<SignInResult>> {
+    return fetchFromAPI<SignInResult>('/api/auth/sign-in', {
+      method: 'POST',
+      body: { email, password, next },
+      cache: 'no-store',
+    })
+  },
+
+  async signOut(): Promise<ApiResponse<{ signedOut: true }>> {
+    return fetchFromAPI<{ signedOut: true }>('/api/auth/sign-out', { method: 'POST', cache: 'no-store' })
+  },
+
+  /**
+   * Set or change the password; `currentPassword` is needed once one is set
+   */
+  async changePassword(password: string, currentPassword?: string): Promise<ApiResponse<SessionUser>> {
+    return fetchFromAPI<SessionUser>('/api/auth/password', {
+      method: 'PUT',
+      body: { password, currentPassword },
+      cache: 'no-store',
+    })
+  },
+}
@@ -0,0 +1,2409 @@
+/**
+ * Local Data Source
+ *
+ * In-process implementation of every API query, reading from the configured
+ * persistence store. Used by the client API objects in mock mode on the
+ * server and by the `app/api` route handlers, so both paths apply the same
+ * filtering rules. Server-only: it holds the repositories and mailer.
+ */
+
+import 'server-only'
+
+import type { Horse } from '@/components/sections/horse-portfolio'
+import type { HorseDetail } from '@/components/sections/horse-detail'
+import type { Product } from '@/components/sections/product-showcase'
+import type { Stallion, BreedingInfo } from '@/components/sections/breeding-program'
+import type { Article } from '@/components/sections/editorial-layouts'
+import type {
+  ApiResponse,
+  PaginatedApiResponse,
+  HorseQueryParams,
+  HorseSortBy,
+  ProductQueryParams,
+  ProductSortBy,
+  StallionQueryParams,
+  StallionSortBy,
+  ArticleQueryParams,
+  ArticleSortBy,
+  SearchResults,
+} from './types'
+import { getRepositories, type Repository } from '@/lib/db'
+import {
+  getAdminEntity,
+  isPublished,
+  type AdminEntity,
+  type AdminListItem,
+  type ContentStatus,
+} from '@/lib/admin/content'
+import {
+  ADMIN_FIELDS,
+  HORSE_DETAIL_FIELDS,
+  toFormValues,
+  validateAdminForm,
+  type AdminFormValues,
+  type AdminRecord,
+} from '@/lib/admin/forms'
+import { formatDate } from '@/lib/utils'
+import { getHorseAge } from '@/lib/horses/sale-class'
+import { matchesHorseQuery } from '@/lib/horses/horse-query'
+import {
+  compareResults,
+  getBestResult,
+  getOffspringStatistics,
+  sortByDate,
+  validateCompetitionResult,
+  type CompetitionResult,
+} from '@/lib/horses/results'
+import {
+  getHorseHealth,
+  validateHealthRecord,
+  type HealthAudience,
+  type HealthRecord,
+  type HorseHealth,
+} from '@/lib/horses/health'
+import {
+  canTransition,
+  getBookingSeason,
+  getSeasonAvailability,
+  isBookingState,
+  validateBookingRequest,
+  type BookingState,
+  type SeasonAvailability,
+  type StudBooking,
+} from '@/lib/breeding/booking'
+import { formatPrice, getCartTotals, DEFAULT_CURRENCY } from '@/lib/shop/cart'
+import { createOrderNumber, validateOrderRequest, type Order, type OrderLine } from '@/lib/shop/order'
+import { getPaymentProvider } from '@/lib/payments'
+import { HONEYPOT_FIELD, isLeadStatus, validateInquiry, type Lead, type LeadStatus } from '@/lib/inquiries/lead'
+import { mergeFavorites, readFavorites, type Favorite } from '@/lib/favorites/favorites'
+import {
+  clampGenerations,
+  linkPedigree,
+  MAX_PEDIGREE_GENERATIONS,
+  trimPedigree,
+  type PedigreeLink,
+  type PedigreeNode,
+} from '@/lib/pedigree/pedigree'
+import { analyzeInbreeding } from '@/lib/pedigree/inbreeding'
+import {
+  buildFoalPedigree,
+  getLineAchievements,
+  toMarePedigree,
+  validateTestMating,
+  type TestMatingResult,
+} from '@/lib/pedigree/test-mating'
+import {
+  isCoatConsistent,
+  predictFoalColors,
+  toCoatParentSummary,
+  validateCoatColorPrediction,
+  type CoatColorPrediction,
+} from '@/lib/breeding/coat-color'
+import { buildFoalingPlan, validateFoalingPlan, type FoalingPlan } from '@/lib/breeding/foaling'
+import {
+  formatPedigreeIssue,
+  parsePedigree,
+  validatePedigreeImport,
+  type PedigreeImportPreview,
+} from '@/lib/pedigree/formats'
+import { getNotifier } from '@/lib/alerts'
+import {
+  MAX_SAVED_SEARCHES_PER_EMAIL,
+  getListingChange,
+  matchesSavedSearch,
+  validateSavedSearch,
+  type SavedSearch,
+  type SearchAlert,
+} from '@/lib/alerts/saved-search'
+import { sendMail } from '@/lib/mail'
+import {
+  renderBookingRequestReceived,
+  renderInquiryAcknowledgement,
+  renderMagicLink,
+  renderOrderConfirmation,
+} from '@/lib/mail/templates'
+import {
+  isUserRole,
+  toSessionUser,
+  validateMagicLinkRequest,
+  validatePasswordChange,
+  validatePasswordSignIn,
+  type AuthSession,
+  type SessionUser,
+  type SignInResult,
+  type User,
+  type UserRole,
+} from '@/lib/auth/users'
+import { hashPassword, verifyPassword } from '@/lib/auth/password'
+import { MAGIC_LINK_TTL_MINUTES, SESSION_MAX_AGE, createToken, hashToken } from '@/lib/auth/tokens'
+import {
+  getMediaSrc,
+  toResponsiveImage,
+  validateMediaChanges,
+  validateMediaUpload,
+  type MediaAsset,
+  type ResponsiveImage,
+} from '@/lib/media/media'
+import { deleteMediaFiles, saveMediaFile, saveUpload, type StoredMedia } from '@/lib/media'
+import {
+  getVideoCodec,
+  isVideoContainer,
+  isWebVtt,
+  validateVideoDetails,
+  validateVideoRendition,
+  validateVideoTrack,
+  type MediaVideo,
+  type VideoEntry,
+  type VideoRendition,
+  type VideoTrack,
+} from '@/lib/media/video'
+import { hasErrors, type FieldErrors, type ValidationResult } from '@/lib/validation'
+import { paginate, sortList } from './pagination'
+
+/**
+ * Convert a basic horse record to detail format for horses without a detail record
+ */
+function toHorseDetail(horse: Horse | null): HorseDetail | null {
+  if (!horse) return null
+
+  return {
+    ...horse,
+    images: [horse.image],
+    training: [],
+    healthStatus: 'Available upon request',
+  }
+}
+
+/**
+ * Link a pedigree's ancestors to horses and stallions in our catalogue
+ */
+async function linkToCatalogue(pedigree: PedigreeNode, self?: PedigreeLink): Promise<PedigreeNode> {
+  const { horses, stallions } = await getRepositories()
+  return linkPedigree(
+    pedigree,
+    { horses: (await horses.list()).filter(isPublished), stallions: (await stallions.list()).filter(isPublished) },
+    self
+  )
+}
+
+/**
+ * Linked pedigree trimmed to the requested generations, or a 404 envelope
+ */
+async function toPedigreeResponse(
+  pedigree: PedigreeNode | undefined,
+  self: PedigreeLink,
+  generations?: number
+): Promise<ApiResponse<PedigreeNode>> {
+  if (!pedigree) {
+    return {
+      data: null,
+      error: 'Pedigree not found',
+      status: 404,
+    }
+  }
+
+  const linked = await linkToCatalogue(pedigree, self)
+  return { data: trimPedigree(linked, clampGenerations(generations)), status: 200 }
+}
+
+/**
+ * Ascending comparators per sort key; `recent` defaults to newest first
+ */
+const horseComparators: Record<HorseSortBy, (a: Horse, b: Horse) => number> = {
+  name: (a, b) => a.name.localeCompare(b.name),
+  price: (a, b) => a.price - b.price,
+  age: (a, b) => getHorseAge(a) - getHorseAge(b),
+  recent: (a, b) => (a.listedAt ?? '').localeCompare(b.listedAt ?? ''),
+  results: (a, b) => compareResults(a.bestResult, b.bestResult),
+}
+
+const productComparators: Record<ProductSortBy, (a: Product, b: Product) => number> = {
+  name: (a, b) => a.name.localeCompare(b.name),
+  price: (a, b) => a.price - b.price,
+  rating: (a, b) => (a.rating ?? 0) - (b.rating ?? 0),
+}
+
+const stallionComparators: Record<StallionSortBy, (a: Stallion, b: Stallion) => number> = {
+  name: (a, b) => a.name.localeCompare(b.name),
+  studFee: (a, b) => a.studFee - b.studFee,
+  age: (a, b) => a.age - b.age,
+}
+
+const articleComparators: Record<ArticleSortBy, (a: Article, b: Article) => number> = {
+  publishDate: (a, b) => a.publishDate.localeCompare(b.publishDate),
+  title: (a, b) => a.title.localeCompare(b.title),
+}
+
+/**
+ * Structured results for one horse, stallion or offspring, newest first
+ */
+function resultsFor(results: CompetitionResult[], horseId: string): CompetitionResult[] {
+  return sortByDate(results.filter((result) => result.horseId === horseId))
+}
+
+/**
+ * Health records for one horse or stallion
+ */
+async function healthRecordsFor(horseId: string): Promise<HealthRecord[]> {
+  const { healthRecords } = await getRepositories()
+  return (await healthRecords.list()).filter((record) => record.horseId === horseId)
+}
+
+/**
+ * A record that may reference media library assets
+ */
+type WithMedia = {
+  imageId?: string
+  imageIds?: string[]
+  photo?: ResponsiveImage
+  photos?: ResponsiveImage[]
+}
+
+/**
+ * Attach responsive images for the media library assets records reference
+ */
+async function withPhotos<T extends WithMedia>(records: T[]): Promise<T[]> {
+  if (!records.some(record => record.imageId || record.imageIds?.length)) return records
+
+  const { media } = await getRepositories()
+  const assets = new Map((await media.list()).map(asset => [asset.id, asset]))
+
+  return records.map(record => {
+    const photo = record.imageId ? assets.get(record.imageId) : undefined
+    const photos = record.imageIds?.map(id => assets.get(id))
+    return {
+      ...record,
+      photo: photo && toResponsiveImage(photo),
+      // Only when every asset is found, so photos line up with images
+      photos: photos?.length && photos.every(Boolean) ? (photos as MediaAsset[]).map(toResponsiveImage) : undefined,
+    }
+  })
+}
+
+/**
+ * Horse queries
+ */
+export const localHorses = {
+  async list(params?: HorseQueryParams): Promise<PaginatedApiResponse<Horse>> {
+    const { horses: repository, competitionResults } = await getRepositories()
+    const results = await competitionResults.list()
+    const horses = (await repository.list())
+      .filter(h => isPublished(h) && matchesHorseQuery(h, params))
+      .map(h => ({ ...h, bestResult: getBestResult(results.filter(r => r.horseId === h.id)) }))
+
+    const sorted = sortList(horses, horseComparators, params, { recent: 'desc', results: 'desc' })
+    const { items, pagination } = paginate(sorted, params)
+    return { data: await withPhotos(items), status: 200, pagination }
+  },
+
+  async getById(id: string): Promise<ApiResponse<HorseDetail>> {
+    const { horses, horseDetails, competitionResults } = await getRepositories()
+    const detail = await horseDetails.findById(id) ?? toHorseDetail(await horses.findById(id))
+
+    if (!detail || !isPublished(detail)) {
+      return {
+        data: null,
+        error: 'Horse not found',
+        status: 404,
+      }
+    }
+
+    const [withMedia] = await withPhotos([detail])
+    const horse = {
+      ...withMedia,
+      results: resultsFor(await competitionResults.list(), id),
+      health: getHorseHealth(await healthRecordsFor(id), 'buyer'),
+    }
+
+    if (horse.pedigree) {
+      return { data: { ...horse, pedigree: await linkToCatalogue(horse.pedigree, { type: 'horse', id }) }, status: 200 }
+    }
+
+    return { data: horse, status: 200 }
+  },
+
+  /**
+   * A horse's pedigree, up to `generations` ancestor generations
+   */
+  async getPedigree(id: string, generations?: number): Promise<ApiResponse<PedigreeNode>> {
+    const { horses, horseDetails } = await getRepositories()
+    const detail = await horseDetails.findById(id)
+    const record = detail ?? await horses.findById(id)
+
+    if (!record || !isPublished(record)) {
+      return {
+        data: null,
+        error: 'Horse not found',
+        status: 404,
+      }
+    }
+
+    return toPedigreeResponse(detail?.pedigree, { type: 'horse', id }, generations)
+  },
+
+  /**
+   * Add a listing and alert matching saved searches
+   */
+  async create(horse: Horse): Promise<ApiResponse<Horse>> {
+    const { horses } = await getRepositories()
+
+    if (await horses.findById(horse.id)) {
+      return { data: null, error: 'A horse with this id already exists', status: 409 }
+    }
+
+    const created = await horses.create(horse)
+    await localSavedSearches.processListingChange(null, created)
+
+    return { data: created, status: 201 }
+  },
+
+  /**
+   * Edit a listing; price drops alert matching saved searches
+   */
+  async update(id: string, changes: Partial<Omit<Horse, 'id'>>): Promise<ApiResponse<Horse>> {
+    const { horses } = await getRepositories()
+    const previous = await horses.findById(id)
+    const updated = previous ? await horses.update(id, changes) : null
+
+    if (!previous || !updated) {
+      return { data: null, error: 'Horse not found', status: 404 }
+    }
+
+    await localSavedSearches.processListingChange(previous, updated)
+
+    return { data: updated, status: 200 }
+  },
+}
+
+/**
+ * Product queries
+ */
+export const localProducts = {
+  async list(params?: ProductQueryParams): Promise<PaginatedApiResponse<Product>> {
+    const { products: repository } = await getRepositories()
+    let products = (await repository.list()).filter(isPublished)
+
+    if (params) {
+      if (params.category && params.category !== 'all') {
+        products = products.filter(p => p.category === params.category)
+      }
+      if (params.featured !== undefined) {
+        products = products.filter(p => p.featured === params.featured)
+      }
+      if (params.inStock !== undefined) {
+        products = products.filter(p => p.inStock === params.inStock)
+      }
+    }
+
+    const sorted = sortList(products, productComparators, params, { rating: 'desc' })
+    const { items, pagination } = paginate(sorted, params)
+    return { data: await withPhotos(items), status: 200, pagination }
+  },
+
+  async getById(id: string): Promise<ApiResponse<Product>> {
+    const { products } = await getRepositories()
+    const product = await products.findById(id)
+
+    if (!product || !isPublished(product)) {
+      return {
+        data: null,
+        error: 'Product not found',
+        status: 404,
+      }
+    }
+
+    const [withMedia] = await withPhotos([product])
+    return { data: withMedia, status: 200 }
+  },
+}
+
+/**
+ * Attach a stallion's own results and the statistics computed from his offspring's
+ */
+function withResults(stallion: Stallion, results: CompetitionResult[]): Stallion {
+  return {
+    ...stallion,
+    results: resultsFor(results, stallion.id),
+    statistics: getOffspringStatistics(stallion, results),
+  }
+}
+
+/**
+ * Attach a season's availability and the derived booking status to a stallion
+ */
+function withAvailability(stallion: Stallion, bookings: StudBooking[], season: number): Stallion {
+  const availability = getSeasonAvailability(stallion, bookings, season)
+
+  return {
+    ...stallion,
+    availability: availability ?? undefined,
+    // Stallions not standing this season can't be booked
+    bookingStatus: availability?.bookingStatus ?? 'fully_booked',
+  }
+}
+
+/**
+ * Pedigree of one of our published mares for a test mating, or null if there's
+ * no such mare
+ */
+async function findMarePedigree(id: string): Promise<PedigreeNode | null> {
+  const { horses, horseDetails } = await getRepositories()
+  const horse = await horseDetails.findById(id) ?? toHorseDetail(await horses.findById(id))
+  if (!horse || !isPublished(horse) || horse.gender !== 'Female') return null
+
+  return {
+    id: horse.id,
+    name: horse.name,
+    breed: horse.breed,
+    color: horse.color,
+    registrationNumber: horse.registrationNumber,
+    birthYear: horse.foalYear,
+    ...horse.pedigree,
+    gender: 'mare',
+    achievements: horse.pedigree?.achievements ?? horse.competitionRecord,
+  }
+}
+
+/**
+ * Checkout
+ */
+export const localOrders = {
+  /**
+   * Price an order from the catalogue, take payment and record the result
+   *
+   * Unknown, unpublished or out-of-stock products and unavailable variants reject the whole order.
+   * A declined payment is kept as a `payment_failed` order and reported as 402.
+   */
+  async create(input: unknown): Promise<ApiResponse<Order>> {
+    const result = validateOrderRequest(input)
+    if (!result.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: result.errors,
+        status: 422,
+      }
+    }
+
+    const { products, orders } = await getRepositories()
+    const lines: OrderLine[] = []
+    let currency = DEFAULT_CURRENCY
+
+    for (const item of result.data.items) {
+      const product = await products.findById(item.productId)
+      if (!product || !isPublished(product)) {
+        return { data: null, error: 'An item in your cart is no longer available', errors: { items: 'Remove unavailable items' }, status: 422 }
+      }
+      if (!product.inStock) {
+        return { data: null, error: `${product.name} is out of stock`, errors: { items: `${product.name} is out of stock` }, status: 409 }
+      }
+      if ((item.color && !product.colors?.includes(item.color)) || (item.size && !product.sizes?.includes(item.size))) {
+        return { data: null, error: `The selected option for ${product.name} is not available`, errors: { items: 'Choose an available option' }, status: 422 }
+      }
+
+      lines.push({ ...item, name: product.name, price: product.price })
+      currency = product.currency ?? currency
+    }
+
+    const totals = getCartTotals(lines.map(line => ({ ...line, currency })))
+    const now = new Date().toISOString()
+
+    const order = await orders.create({
+      id: crypto.randomUUID(),
+      number: createOrderNumber(),
+      items: lines,
+      shipping: result.data.shipping,
+      subtotal: totals.subtotal,
+      shippingCost: totals.shipping,
+      total: totals.total,
+      currency,
+      status: 'pending_payment',
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    const provider = getPaymentProvider()
+    const payment = await provider.charge({
+      orderId: order.id,
+      orderNumber: order.number,
+      amount: order.total,
+      currency: order.currency,
+      customerEmail: order.shipping.email,
+    })
+
+    const settled = await orders.update(order.id, {
+      status: payment.status === 'succeeded' ? 'paid' : 'payment_failed',
+      payment: { provider: provider.name, reference: payment.reference, status: payment.status },
+      updatedAt: new Date().toISOString(),
+    })
+
+    if (payment.status === 'failed' || !settled) {
+      return { data: null, error: payment.status === 'failed' ? payment.error : 'Payment could not be recorded', status: 402 }
+    }
+
+    // The order is already paid; a mail outage shouldn't fail checkout
+    try {
+      await sendMail({ to: settled.shipping.email, ...renderOrderConfirmation(settled) })
+    } catch (error) {
+      console.error('Failed to send order confirmation', error)
+    }
+
+    return { data: settled, status: 201 }
+  },
+}
+
+/**
+ * Breeding program queries
+ */
+export const localBreeding = {
+  async listStallions(params?: StallionQueryParams): Promise<PaginatedApiResponse<Stallion>> {
+    const { stallions: repository, studBookings, competitionResults } = await getRepositories()
+    const season = params?.season ?? getBookingSeason()
+    const [bookings, results] = await Promise.all([studBookings.list(), competitionResults.list()])
+    let stallions = (await repository.list())
+      .filter(isPublished)
+      .map(s => withAvailability(withResults(s, results), bookings, season))
+
+    if (params?.bookingStatus) {
+      stallions = stallions.filter(s => s.bookingStatus === params.bookingStatus)
+    }
+
+    const sorted = sortList(stallions, stallionComparators, params)
+    const { items, pagination } = paginate(sorted, params)
+    return { data: items, status: 200, pagination }
+  },
+
+  async getStallionById(id: string, season = getBookingSeason()): Promise<ApiResponse<Stallion>> {
+    const { stallions, studBookings, competitionResults } = await getRepositories()
+    const stallion = await stallions.findById(id)
+
+    if (!stallion || !isPublished(stallion)) {
+      return {
+        data: null,
+        error: 'Stallion not found',
+        status: 404,
+      }
+    }
+
+    const pedigree = stallion.pedigree && await linkToCatalogue(stallion.pedigree, { type: 'stallion', id })
+    const withRecord = withResults({ ...stallion, pedigree }, await competitionResults.list())
+    return { data: withAvailability(withRecord, await studBookings.list(), season), status: 200 }
+  },
+
+  /**
+   * A stallion's pedigree, up to `generations` ancestor generations
+   */
+  async getPedigree(id: string, generations?: number): Promise<ApiResponse<PedigreeNode>> {
+    const { stallions } = await getRepositories()
+    const stallion = await stallions.findById(id)
+
+    if (!stallion || !isPublished(stallion)) {
+      return {
+        data: null,
+        error: 'Stallion not found',
+        status: 404,
+      }
+    }
+
+    return toPedigreeResponse(stallion.pedigree, { type: 'stallion', id }, generations)
+  },
+
+  /**
+   * Capacity and bookings for every season a stallion stands
+   */
+  async getAvailability(id: string): Promise<ApiResponse<SeasonAvailability[]>> {
+    const { stallions, studBookings } = await getRepositories()
+    const stallion = await stallions.findById(id)
+
+    if (!stallion || !isPublished(stallion)) {
+      return {
+        data: null,
+        error: 'Stallion not found',
+        status: 404,
+      }
+    }
+
+    const bookings = await studBookings.list()
+    const availability = (stallion.seasons ?? [])
+      .map(({ season }) => getSeasonAvailability(stallion, bookings, season))
+      .filter((entry): entry is SeasonAvailability => entry !== null)
+
+    return { data: availability, status: 200 }
+  },
+
+  /**
+   * Hypothetical foal pedigree for a stallion and a mare; 422 with field
+   * `errors` when the input or chosen mare is invalid
+   */
+  async testMating(input: unknown): Promise<ApiResponse<TestMatingResult>> {
+    const validation = validateTestMating(input)
+    if (!validation.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: validation.errors,
+        status: 422,
+      }
+    }
+
+    const { stallionId, mareId, mare: enteredMare } = validation.data
+    const { stallions } = await getRepositories()
+    const stallion = await stallions.findById(stallionId)
+
+    if (!stallion || !isPublished(stallion)) {
+      return {
+        data: null,
+        error: 'Stallion not found',
+        status: 404,
+      }
+    }
+
+    const mare = enteredMare ? toMarePedigree(enteredMare) : await findMarePedigree(mareId ?? '')
+    if (!mare) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: { mareId: 'Please choose one of our mares' },
+        status: 422,
+      }
+    }
+
+    const sire: PedigreeNode = {
+      id: stallion.id,
+      name: stallion.name,
+      breed: stallion.breed,
+      color: stallion.color,
+      registrationNumber: stallion.registrationNumber,
+      ...stallion.pedigree,
+      gender: 'stallion',
+      achievements: stallion.pedigree?.achievements ?? stallion.achievements,
+    }
+
+    const pedigree = await linkToCatalogue(buildFoalPedigree(sire, mare))
+
+    return {
+      data: {
+        pedigree,
+        analysis: analyzeInbreeding(pedigree, MAX_PEDIGREE_GENERATIONS),
+        sireLine: getLineAchievements(pedigree.sire, 's'),
+        damLine: getLineAchievements(pedigree.dam, 'd'),
+      },
+      status: 200,
+    }
+  },
+
+  /**
+   * Chance of each foal coat color for one of our stallions and a mare
+   */
+  async predictCoatColors(input: unknown): Promise<ApiResponse<CoatColorPrediction>> {
+    const validation = validateCoatColorPrediction(input)
+    if (!validation.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: validation.errors,
+        status: 422,
+      }
+    }
+
+    const { stallionId, mareId, mare: enteredMare } = validation.data
+    const { horses, stallions } = await getRepositories()
+    const stallion = await stallions.findById(stallionId)
+
+    if (!stallion || !isPublished(stallion)) {
+      return {
+        data: null,
+        error: 'Stallion not found',
+        status: 404,
+      }
+    }
+
+    const ourMare = mareId ? await horses.findById(mareId) : null
+    if (mareId && (!ourMare || !isPublished(ourMare) || ourMare.gender !== 'Female')) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: { mareId: 'Please choose one of our mares' },
+        status: 422,
+      }
+    }
+
+    const sire = { color: stallion.color, genotype: stallion.coatGenotype }
+    const dam = ourMare ? { color: ourMare.color, genotype: ourMare.coatGenotype } : enteredMare ?? {}
+
+    // Name the parent whose results contradict its color
+    if (!isCoatConsistent(sire)) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: { stallionId: "This stallion's test results don't match his recorded color" },
+        status: 422,
+      }
+    }
+    if (!isCoatConsistent(dam)) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: ourMare
+          ? { mareId: "This mare's test results don't match her recorded color" }
+          : { mareGenotype: "These test results can't produce the color entered" },
+        status: 422,
+      }
+    }
+
+    const outcomes = predictFoalColors(sire, dam) ?? []
+
+    return {
+      data: {
+        sire: toCoatParentSummary(stallion.name, sire),
+        dam: toCoatParentSummary(ourMare?.name ?? 'Your mare', dam),
+        outcomes,
+      },
+      status: 200,
+    }
+  },
+
+  /**
+   * Dated breeding and foaling plan for a stallion; 422 with field `errors`
+   * on invalid input
+   */
+  async planFoaling(input: unknown): Promise<ApiResponse<FoalingPlan>> {
+    const validation = validateFoalingPlan(input)
+    if (!validation.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: validation.errors,
+        status: 422,
+      }
+    }
+
+    const { stallions, studBookings } = await getRepositories()
+    const stallion = await stallions.findById(validation.data.stallionId)
+
+    if (!stallion || !isPublished(stallion)) {
+      return {
+        data: null,
+        error: 'Stallion not found',
+        status: 404,
+      }
+    }
+
+    return { data: buildFoalingPlan(validation.data, stallion, await studBookings.list()), status: 200 }
+  },
+
+  /**
+   * Parse and validate a pedigree file without saving it
+   */
+  async previewPedigreeImport(input: unknown): Promise<ApiResponse<PedigreeImportPreview>> {
+    const validation = validatePedigreeImport(input)
+    if (!validation.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: validation.errors,
+        status: 422,
+      }
+    }
+
+    const { format, content, rootId } = validation.data
+    const result = parsePedigree(content, format, rootId)
+    if (!result.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: { content: result.errors.map(formatPedigreeIssue).join('\n') },
+        status: 422,
+      }
+    }
+
+    const pedigree = await linkToCatalogue(result.pedigree)
+
+    return {
+      data: {
+        pedigree,
+        analysis: analyzeInbreeding(pedigree, MAX_PEDIGREE_GENERATIONS),
+        warnings: result.warnings,
+      },
+      status: 200,
+    }
+  },
+
+  async getProgramInfo(): Promise<ApiResponse<BreedingInfo>> {
+    const { getMockBreedingInfo } = await import('@/lib/data/mock-data')
+    return { data: getMockBreedingInfo(), status: 200 }
+  },
+}
+
+/**
+ * Horse or stallion a result or health record can be recorded against, or
+ * null when neither exists
+ */
+async function findRecordSubject(horseId: string): Promise<{ id: string } | null> {
+  const { horses, stallions } = await getRepositories()
+  return await horses.findById(horseId) ?? await stallions.findById(horseId)
+}
+
+/**
+ * Structured competition results
+ */
+export const localResults = {
+  /**
+   * A horse's or stallion's results, newest first
+   */
+  async list(horseId: string): Promise<ApiResponse<CompetitionResult[]>> {
+    if (!await findRecordSubject(horseId)) {
+      return {
+        data: null,
+        error: 'Horse not found',
+        status: 404,
+      }
+    }
+
+    const { competitionResults } = await getRepositories()
+    return { data: resultsFor(await competitionResults.list(), horseId), status: 200 }
+  },
+
+  /**
+   * Record a result; 422 with field `errors` on invalid input
+   */
+  async add(horseId: string, input: unknown): Promise<ApiResponse<CompetitionResult>> {
+    if (!await findRecordSubject(horseId)) {
+      return {
+        data: null,
+        error: 'Horse not found',
+        status: 404,
+      }
+    }
+
+    const validation = validateCompetitionResult(input)
+    if (!validation.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: validation.errors,
+        status: 422,
+      }
+    }
+
+    const { competitionResults } = await getRepositories()
+    const result = await competitionResults.create({ id: crypto.randomUUID(), horseId, ...validation.data })
+    return { data: result, status: 201 }
+  },
+
+  /**
+   * Delete one of a horse's results
+   */
+  async remove(horseId: string, resultId: string): Promise<ApiResponse<CompetitionResult>> {
+    const { competitionResults } = await getRepositories()
+    const result = await competitionResults.findById(resultId)
+
+    if (!result || result.horseId !== horseId) {
+      return { data: null, error: 'Result not found', status: 404 }
+    }
+
+    await competitionResults.delete(resultId)
+    return { data: result, status: 200 }
+  },
+}
+
+/**
+ * Health and veterinary records
+ */
+export const localHealth = {
+  /**
+   * A horse's or stallion's records as the audience may see them
+   */
+  async get(horseId: string, audience: HealthAudience): Promise<ApiResponse<HorseHealth>> {
+    if (!await findRecordSubject(horseId)) {
+      return {
+        data: null,
+        error: 'Horse not found',
+        status: 404,
+      }
+    }
+
+    return { data: getHorseHealth(await healthRecordsFor(horseId), audience), status: 200 }
+  },
+
+  /**
+   * Record a visit, treatment or test; 422 with field `errors` on invalid input
+   */
+  async add(horseId: string, input: unknown): Promise<ApiResponse<HealthRecord>> {
+    if (!await findRecordSubject(horseId)) {
+      return {
+        data: null,
+        error: 'Horse not found',
+        status: 404,
+      }
+    }
+
+    const validation = validateHealthRecord(input)
+    if (!validation.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: validation.errors,
+        status: 422,
+      }
+    }
+
+    const { healthRecords } = await getRepositories()
+    const record = await healthRecords.create({ id: crypto.randomUUID(), horseId, ...validation.data })
+    return { data: record, status: 201 }
+  },
+
+  /**
+   * Delete one of a horse's records
+   */
+  async remove(horseId: string, recordId: string): Promise<ApiResponse<HealthRecord>> {
+    const { healthRecords } = await getRepositories()
+    const record = await healthRecords.findById(recordId)
+
+    if (!record || record.horseId !== horseId) {
+      return { data: null, error: 'Health record not found', status: 404 }
+    }
+
+    await healthRecords.delete(recordId)
+    return { data: record, status: 200 }
+  },
+}
+
+/**
+ * Editorial queries
+ */
+export const localArticles = {
+  async list(params?: ArticleQueryParams): Promise<PaginatedApiResponse<Article>> {
+    const { articles: repository } = await getRepositories()
+    let articles = (await repository.list()).filter(isPublished)
+
+    if (params) {
+      if (params.category) {
+        articles = articles.filter(a => a.category === params.category)
+      }
+      if (params.featured !== undefined) {
+        articles = articles.filter(a => a.featured === params.featured)
+      }
+    }
+
+    articles = sortList(articles, articleComparators, params, { publishDate: 'desc' })
+    if (params?.limit) {
+      articles = articles.slice(0, params.limit)
+    }
+
+    const { items, pagination } = paginate(articles, params)
+    return { data: await withPhotos(items), status: 200, pagination }
+  },
+
+  async getById(id: string): Promise<ApiResponse<Article>> {
+    const { articles } = await getRepositories()
+    const article = await articles.findById(id)
+
+    if (!article || !isPublished(article)) {
+      return {
+        data: null,
+        error: 'Article not found',
+        status: 404,
+      }
+    }
+
+    const [withMedia] = await withPhotos([article])
+    return { data: withMedia, status: 200 }
+  },
+}
+
+/**
+ * Stud booking requests and their lifecycle
+ */
+export const localBookings = {
+  /**
+   * Validate and record a booking request, then acknowledge it by email
+   *
+   * Requests don't hold capacity, but are refused once a season is fully booked.
+   */
+  async create(input: unknown): Promise<ApiResponse<StudBooking>> {
+    const result = validateBookingRequest(input)
+    if (!result.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: result.errors,
+        status: 422,
+      }
+    }
+
+    const { stallions, studBookings } = await getRepositories()
+    const stallion = await stallions.findById(result.data.stallionId)
+    if (!stallion || !isPublished(stallion)) {
+      return { data: null, error: 'Stallion not found', status: 404 }
+    }
+
+    const availability = getSeasonAvailability(stallion, await studBookings.list(), result.data.season)
+    if (!availability) {
+      return {
+        data: null,
+        error: `${stallion.name} is not standing for the ${result.data.season} season`,
+        errors: { season: 'Please choose another season' },
+        status: 422,
+      }
+    }
+    if (availability.remaining <= 0) {
+      return { data: null, error: `${stallion.name} is fully booked for ${result.data.season}`, status: 409 }
+    }
+
+    const now = new Date().toISOString()
+    const booking = await studBookings.create({
+      ...result.data,
+      id: crypto.randomUUID(),
+      status: 'requested',
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    // The booking is already saved; a mail outage shouldn't fail the request
+    try {
+      await sendMail({ to: booking.owner.email, ...renderBookingRequestReceived(booking, stallion) })
+    } catch (error) {
+      console.error('Failed to send booking acknowledgement', error)
+    }
+
+    return { data: booking, status: 201 }
+  },
+
+  async list(params?: { stallionId?: string; season?: number; status?: BookingState }): Promise<ApiResponse<StudBooking[]>> {
+    const { studBookings } = await getRepositories()
+    let bookings = await studBookings.list()
+
+    if (params) {
+      if (params.stallionId) {
+        bookings = bookings.filter(b => b.stallionId === params.stallionId)
+      }
+      if (params.season !== undefined) {
+        bookings = bookings.filter(b => b.season === params.season)
+      }
+      if (params.status) {
+        bookings = bookings.filter(b => b.status === params.status)
+      }
+    }
+
+    return { data: bookings, status: 200 }
+  },
+
+  /**
+   * Move a booking to its next state (`{ status }`)
+   *
+   * Confirming takes a place in the season, so it fails once capacity is used up.
+   */
+  async transition(id: string, input: unknown): Promise<ApiResponse<StudBooking>> {
+    const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+    if (!isBookingState(body.status)) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: { status: 'Please choose a valid status' },
+        status: 422,
+      }
+    }
+
+    const status = body.status
+    const { stallions, studBookings } = await getRepositories()
+    const booking = await studBookings.findById(id)
+
+    if (!booking) {
+      return { data: null, error: 'Booking not found', status: 404 }
+    }
+    if (!canTransition(booking.status, status)) {
+      return { data: null, error: `Cannot move a ${booking.status} booking to ${status}`, status: 409 }
+    }
+
+    if (status === 'confirmed') {
+      const stallion = await stallions.findById(booking.stallionId)
+      const availability = stallion && getSeasonAvailability(stallion, await studBookings.list(), booking.season)
+      if (!availability || availability.remaining <= 0) {
+        return { data: null, error: 'No capacity left this season', status: 409 }
+      }
+    }
+
+    const updated = await studBookings.update(id, { status, updatedAt: new Date().toISOString() })
+    return { data: updated, status: 200 }
+  },
+}
+
+/**
+ * Inquiry submissions and the lead pipeline
+ */
+export const localInquiries = {
+  /**
+   * Validate and persist an inquiry, then acknowledge it by email
+   *
+   * Submissions that fill the honeypot field are reported as accepted but dropped.
+   */
+  async create(input: unknown): Promise<ApiResponse<Lead>> {
+    const honeypot = (input as Record<string, unknown> | null)?.[HONEYPOT_FIELD]
+    if (typeof honeypot === 'string' && honeypot.trim()) {
+      return { data: null, status: 201 }
+    }
+
+    const result = validateInquiry(input)
+    if (!result.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: result.errors,
+        status: 422,
+      }
+    }
+
+    const now = new Date().toISOString()
+    const { leads } = await getRepositories()
+    const lead = await leads.create({
+      ...result.data,
+      id: crypto.randomUUID(),
+      status: 'new',
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    // The lead is already saved; a mail outage shouldn't fail the submission
+    try {
+      await sendMail({ to: lead.email, ...renderInquiryAcknowledgement(lead) })
+    } catch (error) {
+      console.error('Failed to send inquiry acknowledgement', error)
+    }
+
+    return { data: lead, status: 201 }
+  },
+
+  /**
+   * Leads for the back office, newest first
+   */
+  async list(params?: { status?: LeadStatus }): Promise<ApiResponse<Lead[]>> {
+    const { leads: repository } = await getRepositories()
+    let leads = await repository.list()
+
+    if (params?.status) {
+      leads = leads.filter(l => l.status === params.status)
+    }
+
+    // Newest first
+    return { data: leads.reverse(), status: 200 }
+  },
+
+  /**
+   * Move a lead through the pipeline (`{ status }`); 422 for an unknown status
+   */
+  async updateStatus(id: string, input: unknown): Promise<ApiResponse<Lead>> {
+    const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+    if (!isLeadStatus(body.status)) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: { status: 'Please choose a valid status' },
+        status: 422,
+      }
+    }
+
+    const { leads } = await getRepositories()
+    const lead = await leads.update(id, { status: body.status, updatedAt: new Date().toISOString() })
+
+    if (!lead) {
+      return {
+        data: null,
+        error: 'Lead not found',
+        status: 404,
+      }
+    }
+
+    return { data: lead, status: 200 }
+  },
+}
+
+/**
+ * Per-user shortlists
+ */
+export const localFavorites = {
+  async get(userId: string): Promise<ApiResponse<Favorite[]>> {
+    const { shortlists } = await getRepositories()
+    const shortlist = await shortlists.findById(userId)
+
+    return { data: shortlist?.items ?? [], status: 200 }
+  },
+
+  /**
+   * Replace a user's shortlist
+   */
+  async replace(userId: string, input: unknown): Promise<ApiResponse<Favorite[]>> {
+    const items = readFavorites(input)
+    if (!items) {
+      return { data: null, error: 'Expected a list of favorites', status: 422 }
+    }
+
+    return { data: await saveShortlist(userId, items), status: 200 }
+  },
+
+  /**
+   * Add favorites saved elsewhere (e.g. in the browser before signing in)
+   */
+  async merge(userId: string, input: unknown): Promise<ApiResponse<Favorite[]>> {
+    const items = readFavorites(input)
+    if (!items) {
+      return { data: null, error: 'Expected a list of favorites', status: 422 }
+    }
+
+    const { shortlists } = await getRepositories()
+    const existing = await shortlists.findById(userId)
+
+    return { data: await saveShortlist(userId, mergeFavorites(existing?.items ?? [], items)), status: 200 }
+  },
+}
+
+async function saveShortlist(userId: string, items: Favorite[]): Promise<Favorite[]> {
+  const { shortlists } = await getRepositories()
+  const updatedAt = new Date().toISOString()
+
+  const shortlist = await shortlists.update(userId, { items, updatedAt })
+    ?? await shortlists.create({ id: userId, items, updatedAt })
+
+  return shortlist.items
+}
+
+/**
+ * Saved searches and their alert queue
+ */
+export const localSavedSearches = {
+  /**
+   * Save a filter set for alerts
+   */
+  async create(input: unknown, userId?: string): Promise<ApiResponse<SavedSearch>> {
+    const result = validateSavedSearch(input)
+    if (!result.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: result.errors,
+        status: 422,
+      }
+    }
+
+    const { savedSearches } = await getRepositories()
+    const existing = (await savedSearches.list())
+      .filter(search => search.active && search.email === result.data.email)
+
+    if (existing.length >= MAX_SAVED_SEARCHES_PER_EMAIL) {
+      return {
+        data: null,
+        error: `You can keep up to ${MAX_SAVED_SEARCHES_PER_EMAIL} saved searches. Remove one to add another.`,
+        status: 409,
+      }
+    }
+
+    const search = await savedSearches.create({
+      ...result.data,
+      id: crypto.randomUUID(),
+      userId,
+      active: true,
+      token: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    })
+
+    return { data: search, status: 201 }
+  },
+
+  /**
+   * Active searches owned by a signed-in user
+   */
+  async listForUser(userId: string): Promise<ApiResponse<SavedSearch[]>> {
+    const { savedSearches } = await getRepositories()
+    const searches = (await savedSearches.list())
+      .filter(search => search.active && search.userId === userId)
+
+    return { data: searches, status: 200 }
+  },
+
+  /**
+   * Stop alerts for a search, authorised by its token or its owner
+   */
+  async deactivate(id: string, auth: { token?: string; userId?: string }): Promise<ApiResponse<SavedSearch>> {
+    const { savedSearches } = await getRepositories()
+    const search = await savedSearches.findById(id)
+
+    const authorised = search && (
+      (auth.token !== undefined && auth.token === search.token) ||
+      (auth.userId !== undefined && auth.userId === search.userId)
+    )
+
+    // Unauthorised requests look the same as missing searches
+    if (!search || !authorised) {
+      return { data: null, error: 'Saved search not found', status: 404 }
+    }
+
+    const updated = await savedSearches.update(id, { active: false })
+    return { data: updated, status: 200 }
+  },
+
+  /**
+   * Queue alerts for every active search matching a new or reduced listing, then deliver them
+   *
+   * @returns Alerts queued for this change
+   */
+  async processListingChange(previous: Horse | null, next: Horse): Promise<SearchAlert[]> {
+    const change = getListingChange(previous, next)
+    if (!change) return []
+
+    const { savedSearches, searchAlerts } = await getRepositories()
+    const [searches, alerts] = await Promise.all([savedSearches.list(), searchAlerts.list()])
+    const now = new Date().toISOString()
+    const queued: SearchAlert[] = []
+
+    for (const search of searches) {
+      if (!search.active || !matchesSavedSearch(change.horse, search)) continue
+
+      // A relisted horse only announces itself once per search
+      const duplicate = change.kind === 'new_listing' && alerts.some(alert =>
+        alert.searchId === search.id && alert.horseId === change.horse.id && alert.kind === 'new_listing'
+      )
+      if (duplicate) continue
+
+      queued.push(await searchAlerts.create({
+        id: crypto.randomUUID(),
+        searchId: search.id,
+        searchName: search.name,
+        email: search.email,
+        userId: search.userId,
+        kind: change.kind,
+        horseId: change.horse.id,
+        horseName: change.horse.name,
+        price: change.horse.price,
+        previousPrice: change.previousPrice,
+        status: 'queued',
+        createdAt: now,
+      }))
+      await savedSearches.update(search.id, { lastAlertAt: now })
+    }
+
+    await this.deliverQueued()
+    return queued
+  },
+
+  /**
+   * Send queued and previously failed alerts through the active notifier
+   *
+   * @returns Number of alerts delivered
+   */
+  async deliverQueued(): Promise<number> {
+    const { savedSearches, searchAlerts } = await getRepositories()
+    const pending = (await searchAlerts.list()).filter(alert => alert.status !== 'sent')
+    const notifier = getNotifier()
+    let delivered = 0
+
+    for (const alert of pending) {
+      const search = await savedSearches.findById(alert.searchId)
+      if (!search?.active) continue
+
+      // One failed alert must not hold up the rest of the queue
+      try {
+        await notifier.deliver(alert, search)
+        await searchAlerts.update(alert.id, { status: 'sent', sentAt: new Date().toISOString(), error: undefined })
+        delivered++
+      } catch (error) {
+        console.error(`Failed to deliver alert ${alert.id} via ${notifier.name}`, error)
+        await searchAlerts.update(alert.id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+    }
+
+    return delivered
+  },
+
+  /**
+   * In-app notification feed for a signed-in user, newest first
+   */
+  async listAlerts(userId: string): Promise<ApiResponse<SearchAlert[]>> {
+    const { searchAlerts } = await getRepositories()
+    const alerts = (await searchAlerts.list())
+      .filter(alert => alert.userId === userId)
+      .reverse()
+
+    return { data: alerts, status: 200 }
+  },
+}
+
+/**
+ * Any record managed from the back office
+ */
+type AdminContent = { id: string; status?: ContentStatus }
+
+/**
+ * Summary row for a back office list
+ */
+function toAdminListItem(entity: AdminEntity, record: AdminContent): AdminListItem {
+  const status = record.status ?? 'published'
+
+  switch (entity) {
+    case 'horses': {
+      const horse = record as Horse
+      const price = `$${horse.price.toLocaleString('en-US')}`
+      return { id: horse.id, title: horse.name, subtitle: `${horse.breed} · ${price}`, image: horse.image, status }
+    }
+    case 'stallions': {
+      const stallion = record as Stallion
+      const fee = `$${stallion.studFee.toLocaleString('en-US')} stud fee`
+      return { id: stallion.id, title: stallion.name, subtitle: `${stallion.breed} · ${fee}`, image: stallion.image, status }
+    }
+    case 'products': {
+      const product = record as Product
+      const image = product.thumbnail ?? product.images[0]
+      const price = formatPrice(product.price, product.currency)
+      return { id: product.id, title: product.name, subtitle: `${product.category} · ${price}`, image, status }
+    }
+    case 'articles': {
+      const article = record as Article
+      const subtitle = [formatDate(article.publishDate), article.category].filter(Boolean).join(' · ')
+      return { id: article.id, title: article.title, subtitle, image: article.image, status }
+    }
+  }
+}
+
+/**
+ * Record with validated form values applied; values were checked against
+ * `ADMIN_FIELDS`, so they match the collection's record type
+ */
+function applyFormValues(entity: AdminEntity, values: AdminFormValues, existing: AdminContent): AdminContent {
+  if (entity !== 'articles') return { ...existing, ...values }
+
+  const { authorName, ...fields } = values
+  const author = (existing as Partial<Article>).author
+  const article = {
+    ...existing,
+    ...fields,
+    author: typeof authorName === 'string' ? { ...author, name: authorName } : undefined,
+  }
+  return article
+}
+
+/**
+ * Form values with each media field's link field filled in from the chosen
+ * assets; field errors for ids that aren't in the library
+ */
+async function fillMediaLinks(entity: AdminEntity, values: AdminFormValues): Promise<ValidationResult<AdminFormValues>> {
+  const { media } = await getRepositories()
+  const errors: FieldErrors = {}
+  const filled = { ...values }
+
+  for (const field of ADMIN_FIELDS[entity]) {
+    const value = values[field.name]
+    const ids = Array.isArray(value) ? value : typeof value === 'string' ? [value] : []
+    if (!field.fills || ids.length === 0) continue
+
+    const assets = await Promise.all(ids.map(id => media.findById(id)))
+    if (!assets.every(Boolean)) {
+      errors[field.name] = 'Please choose images from the media library'
+      continue
+    }
+
+    const urls = (assets as MediaAsset[]).map(asset => getMediaSrc(asset))
+    filled[field.fills] = field.kind === 'mediaList' ? urls : urls[0]
+  }
+
+  return hasErrors(errors) ? { success: false, errors } : { success: true, data: filled }
+}
+
+/**
+ * Save a horse's listing and detail records from validated form values
+ *
+ * Listings that are published, or become published, alert matching saved
+ * searches just like any other new listing or price drop.
+ */
+async function saveHorse(id: string, values: AdminFormValues, previous: Horse | null): Promise<void> {
+  const { horses, horseDetails } = await getRepositories()
+  const listing = { ...values }
+  HORSE_DETAIL_FIELDS.forEach((field) => delete listing[field])
+
+  const horse = applyFormValues('horses', listing, previous ?? { id }) as Horse
+  const existingDetail = await horseDetails.findById(id)
+  const { image, bestResult: _bestResult, ...shared } = horse
+  const images = values.images as string[] | undefined
+  const detail: HorseDetail = {
+    ...existingDetail,
+    ...shared,
+    thumbnail: image,
+    images: images && images.length > 0 ? images : [image],
+    imageIds: values.imageIds as string[] | undefined,
+    training: values.training as string[] | undefined,
+    temperament: values.temperament as string | undefined,
+    healthStatus: values.healthStatus as string | undefined,
+    location: values.location as string | undefined,
+  }
+
+  await (previous ? horses.update(id, horse) : horses.create(horse))
+  await (existingDetail ? horseDetails.update(id, detail) : horseDetails.create(detail))
+
+  if (isPublished(horse)) {
+    await localSavedSearches.processListingChange(previous && isPublished(previous) ? previous : null, horse)
+  }
+}
+
+/**
+ * Back office: every record in a collection, whatever its status
+ */
+export const localAdmin = {
+  /**
+   * A collection in display order
+   */
+  async list(entity: AdminEntity): Promise<ApiResponse<AdminListItem[]>> {
+    const repository: Repository<AdminContent> = (await getRepositories())[entity]
+    const records = await repository.list()
+    return { data: records.map(record => toAdminListItem(entity, record)), status: 200 }
+  },
+
+  /**
+   * A record's form values
+   */
+  async get(entity: AdminEntity, id: string): Promise<ApiResponse<AdminRecord>> {
+    const repositories = await getRepositories()
+    const repository: Repository<AdminContent> = repositories[entity]
+    const record = await repository.findById(id)
+
+    if (!record) {
+      return {
+        data: null,
+        error: `${getAdminEntity(entity).singular} not found`,
+        status: 404,
+      }
+    }
+
+    // A horse's listing is the source of truth for the fields both records share
+    const source = entity === 'horses' ? { ...await repositories.horseDetails.findById(id), ...record } : record
+    return { data: { id, status: record.status ?? 'published', values: toFormValues(entity, source) }, status: 200 }
+  },
+
+  /**
+   * Add a record; 422 with field `errors` on invalid input
+   */
+  async create(entity: AdminEntity, input: unknown): Promise<ApiResponse<AdminRecord>> {
+    const validation = validateAdminForm(entity, input)
+    const filled = validation.success ? await fillMediaLinks(entity, validation.data) : validation
+    if (!filled.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: filled.errors,
+        status: 422,
+      }
+    }
+
+    const id = crypto.randomUUID()
+    if (entity === 'horses') {
+      await saveHorse(id, filled.data, null)
+    } else {
+      const repository: Repository<AdminContent> = (await getRepositories())[entity]
+      await repository.create(applyFormValues(entity, filled.data, { id }))
+    }
+
+    const created = await this.get(entity, id)
+    return { ...created, status: 201 }
+  },
+
+  /**
+   * Replace a record's form fields; 422 with field `errors` on invalid input
+   */
+  async update(entity: AdminEntity, id: string, input: unknown): Promise<ApiResponse<AdminRecord>> {
+    const repository: Repository<AdminContent> = (await getRepositories())[entity]
+    const existing = await repository.findById(id)
+
+    if (!existing) {
+      return {
+        data: null,
+        error: `${getAdminEntity(entity).singular} not found`,
+        status: 404,
+      }
+    }
+
+    const validation = validateAdminForm(entity, input)
+    const filled = validation.success ? await fillMediaLinks(entity, validation.data) : validation
+    if (!filled.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: filled.errors,
+        status: 422,
+      }
+    }
+
+    if (entity === 'horses') {
+      await saveHorse(id, filled.data, existing as Horse)
+    } else {
+      await repository.update(id, applyFormValues(entity, filled.data, existing))
+    }
+
+    return this.get(entity, id)
+  },
+
+  /**
+   * Hide a record from the public site without deleting it
+   */
+  async archive(entity: AdminEntity, id: string): Promise<ApiResponse<AdminRecord>> {
+    const repositories = await getRepositories()
+    const repository: Repository<AdminContent> = repositories[entity]
+    const archived = await repository.update(id, { status: 'archived' })
+
+    if (!archived) {
+      return {
+        data: null,
+        error: `${getAdminEntity(entity).singular} not found`,
+        status: 404,
+      }
+    }
+
+    if (entity === 'horses') {
+      await repositories.horseDetails.update(id, { status: 'archived' })
+    }
+
+    return this.get(entity, id)
+  },
+
+  /**
+   * Set the display order; `input.ids` lists every record in the collection
+   */
+  async reorder(entity: AdminEntity, input: unknown): Promise<ApiResponse<AdminListItem[]>> {
+    const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+    const repository: Repository<AdminContent> = (await getRepositories())[entity]
+    const existing = (await repository.list()).map(record => record.id)
+    const ids = Array.isArray(body.ids) ? body.ids : []
+
+    const isComplete =
+      ids.length === existing.length &&
+      new Set(ids).size === ids.length &&
+      ids.every(id => typeof id === 'string' && existing.includes(id))
+
+    if (!isComplete) {
+      return {
+        data: null,
+        error: 'The new order must list every record in the collection once',
+        status: 422,
+      }
+    }
+
+    await repository.reorder(ids)
+    return this.list(entity)
+  },
+}
+
+/**
+ * Role for a new account: addresses listed in `ADMIN_EMAILS` (comma-separated)
+ * start as admins so a fresh install can be set up, everyone else as a client
+ */
+function getInitialRole(email: string): UserRole {
+  const admins = (process.env.ADMIN_EMAILS ?? '').split(',').map(address => address.trim().toLowerCase())
+  return admins.includes(email) ? 'admin' : 'client'
+}
+
+async function findUserByEmail(email: string): Promise<User | null> {
+  const { users } = await getRepositories()
+  return (await users.list()).find(user => user.email === email) ?? null
+}
+
+/**
+ * Open a session for a user who has just proved who they are
+ */
+async function startSession(user: User, next: string): Promise<ApiResponse<SignInResult & { session: AuthSession }>> {
+  const { users, sessions } = await getRepositories()
+  const now = new Date()
+  const signedIn = await users.update(user.id, { lastSignInAt: now.toISOString() }) ?? user
+  const session = await sessions.create({
+    id: createToken(),
+    userId: user.id,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + SESSION_MAX_AGE * 1000).toISOString(),
+  })
+
+  return { data: { user: toSessionUser(signedIn), next, session }, status: 200 }
+}
+
+/**
+ * Local auth API
+ *
+ * Magic links, password sign-in and sessions. Route handlers turn the
+ * returned session into the signed cookie; nothing here touches cookies.
+ */
+export const localAuth = {
+  /**
+   * Email a single-use sign-in link. Answers the same whether or not the
+   * address has an account, which is created on first sign-in.
+   */
+  async requestMagicLink(input: unknown): Promise<ApiResponse<{ email: string }>> {
+    const result = validateMagicLinkRequest(input)
+    if (!result.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: result.errors,
+        status: 422,
+      }
+    }
+
+    const { loginTokens } = await getRepositories()
+    const now = new Date()
+    const expired = (await loginTokens.list()).filter(pending => new Date(pending.expiresAt) <= now)
+    await Promise.all(expired.map(pending => loginTokens.delete(pending.id)))
+
+    const token = createToken()
+    await loginTokens.create({
+      id: await hashToken(token),
+      email: result.data.email,
+      next: result.data.next,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + MAGIC_LINK_TTL_MINUTES * 60 * 1000).toISOString(),
+    })
+
+    try {
+      await sendMail({ to: result.data.email, ...renderMagicLink(token, MAGIC_LINK_TTL_MINUTES) })
+    } catch (error) {
+      console.error('Failed to send sign-in link', error)
+      return {
+        data: null,
+        error: 'We couldn\'t send your sign-in link. Please try again.',
+        status: 503,
+      }
+    }
+
+    return { data: { email: result.data.email }, status: 200 }
+  },
+
+  /**
+   * Use up a magic link (`{ token }`) and start a session, creating the
+   * account on first sign-in
+   */
+  async verifyMagicLink(input: unknown): Promise<ApiResponse<SignInResult & { session: AuthSession }>> {
+    const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+    const { users, loginTokens } = await getRepositories()
+    const id = typeof body.token === 'string' && body.token ? await hashToken(body.token) : null
+    const pending = id ? await loginTokens.findById(id) : null
+
+    if (!pending || new Date(pending.expiresAt) <= new Date()) {
+      if (pending) await loginTokens.delete(pending.id)
+      return {
+        data: null,
+        error: 'This sign-in link has expired or has already been used. Please request a new one.',
+        status: 410,
+      }
+    }
+
+    await loginTokens.delete(pending.id)
+
+    const user = await findUserByEmail(pending.email) ?? await users.create({
+      id: crypto.randomUUID(),
+      email: pending.email,
+      role: getInitialRole(pending.email),
+      createdAt: new Date().toISOString(),
+    })
+
+    return startSession(user, pending.next ?? '/account')
+  },
+
+  /**
+   * Start a session from an email and password; 401 when either is wrong
+   */
+  async signInWithPassword(input: unknown): Promise<ApiResponse<SignInResult & { session: AuthSession }>> {
+    const result = validatePasswordSignIn(input)
+    if (!result.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: result.errors,
+        status: 422,
+      }
+    }
+
+    const user = await findUserByEmail(result.data.email)
+    let valid = false
+    if (user?.passwordHash) {
+      valid = await verifyPassword(result.data.password, user.passwordHash)
+    } else {
+      // Hash anyway so response times don't reveal which addresses have passwords
+      await hashPassword(result.data.password)
+    }
+
+    if (!user || !valid) {
+      return {
+        data: null,
+        error: 'Email or password is incorrect',
+        status: 401,
+      }
+    }
+
+    return startSession(user, result.data.next)
+  },
+
+  /**
+   * The user behind a session, or null once it has expired or been revoked
+   */
+  async getSessionUser(sessionId: string, userId: string): Promise<SessionUser | null> {
+    const { users, sessions } = await getRepositories()
+    const session = await sessions.findById(sessionId)
+    if (!session || session.userId !== userId) return null
+
+    if (new Date(session.expiresAt) <= new Date()) {
+      await sessions.delete(session.id)
+      return null
+    }
+
+    const user = await users.findById(userId)
+    return user ? toSessionUser(user) : null
+  },
+
+  async signOut(sessionId: string): Promise<ApiResponse<{ signedOut: true }>> {
+    const { sessions } = await getRepositories()
+    await sessions.delete(sessionId)
+    return { data: { signedOut: true }, status: 200 }
+  },
+
+  /**
+   * Set or change a password; 422 with field `errors` on invalid input
+   */
+  async changePassword(userId: string, input: unknown): Promise<ApiResponse<SessionUser>> {
+    const { users } = await getRepositories()
+    const user = await users.findById(userId)
+
+    if (!user) {
+      return {
+        data: null,
+        error: 'Account not found',
+        status: 404,
+      }
+    }
+
+    const result = validatePasswordChange(input, Boolean(user.passwordHash))
+    if (!result.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: result.errors,
+        status: 422,
+      }
+    }
+
+    if (user.passwordHash && !await verifyPassword(result.data.currentPassword, user.passwordHash)) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: { currentPassword: 'Current password is incorrect' },
+        status: 422,
+      }
+    }
+
+    const updated = await users.update(userId, { passwordHash: await hashPassword(result.data.password) })
+    return { data: toSessionUser(updated ?? user), status: 200 }
+  },
+}
+
+/**
+ * Local accounts API, for admins
+ */
+export const localUsers = {
+  async list(): Promise<ApiResponse<SessionUser[]>> {
+    const { users } = await getRepositories()
+    return { data: (await users.list()).map(toSessionUser), status: 200 }
+  },
+
+  /**
+   * Change someone's role (`{ role }`). Admins can't change their own, so
+   * there is always at least one admin left.
+   */
+  async setRole(id: string, input: unknown, actingUserId: string): Promise<ApiResponse<SessionUser>> {
+    const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+    if (!isUserRole(body.role)) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: { role: 'Please choose a valid role' },
+        status: 422,
+      }
+    }
+
+    if (id === actingUserId) {
+      return {
+        data: null,
+        error: 'You can\'t change your own role',
+        status: 409,
+      }
+    }
+
+    const { users } = await getRepositories()
+    const updated = await users.update(id, { role: body.role })
+
+    if (!updated) {
+      return {
+        data: null,
+        error: 'Account not found',
+        status: 404,
+      }
+    }
+
+    return { data: toSessionUser(updated), status: 200 }
+  },
+}
+
+/**
+ * Name of the first record showing an asset, or null when it's unused
+ */
+async function findMediaUser(id: string): Promise<string | null> {
+  const { horses, horseDetails, products, articles, videos } = await getRepositories()
+  const uses = (record: WithMedia) => record.imageId === id || Boolean(record.imageIds?.includes(id))
+
+  const horse = (await horses.list()).find(uses) ?? (await horseDetails.list()).find(uses)
+  if (horse) return horse.name
+  const product = (await products.list()).find(uses)
+  if (product) return product.name
+  const article = (await articles.list()).find(uses)
+  if (article) return article.title
+  const video = (await videos.list()).find((record) => record.posterId === id)
+  return video?.title ?? null
+}
+
+/**
+ * Media library: uploaded images shared by horses, products and articles
+ */
+export const localMedia = {
+  /**
+   * Every asset, newest first
+   */
+  async list(): Promise<ApiResponse<MediaAsset[]>> {
+    const { media } = await getRepositories()
+    const assets = (await media.list()).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    return { data: assets, status: 200 }
+  },
+
+  /**
+   * Process and store an upload; 422 with field `errors` when it isn't a
+   * supported image
+   */
+  async upload(file: unknown, alt: unknown, uploadedBy?: string): Promise<ApiResponse<MediaAsset>> {
+    const validation = validateMediaUpload(file, alt)
+    if (!validation.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: validation.errors,
+        status: 422,
+      }
+    }
+
+    const id = crypto.randomUUID()
+    const { file: upload } = validation.data
+    let stored: StoredMedia | null
+    try {
+      stored = await saveUpload(id, new Uint8Array(await upload.arrayBuffer()))
+    } catch (error) {
+      console.error(`Failed to process upload ${upload.name}`, error)
+      await deleteMediaFiles(id).catch(() => undefined)
+      return {
+        data: null,
+        error: 'The image could not be processed. Please try another file.',
+        status: 500,
+      }
+    }
+
+    if (!stored) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: { file: 'This file isn\'t a JPEG, PNG, WebP or AVIF image' },
+        status: 422,
+      }
+    }
+
+    const { media } = await getRepositories()
+    const asset = await media.create({
+      id,
+      filename: upload.name,
+      alt: validation.data.alt,
+      ...stored,
+      createdAt: new Date().toISOString(),
+      uploadedBy,
+    })
+
+    return { data: asset, status: 201 }
+  },
+
+  /**
+   * Edit an asset's alt text; 422 with field `errors` on invalid input
+   */
+  async update(id: string, input: unknown): Promise<ApiResponse<MediaAsset>> {
+    const validation = validateMediaChanges(input)
+    if (!validation.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: validation.errors,
+        status: 422,
+      }
+    }
+
+    const { media } = await getRepositories()
+    const updated = await media.update(id, validation.data)
+
+    if (!updated) {
+      return {
+        data: null,
+        error: 'Image not found',
+        status: 404,
+      }
+    }
+
+    return { data: updated, status: 200 }
+  },
+
+  /**
+   * Delete an asset and its files; 409 while a record still shows it
+   */
+  async remove(id: string): Promise<ApiResponse<MediaAsset>> {
+    const { media } = await getRepositories()
+    const asset = await media.findById(id)
+
+    if (!asset) {
+      return {
+        data: null,
+        error: 'Image not found',
+        status: 404,
+      }
+    }
+
+    const user = await findMediaUser(id)
+    if (user) {
+      return {
+        data: null,
+        error: `This image is still used by ${user}`,
+        status: 409,
+      }
+    }
+
+    await deleteMediaFiles(id)
+    await media.delete(id)
+    return { data: asset, status: 200 }
+  },
+}
+
+/**
+ * Check video details, including that the poster is a library image
+ */
+async function validateVideo(input: unknown): Promise<ValidationResult<{ title: string; posterId?: string }, 'title' | 'posterId'>> {
+  const validation = validateVideoDetails(input)
+  if (!validation.success || !validation.data.posterId) return validation
+
+  const { media } = await getRepositories()
+  if (!(await media.findById(validation.data.posterId))) {
+    return { success: false, errors: { posterId: 'Please choose a poster from the media library' } }
+  }
+  return validation
+}
+
+/**
+ * Media library videos: pre-encoded renditions, a poster and WebVTT tracks
+ */
+export const localVideos = {
+  /**
+   * Every video, newest first
+   */
+  async list(): Promise<ApiResponse<MediaVideo[]>> {
+    const { videos } = await getRepositories()
+    const list = (await videos.list()).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    return { data: list, status: 200 }
+  },
+
+  /**
+   * A video ready to play, with its poster's responsive sources
+   */
+  async getById(id: string): Promise<ApiResponse<VideoEntry>> {
+    const { videos, media } = await getRepositories()
+    const video = await videos.findById(id)
+
+    if (!video) {
+      return {
+        data: null,
+        error: 'Video not found',
+        status: 404,
+      }
+    }
+
+    const poster = video.posterId ? await media.findById(video.posterId) : null
+    return {
+      data: {
+        id: video.id,
+        title: video.title,
+        poster: poster ? toResponsiveImage(poster) : undefined,
+        renditions: video.renditions,
+        tracks: video.tracks,
+      },
+      status: 200,
+    }
+  },
+
+  /**
+   * Add a video without files; renditions and tracks are uploaded next
+   */
+  async create(input: unknown, uploadedBy?: string): Promise<ApiResponse<MediaVideo>> {
+    const validation = await validateVideo(input)
+    if (!validation.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: validation.errors,
+        status: 422,
+      }
+    }
+
+    const { videos } = await getRepositories()
+    const video = await videos.create({
+      id: crypto.randomUUID(),
+      ...validation.data,
+      renditions: [],
+      tracks: [],
+      createdAt: new Date().toISOString(),
+      uploadedBy,
+    })
+
+    return { data: video, status: 201 }
+  },
+
+  /**
+   * Change a video's title or poster; 422 with field `errors` on invalid input
+   */
+  async update(id: string, input: unknown): Promise<ApiResponse<MediaVideo>> {
+    const validation = await validateVideo(input)
+    if (!validation.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: validation.errors,
+        status: 422,
+      }
+    }
+
+    const { videos } = await getRepositories()
+    const updated = await videos.update(id, validation.data)
+
+    if (!updated) {
+      return {
+        data: null,
+        error: 'Video not found',
+        status: 404,
+      }
+    }
+
+    return { data: updated, status: 200 }
+  },
+
+  /**
+   * Store a pre-encoded rendition; 422 when the file doesn't match its codec's
+   * container, 409 when the video already has that size and codec
+   */
+  async addRendition(
+    id: string,
+    file: unknown,
+    fields: { codec: unknown; width: unknown; height: unknown }
+  ): Promise<ApiResponse<VideoRendition>> {
+    const validation = validateVideoRendition(file, fields)
+    if (!validation.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: validation.errors,
+        status: 422,
+      }
+    }
+
+    const { videos } = await getRepositories()
+    const video = await videos.findById(id)
+
+    if (!video) {
+      return {
+        data: null,
+        error: 'Video not found',
+        status: 404,
+      }
+    }
+
+    const { file: upload, codec, width, height } = validation.data
+    if (video.renditions.some((rendition) => rendition.codec === codec && rendition.width === width)) {
+      return {
+        data: null,
+        error: `This video already has a ${width}px ${getVideoCodec(codec).label} rendition`,
+        status: 409,
+      }
+    }
+
+    const data = new Uint8Array(await upload.arrayBuffer())
+    const { mimeType, extension } = getVideoCodec(codec)
+    if (!isVideoContainer(data, mimeType)) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: { file: `This file isn't ${extension === 'webm' ? 'a WebM' : 'an MP4'} video` },
+        status: 422,
+      }
+    }
+
+    const renditionId = crypto.randomUUID()
+    const url = await saveMediaFile(`${id}/${renditionId}.${extension}`, data)
+    if (!url) {
+      return {
+        data: null,
+        error: 'Videos can only be stored on the server',
+        status: 500,
+      }
+    }
+
+    const rendition: VideoRendition = { id: renditionId, codec, width, height, url, bytes: data.byteLength }
+    await videos.update(id, {
+      renditions: [...video.renditions, rendition].sort((a, b) => a.width - b.width),
+    })
+
+    return { data: rendition, status: 201 }
+  },
+
+  /**
+   * Store a WebVTT caption, subtitle or chapter track; 409 when the video
+   * already has that kind of track in that language
+   */
+  async addTrack(
+    id: string,
+    file: unknown,
+    fields: { kind: unknown; label: unknown; srcLang: unknown }
+  ): Promise<ApiResponse<VideoTrack>> {
+    const validation = validateVideoTrack(file, fields)
+    if (!validation.success) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: validation.errors,
+        status: 422,
+      }
+    }
+
+    const { videos } = await getRepositories()
+    const video = await videos.findById(id)
+
+    if (!video) {
+      return {
+        data: null,
+        error: 'Video not found',
+        status: 404,
+      }
+    }
+
+    const { file: upload, kind, label, srcLang } = validation.data
+    if (video.tracks.some((track) => track.kind === kind && track.srcLang === srcLang)) {
+      return {
+        data: null,
+        error: `This video already has ${kind} in ${srcLang}`,
+        status: 409,
+      }
+    }
+
+    const text = await upload.text()
+    if (!isWebVtt(text)) {
+      return {
+        data: null,
+        error: 'Please correct the highlighted fields',
+        errors: { file: 'This file isn\'t a WebVTT (.vtt) track' },
+        status: 422,
+      }
+    }
+
+    const trackId = crypto.randomUUID()
+    const url = await saveMediaFile(`${id}/${trackId}.vtt`, new TextEncoder().encode(text))
+    if (!url) {
+      return {
+        data: null,
+        error: 'Tracks can only be stored on the server',
+        status: 500,
+      }
+    }
+
+    const track: VideoTrack = { id: trackId, kind, label, srcLang, url }
+    await videos.update(id, { tracks: [...video.tracks, track] })
+
+    return { data: track, status: 201 }
+  },
+
+  /**
+   * Remove one rendition or track and its file
+   */
+  async removeFile(id: string, fileId: string): Promise<ApiResponse<MediaVideo>> {
+    const { videos } = await getRepositories()
+    const video = await videos.findById(id)
+    const rendition = video?.renditions.find((r) => r.id === fileId)
+    const track = video?.tracks.find((t) => t.id === fileId)
+
+    if (!video || (!rendition && !track)) {
+      return {
+        data: null,
+        error: 'Video file not found',
+        status: 404,
+      }
+    }
+
+    await deleteMediaFiles(rendition ? `${id}/${fileId}.${getVideoCodec(rendition.codec).extension}` : `${id}/${fileId}.vtt`)
+    const updated = await videos.update(id, {
+      renditions: video.renditions.filter((r) => r.id !== fileId),
+      tracks: video.tracks.filter((t) => t.id !== fileId),
+    })
+
+    return { data: updated, status: 200 }
+  },
+
+  /**
+   * Delete a video and all of its files; its poster stays in the library
+   */
+  async remove(id: string): Promise<ApiResponse<MediaVideo>> {
+    const { videos } = await getRepositories()
+    const video = await videos.findById(id)
+
+    if (!video) {
+      return {
+        data: null,
+        error: 'Video not found',
+        status: 404,
+      }
+    }
+
+    await deleteMediaFiles(id)
+    await videos.delete(id)
+    return { data: video, status: 200 }
+  },
+}
+
+/**
+ * Global search across all content types
+ */
+export async function localSearch(query: string): Promise<ApiResponse<SearchResults>> {
+  const q = query.toLowerCase()
+
+  const [horsesResult, productsResult, articlesResult] = await Promise.all([
+    localHorses.list({ search: query }),
+    localProducts.list(),
+    localArticles.list(),
+  ])
+
+  const filteredProducts = productsResult.data?.filter(p =>
+    p.name.toLowerCase().includes(q) ||
+    p.description.toLowerCase().includes(q)
+  ) || []
+
+  const filteredArticles = articlesResult.data?.filter(a =>
+    a.title.toLowerCase().includes(q) ||
+    a.excerpt?.toLowerCase().includes(q)
+  ) || []
+
+  return {
+    data: {
+      horses: horsesResult.data || [],
+      products: filteredProducts,
+      articles: filteredArticles,
+    },
+    status: 200,
+  }
+}
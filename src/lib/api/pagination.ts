@@ -0,0 +1,133 @@
+/**
+ * Pagination
+ *
+ * Page- and cursor-based slicing and sorting for list queries. Lists without
+ * a page, page size or cursor are returned whole, so existing callers keep
+ * receiving every record.
+ */
+
+/**
+ * Sort direction
+ */
+export type SortOrder = 'asc' | 'desc'
+
+/**
+ * Page request
+ */
+export interface PageParams {
+  /** 1-based page number */
+  page?: number
+  /** Records per page */
+  pageSize?: number
+  /** Opaque cursor from a previous response's `nextCursor`; takes precedence over `page` */
+  cursor?: string
+}
+
+/**
+ * Sort request for a list with sort keys `K`
+ */
+export interface SortParams<K extends string> {
+  /** Sort key; repository order when omitted */
+  sortBy?: K
+  /** Sort direction; each key has its own natural default */
+  order?: SortOrder
+}
+
+/**
+ * Pagination metadata returned alongside a page of results
+ */
+export interface PaginationMeta {
+  /** Records matching the query across all pages */
+  total: number
+  /** 1-based page number */
+  page: number
+  /** Records per page */
+  pageSize: number
+  /** Number of pages available */
+  totalPages: number
+  /** Cursor for the following page, or null on the last page */
+  nextCursor: string | null
+}
+
+/**
+ * Largest page size a caller may request
+ */
+export const MAX_PAGE_SIZE = 100
+
+/**
+ * Page size used when only a page number or cursor is given
+ */
+export const DEFAULT_API_PAGE_SIZE = 12
+
+/**
+ * Encode a record offset as an opaque cursor
+ */
+export function encodeCursor(offset: number): string {
+  return btoa(`o:${offset}`).replace(/=+$/, '')
+}
+
+/**
+ * Decode a cursor back to a record offset, or null if it is malformed
+ */
+export function decodeCursor(cursor: string): number | null {
+  try {
+    const match = /^o:(\d+)$/.exec(atob(cursor))
+    return match ? Number(match[1]) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Sort a copy of a list by one of several ascending comparators
+ *
+ * @param defaultOrders - Natural direction for keys that don't sort ascending by default
+ */
+export function sortList<T, K extends string>(
+  items: T[],
+  comparators: Record<K, (a: T, b: T) => number>,
+  params: SortParams<K> = {},
+  defaultOrders: Partial<Record<K, SortOrder>> = {}
+): T[] {
+  if (!params.sortBy || !comparators[params.sortBy]) return items
+
+  const compare = comparators[params.sortBy]
+  const order = params.order ?? defaultOrders[params.sortBy] ?? 'asc'
+  const direction = order === 'desc' ? -1 : 1
+
+  return [...items].sort((a, b) => compare(a, b) * direction)
+}
+
+/**
+ * Slice a list into the requested page
+ */
+export function paginate<T>(items: T[], params: PageParams = {}): { items: T[]; pagination: PaginationMeta } {
+  const total = items.length
+
+  if (params.page === undefined && params.pageSize === undefined && params.cursor === undefined) {
+    return {
+      items,
+      pagination: { total, page: 1, pageSize: total, totalPages: 1, nextCursor: null },
+    }
+  }
+
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(params.pageSize ?? DEFAULT_API_PAGE_SIZE)))
+  const totalPages = Math.max(1, Math.ceil(total / pageSize))
+
+  const cursorOffset = params.cursor ? decodeCursor(params.cursor) : null
+  const start = cursorOffset !== null
+    ? Math.min(total, cursorOffset)
+    : (Math.min(totalPages, Math.max(1, Math.floor(params.page ?? 1))) - 1) * pageSize
+  const end = start + pageSize
+
+  return {
+    items: items.slice(start, end),
+    pagination: {
+      total,
+      page: Math.floor(start / pageSize) + 1,
+      pageSize,
+      totalPages,
+      nextCursor: end < total ? encodeCursor(end) : null,
+    },
+  }
+}
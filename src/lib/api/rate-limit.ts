@@ -0,0 +1,79 @@
+/**
+ * Rate Limiting
+ *
+ * Fixed-window, in-process request counting for public write endpoints.
+ * Counts live in memory, so limits apply per server instance.
+ */
+
+/**
+ * Limiter settings
+ */
+export interface RateLimitOptions {
+  /** Requests allowed per window */
+  limit: number
+  /** Window length in milliseconds */
+  windowMs: number
+}
+
+/**
+ * Outcome of a rate limit check
+ */
+export interface RateLimitResult {
+  allowed: boolean
+  /** Requests left in the current window */
+  remaining: number
+  /** Seconds until the window resets */
+  retryAfter: number
+}
+
+interface Window {
+  count: number
+  resetAt: number
+}
+
+/**
+ * A limiter keyed by caller (usually the client IP)
+ */
+export interface RateLimiter {
+  check(key: string): RateLimitResult
+  /** Forget all counts */
+  reset(): void
+}
+
+/**
+ * Create a fixed-window rate limiter
+ */
+export function createRateLimiter({ limit, windowMs }: RateLimitOptions): RateLimiter {
+  const windows = new Map<string, Window>()
+
+  const prune = (now: number) => {
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) windows.delete(key)
+    })
+  }
+
+  return {
+    check(key) {
+      const now = Date.now()
+      if (windows.size > 1000) prune(now)
+
+      let window = windows.get(key)
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs }
+        windows.set(key, window)
+      }
+
+      window.count += 1
+
+      return {
+        allowed: window.count <= limit,
+        remaining: Math.max(0, limit - window.count),
+        retryAfter: Math.ceil((window.resetAt - now) / 1000),
+      }
+    },
+
+    reset() {
+      windows.clear()
+    },
+  }
+}
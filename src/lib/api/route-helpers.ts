@@ -0,0 +1,139 @@
+/**
+ * Route Handler Helpers
+ *
+ * Shared plumbing for the `app/api` route handlers: query param parsing and
+ * serialising `ApiResponse` envelopes with a matching HTTP status or as file
+ * downloads.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import type { ApiResponse } from './types'
+import type { PageParams, SortOrder } from './pagination'
+
+/**
+ * Send an ApiResponse envelope using its status as the HTTP status
+ */
+export function jsonResponse<T>(result: ApiResponse<T>, init?: ResponseInit): NextResponse<ApiResponse<T>> {
+  return NextResponse.json(result, { ...init, status: result.status })
+}
+
+/**
+ * Send an error envelope
+ */
+export function errorResponse(status: number, error: string): NextResponse<ApiResponse<never>> {
+  return jsonResponse<never>({ data: null, error, status })
+}
+
+/**
+ * Send a file download
+ */
+export function attachmentResponse(content: string | Uint8Array<ArrayBuffer>, contentType: string, filename: string): NextResponse {
+  return new NextResponse(content, {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${filename.replace(/[^\w.-]+/g, '-')}"`,
+    },
+  })
+}
+
+/**
+ * Parse a JSON request body, or null when it is missing or malformed
+ */
+export async function readJsonBody(request: NextRequest): Promise<unknown> {
+  try {
+    return await request.json()
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Best-effort client address for rate limiting
+ */
+export function getClientIp(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for')
+  if (forwarded) return forwarded.split(',')[0].trim()
+
+  return request.headers.get('x-real-ip') ?? 'unknown'
+}
+
+/**
+ * Read a string param, treating empty values as absent
+ */
+export function parseString(searchParams: URLSearchParams, key: string): string | undefined {
+  const value = searchParams.get(key)
+  return value ? value : undefined
+}
+
+/**
+ * Read a string param, ignoring values that are not in `values`
+ */
+export function parseOption<T extends string>(
+  searchParams: URLSearchParams,
+  key: string,
+  values: readonly T[]
+): T | undefined {
+  const value = parseString(searchParams, key) as T | undefined
+  return value && values.includes(value) ? value : undefined
+}
+
+/**
+ * Read a repeatable string param (`?breed=a&breed=b`), also accepting comma-separated values
+ */
+export function parseList(searchParams: URLSearchParams, key: string): string[] | undefined {
+  const values = searchParams
+    .getAll(key)
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter(Boolean)
+
+  return values.length > 0 ? values : undefined
+}
+
+/**
+ * Read a numeric param, ignoring values that are not finite numbers
+ */
+export function parseNumber(searchParams: URLSearchParams, key: string): number | undefined {
+  const value = searchParams.get(key)
+  if (value === null || value === '') return undefined
+
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+/**
+ * Read a boolean param (`true`/`1` or `false`/`0`)
+ */
+export function parseBoolean(searchParams: URLSearchParams, key: string): boolean | undefined {
+  const value = searchParams.get(key)
+  if (value === 'true' || value === '1') return true
+  if (value === 'false' || value === '0') return false
+  return undefined
+}
+
+/**
+ * Read `page`, `pageSize` and `cursor`
+ */
+export function parsePageParams(searchParams: URLSearchParams): PageParams {
+  return {
+    page: parseNumber(searchParams, 'page'),
+    pageSize: parseNumber(searchParams, 'pageSize'),
+    cursor: parseString(searchParams, 'cursor'),
+  }
+}
+
+/**
+ * Read `sortBy` and `order`, dropping keys that are not in `keys`
+ */
+export function parseSortParams<K extends string>(
+  searchParams: URLSearchParams,
+  keys: readonly K[]
+): { sortBy?: K; order?: SortOrder } {
+  const sortBy = parseString(searchParams, 'sortBy') as K | undefined
+  const order = parseString(searchParams, 'order')
+
+  return {
+    sortBy: sortBy && keys.includes(sortBy) ? sortBy : undefined,
+    order: order === 'asc' || order === 'desc' ? order : undefined,
+  }
+}
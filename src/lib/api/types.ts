@@ -0,0 +1,114 @@
+/**
+ * API Types
+ *
+ * Shared request and response shapes used by the client API objects,
+ * the local data source, and the route handlers in `app/api`.
+ */
+
+import type { Horse, HorseAvailability, FilterOptions } from '@/components/sections/horse-portfolio'
+import type { Product } from '@/components/sections/product-showcase'
+import type { Stallion } from '@/components/sections/breeding-program'
+import type { Article } from '@/components/sections/editorial-layouts'
+import type { SaleClass } from '@/lib/horses/sale-class'
+import type { FieldErrors } from '@/lib/validation'
+import type { PageParams, PaginationMeta, SortParams } from './pagination'
+
+/**
+ * API response wrapper
+ */
+export interface ApiResponse<T> {
+  data: T | null
+  error?: string
+  /** Per-field validation messages for rejected input */
+  errors?: FieldErrors
+  status: number
+  cached?: boolean
+}
+
+/**
+ * List response carrying pagination metadata
+ *
+ * `pagination` is always present on list responses from the local source
+ * and route handlers; it is optional so plain envelopes remain assignable.
+ */
+export interface PaginatedApiResponse<T> extends ApiResponse<T[]> {
+  pagination?: PaginationMeta
+}
+
+/**
+ * Horse sort order
+ */
+export type HorseSortBy = FilterOptions['sortBy']
+
+/**
+ * Horse list filters
+ */
+export interface HorseQueryParams extends PageParams, SortParams<HorseSortBy> {
+  /** One breed, or any of several */
+  breed?: string | string[]
+  /** One discipline, or any of several */
+  discipline?: string | string[]
+  minAge?: number
+  maxAge?: number
+  minPrice?: number
+  maxPrice?: number
+  search?: string
+  /** Only horses of this derived sale class */
+  saleClass?: SaleClass
+  /** Only horses with this availability */
+  availability?: HorseAvailability
+  /** Include sold horses (hidden by default) */
+  includeSold?: boolean
+}
+
+/**
+ * Product sort keys
+ */
+export type ProductSortBy = 'name' | 'price' | 'rating'
+
+/**
+ * Product list filters
+ */
+export interface ProductQueryParams extends PageParams, SortParams<ProductSortBy> {
+  category?: Product['category'] | 'all'
+  featured?: boolean
+  inStock?: boolean
+}
+
+/**
+ * Stallion sort keys
+ */
+export type StallionSortBy = 'name' | 'studFee' | 'age'
+
+/**
+ * Stallion list filters
+ */
+export interface StallionQueryParams extends PageParams, SortParams<StallionSortBy> {
+  bookingStatus?: Stallion['bookingStatus']
+  /** Season to compute availability for; defaults to the current booking season */
+  season?: number
+}
+
+/**
+ * Article sort keys
+ */
+export type ArticleSortBy = 'publishDate' | 'title'
+
+/**
+ * Article list filters
+ */
+export interface ArticleQueryParams extends PageParams, SortParams<ArticleSortBy> {
+  category?: string
+  featured?: boolean
+  /** Cap the list before pagination */
+  limit?: number
+}
+
+/**
+ * Global search results
+ */
+export interface SearchResults {
+  horses: Horse[]
+  products: Product[]
+  articles: Article[]
+}
@@ -0,0 +1,48 @@
+/**
+ * Passwords
+ *
+ * PBKDF2-SHA256 hashing through Web Crypto. Hashes are stored as
+ * `pbkdf2$<iterations>$<salt>$<hash>` so the work factor can be raised
+ * later without invalidating existing passwords.
+ */
+
+import { fromBase64Url, toBase64Url } from './tokens'
+
+/**
+ * Work factor for new hashes (OWASP's recommendation for PBKDF2-SHA256)
+ */
+const ITERATIONS = 600_000
+const KEY_LENGTH_BITS = 256
+
+async function derive(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<Uint8Array<ArrayBuffer>> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, KEY_LENGTH_BITS)
+  return new Uint8Array(bits)
+}
+
+/**
+ * Hash a password for storage
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const hash = await derive(password, salt, ITERATIONS)
+  return ['pbkdf2', ITERATIONS, toBase64Url(salt), toBase64Url(hash)].join('$')
+}
+
+/**
+ * Check a password against a stored hash; false for malformed hashes
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, salt, hash] = stored.split('$')
+  if (scheme !== 'pbkdf2' || !Number(iterations) || !salt || !hash) return false
+
+  const expected = fromBase64Url(hash)
+  const actual = await derive(password, fromBase64Url(salt), Number(iterations))
+
+  // Compare every byte so the time taken doesn't reveal how much matched
+  let difference = expected.length ^ actual.length
+  for (let i = 0; i < actual.length; i++) {
+    difference |= actual[i] ^ (expected[i] ?? 0)
+  }
+  return difference === 0
+}
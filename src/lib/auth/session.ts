@@ -0,0 +1,80 @@
+/**
+ * Session
+ *
+ * Resolves the signed-in user for server components and route handlers from
+ * the signed session cookie, and sets or clears that cookie on sign-in and
+ * sign-out responses. Server-only: client components use `useSession()`.
+ */
+
+import { cookies } from 'next/headers'
+import type { NextResponse } from 'next/server'
+import { localAuth } from '@/lib/api/local-source'
+import { jsonResponse } from '@/lib/api/route-helpers'
+import type { ApiResponse } from '@/lib/api/types'
+import type { AuthSession, SessionUser, SignInResult } from './users'
+import {
+  SESSION_COOKIE,
+  SESSION_MAX_AGE,
+  signSessionClaims,
+  verifySessionClaims,
+  type SessionClaims,
+} from './tokens'
+
+export type { SessionUser } from './users'
+
+/**
+ * Verified claims from the request's session cookie, without checking the
+ * session is still open; use `getSessionUser()` for access decisions
+ */
+export async function getSessionClaims(): Promise<SessionClaims | null> {
+  const store = await cookies()
+  return verifySessionClaims(store.get(SESSION_COOKIE)?.value)
+}
+
+/**
+ * Get the user for the current request, or null when anonymous or when the
+ * session has expired or been signed out
+ */
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const claims = await getSessionClaims()
+  return claims ? localAuth.getSessionUser(claims.sid, claims.uid) : null
+}
+
+/**
+ * Respond to a sign-in, setting the session cookie when it succeeded. The
+ * session itself never appears in the response body.
+ */
+export async function signInResponse(
+  result: ApiResponse<SignInResult & { session: AuthSession }>
+): Promise<NextResponse<ApiResponse<SignInResult>>> {
+  if (!result.data) {
+    return jsonResponse<SignInResult>({ ...result, data: null })
+  }
+
+  const { session, ...signIn } = result.data
+  const response = jsonResponse({ data: signIn, status: result.status })
+  const value = await signSessionClaims({
+    sid: session.id,
+    uid: signIn.user.id,
+    role: signIn.user.role,
+    exp: Math.floor(new Date(session.expiresAt).getTime() / 1000),
+  })
+
+  response.cookies.set(SESSION_COOKIE, value, {
+    httpOnly: true,
+    // Lax keeps the cookie off cross-site form posts
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE,
+  })
+  return response
+}
+
+/**
+ * Remove the session cookie from a response
+ */
+export function clearSessionCookie<T>(response: NextResponse<T>): NextResponse<T> {
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+}
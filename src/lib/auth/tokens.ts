@@ -0,0 +1,141 @@
+/**
+ * Tokens
+ *
+ * Random tokens for magic links and the signed session cookie. Uses Web
+ * Crypto only, so the proxy can check the cookie without touching the
+ * database. Set `AUTH_SECRET` to a long random string in production.
+ */
+
+import { isUserRole, type UserRole } from './users'
+
+/**
+ * Session cookie name
+ */
+export const SESSION_COOKIE = 'mam_session'
+
+/**
+ * How long a session lasts, in seconds
+ */
+export const SESSION_MAX_AGE = 30 * 24 * 60 * 60
+
+/**
+ * How long a magic link stays valid, in minutes
+ */
+export const MAGIC_LINK_TTL_MINUTES = 15
+
+/**
+ * What the session cookie asserts. The role lets the proxy turn people away
+ * early; route handlers and pages still load the session and user to decide.
+ */
+export interface SessionClaims {
+  /** Session id */
+  sid: string
+  /** User id */
+  uid: string
+  role: UserRole
+  /** Expiry, in seconds since the epoch */
+  exp: number
+}
+
+// Only used outside production so local sign-in works without configuration
+const DEVELOPMENT_SECRET = 'mam-center-development-secret-do-not-use-in-production'
+
+/**
+ * Encode bytes as unpadded base64url
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Decode unpadded base64url; malformed input decodes to no bytes
+ */
+export function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+  } catch {
+    return new Uint8Array(0)
+  }
+}
+
+/**
+ * Unguessable token for links and session ids
+ */
+export function createToken(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+/**
+ * SHA-256 of a token, hex encoded, for storing in place of the token itself
+ */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function getAuthSecret(): string {
+  const secret = process.env.AUTH_SECRET
+  if (secret) return secret
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET must be set in production')
+  }
+  return DEVELOPMENT_SECRET
+}
+
+function getSigningKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(getAuthSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  )
+}
+
+/**
+ * Cookie value for a session: base64url JSON claims and an HMAC signature
+ */
+export async function signSessionClaims(claims: SessionClaims): Promise<string> {
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(claims)))
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), new TextEncoder().encode(payload))
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+/**
+ * Claims from a session cookie, or null when it is missing, tampered with
+ * or expired
+ */
+export async function verifySessionClaims(value: string | undefined): Promise<SessionClaims | null> {
+  const [payload, signature] = value?.split('.') ?? []
+  if (!payload || !signature) return null
+
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    await getSigningKey(),
+    fromBase64Url(signature),
+    new TextEncoder().encode(payload)
+  )
+  if (!valid) return null
+
+  try {
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as Partial<SessionClaims>
+    if (
+      typeof claims.sid !== 'string' ||
+      typeof claims.uid !== 'string' ||
+      !isUserRole(claims.role) ||
+      typeof claims.exp !== 'number' ||
+      claims.exp * 1000 <= Date.now()
+    ) {
+      return null
+    }
+    return claims as SessionClaims
+  } catch {
+    return null
+  }
+}
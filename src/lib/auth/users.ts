@@ -0,0 +1,220 @@
+/**
+ * Accounts
+ *
+ * User records, roles and the sign-in form validators. Client-safe: the
+ * hashing and cookie signing live in `password.ts` and `tokens.ts`.
+ */
+
+import { hasErrors, isEmail, readString, type FieldErrors, type ValidationResult } from '@/lib/validation'
+
+/**
+ * What a user may do, from least to most access: clients shortlist and
+ * enquire, the breeding and sales teams look after their parts of the
+ * catalogue, and admins do everything including managing accounts
+ */
+export type UserRole = 'client' | 'breeder' | 'sales' | 'admin'
+
+export const USER_ROLES: { value: UserRole; label: string }[] = [
+  { value: 'client', label: 'Client' },
+  { value: 'breeder', label: 'Breeding team' },
+  { value: 'sales', label: 'Sales team' },
+  { value: 'admin', label: 'Administrator' },
+]
+
+/**
+ * Roles that work for us and may see internal records such as private vet notes
+ */
+export const STAFF_ROLES: UserRole[] = ['breeder', 'sales', 'admin']
+
+/**
+ * Passwords shorter than this are rejected
+ */
+export const MIN_PASSWORD_LENGTH = 10
+
+/**
+ * Stored account
+ */
+export interface User {
+  id: string
+  /** Lowercased; unique across accounts */
+  email: string
+  name?: string
+  role: UserRole
+  /** Absent until the user sets a password; magic links always work */
+  passwordHash?: string
+  createdAt: string
+  lastSignInAt?: string
+}
+
+/**
+ * Signed-in user as the rest of the app sees it, without credentials
+ */
+export interface SessionUser {
+  id: string
+  email: string
+  name?: string
+  role: UserRole
+  /** Whether password sign-in is set up */
+  hasPassword: boolean
+}
+
+/**
+ * Stored session; the cookie carries its id
+ */
+export interface AuthSession {
+  id: string
+  userId: string
+  createdAt: string
+  expiresAt: string
+}
+
+/**
+ * Pending magic link
+ */
+export interface LoginToken {
+  /** SHA-256 of the emailed token, so a leaked table can't be used to sign in */
+  id: string
+  email: string
+  /** Where to go after signing in */
+  next?: string
+  createdAt: string
+  expiresAt: string
+}
+
+/**
+ * Result of signing in
+ */
+export interface SignInResult {
+  user: SessionUser
+  /** Where to go next; always a path on this site */
+  next: string
+}
+
+/**
+ * Label for a role
+ */
+export function getUserRoleLabel(role: UserRole): string {
+  return USER_ROLES.find((r) => r.value === role)?.label ?? role
+}
+
+/**
+ * Whether a value names a role
+ */
+export function isUserRole(value: unknown): value is UserRole {
+  return USER_ROLES.some((role) => role.value === value)
+}
+
+/**
+ * Whether the user may see staff-only records
+ */
+export function isStaff(user: { role: UserRole } | null | undefined): boolean {
+  return user ? STAFF_ROLES.includes(user.role) : false
+}
+
+/**
+ * Whether the user may change other people's roles
+ */
+export function isAdmin(user: { role: UserRole } | null | undefined): boolean {
+  return user?.role === 'admin'
+}
+
+/**
+ * Public view of an account
+ */
+export function toSessionUser(user: User): SessionUser {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    hasPassword: Boolean(user.passwordHash),
+  }
+}
+
+/**
+ * Name to show for a user, falling back to their email
+ */
+export function getDisplayName(user: Pick<SessionUser, 'email' | 'name'>): string {
+  return user.name || user.email
+}
+
+/**
+ * A path on this site to return to after signing in, or `/account`
+ *
+ * Rejects absolute and protocol-relative URLs so sign-in links can't be
+ * used to send people elsewhere.
+ */
+export function getSafeRedirect(next: unknown): string {
+  const path = readString(next)
+  return path.startsWith('/') && !path.startsWith('//') && !path.includes('\\') ? path : '/account'
+}
+
+/**
+ * Normalise an email address for storage and lookups
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+/**
+ * Validate a magic link request (`{ email, next? }`)
+ */
+export function validateMagicLinkRequest(
+  input: unknown
+): ValidationResult<{ email: string; next: string }, 'email'> {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const email = normalizeEmail(readString(body.email))
+
+  if (!isEmail(email)) {
+    return { success: false, errors: { email: 'Please enter a valid email address' } }
+  }
+
+  return { success: true, data: { email, next: getSafeRedirect(body.next) } }
+}
+
+/**
+ * Validate a password sign-in (`{ email, password, next? }`)
+ */
+export function validatePasswordSignIn(
+  input: unknown
+): ValidationResult<{ email: string; password: string; next: string }, 'email' | 'password'> {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const errors: FieldErrors<'email' | 'password'> = {}
+  const email = normalizeEmail(readString(body.email))
+  // Passwords are compared as typed, spaces included
+  const password = typeof body.password === 'string' ? body.password : ''
+
+  if (!isEmail(email)) errors.email = 'Please enter a valid email address'
+  if (!password) errors.password = 'Please enter your password'
+
+  if (hasErrors(errors)) {
+    return { success: false, errors }
+  }
+
+  return { success: true, data: { email, password, next: getSafeRedirect(body.next) } }
+}
+
+/**
+ * Validate a password change (`{ currentPassword?, password }`); the current
+ * password is only needed when one is already set
+ */
+export function validatePasswordChange(
+  input: unknown,
+  hasPassword: boolean
+): ValidationResult<{ currentPassword: string; password: string }, 'currentPassword' | 'password'> {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const errors: FieldErrors<'currentPassword' | 'password'> = {}
+  const currentPassword = typeof body.currentPassword === 'string' ? body.currentPassword : ''
+  const password = typeof body.password === 'string' ? body.password : ''
+
+  if (hasPassword && !currentPassword) errors.currentPassword = 'Please enter your current password'
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    errors.password = `Please use at least ${MIN_PASSWORD_LENGTH} characters`
+  }
+
+  if (hasErrors(errors)) {
+    return { success: false, errors }
+  }
+
+  return { success: true, data: { currentPassword, password } }
+}
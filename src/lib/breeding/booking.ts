@@ -0,0 +1,306 @@
+/**
+ * Stud Bookings
+ *
+ * Mare owners book a stallion for a breeding season. Each stallion has a
+ * capacity per season; confirmed bookings use it up, and the stallion's
+ * `bookingStatus` is derived from what remains.
+ */
+
+import type { Stallion } from '@/components/sections/breeding-program'
+import {
+  hasErrors,
+  isEmail,
+  isPhone,
+  readString,
+  type FieldErrors,
+  type ValidationResult,
+} from '@/lib/validation'
+
+/**
+ * Where a booking is in its lifecycle
+ */
+export type BookingState = 'requested' | 'confirmed' | 'paid' | 'completed' | 'cancelled'
+
+/**
+ * Breeding method requested by the mare owner
+ */
+export type BreedingMethod = 'natural_cover' | 'artificial_insemination'
+
+/**
+ * Capacity of a stallion for one breeding season
+ */
+export interface StallionSeason {
+  /** Breeding season year */
+  season: number
+  /** Mares the stallion can cover that season */
+  capacity: number
+}
+
+/**
+ * Remaining capacity of a stallion for one season
+ */
+export interface SeasonAvailability extends StallionSeason {
+  /** Bookings holding a place (confirmed, paid or completed) */
+  booked: number
+  remaining: number
+  bookingStatus: NonNullable<Stallion['bookingStatus']>
+}
+
+/**
+ * Mare being put to the stallion
+ */
+export interface MareDetails {
+  name: string
+  breed: string
+  age: number
+  registrationNumber?: string
+}
+
+/**
+ * Mare owner contact details
+ */
+export interface BookingContact {
+  name: string
+  email: string
+  phone?: string
+}
+
+/**
+ * Booking request form fields
+ */
+export interface BookingRequestInput {
+  stallionId: string
+  season: number
+  mare: MareDetails
+  owner: BookingContact
+  method: BreedingMethod
+  /** Preferred breeding window as ISO dates */
+  preferredDates: { from: string; to: string }
+  notes?: string
+}
+
+/**
+ * A persisted stud booking
+ */
+export interface StudBooking extends BookingRequestInput {
+  id: string
+  status: BookingState
+  /** ISO timestamp of the request */
+  createdAt: string
+  /** ISO timestamp of the last status change */
+  updatedAt: string
+}
+
+export type BookingField =
+  | 'stallionId'
+  | 'season'
+  | 'mareName'
+  | 'mareBreed'
+  | 'mareAge'
+  | 'ownerName'
+  | 'ownerEmail'
+  | 'ownerPhone'
+  | 'method'
+  | 'preferredFrom'
+  | 'preferredTo'
+
+export const BOOKING_STATES: { value: BookingState; label: string }[] = [
+  { value: 'requested', label: 'Requested' },
+  { value: 'confirmed', label: 'Confirmed' },
+  { value: 'paid', label: 'Paid' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'cancelled', label: 'Cancelled' },
+]
+
+export const BREEDING_METHODS: { value: BreedingMethod; label: string }[] = [
+  { value: 'natural_cover', label: 'Natural Cover' },
+  { value: 'artificial_insemination', label: 'Artificial Insemination' },
+]
+
+/**
+ * Allowed next states for each state
+ */
+export const BOOKING_TRANSITIONS: Record<BookingState, BookingState[]> = {
+  requested: ['confirmed', 'cancelled'],
+  confirmed: ['paid', 'cancelled'],
+  paid: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+}
+
+/**
+ * States that hold a place in the season
+ */
+const CAPACITY_STATES: BookingState[] = ['confirmed', 'paid', 'completed']
+
+/**
+ * Share of capacity at or below which a stallion shows as limited
+ */
+const LIMITED_THRESHOLD = 0.25
+
+/**
+ * Breeding season that bookings are currently taken for
+ *
+ * The season runs February to July; from August onwards bookings are for next year.
+ */
+export function getBookingSeason(date: Date = new Date()): number {
+  return date.getMonth() >= 7 ? date.getFullYear() + 1 : date.getFullYear()
+}
+
+/**
+ * Whether a booking can move from one state to another
+ */
+export function canTransition(from: BookingState, to: BookingState): boolean {
+  return BOOKING_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Whether a booking uses up season capacity
+ */
+export function holdsCapacity(booking: Pick<StudBooking, 'status'>): boolean {
+  return CAPACITY_STATES.includes(booking.status)
+}
+
+/**
+ * Derive the booking status shown on stallion cards from remaining capacity
+ */
+export function getBookingStatus(capacity: number, remaining: number): NonNullable<Stallion['bookingStatus']> {
+  if (remaining <= 0) return 'fully_booked'
+  if (remaining <= Math.ceil(capacity * LIMITED_THRESHOLD)) return 'limited'
+  return 'available'
+}
+
+/**
+ * Compute a stallion's availability for a season from its bookings
+ *
+ * @returns null when the stallion stands no capacity that season
+ */
+export function getSeasonAvailability(
+  stallion: Stallion,
+  bookings: StudBooking[],
+  season: number
+): SeasonAvailability | null {
+  const entry = stallion.seasons?.find((s) => s.season === season)
+  if (!entry) return null
+
+  const booked = bookings.filter(
+    (b) => b.stallionId === stallion.id && b.season === season && holdsCapacity(b)
+  ).length
+  const remaining = Math.max(0, entry.capacity - booked)
+
+  return {
+    ...entry,
+    booked,
+    remaining,
+    bookingStatus: getBookingStatus(entry.capacity, remaining),
+  }
+}
+
+/**
+ * Label for a booking state
+ */
+export function getBookingStateLabel(state: BookingState): string {
+  return BOOKING_STATES.find((s) => s.value === state)?.label ?? state
+}
+
+/**
+ * Label for a breeding method
+ */
+export function getBreedingMethodLabel(method: BreedingMethod): string {
+  return BREEDING_METHODS.find((m) => m.value === method)?.label ?? method
+}
+
+/**
+ * Whether a value is a known booking state
+ */
+export function isBookingState(value: unknown): value is BookingState {
+  return BOOKING_STATES.some((state) => state.value === value)
+}
+
+/**
+ * Whether a value is a valid ISO date (YYYY-MM-DD)
+ *
+ * The date must survive a round trip, since `Date` rolls days that don't
+ * exist, such as 2027-02-30, over into the next month.
+ */
+export function isIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+
+  const date = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+}
+
+/**
+ * Validate untrusted booking request input
+ */
+export function validateBookingRequest(input: unknown): ValidationResult<BookingRequestInput, BookingField> {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const mare = (body.mare && typeof body.mare === 'object' ? body.mare : {}) as Record<string, unknown>
+  const owner = (body.owner && typeof body.owner === 'object' ? body.owner : {}) as Record<string, unknown>
+  const dates = (body.preferredDates && typeof body.preferredDates === 'object'
+    ? body.preferredDates
+    : {}) as Record<string, unknown>
+  const errors: FieldErrors<BookingField> = {}
+
+  const stallionId = readString(body.stallionId)
+  const season = Number(body.season)
+  const mareName = readString(mare.name)
+  const mareBreed = readString(mare.breed)
+  const mareAge = Number(mare.age)
+  const registrationNumber = readString(mare.registrationNumber)
+  const ownerName = readString(owner.name)
+  const ownerEmail = readString(owner.email)
+  const ownerPhone = readString(owner.phone)
+  const method = BREEDING_METHODS.find((m) => m.value === body.method)?.value
+  const from = readString(dates.from)
+  const to = readString(dates.to)
+  const notes = readString(body.notes)
+
+  if (!stallionId) errors.stallionId = 'Please choose a stallion'
+  if (!Number.isInteger(season)) errors.season = 'Please choose a season'
+  if (!mareName) errors.mareName = "Please enter your mare's name"
+  if (!mareBreed) errors.mareBreed = "Please enter your mare's breed"
+  if (!Number.isInteger(mareAge) || mareAge < 2 || mareAge > 30) {
+    errors.mareAge = 'Please enter an age between 2 and 30'
+  }
+  if (!ownerName) errors.ownerName = 'Please enter your name'
+  if (!ownerEmail) {
+    errors.ownerEmail = 'Please enter your email address'
+  } else if (!isEmail(ownerEmail)) {
+    errors.ownerEmail = 'Please enter a valid email address'
+  }
+  if (ownerPhone && !isPhone(ownerPhone)) errors.ownerPhone = 'Please enter a valid phone number'
+  if (!method) errors.method = 'Please choose a breeding method'
+  if (!isIsoDate(from)) errors.preferredFrom = 'Please choose a start date'
+  if (!isIsoDate(to)) {
+    errors.preferredTo = 'Please choose an end date'
+  } else if (isIsoDate(from) && to < from) {
+    errors.preferredTo = 'End date must be after the start date'
+  }
+
+  if (hasErrors(errors) || !method) {
+    return { success: false, errors }
+  }
+
+  return {
+    success: true,
+    data: {
+      stallionId,
+      season,
+      mare: {
+        name: mareName,
+        breed: mareBreed,
+        age: mareAge,
+        registrationNumber: registrationNumber || undefined,
+      },
+      owner: {
+        name: ownerName,
+        email: ownerEmail,
+        phone: ownerPhone || undefined,
+      },
+      method,
+      preferredDates: { from, to },
+      notes: notes || undefined,
+    },
+  }
+}
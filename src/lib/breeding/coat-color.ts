@@ -0,0 +1,354 @@
+/**
+ * Coat Color Genetics
+ *
+ * Structured coat color genotypes and foal color prediction. Six loci are
+ * modelled: Extension (red/black base), Agouti (restricts black to the
+ * points), Grey, Cream, Dun and Silver. Parents can be described by a DNA
+ * test result, a color name, or both; loci that aren't known are weighted by
+ * typical allele frequencies, so predictions from color alone are estimates.
+ */
+
+import { hasErrors, readString, type FieldErrors, type ValidationResult } from '@/lib/validation'
+
+export const COAT_LOCI = ['extension', 'agouti', 'grey', 'cream', 'dun', 'silver'] as const
+
+export type CoatLocus = (typeof COAT_LOCI)[number]
+
+/**
+ * Known genotype per locus written with the dominant or variant allele first,
+ * e.g. `{ extension: 'E/e', cream: 'Cr/n' }`; missing loci are untested
+ */
+export type CoatGenotype = Partial<Record<CoatLocus, string>>
+
+export const COAT_LOCUS_INFO: Record<CoatLocus, { label: string; alleles: [string, string]; frequency: number }> = {
+  extension: { label: 'Extension', alleles: ['E', 'e'], frequency: 0.5 },
+  agouti: { label: 'Agouti', alleles: ['A', 'a'], frequency: 0.5 },
+  grey: { label: 'Grey', alleles: ['G', 'g'], frequency: 0.1 },
+  cream: { label: 'Cream', alleles: ['Cr', 'n'], frequency: 0.03 },
+  dun: { label: 'Dun', alleles: ['D', 'nd'], frequency: 0.02 },
+  silver: { label: 'Silver', alleles: ['Z', 'n'], frequency: 0.01 },
+}
+
+/**
+ * Copies of the first allele at each locus
+ */
+type Counts = Record<CoatLocus, number>
+
+type BaseColor = 'chestnut' | 'bay' | 'black'
+
+const BASE_NAMES: Record<BaseColor, string> = { chestnut: 'Chestnut', bay: 'Bay', black: 'Black' }
+const DUN_NAMES: Record<BaseColor, string> = { chestnut: 'Red Dun', bay: 'Dun', black: 'Grullo' }
+const SINGLE_CREAM_NAMES: Record<BaseColor, string> = { chestnut: 'Palomino', bay: 'Buckskin', black: 'Smoky Black' }
+const DUN_CREAM_NAMES: Record<BaseColor, string> = { chestnut: 'Dunalino', bay: 'Dunskin', black: 'Smoky Grullo' }
+const DOUBLE_CREAM_NAMES: Record<BaseColor, string> = { chestnut: 'Cremello', bay: 'Perlino', black: 'Smoky Cream' }
+
+/**
+ * Everyday names mapped to the color they describe genetically
+ */
+const COLOR_ALIASES: Record<string, string> = {
+  gray: 'Grey',
+  sorrel: 'Chestnut',
+  'bay dun': 'Dun',
+  'zebra dun': 'Dun',
+  grulla: 'Grullo',
+  'silver dapple': 'Silver Black',
+  chocolate: 'Silver Black',
+}
+
+/**
+ * Color of a horse with a fully known genotype
+ */
+function getColorName(counts: Counts): string {
+  if (counts.grey > 0) return 'Grey'
+
+  const base: BaseColor = counts.extension === 0 ? 'chestnut' : counts.agouti > 0 ? 'bay' : 'black'
+  const dun = counts.dun > 0
+  const name = counts.cream === 2
+    ? DOUBLE_CREAM_NAMES[base]
+    : counts.cream === 1
+      ? (dun ? DUN_CREAM_NAMES : SINGLE_CREAM_NAMES)[base]
+      : (dun ? DUN_NAMES : BASE_NAMES)[base]
+
+  // Silver only acts on black pigment
+  return counts.silver > 0 && base !== 'chestnut' ? `Silver ${name}` : name
+}
+
+/**
+ * Every genotype combination, with each locus 0, 1 or 2
+ */
+const ALL_COUNTS: Counts[] = COAT_LOCI.reduce<Counts[]>(
+  (combos, locus) => combos.flatMap((combo) => [0, 1, 2].map((count) => ({ ...combo, [locus]: count }))),
+  [{} as Counts]
+)
+
+/**
+ * Color names the model can produce, for pickers
+ */
+export const COAT_COLORS: string[] = [...new Set(ALL_COUNTS.map(getColorName))].sort((a, b) => a.localeCompare(b))
+
+/**
+ * Canonical color name for free text such as "Dark Bay" or "dapple gray"
+ */
+export function matchCoatColor(value: string | undefined): string | undefined {
+  const normalized = (value ?? '').trim().toLowerCase().replace(/[\s-]+/g, ' ')
+  if (!normalized) return undefined
+
+  const exact = COAT_COLORS.find((color) => color.toLowerCase() === normalized) ?? COLOR_ALIASES[normalized]
+  if (exact) return exact
+
+  // Shade prefixes ("dark", "liver", "dapple", "flea bitten") don't change the genetics
+  const words = normalized.split(' ')
+  for (let start = 1; start < words.length; start++) {
+    const suffix = words.slice(start).join(' ')
+    const match = COAT_COLORS.find((color) => color.toLowerCase() === suffix) ?? COLOR_ALIASES[suffix]
+    if (match) return match
+  }
+  return undefined
+}
+
+/**
+ * Copies of the first allele in a genotype such as `E/e`, `Ee` or `nCr`, or null if invalid
+ */
+export function parseLocusGenotype(locus: CoatLocus, value: string): number | null {
+  const alleles = COAT_LOCUS_INFO[locus].alleles
+  const pattern = new RegExp(`^(${alleles.join('|')})\\/?(${alleles.join('|')})$`)
+  const match = pattern.exec(value.replace(/\s+/g, ''))
+  if (!match) return null
+  return [match[1], match[2]].filter((allele) => allele === alleles[0]).length
+}
+
+function formatLocus(locus: CoatLocus, count: number): string {
+  const [first, second] = COAT_LOCUS_INFO[locus].alleles
+  return [first, first, second, second].slice(2 - count, 4 - count).join('/')
+}
+
+/**
+ * Genotype in test-report notation, e.g. "E/e A/a Cr/n"
+ */
+export function formatGenotype(genotype: CoatGenotype | undefined): string {
+  return COAT_LOCI
+    .map((locus) => genotype?.[locus])
+    .filter(Boolean)
+    .join(' ')
+}
+
+/**
+ * What is known about a parent's coat
+ */
+export interface CoatParentInput {
+  color?: string
+  genotype?: CoatGenotype
+}
+
+/**
+ * Probability of each genotype combination given what is known, or null if contradictory
+ */
+function getGenotypeDistribution({ color, genotype }: CoatParentInput): Map<Counts, number> | null {
+  const known = COAT_LOCI.map((locus) => {
+    const value = genotype?.[locus]
+    return [locus, value ? parseLocusGenotype(locus, value) : null] as const
+  })
+  const colorName = matchCoatColor(color)
+  const distribution = new Map<Counts, number>()
+  let total = 0
+
+  ALL_COUNTS.forEach((counts) => {
+    if (known.some(([locus, count]) => count !== null && counts[locus] !== count)) return
+    if (colorName && getColorName(counts) !== colorName) return
+
+    // Hardy-Weinberg proportions for loci we can't see
+    const weight = COAT_LOCI.reduce((product, locus) => {
+      const p = COAT_LOCUS_INFO[locus].frequency
+      const count = counts[locus]
+      return product * (count === 2 ? p * p : count === 1 ? 2 * p * (1 - p) : (1 - p) * (1 - p))
+    }, 1)
+
+    distribution.set(counts, weight)
+    total += weight
+  })
+
+  if (total === 0) return null
+  distribution.forEach((weight, counts) => distribution.set(counts, weight / total))
+  return distribution
+}
+
+/**
+ * Whether a parent's test results can produce its color
+ */
+export function isCoatConsistent(parent: CoatParentInput): boolean {
+  return getGenotypeDistribution(parent) !== null
+}
+
+/**
+ * Probability of each gamete, keyed by a bitmask of loci carrying the first allele
+ */
+function getGametes(distribution: Map<Counts, number>): Float64Array {
+  const gametes = new Float64Array(1 << COAT_LOCI.length)
+
+  distribution.forEach((probability, counts) => {
+    for (let mask = 0; mask < gametes.length; mask++) {
+      let chance = probability
+      COAT_LOCI.forEach((locus, bit) => {
+        const carries = counts[locus] / 2
+        chance *= mask & (1 << bit) ? carries : 1 - carries
+      })
+      gametes[mask] += chance
+    }
+  })
+
+  return gametes
+}
+
+/**
+ * A possible foal color and its chance
+ */
+export interface CoatColorOutcome {
+  color: string
+  /** Rounded to `PROBABILITY_DECIMALS` places */
+  probability: number
+}
+
+const PROBABILITY_DECIMALS = 4
+
+/**
+ * How a parent's coat was interpreted
+ */
+export interface CoatParentSummary {
+  name: string
+  color?: string
+  genotype?: CoatGenotype
+  /** `genotype` when every locus is tested, `estimated` otherwise */
+  basis: 'genotype' | 'estimated'
+}
+
+export interface CoatColorPrediction {
+  sire: CoatParentSummary
+  dam: CoatParentSummary
+  /** Most likely first */
+  outcomes: CoatColorOutcome[]
+}
+
+/**
+ * Foal color distribution for two parents, or null when a parent's genotype contradicts its color
+ */
+export function predictFoalColors(sire: CoatParentInput, dam: CoatParentInput): CoatColorOutcome[] | null {
+  const sireDistribution = getGenotypeDistribution(sire)
+  const damDistribution = getGenotypeDistribution(dam)
+  if (!sireDistribution || !damDistribution) return null
+
+  const sireGametes = getGametes(sireDistribution)
+  const damGametes = getGametes(damDistribution)
+  const outcomes = new Map<string, number>()
+
+  sireGametes.forEach((sireChance, sireMask) => {
+    if (sireChance === 0) return
+    damGametes.forEach((damChance, damMask) => {
+      if (damChance === 0) return
+      const counts = Object.fromEntries(
+        COAT_LOCI.map((locus, bit) => [locus, ((sireMask >> bit) & 1) + ((damMask >> bit) & 1)])
+      ) as Counts
+      const color = getColorName(counts)
+      outcomes.set(color, (outcomes.get(color) ?? 0) + sireChance * damChance)
+    })
+  })
+
+  return [...outcomes.entries()]
+    .map(([color, probability]) => ({ color, probability: roundProbability(probability) }))
+    .filter((outcome) => outcome.probability > 0)
+    .sort((a, b) => b.probability - a.probability || a.color.localeCompare(b.color))
+}
+
+function roundProbability(probability: number): number {
+  const scale = 10 ** PROBABILITY_DECIMALS
+  return Math.round(probability * scale) / scale
+}
+
+/**
+ * Whether every locus has a test result
+ */
+export function isFullyTested(genotype: CoatGenotype | undefined): boolean {
+  return COAT_LOCI.every((locus) => !!genotype?.[locus])
+}
+
+/**
+ * Validate a genotype from untrusted input, returning canonical notation
+ */
+export function readGenotype(input: unknown): { genotype?: CoatGenotype; invalid: CoatLocus[] } {
+  if (!input || typeof input !== 'object') return { invalid: [] }
+
+  const source = input as Record<string, unknown>
+  const genotype: CoatGenotype = {}
+  const invalid: CoatLocus[] = []
+
+  COAT_LOCI.forEach((locus) => {
+    const value = readString(source[locus])
+    if (!value) return
+    const count = parseLocusGenotype(locus, value)
+    if (count === null) invalid.push(locus)
+    else genotype[locus] = formatLocus(locus, count)
+  })
+
+  return { genotype: Object.keys(genotype).length > 0 ? genotype : undefined, invalid }
+}
+
+/**
+ * Color prediction request; either `mareId` or `mare` is required
+ */
+export interface CoatColorPredictionInput {
+  stallionId: string
+  /** One of our mares */
+  mareId?: string
+  /** A mare described by the owner */
+  mare?: CoatParentInput
+}
+
+export type CoatColorPredictionField = 'stallionId' | 'mareId' | 'mareColor' | 'mareGenotype'
+
+/**
+ * Validate untrusted color prediction input
+ */
+export function validateCoatColorPrediction(
+  input: unknown
+): ValidationResult<CoatColorPredictionInput, CoatColorPredictionField> {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const errors: FieldErrors<CoatColorPredictionField> = {}
+
+  const stallionId = readString(body.stallionId)
+  const mareId = readString(body.mareId)
+  if (!stallionId) errors.stallionId = 'Please choose a stallion'
+
+  if (mareId) {
+    if (hasErrors(errors)) return { success: false, errors }
+    return { success: true, data: { stallionId, mareId } }
+  }
+
+  const mare = (body.mare && typeof body.mare === 'object' ? body.mare : {}) as Record<string, unknown>
+  const color = readString(mare.color)
+  const { genotype, invalid } = readGenotype(mare.genotype)
+
+  if (color && !matchCoatColor(color)) errors.mareColor = 'Please choose a color from the list'
+  if (invalid.length > 0) {
+    errors.mareGenotype = `Please check the ${invalid.map((locus) => COAT_LOCUS_INFO[locus].label).join(', ')} result`
+  }
+  if (!color && !genotype && !hasErrors(errors)) {
+    errors.mareColor = 'Please choose a mare or enter her color or test results'
+  }
+
+  if (hasErrors(errors)) {
+    return { success: false, errors }
+  }
+
+  return { success: true, data: { stallionId, mare: { color: color || undefined, genotype } } }
+}
+
+/**
+ * Summarise a parent for the prediction response
+ */
+export function toCoatParentSummary(name: string, parent: CoatParentInput): CoatParentSummary {
+  return {
+    name,
+    color: matchCoatColor(parent.color) ?? parent.color,
+    genotype: parent.genotype,
+    basis: isFullyTested(parent.genotype) ? 'genotype' : 'estimated',
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * Foaling Planner
+ *
+ * Turns a cover date, or the window a mare owner wants the foal born in, into
+ * a dated plan for one of our stallions: booking deadlines, pregnancy scans,
+ * vaccinations and the expected foaling date. Gestation is taken as 340 days;
+ * most mares foal between 320 and 365 days after conception.
+ */
+
+import type { Stallion } from '@/components/sections/breeding-program'
+import { buildCalendar, type CalendarEvent } from '@/lib/calendar/ics'
+import { hasErrors, readString, type FieldErrors, type ValidationResult } from '@/lib/validation'
+import { getSeasonAvailability, isIsoDate, type SeasonAvailability, type StudBooking } from './booking'
+
+/**
+ * Average gestation in days
+ */
+export const GESTATION_DAYS = 340
+
+/**
+ * Days before and after the expected date in which most mares foal
+ */
+const FOALING_WINDOW = { early: 20, late: 25 }
+
+/**
+ * Longest target foaling window, so a plan stays within one stud season
+ */
+const MAX_WINDOW_DAYS = 90
+
+/**
+ * Days before the first cover by which each booking step should be done
+ */
+const BOOKING_LEAD_DAYS = { request: 60, evaluation: 30, studFee: 14 }
+
+/**
+ * Months (0-based) the stud season runs, February to July
+ */
+const SEASON_MONTHS = { first: 1, last: 6 }
+
+export type FoalingEventCategory = 'booking' | 'breeding' | 'pregnancy' | 'vaccination' | 'foaling'
+
+export const FOALING_EVENT_CATEGORIES: { value: FoalingEventCategory; label: string }[] = [
+  { value: 'booking', label: 'Booking' },
+  { value: 'breeding', label: 'Breeding' },
+  { value: 'pregnancy', label: 'Pregnancy check' },
+  { value: 'vaccination', label: 'Vaccination' },
+  { value: 'foaling', label: 'Foaling' },
+]
+
+/**
+ * Inclusive range of ISO dates
+ */
+export interface DateRange {
+  from: string
+  to: string
+}
+
+/**
+ * Planner form fields; give either a cover date or a target foaling window
+ */
+export interface FoalingPlanInput {
+  stallionId: string
+  /** ISO date the mare was or will be covered */
+  coverDate?: string
+  /** First ISO date the foal should be born */
+  foalingFrom?: string
+  /** Last ISO date the foal should be born; defaults to `foalingFrom` */
+  foalingTo?: string
+}
+
+export type FoalingPlanField = 'stallionId' | 'coverDate' | 'foalingFrom' | 'foalingTo'
+
+/**
+ * One dated step of a foaling plan
+ */
+export interface FoalingPlanEvent {
+  id: string
+  category: FoalingEventCategory
+  /** ISO date */
+  date: string
+  /** Last day for steps that span several days */
+  endDate?: string
+  title: string
+  description: string
+}
+
+/**
+ * Dated plan from booking to foal heat
+ */
+export interface FoalingPlan {
+  stallion: { id: string; name: string; studFee: number }
+  /** Stud season the cover falls in */
+  season: number
+  /** Days to cover the mare; a single day when the cover date is known */
+  breedingWindow: DateRange
+  /** Expected foaling date from the first cover */
+  expectedFoalingDate: string
+  /** Range in which the mare is most likely to foal */
+  foalingWindow: DateRange
+  /** The stallion's places for the season, or null when he doesn't stand that year */
+  availability: SeasonAvailability | null
+  events: FoalingPlanEvent[]
+  /** Things to sort out before the plan can go ahead */
+  warnings: string[]
+}
+
+/**
+ * Shift an ISO date by a number of days
+ */
+export function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().slice(0, 10)
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000)
+}
+
+/**
+ * Label for an event category
+ */
+export function getFoalingEventCategoryLabel(category: FoalingEventCategory): string {
+  return FOALING_EVENT_CATEGORIES.find((c) => c.value === category)?.label ?? category
+}
+
+/**
+ * Validate untrusted planner input
+ */
+export function validateFoalingPlan(input: unknown): ValidationResult<FoalingPlanInput, FoalingPlanField> {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const errors: FieldErrors<FoalingPlanField> = {}
+
+  const stallionId = readString(body.stallionId)
+  const coverDate = readString(body.coverDate)
+  const foalingFrom = readString(body.foalingFrom)
+  const foalingTo = readString(body.foalingTo) || foalingFrom
+
+  if (!stallionId) errors.stallionId = 'Please choose a stallion'
+
+  if (coverDate) {
+    if (!isIsoDate(coverDate)) errors.coverDate = 'Please enter a valid cover date'
+  } else if (foalingFrom) {
+    if (!isIsoDate(foalingFrom)) {
+      errors.foalingFrom = 'Please enter a valid date'
+    } else if (!isIsoDate(foalingTo)) {
+      errors.foalingTo = 'Please enter a valid date'
+    } else if (foalingTo < foalingFrom) {
+      errors.foalingTo = 'End date must be after the start date'
+    } else if (daysBetween(foalingFrom, foalingTo) > MAX_WINDOW_DAYS) {
+      errors.foalingTo = `Please choose a window of up to ${MAX_WINDOW_DAYS} days`
+    }
+  } else {
+    errors.coverDate = 'Please enter a cover date or a target foaling date'
+  }
+
+  if (hasErrors(errors)) {
+    return { success: false, errors }
+  }
+
+  return {
+    success: true,
+    data: coverDate ? { stallionId, coverDate } : { stallionId, foalingFrom, foalingTo },
+  }
+}
+
+/**
+ * Days to cover the mare for the input
+ */
+function getBreedingWindow(input: FoalingPlanInput): DateRange {
+  if (input.coverDate) return { from: input.coverDate, to: input.coverDate }
+
+  const foalingFrom = input.foalingFrom ?? ''
+  return {
+    from: addDays(foalingFrom, -GESTATION_DAYS),
+    to: addDays(input.foalingTo ?? foalingFrom, -GESTATION_DAYS),
+  }
+}
+
+/**
+ * Build the dated plan for a validated input
+ *
+ * Every step after breeding counts from the first day of the breeding
+ * window; if the mare is covered later, the later steps move with it.
+ */
+export function buildFoalingPlan(
+  input: FoalingPlanInput,
+  stallion: Stallion,
+  bookings: StudBooking[],
+  today: Date = new Date()
+): FoalingPlan {
+  const breedingWindow = getBreedingWindow(input)
+  const cover = breedingWindow.from
+  const season = Number(cover.slice(0, 4))
+  const expectedFoalingDate = addDays(cover, GESTATION_DAYS)
+  const availability = getSeasonAvailability(stallion, bookings, season)
+  const bookingDeadline = addDays(cover, -BOOKING_LEAD_DAYS.request)
+  const todayIso = today.toISOString().slice(0, 10)
+  const day = (days: number) => addDays(cover, days)
+
+  const isWindow = breedingWindow.from !== breedingWindow.to
+  const events: FoalingPlanEvent[] = [
+    {
+      id: 'booking-request',
+      category: 'booking',
+      date: bookingDeadline,
+      title: `Book ${stallion.name} for ${season}`,
+      description: `Request a ${season} season booking so a place is held for your mare.`,
+    },
+    {
+      id: 'mare-evaluation',
+      category: 'booking',
+      date: day(-BOOKING_LEAD_DAYS.evaluation),
+      title: 'Pre-breeding mare evaluation',
+      description: 'Breeding soundness exam, reproductive ultrasound and a negative Coggins test within 12 months.',
+    },
+    {
+      id: 'stud-fee',
+      category: 'booking',
+      date: day(-BOOKING_LEAD_DAYS.studFee),
+      title: 'Stud fee due',
+      description: `The $${stallion.studFee.toLocaleString('en-US')} stud fee for ${stallion.name} is due before the first cover.`,
+    },
+    {
+      id: 'cover',
+      category: 'breeding',
+      date: breedingWindow.from,
+      endDate: isWindow ? breedingWindow.to : undefined,
+      title: isWindow ? `Breeding window with ${stallion.name}` : `Cover by ${stallion.name}`,
+      description: isWindow
+        ? 'Cover or inseminate within these dates for a foal in your target window.'
+        : 'Natural cover or insemination.',
+    },
+    {
+      id: 'scan-14',
+      category: 'pregnancy',
+      date: day(14),
+      title: 'First pregnancy scan',
+      description: 'Ultrasound at 14-16 days to confirm pregnancy and check for twins.',
+    },
+    {
+      id: 'scan-28',
+      category: 'pregnancy',
+      date: day(28),
+      title: 'Heartbeat scan',
+      description: 'Ultrasound at 25-30 days to confirm a heartbeat.',
+    },
+    {
+      id: 'scan-45',
+      category: 'pregnancy',
+      date: day(45),
+      title: 'Pregnancy check',
+      description: 'Ultrasound at 45 days; most early losses happen before this point.',
+    },
+    ...[5, 7, 9].map((month): FoalingPlanEvent => ({
+      id: `ehv-${month}`,
+      category: 'vaccination',
+      date: day(month * 30),
+      title: `EHV-1 vaccination (month ${month})`,
+      description: 'Equine herpesvirus booster to protect against abortion.',
+    })),
+    {
+      id: 'pre-foaling-boosters',
+      category: 'vaccination',
+      date: addDays(expectedFoalingDate, -35),
+      title: 'Pre-foaling boosters',
+      description: 'Tetanus, influenza, encephalomyelitis and West Nile boosters 4-6 weeks before foaling pass immunity to the foal through colostrum.',
+    },
+    {
+      id: 'foaling-stall',
+      category: 'foaling',
+      date: addDays(expectedFoalingDate, -30),
+      title: 'Move to the foaling stall',
+      description: 'Settle the mare where she will foal so she builds antibodies to her surroundings.',
+    },
+    {
+      id: 'foaling-watch',
+      category: 'foaling',
+      date: addDays(expectedFoalingDate, -FOALING_WINDOW.early),
+      endDate: addDays(expectedFoalingDate, FOALING_WINDOW.late),
+      title: 'Foaling watch',
+      description: 'Most mares foal in this window. Watch for waxing, udder development and relaxed tail muscles.',
+    },
+    {
+      id: 'expected-foaling',
+      category: 'foaling',
+      date: expectedFoalingDate,
+      title: 'Expected foaling date',
+      description: `${GESTATION_DAYS} days after the first cover.`,
+    },
+    {
+      id: 'foal-heat',
+      category: 'foaling',
+      date: addDays(expectedFoalingDate, 7),
+      endDate: addDays(expectedFoalingDate, 10),
+      title: 'Foal heat',
+      description: 'First heat after foaling, if you plan to rebreed.',
+    },
+  ]
+
+  const warnings: string[] = []
+  const month = new Date(`${cover}T00:00:00Z`).getUTCMonth()
+  if (month < SEASON_MONTHS.first || month > SEASON_MONTHS.last) {
+    warnings.push('This cover date falls outside our February to July stud season.')
+  }
+  if (!availability) {
+    warnings.push(`${stallion.name} isn't standing at stud in ${season}.`)
+  } else if (availability.bookingStatus === 'fully_booked') {
+    warnings.push(`${stallion.name} is fully booked for ${season}.`)
+  }
+  if (bookingDeadline < todayIso && todayIso <= breedingWindow.to) {
+    warnings.push('The usual booking deadline has passed; contact us to check whether a late booking is possible.')
+  }
+
+  return {
+    stallion: { id: stallion.id, name: stallion.name, studFee: stallion.studFee },
+    season,
+    breedingWindow,
+    expectedFoalingDate,
+    foalingWindow: {
+      from: addDays(expectedFoalingDate, -FOALING_WINDOW.early),
+      to: addDays(expectedFoalingDate, FOALING_WINDOW.late),
+    },
+    availability,
+    events: events.sort((a, b) => a.date.localeCompare(b.date)),
+    warnings,
+  }
+}
+
+/**
+ * Serialize a plan as an iCalendar file
+ */
+export function exportFoalingPlanIcs(plan: FoalingPlan): string {
+  const events: CalendarEvent[] = plan.events.map((event) => ({
+    uid: `foaling-plan-${plan.stallion.id}-${plan.breedingWindow.from}-${event.id}`,
+    date: event.date,
+    endDate: event.endDate,
+    title: event.title,
+    description: event.description,
+  }))
+
+  return buildCalendar(`Foaling plan: ${plan.stallion.name}`, events)
+}
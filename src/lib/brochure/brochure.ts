@@ -0,0 +1,480 @@
+/**
+ * Horse Brochure
+ *
+ * Renders a printable sales brochure for a horse as a multi-page A4 PDF: a
+ * cover with the main photo, key facts, price and a QR code linking to the
+ * listing, then the description and records, a pedigree diagram and a photo
+ * gallery. Server only; photos are loaded with sharp.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage, type RGB } from 'pdf-lib'
+import { create as createQrCode } from 'qrcode'
+import type { HorseDetail } from '@/components/sections/horse-detail'
+import { COLORS } from '@/lib/constants'
+import { describeRecord } from '@/lib/horses/results'
+import { describeHealth } from '@/lib/horses/health'
+import { getAvailability, getSaleClassLabel } from '@/lib/horses/sale-class'
+import { analyzeInbreeding, formatCoefficient, getAncestorKey } from '@/lib/pedigree/inbreeding'
+import { DEFAULT_PEDIGREE_GENERATIONS, type PedigreeNode } from '@/lib/pedigree/pedigree'
+import { formatPrice } from '@/lib/shop/cart'
+import { loadBrochureImage } from './images'
+
+/**
+ * A4 in PDF points
+ */
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 40
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+
+/**
+ * Photos shown on the gallery page, after the cover photo
+ */
+const MAX_GALLERY_IMAGES = 4
+
+function toRgb(hex: string): RGB {
+  const value = parseInt(hex.slice(1), 16)
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255)
+}
+
+const PALETTE = {
+  midnight: toRgb(COLORS.MIDNIGHT),
+  charcoal: toRgb(COLORS.CHARCOAL),
+  gold: toRgb(COLORS.GOLD),
+  white: rgb(1, 1, 1),
+  ivory: rgb(0.96, 0.96, 0.96),
+  muted: rgb(0.42, 0.44, 0.52),
+  sire: rgb(0.38, 0.65, 0.98),
+  dam: rgb(0.96, 0.45, 0.71),
+}
+
+interface Fonts {
+  serif: PDFFont
+  sans: PDFFont
+  sansBold: PDFFont
+}
+
+/**
+ * Characters outside Latin-1 that the standard PDF fonts can still draw
+ */
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ')
+
+/**
+ * Replace characters the standard fonts can't encode
+ */
+function toPdfText(value: string): string {
+  return Array.from(value.normalize('NFC'))
+    .map((char) => {
+      if (char === '\t') return ' '
+      if (char === '\n' || (char >= ' ' && char <= '\u00ff') || WIN_ANSI_EXTRAS.has(char)) return char
+      const stripped = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+      return stripped.length === 1 && stripped <= '\u00ff' ? stripped : '?'
+    })
+    .join('')
+}
+
+/**
+ * Break text into lines no wider than `maxWidth`
+ */
+function wrapText(value: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  return toPdfText(value).split('\n').flatMap((paragraph) => {
+    const lines: string[] = []
+    let line = ''
+
+    paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word
+      if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+        lines.push(line)
+        line = word
+      } else {
+        line = candidate
+      }
+    })
+
+    return [...lines, line]
+  })
+}
+
+/**
+ * Shorten text with an ellipsis to fit `maxWidth`
+ */
+function fitText(value: string, font: PDFFont, size: number, maxWidth: number): string {
+  let text = toPdfText(value)
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text
+
+  while (text.length > 1 && font.widthOfTextAtSize(`${text}…`, size) > maxWidth) {
+    text = text.slice(0, -1)
+  }
+  return `${text.trimEnd()}…`
+}
+
+/**
+ * Draw text with its top edge at `top`, measured from the bottom of the page
+ */
+function drawText(page: PDFPage, text: string, x: number, top: number, font: PDFFont, size: number, color: RGB) {
+  page.drawText(toPdfText(text), { x, y: top - font.heightAtSize(size, { descender: false }), font, size, color })
+}
+
+function drawPlaceholder(page: PDFPage, x: number, y: number, width: number, height: number) {
+  page.drawRectangle({ x, y, width, height, color: PALETTE.charcoal, borderColor: PALETTE.gold, borderWidth: 0.5, borderOpacity: 0.4 })
+}
+
+async function drawPhoto(doc: PDFDocument, page: PDFPage, src: string | undefined, x: number, y: number, width: number, height: number) {
+  const bytes = src ? await loadBrochureImage(src, width, height) : null
+  if (!bytes) {
+    drawPlaceholder(page, x, y, width, height)
+    return
+  }
+
+  const image = await doc.embedJpg(bytes)
+  page.drawImage(image, { x, y, width, height })
+}
+
+/**
+ * QR code drawn as vector squares, so it stays crisp when printed
+ */
+function drawQrCode(page: PDFPage, url: string, x: number, y: number, size: number) {
+  const { modules } = createQrCode(url, { errorCorrectionLevel: 'M' })
+  const quietZone = 2
+  const cell = size / (modules.size + quietZone * 2)
+
+  page.drawRectangle({ x, y, width: size, height: size, color: PALETTE.white })
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (!modules.get(row, col)) continue
+      page.drawRectangle({
+        x: x + (col + quietZone) * cell,
+        y: y + size - (row + quietZone + 1) * cell,
+        width: cell,
+        height: cell,
+        color: PALETTE.midnight,
+      })
+    }
+  }
+}
+
+/**
+ * Inner page with the branded header band
+ */
+function addContentPage(doc: PDFDocument, fonts: Fonts, horse: HorseDetail, title: string): PDFPage {
+  const page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+
+  page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 56, width: PAGE_WIDTH, height: 56, color: PALETTE.midnight })
+  page.drawLine({
+    start: { x: 0, y: PAGE_HEIGHT - 56 },
+    end: { x: PAGE_WIDTH, y: PAGE_HEIGHT - 56 },
+    thickness: 2,
+    color: PALETTE.gold,
+  })
+  drawText(page, 'MAM CENTER', MARGIN, PAGE_HEIGHT - 22, fonts.sansBold, 9, PALETTE.gold)
+  const name = toPdfText(horse.name)
+  drawText(page, name, PAGE_WIDTH - MARGIN - fonts.serif.widthOfTextAtSize(name, 12), PAGE_HEIGHT - 21, fonts.serif, 12, PALETTE.white)
+  drawText(page, title, MARGIN, PAGE_HEIGHT - 84, fonts.serif, 24, PALETTE.midnight)
+
+  return page
+}
+
+/**
+ * Facts shown on the cover, skipping anything unknown
+ */
+function getFacts(horse: HorseDetail): [string, string][] {
+  const facts: [string, string | undefined][] = [
+    ['Breed', horse.breed],
+    ['Sex', getSaleClassLabel(horse)],
+    ['Age', horse.foalYear ? `${horse.age} years (foaled ${horse.foalYear})` : `${horse.age} years`],
+    ['Color', horse.color],
+    ['Height', horse.height],
+    ['Disciplines', horse.discipline.join(', ') || undefined],
+    ['Sire', horse.pedigree?.sire?.name],
+    ['Dam', horse.pedigree?.dam?.name],
+    ['Location', horse.location],
+    ['Registration', horse.registrationNumber],
+  ]
+  return facts.filter((fact): fact is [string, string] => !!fact[1])
+}
+
+function getPriceLabel(horse: HorseDetail): string {
+  const availability = getAvailability(horse)
+  if (availability === 'sold') return 'Sold'
+  const price = formatPrice(horse.price).replace(/\.00$/, '')
+  return availability === 'reserved' ? `${price} · Reserved` : price
+}
+
+async function drawCover(doc: PDFDocument, fonts: Fonts, horse: HorseDetail, url: string) {
+  const page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  page.drawRectangle({ x: 0, y: 0, width: PAGE_WIDTH, height: PAGE_HEIGHT, color: PALETTE.midnight })
+
+  drawText(page, 'MAM CENTER', MARGIN, PAGE_HEIGHT - MARGIN, fonts.sansBold, 11, PALETTE.gold)
+  const tagline = 'Luxury Equestrian Excellence'
+  drawText(page, tagline, PAGE_WIDTH - MARGIN - fonts.sans.widthOfTextAtSize(tagline, 9), PAGE_HEIGHT - MARGIN - 1, fonts.sans, 9, PALETTE.ivory)
+  page.drawLine({
+    start: { x: MARGIN, y: PAGE_HEIGHT - MARGIN - 20 },
+    end: { x: PAGE_WIDTH - MARGIN, y: PAGE_HEIGHT - MARGIN - 20 },
+    thickness: 0.75,
+    color: PALETTE.gold,
+  })
+
+  const photoHeight = 330
+  const photoTop = PAGE_HEIGHT - MARGIN - 36
+  await drawPhoto(doc, page, horse.thumbnail || horse.images[0], MARGIN, photoTop - photoHeight, CONTENT_WIDTH, photoHeight)
+
+  let top = photoTop - photoHeight - 28
+  drawText(page, `${horse.breed} • ${getSaleClassLabel(horse)}`.toUpperCase(), MARGIN, top, fonts.sansBold, 9, PALETTE.gold)
+  top -= 18
+  wrapText(horse.name, fonts.serif, 36, CONTENT_WIDTH).forEach((line) => {
+    drawText(page, line, MARGIN, top, fonts.serif, 36, PALETTE.white)
+    top -= 40
+  })
+
+  // Facts in two columns
+  const facts = getFacts(horse)
+  const columnWidth = (CONTENT_WIDTH - 150) / 2
+  top -= 8
+  facts.forEach(([label, value], index) => {
+    const x = MARGIN + (index % 2) * (columnWidth + 12)
+    const rowTop = top - Math.floor(index / 2) * 34
+    drawText(page, label.toUpperCase(), x, rowTop, fonts.sans, 7, PALETTE.gold)
+    drawText(page, fitText(value, fonts.sans, 10.5, columnWidth - 8), x, rowTop - 11, fonts.sans, 10.5, PALETTE.ivory)
+  })
+
+  // Price and QR code on the right
+  const qrSize = 118
+  const qrX = PAGE_WIDTH - MARGIN - qrSize
+  drawText(page, getAvailability(horse) === 'sold' ? 'STATUS' : 'ASKING PRICE', qrX, top, fonts.sans, 7, PALETTE.gold)
+  drawText(page, fitText(getPriceLabel(horse), fonts.serif, 20, qrSize + 10), qrX, top - 12, fonts.serif, 20, PALETTE.white)
+  drawQrCode(page, url, qrX, top - 48 - qrSize, qrSize)
+  drawText(page, 'Scan to view online', qrX, top - 56 - qrSize, fonts.sans, 8, PALETTE.ivory)
+}
+
+/**
+ * Writes headed sections top to bottom, continuing on new pages as needed
+ */
+function createFlow(doc: PDFDocument, fonts: Fonts, horse: HorseDetail, title: string) {
+  let page = addContentPage(doc, fonts, horse, title)
+  let top = PAGE_HEIGHT - 126
+  const bottom = MARGIN + 30
+
+  const ensure = (height: number) => {
+    if (top - height >= bottom) return
+    page = addContentPage(doc, fonts, horse, `${title} (continued)`)
+    top = PAGE_HEIGHT - 126
+  }
+
+  const paragraph = (text: string, indent = 0, size = 10.5) => {
+    wrapText(text, fonts.sans, size, CONTENT_WIDTH - indent).forEach((line) => {
+      ensure(size * 1.5)
+      drawText(page, line, MARGIN + indent, top, fonts.sans, size, PALETTE.charcoal)
+      top -= size * 1.5
+    })
+  }
+
+  return {
+    section(heading: string) {
+      ensure(56)
+      top -= 10
+      drawText(page, heading.toUpperCase(), MARGIN, top, fonts.sansBold, 9, PALETTE.gold)
+      page.drawLine({ start: { x: MARGIN, y: top - 14 }, end: { x: MARGIN + 32, y: top - 14 }, thickness: 1, color: PALETTE.gold })
+      top -= 26
+    },
+    paragraph(text: string) {
+      paragraph(text)
+      top -= 6
+    },
+    list(items: string[]) {
+      items.forEach((item) => {
+        ensure(16)
+        page.drawCircle({ x: MARGIN + 3, y: top - 6, size: 1.75, color: PALETTE.gold })
+        paragraph(item, 14)
+        top -= 3
+      })
+      top -= 6
+    },
+  }
+}
+
+function drawDetails(doc: PDFDocument, fonts: Fonts, horse: HorseDetail) {
+  const flow = createFlow(doc, fonts, horse, `About ${horse.name}`)
+
+  flow.paragraph(horse.description)
+
+  const record = describeRecord(horse.results, horse.competitionRecord)
+  if (record.length > 0) {
+    flow.section('Competition Record')
+    flow.list(record)
+  }
+  if (horse.training && horse.training.length > 0) {
+    flow.section('Training')
+    flow.list(horse.training)
+  }
+  if (horse.temperament) {
+    flow.section('Temperament')
+    flow.paragraph(horse.temperament)
+  }
+  if (horse.health && horse.health.records.length > 0) {
+    flow.section('Health Status')
+    flow.list(describeHealth(horse.health))
+  } else if (horse.healthStatus) {
+    flow.section('Health Status')
+    flow.paragraph(horse.healthStatus)
+  }
+}
+
+/**
+ * Pedigree laid out left to right, the horse first and each generation in its own column
+ */
+function drawPedigree(doc: PDFDocument, fonts: Fonts, horse: HorseDetail, pedigree: PedigreeNode) {
+  const page = addContentPage(doc, fonts, horse, 'Pedigree')
+  const generations = DEFAULT_PEDIGREE_GENERATIONS
+  const analysis = analyzeInbreeding(pedigree, generations)
+  const repeated = new Set(analysis.repeatedAncestors.map((ancestor) => ancestor.key))
+
+  const areaTop = PAGE_HEIGHT - 126
+  const areaHeight = 580
+  const gap = 12
+  const columnWidth = (CONTENT_WIDTH - gap * generations) / (generations + 1)
+
+  const drawNode = (node: PedigreeNode | undefined, generation: number, index: number, path: string) => {
+    const slotHeight = areaHeight / Math.pow(2, generation)
+    const boxHeight = Math.min(generation === 0 ? 64 : 52, slotHeight - 6)
+    const x = MARGIN + generation * (columnWidth + gap)
+    const centerY = areaTop - slotHeight * (index + 0.5)
+    const y = centerY - boxHeight / 2
+
+    const isRepeated = !!node && generation > 0 && repeated.has(getAncestorKey(node))
+    page.drawRectangle({
+      x,
+      y,
+      width: columnWidth,
+      height: boxHeight,
+      color: node ? PALETTE.ivory : PALETTE.white,
+      borderColor: isRepeated ? PALETTE.gold : PALETTE.muted,
+      borderWidth: isRepeated ? 1.5 : 0.5,
+      borderOpacity: node ? 1 : 0.4,
+    })
+    if (generation > 0) {
+      page.drawRectangle({ x, y, width: 3, height: boxHeight, color: path.endsWith('s') ? PALETTE.sire : PALETTE.dam })
+    }
+
+    const nameSize = generation === 0 ? 10 : generation >= 3 ? 7 : 8
+    const detailSize = generation >= 3 ? 6 : 6.5
+    if (node) {
+      drawText(page, fitText(node.name, fonts.sansBold, nameSize, columnWidth - 12), x + 7, y + boxHeight - 6, fonts.sansBold, nameSize, PALETTE.midnight)
+      const detail = [node.birthYear, node.color].filter(Boolean).join(' · ')
+      if (detail && boxHeight >= 26) {
+        drawText(page, fitText(detail, fonts.sans, detailSize, columnWidth - 12), x + 7, y + boxHeight - 8 - nameSize, fonts.sans, detailSize, PALETTE.muted)
+      }
+      if (node.registrationNumber && boxHeight >= 36) {
+        drawText(page, fitText(node.registrationNumber, fonts.sans, detailSize, columnWidth - 12), x + 7, y + boxHeight - 10 - nameSize - detailSize, fonts.sans, detailSize, PALETTE.muted)
+      }
+    } else {
+      drawText(page, 'Unknown', x + 7, y + boxHeight - 6, fonts.sans, nameSize, PALETTE.muted)
+    }
+
+    if (generation === generations) return
+
+    // Elbow connectors to both parents
+    const childSlot = slotHeight / 2
+    const jointX = x + columnWidth + gap / 2
+    ;[0, 1].forEach((offset) => {
+      const parentY = areaTop - childSlot * (index * 2 + offset + 0.5)
+      page.drawLine({ start: { x: x + columnWidth, y: centerY }, end: { x: jointX, y: centerY }, thickness: 0.75, color: PALETTE.gold })
+      page.drawLine({ start: { x: jointX, y: centerY }, end: { x: jointX, y: parentY }, thickness: 0.75, color: PALETTE.gold })
+      page.drawLine({ start: { x: jointX, y: parentY }, end: { x: jointX + gap / 2, y: parentY }, thickness: 0.75, color: PALETTE.gold })
+    })
+
+    drawNode(node?.sire, generation + 1, index * 2, `${path}s`)
+    drawNode(node?.dam, generation + 1, index * 2 + 1, `${path}d`)
+  }
+
+  drawNode(pedigree, 0, 0, '')
+
+  // Legend and coefficient of inbreeding
+  let top = areaTop - areaHeight - 16
+  const legend: [RGB, string][] = [[PALETTE.sire, 'Sire line'], [PALETTE.dam, 'Dam line'], [PALETTE.gold, 'Appears more than once']]
+  let x = MARGIN
+  legend.forEach(([color, label]) => {
+    page.drawRectangle({ x, y: top - 8, width: 8, height: 8, color })
+    drawText(page, label, x + 12, top, fonts.sans, 8, PALETTE.charcoal)
+    x += 24 + fonts.sans.widthOfTextAtSize(label, 8)
+  })
+
+  top -= 20
+  const coefficient = `Coefficient of inbreeding over ${generations} generations: ${formatCoefficient(analysis.coefficient)}`
+  drawText(page, coefficient, MARGIN, top, fonts.sans, 9, PALETTE.charcoal)
+  if (analysis.repeatedAncestors.length > 0) {
+    const names = analysis.repeatedAncestors
+      .map((ancestor) => (ancestor.crossNotation ? `${ancestor.name} (${ancestor.crossNotation})` : ancestor.name))
+      .join(', ')
+    wrapText(`Repeated ancestors: ${names}`, fonts.sans, 9, CONTENT_WIDTH).forEach((line) => {
+      top -= 13
+      drawText(page, line, MARGIN, top, fonts.sans, 9, PALETTE.charcoal)
+    })
+  }
+}
+
+async function drawGallery(doc: PDFDocument, fonts: Fonts, horse: HorseDetail, images: string[]) {
+  const page = addContentPage(doc, fonts, horse, 'Gallery')
+  const gap = 12
+  const width = (CONTENT_WIDTH - gap) / 2
+  const height = width * 0.75
+  const top = PAGE_HEIGHT - 126
+
+  await Promise.all(images.map((src, index) =>
+    drawPhoto(
+      doc,
+      page,
+      src,
+      MARGIN + (index % 2) * (width + gap),
+      top - (Math.floor(index / 2) + 1) * height - Math.floor(index / 2) * gap,
+      width,
+      height
+    )
+  ))
+}
+
+/**
+ * Footer with the listing address and page numbers, drawn once all pages exist
+ */
+function drawFooters(doc: PDFDocument, fonts: Fonts, url: string) {
+  const pages = doc.getPages()
+  pages.forEach((page, index) => {
+    const color = index === 0 ? PALETTE.ivory : PALETTE.muted
+    const label = `Page ${index + 1} of ${pages.length}`
+    drawText(page, url, MARGIN, MARGIN - 8, fonts.sans, 8, color)
+    drawText(page, label, PAGE_WIDTH - MARGIN - fonts.sans.widthOfTextAtSize(label, 8), MARGIN - 8, fonts.sans, 8, color)
+  })
+}
+
+/**
+ * Render a horse's sales brochure
+ *
+ * @param url - Public listing address, printed and encoded in the QR code
+ */
+export async function renderHorseBrochure(horse: HorseDetail, url: string): Promise<Uint8Array<ArrayBuffer>> {
+  const doc = await PDFDocument.create()
+  doc.setTitle(`${horse.name} | MAM Center`)
+  doc.setSubject(`${horse.breed} ${getSaleClassLabel(horse).toLowerCase()} for sale`)
+  doc.setAuthor('MAM Center')
+  doc.setCreator('MAM Center')
+
+  const fonts: Fonts = {
+    serif: await doc.embedFont(StandardFonts.TimesRoman),
+    sans: await doc.embedFont(StandardFonts.Helvetica),
+    sansBold: await doc.embedFont(StandardFonts.HelveticaBold),
+  }
+
+  await drawCover(doc, fonts, horse, url)
+  drawDetails(doc, fonts, horse)
+  if (horse.pedigree && (horse.pedigree.sire || horse.pedigree.dam)) {
+    drawPedigree(doc, fonts, horse, horse.pedigree)
+  }
+
+  const cover = horse.thumbnail || horse.images[0]
+  const gallery = horse.images.filter((src) => src !== cover).slice(0, MAX_GALLERY_IMAGES)
+  if (gallery.length > 0) {
+    await drawGallery(doc, fonts, horse, gallery)
+  }
+
+  drawFooters(doc, fonts, url)
+  return new Uint8Array(await doc.save())
+}
@@ -0,0 +1,50 @@
+/**
+ * Brochure Images
+ *
+ * Loads listing photos for the PDF brochure, cropped to the frame they are
+ * drawn in and re-encoded as JPEG, which every PDF reader supports.
+ */
+
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import sharp from 'sharp'
+
+/**
+ * Longest time to wait for a remote photo
+ */
+const FETCH_TIMEOUT_MS = 8000
+
+/**
+ * Output resolution relative to PDF points, for sharp prints
+ */
+const PIXELS_PER_POINT = 2
+
+async function readSource(src: string): Promise<Buffer> {
+  if (src.startsWith('/')) {
+    const publicDir = path.join(process.cwd(), 'public')
+    const file = path.join(publicDir, decodeURIComponent(src.split('?')[0]))
+    if (!file.startsWith(publicDir)) throw new Error(`Image outside public directory: ${src}`)
+    return readFile(file)
+  }
+
+  const response = await fetch(src, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) })
+  if (!response.ok) throw new Error(`Image request failed with ${response.status}: ${src}`)
+  return Buffer.from(await response.arrayBuffer())
+}
+
+/**
+ * JPEG bytes of a photo cropped to `width` × `height` points, or null when it can't be loaded
+ */
+export async function loadBrochureImage(src: string, width: number, height: number): Promise<Uint8Array | null> {
+  try {
+    const source = await readSource(src)
+    return await sharp(source)
+      .rotate()
+      .resize(Math.round(width * PIXELS_PER_POINT), Math.round(height * PIXELS_PER_POINT), { fit: 'cover' })
+      .jpeg({ quality: 82, mozjpeg: true })
+      .toBuffer()
+  } catch (error) {
+    console.error(`Failed to load brochure image ${src}`, error)
+    return null
+  }
+}
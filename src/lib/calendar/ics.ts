@@ -0,0 +1,104 @@
+/**
+ * iCalendar Export
+ *
+ * Serializes all-day events as an RFC 5545 `.ics` file that calendar apps
+ * (Google, Apple, Outlook) can import.
+ */
+
+/**
+ * An all-day calendar entry
+ */
+export interface CalendarEvent {
+  /** Stable id, so re-importing updates events instead of duplicating them */
+  uid: string
+  /** ISO date (YYYY-MM-DD) */
+  date: string
+  /** Last day for multi-day events, inclusive */
+  endDate?: string
+  title: string
+  description?: string
+}
+
+export const ICS_CONTENT_TYPE = 'text/calendar; charset=utf-8'
+
+/**
+ * Longest line in octets before folding
+ */
+const MAX_LINE_OCTETS = 75
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Fold a content line into 75-octet chunks, continuation lines starting with a space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line
+
+  const chunks: string[] = []
+  let current = ''
+  for (const char of line) {
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (encoder.encode(current + char).length > limit) {
+      chunks.push(current)
+      current = ''
+    }
+    current += char
+  }
+  chunks.push(current)
+
+  return chunks.join('\r\n ')
+}
+
+function toIcsDate(isoDate: string): string {
+  return isoDate.replace(/-/g, '')
+}
+
+function nextDay(isoDate: string): string {
+  const date = new Date(`${isoDate}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + 1)
+  return date.toISOString().slice(0, 10)
+}
+
+function toIcsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Build an `.ics` calendar from all-day events
+ */
+export function buildCalendar(name: string, events: CalendarEvent[], now: Date = new Date()): string {
+  const stamp = toIcsTimestamp(now)
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//MAM Center//Breeding Planner//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ]
+
+  events.forEach((event) => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}@mamcenter.com`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(event.date)}`,
+      // DTEND is exclusive for all-day events
+      `DTEND;VALUE=DATE:${toIcsDate(nextDay(event.endDate ?? event.date))}`,
+      `SUMMARY:${escapeText(event.title)}`
+    )
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    lines.push('TRANSP:TRANSPARENT', 'END:VEVENT')
+  })
+
+  lines.push('END:VCALENDAR')
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
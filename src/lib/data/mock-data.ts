@@ -6,10 +6,15 @@
  */
 
 import type { Horse } from '@/components/sections/horse-portfolio'
-import type { HorseDetail, PedigreeNode } from '@/components/sections/horse-detail'
+import type { HorseDetail } from '@/components/sections/horse-detail'
 import type { Product } from '@/components/sections/product-showcase'
 import type { Stallion, BreedingInfo } from '@/components/sections/breeding-program'
 import type { Article } from '@/components/sections/editorial-layouts'
+import type { StudBooking } from '@/lib/breeding/booking'
+import type { CompetitionResult } from '@/lib/horses/results'
+import type { HealthRecord } from '@/lib/horses/health'
+import type { User } from '@/lib/auth/users'
+import type { PedigreeNode } from '@/lib/pedigree/pedigree'
 
 /**
  * Mock Horses Data
@@ -22,10 +27,13 @@ export const mockHorses: Horse[] = [
     age: 8,
     gender: 'Male',
     color: 'Bay',
+    coatGenotype: { extension: 'E/e', agouti: 'A/a', grey: 'g/g', cream: 'n/n' },
+    registrationNumber: 'AHA-0621458',
     height: '15.2 hh',
     discipline: ['Dressage', 'Endurance'],
     price: 125000,
     image: 'https://images.unsplash.com/photo-1553284965-83fd3e82fa5a?w=800',
+    listedAt: '2026-03-02',
     description: 'A magnificent Arabian stallion with exceptional pedigree and championship potential.',
     competitionRecord: ['2023 Regional Dressage Champion', '2022 Endurance Top 10 Finisher'],
   },
@@ -36,12 +44,15 @@ export const mockHorses: Horse[] = [
     age: 6,
     gender: 'Female',
     color: 'Black',
+    coatGenotype: { extension: 'E/e', agouti: 'a/a', grey: 'g/g' },
     height: '16.1 hh',
     discipline: ['Dressage', 'Show Jumping'],
     price: 95000,
     image: 'https://images.unsplash.com/photo-1598974357801-cbca100e65d3?w=800',
+    listedAt: '2026-05-14',
     description: 'Elegant Friesian mare with incredible movement and gentle temperament.',
     competitionRecord: ['2023 Dressage Reserve Champion'],
+    availability: 'reserved',
   },
   {
     id: 'horse-003',
@@ -50,10 +61,13 @@ export const mockHorses: Horse[] = [
     age: 10,
     gender: 'Male',
     color: 'Grey',
+    coatGenotype: { grey: 'G/G' },
+    registrationNumber: 'AHA-0610274',
     height: '15.0 hh',
     discipline: ['Endurance', 'Trail'],
     price: 85000,
     image: 'https://images.unsplash.com/photo-1449157291145-7efd050a4d0e?w=800',
+    listedAt: '2025-11-20',
     description: 'Proven endurance champion with incredible stamina.',
     competitionRecord: ['2022 120km Endurance Winner', '2023 100km Endurance 2nd Place'],
   },
@@ -64,10 +78,13 @@ export const mockHorses: Horse[] = [
     age: 7,
     gender: 'Male',
     color: 'Grey',
+    coatGenotype: { extension: 'E/E', agouti: 'A/a', grey: 'G/g' },
+    registrationNumber: 'PRE-724019190007',
     height: '16.0 hh',
     discipline: ['Dressage'],
     price: 150000,
     image: 'https://images.unsplash.com/photo-1558618666-fcd25c85cd64?w=800',
+    listedAt: '2026-07-08',
     description: 'Premium Andalusian with classical training and exceptional presence.',
     competitionRecord: ['2023 Grand Prix Special 3rd Place'],
   },
@@ -82,6 +99,7 @@ export const mockHorses: Horse[] = [
     discipline: ['Show Jumping', 'Eventing'],
     price: 75000,
     image: 'https://images.unsplash.com/photo-1534773728080-33d4c646609e?w=800',
+    listedAt: '2026-08-30',
     description: 'Athletic Thoroughbred with jumping talent and speed.',
     competitionRecord: ['2023 Young Jumper Championship Finalist'],
   },
@@ -92,15 +110,146 @@ export const mockHorses: Horse[] = [
     age: 9,
     gender: 'Female',
     color: 'Grey',
+    coatGenotype: { extension: 'e/e', grey: 'G/g' },
     height: '15.3 hh',
     discipline: ['Dressage'],
     price: 110000,
     image: 'https://images.unsplash.com/photo-1508761963684-c7bc64e8a6a2?w=800',
+    listedAt: '2026-01-17',
     description: 'Beautiful Lusitano mare with collected gaits and excellent temperament.',
     competitionRecord: ['2022 Intermediare Champion'],
   },
+  {
+    id: 'horse-007',
+    name: 'Copper Canyon',
+    breed: 'Quarter Horse',
+    age: 12,
+    gender: 'Male',
+    castrated: true,
+    foalYear: 2014,
+    color: 'Chestnut',
+    height: '15.1 hh',
+    discipline: ['Trail', 'Western Pleasure'],
+    price: 45000,
+    image: 'https://images.unsplash.com/photo-1534773728080-33d4c646609e?w=800',
+    listedAt: '2026-09-12',
+    description: 'Steady, kind gelding with years of trail experience. Ideal for confident amateurs.',
+    competitionRecord: ['2021 State Western Pleasure Champion'],
+  },
+  {
+    id: 'horse-008',
+    name: 'Sunrise Promise',
+    breed: 'Arabian',
+    age: 0,
+    gender: 'Female',
+    foalYear: 2026,
+    color: 'Bay',
+    coatGenotype: { extension: 'E/E', agouti: 'A/a', grey: 'g/g' },
+    height: '11.2 hh',
+    discipline: ['Dressage'],
+    price: 35000,
+    image: 'https://images.unsplash.com/photo-1553284965-83fd3e82fa5a?w=800',
+    listedAt: '2026-10-01',
+    description: 'Correct, forward filly foal by Golden Sunrise out of a champion producing mare.',
+  },
+  {
+    id: 'horse-009',
+    name: 'Noble Heart',
+    breed: 'Hanoverian',
+    age: 11,
+    gender: 'Male',
+    castrated: true,
+    foalYear: 2015,
+    color: 'Bay',
+    height: '16.2 hh',
+    discipline: ['Show Jumping'],
+    price: 68000,
+    image: 'https://images.unsplash.com/photo-1449157291145-7efd050a4d0e?w=800',
+    listedAt: '2025-09-05',
+    description: 'Seasoned 1.30m jumper gelding with a flawless record.',
+    competitionRecord: ['2024 1.30m Grand Prix Winner'],
+    availability: 'sold',
+  },
 ]
 
+/**
+ * Golden Sunrise's pedigree, shared by his sale listing and stallion record
+ */
+const goldenSunrisePedigree: PedigreeNode = {
+  id: 'pedigree-001',
+  name: 'Golden Sunrise',
+  breed: 'Arabian',
+  gender: 'stallion',
+  registrationNumber: 'AHA-0621458',
+  birthYear: 2018,
+  color: 'Bay',
+  country: 'USA',
+  sire: {
+    id: 'sire-001',
+    name: 'Desert Fire',
+    breed: 'Arabian',
+    gender: 'stallion',
+    registrationNumber: 'AHA-0548102',
+    birthYear: 2009,
+    color: 'Chestnut',
+    country: 'USA',
+    achievements: ['Multiple Champion in Endurance'],
+    sire: {
+      id: 'gsire-001',
+      name: 'Famous Arabian',
+      breed: 'Arabian',
+      gender: 'stallion',
+      registrationNumber: 'EAHS-1998-0311',
+      birthYear: 1998,
+      deathYear: 2021,
+      color: 'Grey',
+      country: 'Egypt',
+    },
+    dam: {
+      id: 'gdam-001',
+      name: 'Desert Rose',
+      breed: 'Arabian',
+      gender: 'mare',
+      registrationNumber: 'AHA-0455930',
+      birthYear: 2002,
+      color: 'Bay',
+      country: 'USA',
+    },
+  },
+  dam: {
+    id: 'dam-001',
+    name: 'Starlight Dawn',
+    breed: 'Arabian',
+    gender: 'mare',
+    registrationNumber: 'AHA-0573317',
+    birthYear: 2011,
+    color: 'Bay',
+    country: 'USA',
+    achievements: ['Champion Producer'],
+    sire: {
+      id: 'gsire-002',
+      name: 'Midnight Sun',
+      breed: 'Arabian',
+      gender: 'stallion',
+      registrationNumber: 'PAHS-2001-0128',
+      birthYear: 2001,
+      color: 'Black',
+      country: 'Poland',
+    },
+    dam: {
+      id: 'gdam-002',
+      name: 'Evening Star',
+      breed: 'Arabian',
+      gender: 'mare',
+      registrationNumber: 'AHA-0431876',
+      birthYear: 2000,
+      deathYear: 2024,
+      color: 'Grey',
+      country: 'USA',
+    },
+  },
+}
+
 /**
  * Mock Horse Detail Data
  */
@@ -112,6 +261,8 @@ export const mockHorseDetails: Record<string, HorseDetail> = {
     age: 8,
     gender: 'Male',
     color: 'Bay',
+    coatGenotype: { extension: 'E/e', agouti: 'A/a', grey: 'g/g', cream: 'n/n' },
+    registrationNumber: 'AHA-0621458',
     height: '15.2 hh',
     discipline: ['Dressage', 'Endurance'],
     price: 125000,
@@ -127,46 +278,7 @@ export const mockHorseDetails: Record<string, HorseDetail> = {
       '2022 National Endurance - Top 10 Finish (120km)',
       '2021 Arabian Sport Horse Nationals - Reserve Champion',
     ],
-    pedigree: {
-      id: 'pedigree-001',
-      name: 'Golden Sunrise',
-      breed: 'Arabian',
-      gender: 'stallion',
-      sire: {
-        id: 'sire-001',
-        name: 'Desert Fire',
-        breed: 'Arabian',
-        gender: 'stallion',
-        achievements: ['Multiple Champion in Endurance'],
-        sire: {
-          id: 'gsire-001',
-          name: 'Famous Arabian',
-          breed: 'Arabian',
-        },
-        dam: {
-          id: 'gdam-001',
-          name: 'Desert Rose',
-          breed: 'Arabian',
-        },
-      },
-      dam: {
-        id: 'dam-001',
-        name: 'Starlight Dawn',
-        breed: 'Arabian',
-        gender: 'mare',
-        achievements: ['Champion Producer'],
-        sire: {
-          id: 'gsire-002',
-          name: 'Midnight Sun',
-          breed: 'Arabian',
-        },
-        dam: {
-          id: 'gdam-002',
-          name: 'Evening Star',
-          breed: 'Arabian',
-        },
-      },
-    },
+    pedigree: goldenSunrisePedigree,
     training: [
       'Grand Prix dressage movements',
       'Lateral work and collection',
@@ -178,6 +290,7 @@ export const mockHorseDetails: Record<string, HorseDetail> = {
     healthStatus: 'Excellent health, up to date on all vaccinations, regular dental care, clean X-rays on file.',
     location: 'Main Facility - Stall 12',
     availability: 'available',
+    listedAt: '2026-03-02',
     modelPath: '/models/horses/golden-sunrise.glb',
   },
 }
@@ -325,6 +438,8 @@ export const mockStallions: Stallion[] = [
     age: 8,
     height: '15.2 hh',
     color: 'Bay',
+    coatGenotype: { extension: 'E/e', agouti: 'A/a', grey: 'g/g', cream: 'n/n' },
+    registrationNumber: 'AHA-0621458',
     image: 'https://images.unsplash.com/photo-1553284965-83fd3e82fa5a?w=800',
     studFee: 3500,
     specialties: ['Dressage', 'Endurance', 'Conformation', 'Temperament'],
@@ -333,16 +448,15 @@ export const mockStallions: Stallion[] = [
       'Multiple Regional Endurance Wins',
       'Elite Arabian Classification',
     ],
-    offspring: ['foal-001', 'foal-002', 'foal-003', 'foal-004'],
+    offspring: ['horse-008', 'foal-001', 'foal-002', 'foal-003', 'foal-004'],
     temperament: 'Gentle, intelligent, passes on excellent work ethic',
     healthStatus: 'Excellent, all health clearances on file',
     location: 'Main Facility - Stallion Barn A',
-    bookingStatus: 'available',
-    pedigree: {
-      sire: 'Desert Fire',
-      dam: 'Starlight Dawn',
-      grandsire: 'Famous Arabian',
-    },
+    seasons: [
+      { season: 2026, capacity: 40 },
+      { season: 2027, capacity: 40 },
+    ],
+    pedigree: goldenSunrisePedigree,
     statistics: {
       foalsBorn: 47,
       competitionWinners: 23,
@@ -356,6 +470,8 @@ export const mockStallions: Stallion[] = [
     age: 7,
     height: '16.0 hh',
     color: 'Grey',
+    coatGenotype: { extension: 'E/E', agouti: 'A/a', grey: 'G/g' },
+    registrationNumber: 'PRE-724019190007',
     image: 'https://images.unsplash.com/photo-1558618666-fcd25c85cd64?w=800',
     studFee: 5000,
     specialties: ['Classical Dressage', 'Collection', 'Piaffe/Passage'],
@@ -368,11 +484,48 @@ export const mockStallions: Stallion[] = [
     temperament: 'Noble, willing, excellent with mares',
     healthStatus: 'Excellent, PRE registry approved',
     location: 'Main Facility - Stallion Barn B',
-    bookingStatus: 'limited',
+    seasons: [
+      { season: 2026, capacity: 8 },
+      { season: 2027, capacity: 6 },
+    ],
     pedigree: {
-      sire: 'Legendario X',
-      dam: 'Danza Real',
-      grandsire: 'Olympico',
+      id: 'pedigree-002',
+      name: 'Royal Legacy',
+      breed: 'Andalusian',
+      gender: 'stallion',
+      registrationNumber: 'PRE-724019190007',
+      birthYear: 2019,
+      color: 'Grey',
+      country: 'Spain',
+      sire: {
+        id: 'pedigree-002-s',
+        name: 'Legendario X',
+        breed: 'Andalusian',
+        gender: 'stallion',
+        registrationNumber: 'PRE-724019100213',
+        birthYear: 2008,
+        color: 'Grey',
+        country: 'Spain',
+        sire: {
+          id: 'pedigree-002-ss',
+          name: 'Olympico',
+          breed: 'Andalusian',
+          gender: 'stallion',
+          birthYear: 1996,
+          color: 'Grey',
+          country: 'Spain',
+        },
+      },
+      dam: {
+        id: 'pedigree-002-d',
+        name: 'Danza Real',
+        breed: 'Andalusian',
+        gender: 'mare',
+        registrationNumber: 'PRE-724019110588',
+        birthYear: 2010,
+        color: 'Bay',
+        country: 'Spain',
+      },
     },
     statistics: {
       foalsBorn: 28,
@@ -387,6 +540,8 @@ export const mockStallions: Stallion[] = [
     age: 10,
     height: '15.0 hh',
     color: 'Grey',
+    coatGenotype: { grey: 'G/G' },
+    registrationNumber: 'AHA-0610274',
     image: 'https://images.unsplash.com/photo-1449157291145-7efd050a4d0e?w=800',
     studFee: 2500,
     specialties: ['Endurance', 'Stamina', 'Conformation'],
@@ -399,10 +554,37 @@ export const mockStallions: Stallion[] = [
     temperament: 'Athletic, competitive, excellent producer',
     healthStatus: 'Excellent, metabolic testing complete',
     location: 'Main Facility - Stallion Barn A',
-    bookingStatus: 'available',
+    seasons: [
+      { season: 2026, capacity: 30 },
+      { season: 2027, capacity: 30 },
+    ],
     pedigree: {
-      sire: 'Endurance Elite',
-      dam: 'Desert Rose II',
+      id: 'pedigree-003',
+      name: 'Desert Storm',
+      breed: 'Arabian',
+      gender: 'stallion',
+      registrationNumber: 'AHA-0610274',
+      birthYear: 2016,
+      color: 'Grey',
+      country: 'USA',
+      sire: {
+        id: 'pedigree-003-s',
+        name: 'Endurance Elite',
+        breed: 'Arabian',
+        gender: 'stallion',
+        birthYear: 2005,
+        color: 'Grey',
+        country: 'UAE',
+      },
+      dam: {
+        id: 'pedigree-003-d',
+        name: 'Desert Rose II',
+        breed: 'Arabian',
+        gender: 'mare',
+        birthYear: 2008,
+        color: 'Chestnut',
+        country: 'USA',
+      },
     },
     statistics: {
       foalsBorn: 62,
@@ -412,6 +594,488 @@ export const mockStallions: Stallion[] = [
   },
 ]
 
+/**
+ * Mock Stud Bookings
+ */
+export const mockStudBookings: StudBooking[] = [
+  {
+    id: 'booking-001',
+    stallionId: 'stallion-002',
+    season: 2027,
+    mare: { name: 'Bella Donna', breed: 'Andalusian', age: 9 },
+    owner: { name: 'Maria Alvarez', email: 'maria.alvarez@example.com' },
+    method: 'natural_cover',
+    preferredDates: { from: '2027-03-01', to: '2027-03-21' },
+    status: 'paid',
+    createdAt: '2026-09-01T10:00:00.000Z',
+    updatedAt: '2026-09-11T10:00:00.000Z',
+  },
+  {
+    id: 'booking-002',
+    stallionId: 'stallion-002',
+    season: 2027,
+    mare: { name: 'Estrella', breed: 'PRE', age: 7 },
+    owner: { name: 'James Whitfield', email: 'j.whitfield@example.com' },
+    method: 'artificial_insemination',
+    preferredDates: { from: '2027-03-15', to: '2027-04-15' },
+    status: 'confirmed',
+    createdAt: '2026-09-02T10:00:00.000Z',
+    updatedAt: '2026-09-12T10:00:00.000Z',
+  },
+  {
+    id: 'booking-003',
+    stallionId: 'stallion-002',
+    season: 2027,
+    mare: { name: 'Luna Clara', breed: 'Lusitano', age: 11 },
+    owner: { name: 'Sofia Brandt', email: 'sofia.brandt@example.com' },
+    method: 'natural_cover',
+    preferredDates: { from: '2027-04-01', to: '2027-04-20' },
+    status: 'confirmed',
+    createdAt: '2026-09-03T10:00:00.000Z',
+    updatedAt: '2026-09-13T10:00:00.000Z',
+  },
+  {
+    id: 'booking-004',
+    stallionId: 'stallion-002',
+    season: 2027,
+    mare: { name: 'Reina del Sol', breed: 'Andalusian', age: 6 },
+    owner: { name: 'Omar Haddad', email: 'omar.haddad@example.com' },
+    method: 'artificial_insemination',
+    preferredDates: { from: '2027-04-10', to: '2027-05-10' },
+    status: 'paid',
+    createdAt: '2026-09-04T10:00:00.000Z',
+    updatedAt: '2026-09-14T10:00:00.000Z',
+  },
+  {
+    id: 'booking-005',
+    stallionId: 'stallion-002',
+    season: 2027,
+    mare: { name: 'Valentina', breed: 'Hanoverian', age: 8 },
+    owner: { name: 'Claire Dubois', email: 'claire.dubois@example.com' },
+    method: 'artificial_insemination',
+    preferredDates: { from: '2027-05-01', to: '2027-05-31' },
+    status: 'confirmed',
+    createdAt: '2026-09-05T10:00:00.000Z',
+    updatedAt: '2026-09-15T10:00:00.000Z',
+  },
+]
+
+/**
+ * Mock Competition Results
+ *
+ * Horses 005 and 007 only have legacy free-text records.
+ */
+export const mockCompetitionResults: CompetitionResult[] = [
+  {
+    id: 'result-001',
+    horseId: 'horse-001',
+    date: '2023-06-17',
+    event: 'Regional Dressage Championships, Prix St. Georges',
+    discipline: 'Dressage',
+    level: 'regional',
+    placing: 1,
+    score: 71.8,
+    rider: 'Elena Marsh',
+  },
+  {
+    id: 'result-002',
+    horseId: 'horse-001',
+    date: '2022-09-24',
+    event: 'National Endurance Championship, 120km',
+    discipline: 'Endurance',
+    level: 'national',
+    placing: 7,
+    rider: 'Omar Haddad',
+  },
+  {
+    id: 'result-003',
+    horseId: 'horse-001',
+    date: '2021-10-20',
+    event: 'Arabian Sport Horse Nationals, Stallions In Hand',
+    discipline: 'Conformation',
+    level: 'national',
+    placing: 2,
+  },
+  {
+    id: 'result-004',
+    horseId: 'horse-002',
+    date: '2023-08-05',
+    event: 'Regional Dressage Championships, Fourth Level',
+    discipline: 'Dressage',
+    level: 'regional',
+    placing: 2,
+    score: 69.4,
+    rider: 'Sofia Brandt',
+  },
+  {
+    id: 'result-005',
+    horseId: 'horse-003',
+    date: '2022-04-09',
+    event: 'Desert Classic Endurance Ride, 120km',
+    discipline: 'Endurance',
+    level: 'national',
+    placing: 1,
+    rider: 'Omar Haddad',
+  },
+  {
+    id: 'result-006',
+    horseId: 'horse-003',
+    date: '2023-03-18',
+    event: 'Spring Endurance Series, 100km',
+    discipline: 'Endurance',
+    level: 'regional',
+    placing: 2,
+    rider: 'Omar Haddad',
+  },
+  {
+    id: 'result-007',
+    horseId: 'horse-004',
+    date: '2023-09-30',
+    event: 'International Dressage Festival, Grand Prix Special',
+    discipline: 'Dressage',
+    level: 'international',
+    placing: 3,
+    score: 70.2,
+    rider: 'Javier Ortega',
+  },
+  {
+    id: 'result-008',
+    horseId: 'horse-006',
+    date: '2022-07-23',
+    event: 'State Dressage Championships, Intermediaire I',
+    discipline: 'Dressage',
+    level: 'national',
+    placing: 1,
+    score: 72.1,
+    rider: 'Ana Ribeiro',
+  },
+  {
+    id: 'result-009',
+    horseId: 'horse-009',
+    date: '2024-05-11',
+    event: 'Spring Classic, 1.30m Grand Prix',
+    discipline: 'Show Jumping',
+    level: 'regional',
+    placing: 1,
+    score: 0,
+    rider: 'Tom Keller',
+  },
+  // The stallions' own records
+  {
+    id: 'result-010',
+    horseId: 'stallion-001',
+    date: '2023-06-17',
+    event: 'Regional Dressage Championships, Prix St. Georges',
+    discipline: 'Dressage',
+    level: 'regional',
+    placing: 1,
+    score: 71.8,
+    rider: 'Elena Marsh',
+  },
+  {
+    id: 'result-011',
+    horseId: 'stallion-002',
+    date: '2023-09-30',
+    event: 'International Dressage Festival, Grand Prix Special',
+    discipline: 'Dressage',
+    level: 'international',
+    placing: 3,
+    score: 70.2,
+    rider: 'Javier Ortega',
+  },
+  {
+    id: 'result-012',
+    horseId: 'stallion-003',
+    date: '2022-04-09',
+    event: 'Desert Classic Endurance Ride, 120km',
+    discipline: 'Endurance',
+    level: 'national',
+    placing: 1,
+    rider: 'Omar Haddad',
+  },
+  // Offspring, which drive the stallions' statistics
+  {
+    id: 'result-013',
+    horseId: 'foal-001',
+    date: '2025-06-14',
+    event: 'National Young Horse Championships, 5-Year-Old Dressage',
+    discipline: 'Dressage',
+    level: 'national',
+    placing: 1,
+    score: 8.6,
+  },
+  {
+    id: 'result-014',
+    horseId: 'foal-002',
+    date: '2025-05-03',
+    event: 'Regional Endurance Ride, 80km',
+    discipline: 'Endurance',
+    level: 'regional',
+    placing: 1,
+  },
+  {
+    id: 'result-015',
+    horseId: 'foal-003',
+    date: '2024-09-21',
+    event: 'Arabian Sport Horse Nationals, Dressage Training Level',
+    discipline: 'Dressage',
+    level: 'national',
+    placing: 4,
+    score: 68.9,
+  },
+  {
+    id: 'result-016',
+    horseId: 'foal-005',
+    date: '2025-07-19',
+    event: 'International PRE Championships, Young Horse Dressage',
+    discipline: 'Dressage',
+    level: 'international',
+    placing: 1,
+    score: 8.9,
+  },
+  {
+    id: 'result-017',
+    horseId: 'foal-006',
+    date: '2025-04-12',
+    event: 'Regional Dressage Show, First Level',
+    discipline: 'Dressage',
+    level: 'regional',
+    placing: 2,
+    score: 70.5,
+  },
+  {
+    id: 'result-018',
+    horseId: 'foal-008',
+    date: '2025-03-08',
+    event: 'National Endurance Championship, 120km',
+    discipline: 'Endurance',
+    level: 'national',
+    placing: 1,
+  },
+  {
+    id: 'result-019',
+    horseId: 'foal-009',
+    date: '2024-10-26',
+    event: 'Autumn Endurance Ride, 100km',
+    discipline: 'Endurance',
+    level: 'local',
+    placing: 1,
+  },
+  {
+    id: 'result-020',
+    horseId: 'foal-010',
+    date: '2025-02-15',
+    event: 'Winter Endurance Series, 80km',
+    discipline: 'Endurance',
+    level: 'regional',
+    placing: 3,
+  },
+]
+
+/**
+ * Mock Health Records
+ *
+ * Horses without records fall back to their `healthStatus` string.
+ */
+export const mockHealthRecords: HealthRecord[] = [
+  {
+    id: 'health-001',
+    horseId: 'horse-001',
+    type: 'pre_purchase_exam',
+    date: '2026-02-18',
+    title: 'Five-stage pre-purchase examination',
+    provider: 'Valley Equine Hospital',
+    outcome: 'Passed',
+    summary: 'Sound in all four limbs on the lunge and under saddle; flexion tests clear. Heart, eyes and wind normal.',
+    visibility: 'buyers',
+  },
+  {
+    id: 'health-002',
+    horseId: 'horse-001',
+    type: 'xray',
+    date: '2026-02-18',
+    title: 'Limb radiographs (34 views)',
+    provider: 'Valley Equine Hospital',
+    outcome: 'Clean',
+    summary: 'No significant findings in front feet, hocks, stifles or fetlocks. Full set available to serious buyers on request.',
+    visibility: 'buyers',
+  },
+  {
+    id: 'health-003',
+    horseId: 'horse-001',
+    type: 'coggins',
+    date: '2026-03-04',
+    title: 'Equine infectious anaemia (Coggins) test',
+    provider: 'State Veterinary Diagnostic Lab',
+    outcome: 'Negative',
+    nextDue: '2027-03-04',
+    visibility: 'buyers',
+  },
+  {
+    id: 'health-004',
+    horseId: 'horse-001',
+    type: 'ehv_test',
+    date: '2026-03-04',
+    title: 'EHV-1 nasal swab PCR',
+    provider: 'State Veterinary Diagnostic Lab',
+    outcome: 'Negative',
+    visibility: 'buyers',
+  },
+  {
+    id: 'health-005',
+    horseId: 'horse-001',
+    type: 'vaccination',
+    date: '2025-09-12',
+    title: 'Influenza & EHV-1/4 booster',
+    provider: 'Dr. Sarah Collins',
+    nextDue: '2026-03-12',
+    visibility: 'buyers',
+  },
+  {
+    id: 'health-006',
+    horseId: 'horse-001',
+    type: 'vaccination',
+    date: '2026-03-12',
+    title: 'Influenza & EHV-1/4 booster',
+    provider: 'Dr. Sarah Collins',
+    nextDue: '2026-09-12',
+    visibility: 'buyers',
+  },
+  {
+    id: 'health-007',
+    horseId: 'horse-001',
+    type: 'vaccination',
+    date: '2026-04-02',
+    title: 'Tetanus, EEE/WEE & West Nile',
+    provider: 'Dr. Sarah Collins',
+    nextDue: '2027-04-02',
+    visibility: 'buyers',
+  },
+  {
+    id: 'health-008',
+    horseId: 'horse-001',
+    type: 'dental',
+    date: '2026-05-20',
+    title: 'Routine float',
+    provider: 'Equine Dental Services',
+    summary: 'Minor sharp points removed; no further work needed.',
+    nextDue: '2027-05-20',
+    visibility: 'buyers',
+  },
+  {
+    id: 'health-009',
+    horseId: 'horse-001',
+    type: 'farrier',
+    date: '2026-09-28',
+    title: 'Front shoes reset, hinds trimmed',
+    provider: 'Tom Becker, CJF',
+    nextDue: '2026-11-09',
+    visibility: 'buyers',
+  },
+  {
+    id: 'health-010',
+    horseId: 'horse-001',
+    type: 'vet_visit',
+    date: '2025-07-08',
+    title: 'Minor heel bulb laceration',
+    provider: 'Dr. Sarah Collins',
+    outcome: 'Healed',
+    summary: 'Cleaned and dressed; fully healed within two weeks.',
+    privateNotes: 'Caught on the paddock gate latch. Latch replaced; owner asked that this is only discussed if a buyer\'s vet asks.',
+    visibility: 'staff',
+  },
+  {
+    id: 'health-011',
+    horseId: 'horse-002',
+    type: 'coggins',
+    date: '2025-08-21',
+    title: 'Equine infectious anaemia (Coggins) test',
+    provider: 'State Veterinary Diagnostic Lab',
+    outcome: 'Negative',
+    nextDue: '2026-08-21',
+    visibility: 'buyers',
+  },
+  {
+    id: 'health-012',
+    horseId: 'horse-002',
+    type: 'vaccination',
+    date: '2026-04-15',
+    title: 'Core vaccinations & influenza',
+    provider: 'Dr. Sarah Collins',
+    nextDue: '2027-04-15',
+    visibility: 'buyers',
+  },
+  {
+    id: 'health-013',
+    horseId: 'horse-002',
+    type: 'farrier',
+    date: '2026-10-01',
+    title: 'Barefoot trim',
+    provider: 'Tom Becker, CJF',
+    nextDue: '2026-11-12',
+    privateNotes: 'Slight flare on the left fore; keep an eye on it at the next trim.',
+    visibility: 'buyers',
+  },
+  {
+    id: 'health-014',
+    horseId: 'stallion-001',
+    type: 'coggins',
+    date: '2026-01-10',
+    title: 'Equine infectious anaemia (Coggins) test',
+    provider: 'State Veterinary Diagnostic Lab',
+    outcome: 'Negative',
+    nextDue: '2027-01-10',
+    visibility: 'buyers',
+  },
+  {
+    id: 'health-015',
+    horseId: 'stallion-001',
+    type: 'ehv_test',
+    date: '2026-01-10',
+    title: 'EVA & EHV-1 breeding season screen',
+    provider: 'State Veterinary Diagnostic Lab',
+    outcome: 'Negative',
+    visibility: 'buyers',
+  },
+]
+
+/**
+ * Mock Users
+ *
+ * Staff accounts for local development. None has a password; sign in with a
+ * magic link, which the console mail transport prints.
+ */
+export const mockUsers: User[] = [
+  {
+    id: 'user-001',
+    email: 'admin@mamcenter.com',
+    name: 'Margaret Ashford',
+    role: 'admin',
+    createdAt: '2024-01-08T09:00:00.000Z',
+  },
+  {
+    id: 'user-002',
+    email: 'sales@mamcenter.com',
+    name: 'Daniel Reyes',
+    role: 'sales',
+    createdAt: '2024-01-15T09:00:00.000Z',
+  },
+  {
+    id: 'user-003',
+    email: 'breeding@mamcenter.com',
+    name: 'Claire Hendry',
+    role: 'breeder',
+    createdAt: '2024-02-01T09:00:00.000Z',
+  },
+  {
+    id: 'user-004',
+    email: 'client@example.com',
+    name: 'Olivia Grant',
+    role: 'client',
+    createdAt: '2024-06-20T14:30:00.000Z',
+  },
+]
+
 /**
  * Mock Breeding Info
  */
@@ -610,6 +1274,10 @@ export function getMockStallions(): Stallion[] {
   return mockStallions
 }
 
+export function getMockStudBookings(): StudBooking[] {
+  return mockStudBookings
+}
+
 export function getMockBreedingInfo(): BreedingInfo {
   return mockBreedingInfo
 }
@@ -622,7 +1290,8 @@ export function getMockArticles(): Article[] {
  * Re-export types from components/sections for convenience
  */
 export type { Horse } from '@/components/sections/horse-portfolio'
-export type { HorseDetail, PedigreeNode } from '@/components/sections/horse-detail'
+export type { HorseDetail } from '@/components/sections/horse-detail'
 export type { Product } from '@/components/sections/product-showcase'
 export type { Stallion, BreedingInfo } from '@/components/sections/breeding-program'
 export type { Article } from '@/components/sections/editorial-layouts'
+export type { PedigreeNode } from '@/lib/pedigree/pedigree'
@@ -0,0 +1,74 @@
+/**
+ * Persistence Layer
+ *
+ * Resolves the configured store once per process. Set `DATA_STORE=sqlite`
+ * (and optionally `SQLITE_PATH`) to persist to disk; the default is an
+ * in-memory store seeded from the mock catalogue.
+ */
+
+import type { DataStore, Repositories } from './types'
+import { createMemoryRepositories } from './memory'
+
+export type {
+  Entity,
+  Repository,
+  Repositories,
+  HorseRepository,
+  HorseDetailRepository,
+  StallionRepository,
+  ProductRepository,
+  ArticleRepository,
+  LeadRepository,
+  StudBookingRepository,
+  OrderRepository,
+  ShortlistRepository,
+  SavedSearchRepository,
+  SearchAlertRepository,
+  CompetitionResultRepository,
+  HealthRecordRepository,
+  UserRepository,
+  AuthSessionRepository,
+  LoginTokenRepository,
+  MediaRepository,
+  VideoRepository,
+  DataStore,
+} from './types'
+
+// Cached on globalThis so dev-server hot reloads keep a single connection
+const globalForDb = globalThis as unknown as {
+  mamRepositories?: Promise<Repositories>
+}
+
+/**
+ * Get the configured storage backend
+ */
+export function getDataStore(): DataStore {
+  return process.env.DATA_STORE === 'sqlite' ? 'sqlite' : 'memory'
+}
+
+async function createRepositories(): Promise<Repositories> {
+  // The typeof check lets client bundles drop the SQLite import entirely
+  if (typeof window === 'undefined' && getDataStore() === 'sqlite') {
+    const { openSqliteRepositories } = await import('./sqlite')
+    return openSqliteRepositories()
+  }
+
+  return createMemoryRepositories()
+}
+
+/**
+ * Get the repositories for the configured store
+ */
+export function getRepositories(): Promise<Repositories> {
+  if (!globalForDb.mamRepositories) {
+    globalForDb.mamRepositories = createRepositories()
+  }
+  return globalForDb.mamRepositories
+}
+
+/**
+ * Replace the active repositories (useful for scripts and seeding tools)
+ */
+export function setRepositories(repositories: Repositories): void {
+  globalForDb.mamRepositories = Promise.resolve(repositories)
+}
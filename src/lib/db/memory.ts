@@ -0,0 +1,89 @@
+/**
+ * In-Memory Store
+ *
+ * Map-backed repositories seeded from the mock catalogue. Data lives for the
+ * lifetime of the process, which makes this the default for development and
+ * for mock mode in the browser.
+ */
+
+import type { Entity, Repository, Repositories } from './types'
+import { getSeedData } from './seed'
+
+/**
+ * Create a repository holding records in insertion order
+ */
+export function createMemoryRepository<T extends Entity>(
+  name: string,
+  seed: T[] = []
+): Repository<T> {
+  const records = new Map<string, T>(seed.map((entity) => [entity.id, entity]))
+
+  return {
+    async list() {
+      return Array.from(records.values()).map((entity) => structuredClone(entity))
+    },
+
+    async findById(id) {
+      const entity = records.get(id)
+      return entity ? structuredClone(entity) : null
+    },
+
+    async create(entity) {
+      if (records.has(entity.id)) {
+        throw new Error(`${name} "${entity.id}" already exists`)
+      }
+      records.set(entity.id, structuredClone(entity))
+      return structuredClone(entity)
+    },
+
+    async update(id, changes) {
+      const existing = records.get(id)
+      if (!existing) return null
+
+      const updated = { ...existing, ...changes, id } as T
+      records.set(id, updated)
+      return structuredClone(updated)
+    },
+
+    async delete(id) {
+      return records.delete(id)
+    },
+
+    async reorder(ids) {
+      const ordered = ids.filter((id) => records.has(id))
+      const rest = Array.from(records.keys()).filter((id) => !ordered.includes(id))
+      const entries = [...ordered, ...rest].map((id) => [id, records.get(id) as T] as const)
+
+      records.clear()
+      entries.forEach(([id, entity]) => records.set(id, entity))
+    },
+  }
+}
+
+/**
+ * Create the full set of in-memory repositories
+ */
+export function createMemoryRepositories(): Repositories {
+  const seed = getSeedData()
+
+  return {
+    horses: createMemoryRepository('Horse', seed.horses),
+    horseDetails: createMemoryRepository('Horse detail', seed.horseDetails),
+    stallions: createMemoryRepository('Stallion', seed.stallions),
+    products: createMemoryRepository('Product', seed.products),
+    articles: createMemoryRepository('Article', seed.articles),
+    leads: createMemoryRepository('Lead'),
+    studBookings: createMemoryRepository('Stud booking', seed.studBookings),
+    orders: createMemoryRepository('Order'),
+    shortlists: createMemoryRepository('Shortlist'),
+    savedSearches: createMemoryRepository('Saved search'),
+    searchAlerts: createMemoryRepository('Search alert'),
+    competitionResults: createMemoryRepository('Competition result', seed.competitionResults),
+    healthRecords: createMemoryRepository('Health record', seed.healthRecords),
+    users: createMemoryRepository('User', seed.users),
+    sessions: createMemoryRepository('Session'),
+    loginTokens: createMemoryRepository('Login token'),
+    media: createMemoryRepository('Media asset'),
+    videos: createMemoryRepository('Video'),
+  }
+}
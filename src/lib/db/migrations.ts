@@ -0,0 +1,245 @@
+/**
+ * SQLite Migrations
+ *
+ * Ordered, append-only schema changes. Each migration runs once inside a
+ * transaction and is recorded in `schema_migrations`. Never edit a migration
+ * that has shipped; add a new one instead.
+ */
+
+import type Database from 'better-sqlite3'
+import { getSeedData } from './seed'
+import { fromPedigreeSummary, isPedigreeSummary, type PedigreeNode } from '@/lib/pedigree/pedigree'
+
+/**
+ * A single schema change
+ */
+export interface Migration {
+  /** Unique, sortable identifier */
+  id: string
+  /** Apply the change */
+  up: (db: Database.Database) => void
+}
+
+/**
+ * SQL for a JSON document collection
+ *
+ * Records are stored whole in `data`; `position` keeps display order stable.
+ */
+export function documentTableSql(table: string): string {
+  return `
+    CREATE TABLE ${table} (
+      id TEXT PRIMARY KEY,
+      position INTEGER NOT NULL,
+      data TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+    CREATE INDEX ${table}_position ON ${table} (position);
+  `
+}
+
+function insertAll(db: Database.Database, table: string, records: { id: string }[]) {
+  const insert = db.prepare(`INSERT INTO ${table} (id, position, data) VALUES (?, ?, ?)`)
+  records.forEach((record, index) => insert.run(record.id, index, JSON.stringify(record)))
+}
+
+/**
+ * Rewrite every stored document; `T` is the shape the table held when the migration shipped
+ */
+function updateAll<T extends { id: string }>(db: Database.Database, table: string, change: (record: T) => unknown) {
+  const rows = db.prepare(`SELECT id, data FROM ${table}`).all() as { id: string; data: string }[]
+  const update = db.prepare(`UPDATE ${table} SET data = ?, updated_at = datetime('now') WHERE id = ?`)
+  rows.forEach((row) => update.run(JSON.stringify(change(JSON.parse(row.data) as T)), row.id))
+}
+
+export const migrations: Migration[] = [
+  {
+    id: '001_catalogue_tables',
+    up: (db) => {
+      db.exec(
+        documentTableSql('horses') +
+        documentTableSql('horse_details') +
+        documentTableSql('stallions') +
+        documentTableSql('products') +
+        documentTableSql('articles')
+      )
+    },
+  },
+  {
+    id: '002_seed_catalogue',
+    up: (db) => {
+      const seed = getSeedData()
+      insertAll(db, 'horses', seed.horses)
+      insertAll(db, 'horse_details', seed.horseDetails)
+      insertAll(db, 'stallions', seed.stallions)
+      insertAll(db, 'products', seed.products)
+      insertAll(db, 'articles', seed.articles)
+    },
+  },
+  {
+    id: '003_leads',
+    up: (db) => {
+      db.exec(documentTableSql('leads'))
+    },
+  },
+  {
+    id: '004_stud_bookings',
+    up: (db) => {
+      const seed = getSeedData()
+      db.exec(documentTableSql('stud_bookings'))
+      insertAll(db, 'stud_bookings', seed.studBookings)
+
+      // Stallions gain season capacities; bookingStatus is now computed
+      const rows = db.prepare('SELECT id, data FROM stallions').all() as { id: string; data: string }[]
+      const update = db.prepare('UPDATE stallions SET data = ? WHERE id = ?')
+      rows.forEach((row) => {
+        const { bookingStatus: _bookingStatus, ...stallion } = JSON.parse(row.data)
+        const seeded = seed.stallions.find((s) => s.id === row.id)
+        update.run(JSON.stringify({ ...stallion, seasons: stallion.seasons ?? seeded?.seasons ?? [] }), row.id)
+      })
+    },
+  },
+  {
+    id: '005_orders',
+    up: (db) => {
+      db.exec(documentTableSql('orders'))
+    },
+  },
+  {
+    id: '006_shortlists',
+    up: (db) => {
+      db.exec(documentTableSql('shortlists'))
+    },
+  },
+  {
+    id: '007_saved_searches',
+    up: (db) => {
+      db.exec(documentTableSql('saved_searches'))
+      db.exec(documentTableSql('search_alerts'))
+    },
+  },
+  {
+    id: '008_unified_pedigrees',
+    up: (db) => {
+      const seed = getSeedData()
+      const registration = (records: { id: string; registrationNumber?: string }[], id: string) =>
+        records.find((record) => record.id === id)?.registrationNumber
+
+      updateAll<{ id: string; registrationNumber?: string }>(db, 'horses', (horse) => ({
+        ...horse,
+        registrationNumber: horse.registrationNumber ?? registration(seed.horses, horse.id),
+      }))
+
+      // Seeded detail pedigrees gain registration numbers, years and countries
+      updateAll<{ id: string; registrationNumber?: string; pedigree?: PedigreeNode }>(db, 'horse_details', (horse) => {
+        const seeded = seed.horseDetails.find((h) => h.id === horse.id)
+        return {
+          ...horse,
+          registrationNumber: horse.registrationNumber ?? seeded?.registrationNumber,
+          pedigree: seeded?.pedigree && horse.pedigree?.id === seeded.pedigree.id ? seeded.pedigree : horse.pedigree,
+        }
+      })
+
+      // Stallions stored a sire/dam name summary; convert it to a pedigree tree
+      updateAll<{ id: string; name: string; breed: string; registrationNumber?: string; pedigree?: unknown }>(db, 'stallions', (stallion) => {
+        if (!isPedigreeSummary(stallion.pedigree)) return stallion
+
+        const seeded = seed.stallions.find((s) => s.id === stallion.id)
+        const converted = fromPedigreeSummary(
+          { id: `pedigree-${stallion.id}`, name: stallion.name, breed: stallion.breed, gender: 'stallion' },
+          stallion.pedigree
+        )
+        const matchesSeed =
+          seeded?.pedigree?.sire?.name === converted.sire?.name &&
+          seeded?.pedigree?.dam?.name === converted.dam?.name
+
+        return {
+          ...stallion,
+          registrationNumber: stallion.registrationNumber ?? seeded?.registrationNumber,
+          pedigree: matchesSeed ? seeded?.pedigree : converted,
+        }
+      })
+    },
+  },
+  {
+    id: '009_coat_genotypes',
+    up: (db) => {
+      const seed = getSeedData()
+      const withGenotype = (records: { id: string; coatGenotype?: unknown }[]) => (record: { id: string; coatGenotype?: unknown }) => ({
+        ...record,
+        coatGenotype: record.coatGenotype ?? records.find((seeded) => seeded.id === record.id)?.coatGenotype,
+      })
+
+      updateAll(db, 'horses', withGenotype(seed.horses))
+      updateAll(db, 'horse_details', withGenotype(seed.horseDetails))
+      updateAll(db, 'stallions', withGenotype(seed.stallions))
+    },
+  },
+  {
+    id: '010_competition_results',
+    up: (db) => {
+      db.exec(documentTableSql('competition_results'))
+      insertAll(db, 'competition_results', getSeedData().competitionResults)
+    },
+  },
+  {
+    id: '011_health_records',
+    up: (db) => {
+      db.exec(documentTableSql('health_records'))
+      insertAll(db, 'health_records', getSeedData().healthRecords)
+    },
+  },
+  {
+    id: '012_accounts',
+    up: (db) => {
+      db.exec(documentTableSql('users'))
+      db.exec(documentTableSql('sessions'))
+      db.exec(documentTableSql('login_tokens'))
+      insertAll(db, 'users', getSeedData().users)
+    },
+  },
+  {
+    id: '013_media',
+    up: (db) => {
+      db.exec(documentTableSql('media'))
+    },
+  },
+  {
+    id: '014_videos',
+    up: (db) => {
+      db.exec(documentTableSql('videos'))
+    },
+  },
+]
+
+/**
+ * Apply all pending migrations
+ *
+ * @returns Identifiers of the migrations that ran
+ */
+export function runMigrations(db: Database.Database, list: Migration[] = migrations): string[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id TEXT PRIMARY KEY,
+      applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `)
+
+  const applied = new Set(
+    (db.prepare('SELECT id FROM schema_migrations').all() as { id: string }[]).map((row) => row.id)
+  )
+  const record = db.prepare('INSERT INTO schema_migrations (id) VALUES (?)')
+  const ran: string[] = []
+
+  for (const migration of list) {
+    if (applied.has(migration.id)) continue
+
+    db.transaction(() => {
+      migration.up(db)
+      record.run(migration.id)
+    })()
+    ran.push(migration.id)
+  }
+
+  return ran
+}
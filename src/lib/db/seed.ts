@@ -0,0 +1,58 @@
+/**
+ * Seed Data
+ *
+ * Initial collection contents for fresh stores, taken from the mock catalogue.
+ */
+
+import type { Horse } from '@/components/sections/horse-portfolio'
+import type { HorseDetail } from '@/components/sections/horse-detail'
+import type { Product } from '@/components/sections/product-showcase'
+import type { Stallion } from '@/components/sections/breeding-program'
+import type { Article } from '@/components/sections/editorial-layouts'
+import type { StudBooking } from '@/lib/breeding/booking'
+import type { CompetitionResult } from '@/lib/horses/results'
+import type { HealthRecord } from '@/lib/horses/health'
+import type { User } from '@/lib/auth/users'
+import {
+  mockHorses,
+  mockHorseDetails,
+  mockStallions,
+  mockProducts,
+  mockArticles,
+  mockStudBookings,
+  mockCompetitionResults,
+  mockHealthRecords,
+  mockUsers,
+} from '@/lib/data/mock-data'
+
+/**
+ * Seed records for each seeded collection
+ */
+export interface SeedData {
+  horses: Horse[]
+  horseDetails: HorseDetail[]
+  stallions: Stallion[]
+  products: Product[]
+  articles: Article[]
+  studBookings: StudBooking[]
+  competitionResults: CompetitionResult[]
+  healthRecords: HealthRecord[]
+  users: User[]
+}
+
+/**
+ * Get a deep copy of the seed catalogue so stores never mutate the mock arrays
+ */
+export function getSeedData(): SeedData {
+  return structuredClone({
+    horses: mockHorses,
+    horseDetails: Object.values(mockHorseDetails),
+    stallions: mockStallions,
+    products: mockProducts,
+    articles: mockArticles,
+    studBookings: mockStudBookings,
+    competitionResults: mockCompetitionResults,
+    healthRecords: mockHealthRecords,
+    users: mockUsers,
+  })
+}
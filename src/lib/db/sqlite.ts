@@ -0,0 +1,123 @@
+/**
+ * SQLite Store
+ *
+ * File-backed repositories using better-sqlite3. Each collection is a JSON
+ * document table created by `migrations.ts`. Server-only: never import this
+ * module from client components.
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import Database from 'better-sqlite3'
+import type { Entity, Repository, Repositories } from './types'
+import { runMigrations } from './migrations'
+
+/**
+ * Default database location, relative to the project root
+ */
+export const DEFAULT_SQLITE_PATH = 'data/mamcenter.db'
+
+interface DocumentRow {
+  data: string
+}
+
+/**
+ * Create a repository over a JSON document table
+ */
+export function createSqliteRepository<T extends Entity>(
+  db: Database.Database,
+  table: string,
+  name: string
+): Repository<T> {
+  const statements = {
+    list: db.prepare(`SELECT data FROM ${table} ORDER BY position, created_at`),
+    find: db.prepare(`SELECT data FROM ${table} WHERE id = ?`),
+    nextPosition: db.prepare(`SELECT COALESCE(MAX(position), -1) + 1 AS position FROM ${table}`),
+    insert: db.prepare(`INSERT INTO ${table} (id, position, data) VALUES (?, ?, ?)`),
+    update: db.prepare(`UPDATE ${table} SET data = ?, updated_at = datetime('now') WHERE id = ?`),
+    remove: db.prepare(`DELETE FROM ${table} WHERE id = ?`),
+    ids: db.prepare(`SELECT id FROM ${table} ORDER BY position, created_at`),
+    move: db.prepare(`UPDATE ${table} SET position = ? WHERE id = ?`),
+  }
+
+  const reorder = db.transaction((ids: string[]) => {
+    const existing = (statements.ids.all() as { id: string }[]).map((row) => row.id)
+    const ordered = ids.filter((id) => existing.includes(id))
+    const rest = existing.filter((id) => !ordered.includes(id))
+    ;[...ordered, ...rest].forEach((id, position) => statements.move.run(position, id))
+  })
+
+  const parse = (row: DocumentRow | undefined): T | null => (row ? (JSON.parse(row.data) as T) : null)
+
+  return {
+    async list() {
+      return (statements.list.all() as DocumentRow[]).map((row) => JSON.parse(row.data) as T)
+    },
+
+    async findById(id) {
+      return parse(statements.find.get(id) as DocumentRow | undefined)
+    },
+
+    async create(entity) {
+      if (statements.find.get(entity.id)) {
+        throw new Error(`${name} "${entity.id}" already exists`)
+      }
+      const { position } = statements.nextPosition.get() as { position: number }
+      statements.insert.run(entity.id, position, JSON.stringify(entity))
+      return entity
+    },
+
+    async update(id, changes) {
+      const existing = parse(statements.find.get(id) as DocumentRow | undefined)
+      if (!existing) return null
+
+      const updated = { ...existing, ...changes, id } as T
+      statements.update.run(JSON.stringify(updated), id)
+      return updated
+    },
+
+    async delete(id) {
+      return statements.remove.run(id).changes > 0
+    },
+
+    async reorder(ids) {
+      reorder(ids)
+    },
+  }
+}
+
+/**
+ * Open (or create) the database file, apply migrations, and build repositories
+ */
+export function openSqliteRepositories(filename = process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH): Repositories {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true })
+  }
+
+  const db = new Database(filename)
+  db.pragma('journal_mode = WAL')
+  db.pragma('foreign_keys = ON')
+
+  runMigrations(db)
+
+  return {
+    horses: createSqliteRepository(db, 'horses', 'Horse'),
+    horseDetails: createSqliteRepository(db, 'horse_details', 'Horse detail'),
+    stallions: createSqliteRepository(db, 'stallions', 'Stallion'),
+    products: createSqliteRepository(db, 'products', 'Product'),
+    articles: createSqliteRepository(db, 'articles', 'Article'),
+    leads: createSqliteRepository(db, 'leads', 'Lead'),
+    studBookings: createSqliteRepository(db, 'stud_bookings', 'Stud booking'),
+    orders: createSqliteRepository(db, 'orders', 'Order'),
+    shortlists: createSqliteRepository(db, 'shortlists', 'Shortlist'),
+    savedSearches: createSqliteRepository(db, 'saved_searches', 'Saved search'),
+    searchAlerts: createSqliteRepository(db, 'search_alerts', 'Search alert'),
+    competitionResults: createSqliteRepository(db, 'competition_results', 'Competition result'),
+    healthRecords: createSqliteRepository(db, 'health_records', 'Health record'),
+    users: createSqliteRepository(db, 'users', 'User'),
+    sessions: createSqliteRepository(db, 'sessions', 'Session'),
+    loginTokens: createSqliteRepository(db, 'login_tokens', 'Login token'),
+    media: createSqliteRepository(db, 'media', 'Media asset'),
+    videos: createSqliteRepository(db, 'videos', 'Video'),
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Persistence Types
+ *
+ * Storage-agnostic repository contracts. The in-memory and SQLite stores both
+ * implement these, and the API layer only ever talks to `Repositories`.
+ */
+
+import type { Horse } from '@/components/sections/horse-portfolio'
+import type { HorseDetail } from '@/components/sections/horse-detail'
+import type { Product } from '@/components/sections/product-showcase'
+import type { Stallion } from '@/components/sections/breeding-program'
+import type { Article } from '@/components/sections/editorial-layouts'
+import type { Lead } from '@/lib/inquiries/lead'
+import type { StudBooking } from '@/lib/breeding/booking'
+import type { Order } from '@/lib/shop/order'
+import type { Shortlist } from '@/lib/favorites/favorites'
+import type { SavedSearch, SearchAlert } from '@/lib/alerts/saved-search'
+import type { CompetitionResult } from '@/lib/horses/results'
+import type { HealthRecord } from '@/lib/horses/health'
+import type { AuthSession, LoginToken, User } from '@/lib/auth/users'
+import type { MediaAsset, MediaVideo } from '@/lib/media/types'
+
+/**
+ * Any record with a string identifier
+ */
+export interface Entity {
+  id: string
+}
+
+/**
+ * Basic CRUD contract shared by every collection
+ */
+export interface Repository<T extends Entity> {
+  /** All records in display order */
+  list(): Promise<T[]>
+  /** Single record, or null when missing */
+  findById(id: string): Promise<T | null>
+  /** Insert a new record; throws if the id is taken */
+  create(entity: T): Promise<T>
+  /** Merge changes into an existing record; null when missing */
+  update(id: string, changes: Partial<Omit<T, 'id'>>): Promise<T | null>
+  /** Remove a record; false when missing */
+  delete(id: string): Promise<boolean>
+  /** Put the given records first in this order; the rest follow in their current order */
+  reorder(ids: string[]): Promise<void>
+}
+
+export type HorseRepository = Repository<Horse>
+export type HorseDetailRepository = Repository<HorseDetail>
+export type StallionRepository = Repository<Stallion>
+export type ProductRepository = Repository<Product>
+export type ArticleRepository = Repository<Article>
+export type LeadRepository = Repository<Lead>
+export type StudBookingRepository = Repository<StudBooking>
+export type OrderRepository = Repository<Order>
+export type ShortlistRepository = Repository<Shortlist>
+export type SavedSearchRepository = Repository<SavedSearch>
+export type SearchAlertRepository = Repository<SearchAlert>
+export type CompetitionResultRepository = Repository<CompetitionResult>
+export type HealthRecordRepository = Repository<HealthRecord>
+export type UserRepository = Repository<User>
+export type AuthSessionRepository = Repository<AuthSession>
+export type LoginTokenRepository = Repository<LoginToken>
+export type MediaRepository = Repository<MediaAsset>
+export type VideoRepository = Repository<MediaVideo>
+
+/**
+ * Every collection the application persists
+ */
+export interface Repositories {
+  horses: HorseRepository
+  horseDetails: HorseDetailRepository
+  stallions: StallionRepository
+  products: ProductRepository
+  articles: ArticleRepository
+  leads: LeadRepository
+  studBookings: StudBookingRepository
+  orders: OrderRepository
+  shortlists: ShortlistRepository
+  savedSearches: SavedSearchRepository
+  searchAlerts: SearchAlertRepository
+  competitionResults: CompetitionResultRepository
+  healthRecords: HealthRecordRepository
+  users: UserRepository
+  sessions: AuthSessionRepository
+  loginTokens: LoginTokenRepository
+  media: MediaRepository
+  videos: VideoRepository
+}
+
+/**
+ * Configured storage backend
+ */
+export type DataStore = 'memory' | 'sqlite'
@@ -0,0 +1,168 @@
+/**
+ * Favorites
+ *
+ * Shortlisted horses, stallions and products, keyed by entity type and id.
+ * Anonymous visitors keep their shortlist in localStorage; signed-in users
+ * also have it stored on the server, merged with whatever they saved before
+ * signing in.
+ */
+
+/**
+ * Kinds of record that can be shortlisted
+ */
+export type FavoriteType = 'horse' | 'stallion' | 'product'
+
+/**
+ * Reference to a shortlisted record
+ */
+export interface FavoriteRef {
+  type: FavoriteType
+  id: string
+}
+
+/**
+ * A shortlisted record
+ */
+export interface Favorite extends FavoriteRef {
+  /** ISO timestamp of when it was saved */
+  addedAt: string
+}
+
+/**
+ * A user's stored shortlist; `id` is the user id
+ */
+export interface Shortlist {
+  id: string
+  items: Favorite[]
+  /** ISO timestamp of the last change */
+  updatedAt: string
+}
+
+export const FAVORITE_TYPES: readonly FavoriteType[] = ['horse', 'stallion', 'product']
+
+/**
+ * Longest shortlist we store
+ */
+export const MAX_FAVORITES = 200
+
+/**
+ * Query param carrying a shared shortlist on `/shortlist`
+ */
+export const SHARE_PARAM = 'items'
+
+export function isFavoriteType(value: unknown): value is FavoriteType {
+  return typeof value === 'string' && (FAVORITE_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Stable key for a favorite, e.g. `horse:horse-001`
+ */
+export function getFavoriteKey(ref: FavoriteRef): string {
+  return `${ref.type}:${ref.id}`
+}
+
+/**
+ * Whether a record is in the list
+ */
+export function hasFavorite(favorites: Favorite[], ref: FavoriteRef): boolean {
+  const key = getFavoriteKey(ref)
+  return favorites.some((favorite) => getFavoriteKey(favorite) === key)
+}
+
+/**
+ * Add a record if missing, or remove it if present
+ */
+export function toggleFavorite(favorites: Favorite[], ref: FavoriteRef): Favorite[] {
+  if (hasFavorite(favorites, ref)) return removeFavorite(favorites, ref)
+
+  return [...favorites, { type: ref.type, id: ref.id, addedAt: new Date().toISOString() }].slice(-MAX_FAVORITES)
+}
+
+export function removeFavorite(favorites: Favorite[], ref: FavoriteRef): Favorite[] {
+  const key = getFavoriteKey(ref)
+  return favorites.filter((favorite) => getFavoriteKey(favorite) !== key)
+}
+
+/**
+ * Union of two lists, keeping the earliest `addedAt` for records in both
+ */
+export function mergeFavorites(a: Favorite[], b: Favorite[]): Favorite[] {
+  const merged = new Map<string, Favorite>()
+
+  for (const favorite of [...a, ...b]) {
+    const key = getFavoriteKey(favorite)
+    const existing = merged.get(key)
+    if (!existing || favorite.addedAt < existing.addedAt) merged.set(key, favorite)
+  }
+
+  return [...merged.values()]
+    .sort((x, y) => x.addedAt.localeCompare(y.addedAt))
+    .slice(-MAX_FAVORITES)
+}
+
+/**
+ * Read a list of favorites from untrusted input, dropping malformed entries
+ *
+ * @returns null when the input is not an array
+ */
+export function readFavorites(value: unknown): Favorite[] | null {
+  if (!Array.isArray(value)) return null
+
+  const favorites: Favorite[] = []
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') continue
+
+    const { type, id, addedAt } = entry as Record<string, unknown>
+    if (!isFavoriteType(type) || typeof id !== 'string' || !id) continue
+
+    favorites.push({
+      type,
+      id,
+      addedAt: typeof addedAt === 'string' && !Number.isNaN(Date.parse(addedAt))
+        ? addedAt
+        : new Date().toISOString(),
+    })
+  }
+
+  return mergeFavorites(favorites, [])
+}
+
+/**
+ * Parse a shortlist saved in localStorage; malformed data yields an empty list
+ */
+export function parseStoredFavorites(raw: string | null): Favorite[] {
+  if (!raw) return []
+
+  try {
+    return readFavorites(JSON.parse(raw)) ?? []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Encode references for a share link, e.g. `horse:horse-001,product:prod-002`
+ */
+export function encodeShareParam(refs: FavoriteRef[]): string {
+  return refs.map(getFavoriteKey).join(',')
+}
+
+/**
+ * Decode a share link param, ignoring unknown types and duplicates
+ */
+export function decodeShareParam(value: string | undefined): FavoriteRef[] {
+  if (!value) return []
+
+  const refs = new Map<string, FavoriteRef>()
+  for (const part of value.split(',')) {
+    const separator = part.indexOf(':')
+    const type = part.slice(0, separator).trim()
+    const id = part.slice(separator + 1).trim()
+
+    if (separator > 0 && isFavoriteType(type) && id) {
+      refs.set(`${type}:${id}`, { type, id })
+    }
+  }
+
+  return [...refs.values()].slice(0, MAX_FAVORITES)
+}
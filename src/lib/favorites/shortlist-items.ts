@@ -0,0 +1,68 @@
+/**
+ * Shortlist Items
+ *
+ * Display summaries of shortlisted records, built on the server so the
+ * shortlist page only ships what it renders.
+ */
+
+import type { Horse } from '@/components/sections/horse-portfolio'
+import type { Stallion } from '@/components/sections/breeding-program'
+import type { Product } from '@/components/sections/product-showcase'
+import { formatPrice } from '@/lib/shop/cart'
+import { getFavoriteKey, type FavoriteRef } from './favorites'
+
+/**
+ * A shortlisted record ready to display
+ */
+export interface ShortlistItem extends FavoriteRef {
+  name: string
+  /** One-line description, e.g. breed and age */
+  summary: string
+  /** Formatted price or stud fee */
+  price?: string
+  image?: string
+  href: string
+}
+
+export function horseToShortlistItem(horse: Horse): ShortlistItem {
+  return {
+    type: 'horse',
+    id: horse.id,
+    name: horse.name,
+    summary: `${horse.breed} • ${horse.age} years • ${horse.discipline.join(', ')}`,
+    price: horse.availability === 'sold' ? 'Sold' : `$${horse.price.toLocaleString()}`,
+    image: horse.image,
+    href: `/horses/${horse.id}`,
+  }
+}
+
+export function stallionToShortlistItem(stallion: Stallion): ShortlistItem {
+  return {
+    type: 'stallion',
+    id: stallion.id,
+    name: stallion.name,
+    summary: `${stallion.breed} • ${stallion.age} years • ${stallion.color}`,
+    price: `Stud fee $${stallion.studFee.toLocaleString()}`,
+    image: stallion.image,
+    href: '/breeding',
+  }
+}
+
+export function productToShortlistItem(product: Product): ShortlistItem {
+  return {
+    type: 'product',
+    id: product.id,
+    name: product.name,
+    summary: product.inStock ? product.category : `${product.category} • Out of stock`,
+    price: formatPrice(product.price, product.currency),
+    image: product.thumbnail || product.images[0],
+    href: '/shop',
+  }
+}
+
+/**
+ * Index items by favorite key for lookup against a shortlist
+ */
+export function indexShortlistItems(items: ShortlistItem[]): Record<string, ShortlistItem> {
+  return Object.fromEntries(items.map((item) => [getFavoriteKey(item), item]))
+}
@@ -0,0 +1,129 @@
+/**
+ * Horse Comparison
+ *
+ * Selection limits, URL helpers and the attribute rows shown on
+ * `/horses/compare?ids=a,b,c`.
+ */
+
+import type { HorseDetail } from '@/components/sections/horse-detail'
+import type { PedigreeNode } from '@/lib/pedigree/pedigree'
+import { describeRecord } from './results'
+import { describeHealth } from './health'
+import { getSaleClassLabel } from './sale-class'
+
+/**
+ * Most horses that can be compared at once
+ */
+export const MAX_COMPARE = 3
+
+/**
+ * Query param carrying the compared horse ids
+ */
+export const COMPARE_PARAM = 'ids'
+
+/**
+ * Horse held in the compare tray
+ */
+export interface CompareItem {
+  id: string
+  name: string
+  image?: string
+}
+
+/**
+ * A row of the comparison table
+ */
+export interface CompareRow {
+  key: string
+  label: string
+  /** One value per horse, in column order */
+  values: string[]
+  /** Whether the horses differ on this attribute */
+  differs: boolean
+}
+
+/**
+ * Read horse ids from the compare param, dropping duplicates and extras
+ */
+export function parseCompareIds(value: string | string[] | undefined): string[] {
+  const parts = (Array.isArray(value) ? value : [value ?? ''])
+    .flatMap((entry) => entry.split(','))
+    .map((id) => id.trim())
+    .filter(Boolean)
+
+  return [...new Set(parts)].slice(0, MAX_COMPARE)
+}
+
+/**
+ * Link to the comparison view for a set of horses
+ */
+export function getCompareHref(ids: string[]): string {
+  return `/horses/compare?${COMPARE_PARAM}=${ids.map(encodeURIComponent).join(',')}`
+}
+
+/**
+ * Restore the compare tray from storage, dropping anything malformed
+ */
+export function parseStoredCompareItems(raw: string | null): CompareItem[] {
+  if (!raw) return []
+
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    if (!Array.isArray(parsed)) return []
+
+    return parsed
+      .filter((item): item is CompareItem =>
+        Boolean(item) && typeof item.id === 'string' && typeof item.name === 'string'
+      )
+      .slice(0, MAX_COMPARE)
+  } catch {
+    return []
+  }
+}
+
+function formatList(values?: string[]): string {
+  return values && values.length > 0 ? values.join('\n') : '—'
+}
+
+function formatAncestor(node?: PedigreeNode): string {
+  return node?.name ?? '—'
+}
+
+/**
+ * Attributes compared, in display order
+ */
+const COMPARE_FIELDS: { key: string; label: string; value: (horse: HorseDetail) => string }[] = [
+  { key: 'breed', label: 'Breed', value: (horse) => horse.breed },
+  { key: 'age', label: 'Age', value: (horse) => `${horse.age} years` },
+  { key: 'sex', label: 'Sex', value: (horse) => getSaleClassLabel(horse) },
+  { key: 'height', label: 'Height', value: (horse) => horse.height },
+  { key: 'color', label: 'Color', value: (horse) => horse.color },
+  { key: 'discipline', label: 'Disciplines', value: (horse) => formatList(horse.discipline) },
+  {
+    key: 'price',
+    label: 'Price',
+    value: (horse) => (horse.availability === 'sold' ? 'Sold' : `$${horse.price.toLocaleString()}`),
+  },
+  { key: 'competitionRecord', label: 'Competition Record', value: (horse) => formatList(describeRecord(horse.results, horse.competitionRecord)) },
+  { key: 'temperament', label: 'Temperament', value: (horse) => horse.temperament ?? '—' },
+  { key: 'healthStatus', label: 'Health Status', value: (horse) => formatList(describeHealth(horse.health, horse.healthStatus)) },
+  { key: 'sire', label: 'Sire', value: (horse) => formatAncestor(horse.pedigree?.sire) },
+  { key: 'dam', label: 'Dam', value: (horse) => formatAncestor(horse.pedigree?.dam) },
+  { key: 'siresSire', label: "Sire's Sire", value: (horse) => formatAncestor(horse.pedigree?.sire?.sire) },
+  { key: 'damsSire', label: "Dam's Sire", value: (horse) => formatAncestor(horse.pedigree?.dam?.sire) },
+]
+
+/**
+ * Build the comparison table for horses in column order
+ */
+export function buildCompareRows(horses: HorseDetail[]): CompareRow[] {
+  return COMPARE_FIELDS.map(({ key, label, value }) => {
+    const values = horses.map((horse) => value(horse))
+    return {
+      key,
+      label,
+      values,
+      differs: horses.length > 1 && new Set(values).size > 1,
+    }
+  })
+}
@@ -0,0 +1,181 @@
+/**
+ * Horse List URL State
+ *
+ * Serialises HorsePortfolio filters, sort order and page into query params
+ * so filtered lists survive reloads and can be shared as links. Values equal
+ * to the defaults are omitted to keep URLs short.
+ *
+ * Params: `breed` and `discipline` (repeatable), `minAge`, `maxAge`,
+ * `minPrice`, `maxPrice`, `q`, `sort`, `page`.
+ */
+
+import type { FilterOptions } from '@/components/sections/horse-portfolio'
+import type { HorseQueryParams } from '@/lib/api/types'
+
+/**
+ * Default age filter range in years
+ */
+export const DEFAULT_AGE_RANGE: [number, number] = [0, 30]
+
+/**
+ * Default price filter range
+ */
+export const DEFAULT_PRICE_RANGE: [number, number] = [0, 250000]
+
+/**
+ * Horses per page on paginated listings
+ */
+export const DEFAULT_PAGE_SIZE = 12
+
+const SORT_OPTIONS: FilterOptions['sortBy'][] = ['name', 'price', 'age', 'recent', 'results']
+
+/**
+ * Query param keys owned by the listing state
+ */
+export const HORSE_LIST_PARAM_KEYS = [
+  'breed',
+  'discipline',
+  'minAge',
+  'maxAge',
+  'minPrice',
+  'maxPrice',
+  'q',
+  'sort',
+  'page',
+] as const
+
+/**
+ * Filters, sort order and page of a horse listing
+ */
+export interface HorseListState {
+  filters: FilterOptions
+  page: number
+}
+
+/**
+ * Query params as received by App Router pages
+ */
+export type SearchParamsRecord = Record<string, string | string[] | undefined>
+
+/**
+ * Build the unfiltered state for a pair of ranges
+ */
+export function createDefaultFilters(
+  ageRange: [number, number] = DEFAULT_AGE_RANGE,
+  priceRange: [number, number] = DEFAULT_PRICE_RANGE
+): FilterOptions {
+  return {
+    breed: [],
+    discipline: [],
+    minAge: ageRange[0],
+    maxAge: ageRange[1],
+    minPrice: priceRange[0],
+    maxPrice: priceRange[1],
+    searchQuery: '',
+    sortBy: 'name',
+  }
+}
+
+/**
+ * Convert a page's `searchParams` record to URLSearchParams
+ */
+export function toURLSearchParams(record: SearchParamsRecord): URLSearchParams {
+  const params = new URLSearchParams()
+  Object.entries(record).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      value.forEach((item) => params.append(key, item))
+    } else if (value !== undefined) {
+      params.set(key, value)
+    }
+  })
+  return params
+}
+
+function readNumber(params: URLSearchParams, key: string, fallback: number): number {
+  const value = params.get(key)
+  if (value === null || value === '') return fallback
+
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : fallback
+}
+
+function readList(params: URLSearchParams, key: string): string[] {
+  return params.getAll(key).flatMap((value) => value.split(',')).filter(Boolean)
+}
+
+/**
+ * Restore listing state from query params
+ */
+export function parseHorseListParams(
+  input: URLSearchParams | SearchParamsRecord,
+  defaults: FilterOptions = createDefaultFilters()
+): HorseListState {
+  const params = input instanceof URLSearchParams ? input : toURLSearchParams(input)
+  const sort = params.get('sort') as FilterOptions['sortBy'] | null
+
+  return {
+    filters: {
+      breed: readList(params, 'breed'),
+      discipline: readList(params, 'discipline'),
+      minAge: readNumber(params, 'minAge', defaults.minAge),
+      maxAge: readNumber(params, 'maxAge', defaults.maxAge),
+      minPrice: readNumber(params, 'minPrice', defaults.minPrice),
+      maxPrice: readNumber(params, 'maxPrice', defaults.maxPrice),
+      searchQuery: params.get('q') ?? '',
+      sortBy: sort && SORT_OPTIONS.includes(sort) ? sort : defaults.sortBy,
+    },
+    page: Math.max(1, Math.floor(readNumber(params, 'page', 1))),
+  }
+}
+
+/**
+ * Serialise listing state to query params, skipping defaults
+ */
+export function serializeHorseListParams(
+  state: HorseListState,
+  defaults: FilterOptions = createDefaultFilters()
+): URLSearchParams {
+  const { filters, page } = state
+  const params = new URLSearchParams()
+
+  filters.breed.forEach((breed) => params.append('breed', breed))
+  filters.discipline.forEach((discipline) => params.append('discipline', discipline))
+  if (filters.minAge !== defaults.minAge) params.set('minAge', String(filters.minAge))
+  if (filters.maxAge !== defaults.maxAge) params.set('maxAge', String(filters.maxAge))
+  if (filters.minPrice !== defaults.minPrice) params.set('minPrice', String(filters.minPrice))
+  if (filters.maxPrice !== defaults.maxPrice) params.set('maxPrice', String(filters.maxPrice))
+  if (filters.searchQuery) params.set('q', filters.searchQuery)
+  if (filters.sortBy !== defaults.sortBy) params.set('sort', filters.sortBy)
+  if (page > 1) params.set('page', String(page))
+
+  return params
+}
+
+/**
+ * Translate listing state into `horseAPI.getAll` params
+ *
+ * Ranges left at their defaults are not sent, so the server does not
+ * exclude horses outside the slider bounds.
+ */
+export function toHorseQuery(
+  state: HorseListState,
+  defaults: FilterOptions = createDefaultFilters(),
+  pageSize = DEFAULT_PAGE_SIZE
+): HorseQueryParams {
+  const { filters, page } = state
+  const changed = (key: 'minAge' | 'maxAge' | 'minPrice' | 'maxPrice') =>
+    filters[key] !== defaults[key] ? filters[key] : undefined
+
+  return {
+    breed: filters.breed.length > 0 ? filters.breed : undefined,
+    discipline: filters.discipline.length > 0 ? filters.discipline : undefined,
+    minAge: changed('minAge'),
+    maxAge: changed('maxAge'),
+    minPrice: changed('minPrice'),
+    maxPrice: changed('maxPrice'),
+    search: filters.searchQuery || undefined,
+    sortBy: filters.sortBy,
+    page,
+    pageSize,
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * Health Records
+ *
+ * Dated veterinary, farrier and test records per horse or stallion. Each
+ * record carries a buyer-visible summary and optional private notes; buyers
+ * only ever see records marked for them, with private notes removed.
+ * `healthStatus` strings remain the fallback for horses without records.
+ */
+
+import { isIsoDate } from '@/lib/breeding/booking'
+import { addDays } from '@/lib/breeding/foaling'
+import { formatDate } from '@/lib/utils'
+import { hasErrors, readString, type FieldErrors, type ValidationResult } from '@/lib/validation'
+
+export type HealthRecordType =
+  | 'vaccination'
+  | 'farrier'
+  | 'dental'
+  | 'pre_purchase_exam'
+  | 'xray'
+  | 'coggins'
+  | 'ehv_test'
+  | 'vet_visit'
+
+/**
+ * Record types in overview order
+ */
+export const HEALTH_RECORD_TYPES: { value: HealthRecordType; label: string }[] = [
+  { value: 'pre_purchase_exam', label: 'Pre-purchase Exam' },
+  { value: 'xray', label: 'X-rays' },
+  { value: 'coggins', label: 'Coggins Test' },
+  { value: 'ehv_test', label: 'EHV Test' },
+  { value: 'vaccination', label: 'Vaccination' },
+  { value: 'dental', label: 'Dental' },
+  { value: 'farrier', label: 'Farrier' },
+  { value: 'vet_visit', label: 'Vet Visit' },
+]
+
+/**
+ * Who may see a record
+ */
+export type HealthVisibility = 'buyers' | 'staff'
+
+/**
+ * Who is looking at a horse's records
+ */
+export type HealthAudience = 'buyer' | 'staff'
+
+/**
+ * Months a negative Coggins test stays valid for travel and sale
+ */
+export const COGGINS_VALID_MONTHS = 12
+
+/**
+ * Days ahead that an upcoming treatment counts as due soon
+ */
+const DUE_SOON_DAYS = 30
+
+const MAX_ATTACHMENTS = 10
+
+/**
+ * A file attached to a record, such as an X-ray image or lab report
+ */
+export interface HealthAttachment {
+  name: string
+  url: string
+}
+
+/**
+ * A single dated health record
+ */
+export interface HealthRecord {
+  id: string
+  /** Horse or stallion the record belongs to */
+  horseId: string
+  type: HealthRecordType
+  /** ISO date of the visit, treatment or test */
+  date: string
+  /** What was done, e.g. "Influenza & EHV-1/4 booster" */
+  title: string
+  /** Vet practice, farrier or lab */
+  provider?: string
+  /** Test or exam outcome, e.g. "Negative" */
+  outcome?: string
+  /** ISO date the next treatment or test is due */
+  nextDue?: string
+  /** Buyer-visible description */
+  summary?: string
+  /** Internal notes; never shown to buyers */
+  privateNotes?: string
+  attachments?: HealthAttachment[]
+  visibility: HealthVisibility
+}
+
+/**
+ * Record form fields
+ */
+export type HealthRecordInput = Omit<HealthRecord, 'id' | 'horseId'>
+
+export type HealthRecordField =
+  | 'type'
+  | 'date'
+  | 'title'
+  | 'provider'
+  | 'outcome'
+  | 'nextDue'
+  | 'summary'
+  | 'privateNotes'
+  | 'attachments'
+  | 'visibility'
+
+/**
+ * A horse's records as one audience sees them
+ */
+export interface HorseHealth {
+  /** Newest first */
+  records: HealthRecord[]
+  /** Most recent record of each type */
+  latest: Partial<Record<HealthRecordType, HealthRecord>>
+  /** Whether the latest Coggins test is negative and under 12 months old */
+  cogginsCurrent: boolean
+  /**
+   * Treatments overdue or due within 30 days, taking the latest record of
+   * each type and title so separate vaccine courses are tracked apart
+   */
+  dueSoon: HealthRecord[]
+}
+
+/**
+ * Label for a record type
+ */
+export function getHealthRecordTypeLabel(type: HealthRecordType): string {
+  return HEALTH_RECORD_TYPES.find((t) => t.value === type)?.label ?? type
+}
+
+function addMonths(isoDate: string, months: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`)
+  date.setUTCMonth(date.getUTCMonth() + months)
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * The record as an audience may see it, or null when it's hidden from them
+ */
+export function toAudienceView(record: HealthRecord, audience: HealthAudience): HealthRecord | null {
+  if (audience === 'staff') return record
+  if (record.visibility !== 'buyers') return null
+
+  const { privateNotes: _privateNotes, ...visible } = record
+  return visible
+}
+
+/**
+ * Build the health view of a horse's records for an audience
+ */
+export function getHorseHealth(
+  records: HealthRecord[],
+  audience: HealthAudience,
+  today: Date = new Date()
+): HorseHealth {
+  const todayIso = today.toISOString().slice(0, 10)
+  const visible = records
+    .map((record) => toAudienceView(record, audience))
+    .filter((record): record is HealthRecord => record !== null)
+    .sort((a, b) => b.date.localeCompare(a.date))
+
+  const latest: HorseHealth['latest'] = {}
+  visible.forEach((record) => {
+    latest[record.type] ??= record
+  })
+
+  const coggins = latest.coggins
+  const dueBy = addDays(todayIso, DUE_SOON_DAYS)
+
+  return {
+    records: visible,
+    latest,
+    cogginsCurrent: Boolean(
+      coggins &&
+      coggins.outcome?.toLowerCase() === 'negative' &&
+      addMonths(coggins.date, COGGINS_VALID_MONTHS) >= todayIso
+    ),
+    dueSoon: visible
+      .filter((record, index) =>
+        visible.findIndex((other) => other.type === record.type && other.title === record.title) === index
+      )
+      .filter((record) => record.nextDue !== undefined && record.nextDue <= dueBy)
+      .sort((a, b) => (a.nextDue ?? '').localeCompare(b.nextDue ?? '')),
+  }
+}
+
+/**
+ * Display lines for a horse's health: the latest record of each type when
+ * there are any, otherwise the legacy `healthStatus` string
+ */
+export function describeHealth(health: HorseHealth | undefined, legacy?: string): string[] {
+  if (!health || health.records.length === 0) return legacy ? [legacy] : []
+
+  return HEALTH_RECORD_TYPES
+    .map(({ value, label }) => {
+      const record = health.latest[value]
+      if (!record) return null
+      return `${label}: ${record.outcome ?? record.title} (${formatDate(record.date)})`
+    })
+    .filter((line): line is string => line !== null)
+}
+
+function isAttachmentUrl(url: string): boolean {
+  return url.startsWith('/') || /^https?:\/\/\S+$/.test(url)
+}
+
+/**
+ * Validate untrusted record input
+ */
+export function validateHealthRecord(input: unknown): ValidationResult<HealthRecordInput, HealthRecordField> {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const errors: FieldErrors<HealthRecordField> = {}
+
+  const type = HEALTH_RECORD_TYPES.find((t) => t.value === body.type)?.value
+  const date = readString(body.date)
+  const title = readString(body.title)
+  const provider = readString(body.provider)
+  const outcome = readString(body.outcome)
+  const nextDue = readString(body.nextDue)
+  const summary = readString(body.summary)
+  const privateNotes = readString(body.privateNotes)
+  const visibility: HealthVisibility | undefined =
+    body.visibility === undefined ? 'buyers' : body.visibility === 'buyers' || body.visibility === 'staff' ? body.visibility : undefined
+  const rawAttachments = Array.isArray(body.attachments) ? body.attachments : []
+  const attachments = rawAttachments.map((attachment) => {
+    const item = (attachment && typeof attachment === 'object' ? attachment : {}) as Record<string, unknown>
+    return { name: readString(item.name), url: readString(item.url) }
+  })
+
+  if (!type) errors.type = 'Please choose a record type'
+  if (!isIsoDate(date)) errors.date = 'Please enter the date'
+  if (!title) errors.title = 'Please describe what was done'
+  if (nextDue && !isIsoDate(nextDue)) {
+    errors.nextDue = 'Please enter a valid date'
+  } else if (nextDue && isIsoDate(date) && nextDue < date) {
+    errors.nextDue = 'Next due date must be after the record date'
+  }
+  if (!visibility) errors.visibility = 'Please choose who can see this record'
+  if (body.attachments !== undefined && !Array.isArray(body.attachments)) {
+    errors.attachments = 'Attachments must be a list'
+  } else if (attachments.length > MAX_ATTACHMENTS) {
+    errors.attachments = `Please attach up to ${MAX_ATTACHMENTS} files`
+  } else if (attachments.some((attachment) => !attachment.name || !isAttachmentUrl(attachment.url))) {
+    errors.attachments = 'Each attachment needs a name and a link'
+  }
+
+  if (hasErrors(errors) || !type || !visibility) {
+    return { success: false, errors }
+  }
+
+  return {
+    success: true,
+    data: {
+      type,
+      date,
+      title,
+      provider: provider || undefined,
+      outcome: outcome || undefined,
+      nextDue: nextDue || undefined,
+      summary: summary || undefined,
+      privateNotes: privateNotes || undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      visibility,
+    },
+  }
+}
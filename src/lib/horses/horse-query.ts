@@ -0,0 +1,54 @@
+/**
+ * Horse Query Matching
+ *
+ * The filter half of `HorseQueryParams`, applied to a single horse. Shared by
+ * the horse list and saved-search alerts so both agree on what matches.
+ */
+
+import type { Horse } from '@/components/sections/horse-portfolio'
+import type { HorseQueryParams } from '@/lib/api/types'
+import { getAvailability, getHorseAge, getSaleClass } from './sale-class'
+
+/**
+ * Normalize a single-or-many filter value to a list
+ */
+function toList(value?: string | string[]): string[] {
+  if (!value) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+/**
+ * Whether a horse passes every filter in `params`
+ *
+ * Sold horses only match when `includeSold` is set or `availability` is `sold`.
+ */
+export function matchesHorseQuery(horse: Horse, params: HorseQueryParams = {}): boolean {
+  const availability = getAvailability(horse)
+
+  if (!params.includeSold && params.availability !== 'sold' && availability === 'sold') return false
+  if (params.availability && availability !== params.availability) return false
+  if (params.saleClass && getSaleClass(horse) !== params.saleClass) return false
+
+  const breeds = toList(params.breed)
+  if (breeds.length > 0 && !breeds.includes(horse.breed)) return false
+
+  const disciplines = toList(params.discipline)
+  if (disciplines.length > 0 && !horse.discipline.some(d => disciplines.includes(d))) return false
+
+  const age = getHorseAge(horse)
+  if (params.minAge !== undefined && age < params.minAge) return false
+  if (params.maxAge !== undefined && age > params.maxAge) return false
+  if (params.minPrice !== undefined && horse.price < params.minPrice) return false
+  if (params.maxPrice !== undefined && horse.price > params.maxPrice) return false
+
+  if (params.search) {
+    const query = params.search.toLowerCase()
+    const found =
+      horse.name.toLowerCase().includes(query) ||
+      horse.breed.toLowerCase().includes(query) ||
+      horse.discipline.some(d => d.toLowerCase().includes(query))
+    if (!found) return false
+  }
+
+  return true
+}
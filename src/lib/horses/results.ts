@@ -0,0 +1,214 @@
+/**
+ * Competition Results
+ *
+ * Structured show results recorded against a horse, stallion or offspring
+ * id. They replace the free-text `competitionRecord` and `achievements`
+ * strings, which remain as the fallback for horses without results.
+ */
+
+import type { Stallion } from '@/components/sections/breeding-program'
+import { isIsoDate } from '@/lib/breeding/booking'
+import { hasErrors, readString, type FieldErrors, type ValidationResult } from '@/lib/validation'
+
+/**
+ * Tier of the show a result was gained at
+ */
+export type ResultLevel = 'local' | 'regional' | 'national' | 'international'
+
+export const RESULT_LEVELS: { value: ResultLevel; label: string }[] = [
+  { value: 'local', label: 'Local' },
+  { value: 'regional', label: 'Regional' },
+  { value: 'national', label: 'National' },
+  { value: 'international', label: 'International' },
+]
+
+/**
+ * A single placing at a show
+ */
+export interface CompetitionResult {
+  id: string
+  /** Horse, stallion or offspring the result belongs to */
+  horseId: string
+  /** ISO date of the class */
+  date: string
+  /** Show and class, e.g. "Regional Dressage Championships, Prix St. Georges" */
+  event: string
+  discipline: string
+  level: ResultLevel
+  /** 1 for the winner; absent for completions without a placing */
+  placing?: number
+  /** Percentage, penalties or time as published by the show */
+  score?: number
+  rider?: string
+}
+
+/**
+ * Result form fields
+ */
+export type CompetitionResultInput = Omit<CompetitionResult, 'id' | 'horseId'>
+
+export type CompetitionResultField = 'date' | 'event' | 'discipline' | 'level' | 'placing' | 'score' | 'rider'
+
+/**
+ * Label for a result level
+ */
+export function getResultLevelLabel(level: ResultLevel): string {
+  return RESULT_LEVELS.find((l) => l.value === level)?.label ?? level
+}
+
+/**
+ * Ordinal placing, e.g. 1st, 2nd, 13th
+ */
+export function formatPlacing(placing: number): string {
+  const lastTwo = placing % 100
+  if (lastTwo >= 11 && lastTwo <= 13) return `${placing}th`
+
+  switch (placing % 10) {
+    case 1: return `${placing}st`
+    case 2: return `${placing}nd`
+    case 3: return `${placing}rd`
+    default: return `${placing}th`
+  }
+}
+
+/**
+ * One-line summary, e.g. "2023 Regional Dressage Championships, Prix St. Georges: 1st (72.4)"
+ */
+export function formatResult(result: CompetitionResult): string {
+  const placing = result.placing ? formatPlacing(result.placing) : 'Completed'
+  const score = result.score !== undefined ? ` (${result.score})` : ''
+  return `${result.date.slice(0, 4)} ${result.event}: ${placing}${score}`
+}
+
+function levelRank(level: ResultLevel): number {
+  return RESULT_LEVELS.findIndex((l) => l.value === level)
+}
+
+/**
+ * Ascending comparator from weakest to best result
+ *
+ * Higher levels beat lower ones, then better placings, then more recent
+ * dates. A missing result sorts below any result.
+ */
+export function compareResults(a?: CompetitionResult, b?: CompetitionResult): number {
+  if (!a || !b) return (a ? 1 : 0) - (b ? 1 : 0)
+
+  return (
+    levelRank(a.level) - levelRank(b.level) ||
+    (b.placing ?? Infinity) - (a.placing ?? Infinity) ||
+    a.date.localeCompare(b.date)
+  )
+}
+
+/**
+ * Best of a horse's results, or undefined when it has none
+ */
+export function getBestResult(results: CompetitionResult[]): CompetitionResult | undefined {
+  return results.reduce<CompetitionResult | undefined>(
+    (best, result) => (compareResults(result, best) > 0 ? result : best),
+    undefined
+  )
+}
+
+/**
+ * Results best first
+ */
+export function rankResults(results: CompetitionResult[]): CompetitionResult[] {
+  return [...results].sort((a, b) => compareResults(b, a))
+}
+
+/**
+ * Results newest first, for timelines
+ */
+export function sortByDate(results: CompetitionResult[]): CompetitionResult[] {
+  return [...results].sort((a, b) => b.date.localeCompare(a.date))
+}
+
+/**
+ * Whether a result is a class win at national level or above
+ */
+export function isChampionship(result: CompetitionResult): boolean {
+  return result.placing === 1 && levelRank(result.level) >= levelRank('national')
+}
+
+/**
+ * Display lines for a record: structured results when there are any,
+ * otherwise the legacy free-text entries
+ */
+export function describeRecord(results: CompetitionResult[] | undefined, legacy: string[] = []): string[] {
+  return results && results.length > 0 ? sortByDate(results).map(formatResult) : legacy
+}
+
+/**
+ * Winners and champions among a stallion's offspring
+ *
+ * Falls back to the stored figures until at least one offspring has a
+ * structured result, so legacy totals aren't replaced by zeros.
+ */
+export function getOffspringStatistics(stallion: Stallion, results: CompetitionResult[]): Stallion['statistics'] {
+  const offspring = new Set(stallion.offspring ?? [])
+  const offspringResults = results.filter((result) => offspring.has(result.horseId))
+  if (offspringResults.length === 0) return stallion.statistics
+
+  const winners = new Set(offspringResults.filter((r) => r.placing === 1).map((r) => r.horseId))
+  const champions = new Set(offspringResults.filter(isChampionship).map((r) => r.horseId))
+
+  return {
+    foalsBorn: Math.max(stallion.statistics?.foalsBorn ?? 0, offspring.size),
+    competitionWinners: winners.size,
+    championOffspring: champions.size,
+  }
+}
+
+/**
+ * Optional numeric field as text, accepting numbers or form strings
+ */
+function readNumberText(value: unknown): string {
+  return typeof value === 'number' ? String(value) : readString(value)
+}
+
+/**
+ * Validate untrusted result input
+ */
+export function validateCompetitionResult(
+  input: unknown
+): ValidationResult<CompetitionResultInput, CompetitionResultField> {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const errors: FieldErrors<CompetitionResultField> = {}
+
+  const date = readString(body.date)
+  const event = readString(body.event)
+  const discipline = readString(body.discipline)
+  const level = RESULT_LEVELS.find((l) => l.value === body.level)?.value
+  const placingText = readNumberText(body.placing)
+  const scoreText = readNumberText(body.score)
+  const placing = Number(placingText)
+  const score = Number(scoreText)
+  const rider = readString(body.rider)
+
+  if (!isIsoDate(date)) errors.date = 'Please enter the date of the class'
+  if (!event) errors.event = 'Please enter the show and class'
+  if (!discipline) errors.discipline = 'Please enter the discipline'
+  if (!level) errors.level = 'Please choose a level'
+  if (placingText && (!Number.isInteger(placing) || placing < 1)) {
+    errors.placing = 'Placing must be a whole number from 1'
+  }
+  if (scoreText && !Number.isFinite(score)) errors.score = 'Score must be a number'
+
+  if (hasErrors(errors) || !level) {
+    return { success: false, errors }
+  }
+
+  return {
+    success: true,
+    data: {
+      date,
+      event,
+      discipline,
+      level,
+      placing: placingText ? placing : undefined,
+      score: scoreText ? score : undefined,
+      rider: rider || undefined,
+    },
+  }
+}
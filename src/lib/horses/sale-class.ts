@@ -0,0 +1,113 @@
+/**
+ * Sale Classes
+ *
+ * Derives the sale class (mare, stallion, gelding, foal) of a horse from its
+ * sex, castration flag and foal year, and defines the `/for-sale` categories.
+ */
+
+import type { Horse, HorseAvailability } from '@/components/sections/horse-portfolio'
+
+/**
+ * Sale class of a horse
+ */
+export type SaleClass = 'mare' | 'stallion' | 'gelding' | 'foal'
+
+/**
+ * Fields needed to derive a sale class
+ */
+type SaleClassFields = Pick<Horse, 'gender' | 'age' | 'castrated' | 'foalYear'>
+
+/**
+ * Age in whole years, preferring the foal year when known
+ *
+ * Follows the registry convention that every horse ages on January 1st.
+ */
+export function getHorseAge(horse: Pick<Horse, 'age' | 'foalYear'>, now = new Date()): number {
+  if (horse.foalYear !== undefined) {
+    return Math.max(0, now.getFullYear() - horse.foalYear)
+  }
+  return horse.age
+}
+
+/**
+ * Derive the sale class of a horse
+ */
+export function getSaleClass(horse: SaleClassFields, now = new Date()): SaleClass {
+  if (getHorseAge(horse, now) < 1) return 'foal'
+  if (horse.gender === 'Female') return 'mare'
+  return horse.castrated ? 'gelding' : 'stallion'
+}
+
+const SALE_CLASS_LABELS: Record<SaleClass, string> = {
+  mare: 'Mare',
+  stallion: 'Stallion',
+  gelding: 'Gelding',
+  foal: 'Foal',
+}
+
+/**
+ * Display label for a horse's sale class
+ */
+export function getSaleClassLabel(horse: SaleClassFields, now = new Date()): string {
+  return SALE_CLASS_LABELS[getSaleClass(horse, now)]
+}
+
+/**
+ * Availability of a horse, treating unset as available
+ */
+export function getAvailability(horse: Pick<Horse, 'availability'>): HorseAvailability {
+  return horse.availability ?? 'available'
+}
+
+/**
+ * A `/for-sale` listing category
+ */
+export interface SaleCategory {
+  slug: string
+  title: string
+  description: string
+  /** Sale class to list, or undefined for every class */
+  saleClass?: SaleClass
+}
+
+/**
+ * Categories served under `/for-sale/[category]`
+ */
+export const SALE_CATEGORIES: SaleCategory[] = [
+  {
+    slug: 'horses',
+    title: 'Horses for Sale',
+    description: 'Every horse currently offered for sale by MAM Center.',
+  },
+  {
+    slug: 'mares',
+    title: 'Mares for Sale',
+    description: 'Proven broodmares and performance mares from championship bloodlines.',
+    saleClass: 'mare',
+  },
+  {
+    slug: 'stallions',
+    title: 'Stallions for Sale',
+    description: 'Breeding and performance stallions with documented pedigrees.',
+    saleClass: 'stallion',
+  },
+  {
+    slug: 'geldings',
+    title: 'Geldings for Sale',
+    description: 'Reliable, well-schooled geldings ready for sport and pleasure riding.',
+    saleClass: 'gelding',
+  },
+  {
+    slug: 'foals',
+    title: 'Foals for Sale',
+    description: 'This season\'s foals from our breeding program.',
+    saleClass: 'foal',
+  },
+]
+
+/**
+ * Look up a sale category by slug
+ */
+export function getSaleCategory(slug: string): SaleCategory | undefined {
+  return SALE_CATEGORIES.find((category) => category.slug === slug)
+}
@@ -0,0 +1,145 @@
+/**
+ * Leads
+ *
+ * Inquiries submitted through the inquiry form, persisted as leads that
+ * staff move through a simple pipeline.
+ */
+
+import {
+  hasErrors,
+  isEmail,
+  isPhone,
+  readString,
+  type FieldErrors,
+  type ValidationResult,
+} from '@/lib/validation'
+
+/**
+ * Where a lead is in the sales pipeline
+ */
+export type LeadStatus = 'new' | 'contacted' | 'viewing_booked' | 'closed'
+
+/**
+ * How the enquirer would like to be contacted
+ */
+export type PreferredContact = 'email' | 'phone' | 'either'
+
+/**
+ * What an inquiry is about
+ */
+export interface InquirySubject {
+  type: 'horse' | 'stallion'
+  id: string
+  name: string
+}
+
+/**
+ * Inquiry form fields
+ */
+export interface InquiryInput {
+  name: string
+  email: string
+  phone?: string
+  preferredContact: PreferredContact
+  message: string
+  subject?: InquirySubject
+}
+
+/**
+ * A persisted inquiry
+ */
+export interface Lead extends InquiryInput {
+  id: string
+  status: LeadStatus
+  /** ISO timestamp of submission */
+  createdAt: string
+  /** ISO timestamp of the last status change */
+  updatedAt: string
+}
+
+export type InquiryField = keyof InquiryInput
+
+export const LEAD_STATUSES: { value: LeadStatus; label: string }[] = [
+  { value: 'new', label: 'New' },
+  { value: 'contacted', label: 'Contacted' },
+  { value: 'viewing_booked', label: 'Viewing Booked' },
+  { value: 'closed', label: 'Closed' },
+]
+
+export const PREFERRED_CONTACT_OPTIONS: { value: PreferredContact; label: string }[] = [
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'either', label: 'Either' },
+]
+
+/**
+ * Name of the hidden field bots tend to fill in
+ */
+export const HONEYPOT_FIELD = 'website'
+
+const MAX_MESSAGE_LENGTH = 5000
+
+/**
+ * Whether a value is a known lead status
+ */
+export function isLeadStatus(value: unknown): value is LeadStatus {
+  return LEAD_STATUSES.some((status) => status.value === value)
+}
+
+function readSubject(value: unknown): InquirySubject | undefined {
+  if (!value || typeof value !== 'object') return undefined
+
+  const { type, id, name } = value as Record<string, unknown>
+  if ((type !== 'horse' && type !== 'stallion') || !readString(id)) return undefined
+
+  return { type, id: readString(id), name: readString(name) }
+}
+
+/**
+ * Validate untrusted inquiry input
+ */
+export function validateInquiry(input: unknown): ValidationResult<InquiryInput, InquiryField> {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const errors: FieldErrors<InquiryField> = {}
+
+  const name = readString(body.name)
+  const email = readString(body.email)
+  const phone = readString(body.phone)
+  const message = readString(body.message)
+  const preferredContact = PREFERRED_CONTACT_OPTIONS.some((option) => option.value === body.preferredContact)
+    ? (body.preferredContact as PreferredContact)
+    : 'email'
+
+  if (!name) errors.name = 'Please enter your name'
+  if (!email) {
+    errors.email = 'Please enter your email address'
+  } else if (!isEmail(email)) {
+    errors.email = 'Please enter a valid email address'
+  }
+  if (phone && !isPhone(phone)) {
+    errors.phone = 'Please enter a valid phone number'
+  } else if (!phone && preferredContact === 'phone') {
+    errors.phone = 'Please enter a phone number so we can call you'
+  }
+  if (!message) {
+    errors.message = 'Please enter a message'
+  } else if (message.length > MAX_MESSAGE_LENGTH) {
+    errors.message = `Messages are limited to ${MAX_MESSAGE_LENGTH} characters`
+  }
+
+  if (hasErrors(errors)) {
+    return { success: false, errors }
+  }
+
+  return {
+    success: true,
+    data: {
+      name,
+      email,
+      phone: phone || undefined,
+      preferredContact,
+      message,
+      subject: readSubject(body.subject),
+    },
+  }
+}
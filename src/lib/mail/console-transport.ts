@@ -0,0 +1,25 @@
+/**
+ * Console Mail Transport
+ *
+ * Logs messages instead of sending them. The default in development.
+ */
+
+import type { MailTransport } from './types'
+
+/**
+ * Create a transport that prints each message to the console
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+
+    async send(message) {
+      console.info(
+        `[mail] To: ${message.to}\n` +
+        `[mail] From: ${message.from}\n` +
+        `[mail] Subject: ${message.subject}\n\n` +
+        message.text
+      )
+    },
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * File Mail Transport
+ *
+ * Writes each message to a `.eml` file so rendered emails can be opened in a
+ * mail client during development. Server-only.
+ */
+
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import type { MailMessage, MailTransport } from './types'
+
+/**
+ * Default output directory, relative to the project root
+ */
+export const DEFAULT_MAIL_DIR = 'data/mail'
+
+function toEml(message: MailMessage & { from: string }): string {
+  const boundary = `mam-${Date.now().toString(36)}`
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    ...(message.replyTo ? [`Reply-To: ${message.replyTo}`] : []),
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+  ]
+
+  if (!message.html) {
+    return [...headers, 'Content-Type: text/plain; charset=utf-8', '', message.text].join('\r\n')
+  }
+
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    message.text,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    '',
+    message.html,
+    `--${boundary}--`,
+  ].join('\r\n')
+}
+
+/**
+ * Create a transport that writes messages to `directory`
+ */
+export function createFileTransport(directory = process.env.MAIL_DIR || DEFAULT_MAIL_DIR): MailTransport {
+  return {
+    name: 'file',
+
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true })
+
+      const slug = message.to.replace(/[^a-z0-9]+/gi, '-').toLowerCase()
+      const filename = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${slug}.eml`)
+      await fs.writeFile(filename, toEml(message), 'utf8')
+    },
+  }
+}
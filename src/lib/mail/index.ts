@@ -0,0 +1,64 @@
+/**
+ * Mail
+ *
+ * Sends transactional email through the configured transport. Set
+ * `MAIL_TRANSPORT=file` to write `.eml` files to `MAIL_DIR`; the default
+ * logs to the console. Swap in a real provider with `setMailTransport`.
+ */
+
+import type { MailMessage, MailTransport, MailTransportKind } from './types'
+import { createConsoleTransport } from './console-transport'
+
+export type { MailMessage, MailTransport, MailTransportKind, RenderedMail } from './types'
+
+/**
+ * Sender used when a message has no `from`
+ */
+export const DEFAULT_MAIL_FROM = 'MAM Center <hello@mamcenter.com>'
+
+// Cached on globalThis so dev-server hot reloads keep a single transport
+const globalForMail = globalThis as unknown as {
+  mamMailTransport?: Promise<MailTransport>
+}
+
+/**
+ * Get the configured transport kind
+ */
+export function getMailTransportKind(): MailTransportKind {
+  return process.env.MAIL_TRANSPORT === 'file' ? 'file' : 'console'
+}
+
+async function createTransport(): Promise<MailTransport> {
+  // The typeof check lets client bundles drop the fs-based transport entirely
+  if (typeof window === 'undefined' && getMailTransportKind() === 'file') {
+    const { createFileTransport } = await import('./file-transport')
+    return createFileTransport()
+  }
+
+  return createConsoleTransport()
+}
+
+/**
+ * Get the transport for the configured kind
+ */
+export function getMailTransport(): Promise<MailTransport> {
+  if (!globalForMail.mamMailTransport) {
+    globalForMail.mamMailTransport = createTransport()
+  }
+  return globalForMail.mamMailTransport
+}
+
+/**
+ * Replace the active transport (e.g. with a real email provider)
+ */
+export function setMailTransport(transport: MailTransport): void {
+  globalForMail.mamMailTransport = Promise.resolve(transport)
+}
+
+/**
+ * Send a message through the active transport
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const transport = await getMailTransport()
+  await transport.send({ ...message, from: message.from ?? process.env.MAIL_FROM ?? DEFAULT_MAIL_FROM })
+}
@@ -0,0 +1,248 @@
+/**
+ * Mail Templates
+ *
+ * Render functions returning the subject plus plain-text and HTML bodies
+ * for each transactional email.
+ */
+
+import type { Stallion } from '@/components/sections/breeding-program'
+import { describeFilters, type SavedSearch, type SearchAlert } from '@/lib/alerts/saved-search'
+import { getBreedingMethodLabel, type StudBooking } from '@/lib/breeding/booking'
+import type { Lead } from '@/lib/inquiries/lead'
+import { formatPrice } from '@/lib/shop/cart'
+import type { Order } from '@/lib/shop/order'
+import type { RenderedMail } from './types'
+
+/**
+ * Public origin used for links in emails
+ */
+export function getSiteUrl(): string {
+  return (process.env.SITE_URL || 'https://mamcenter.com').replace(/\/$/, '')
+}
+
+/**
+ * Escape text for interpolation into HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Wrap template content in the shared branded layout
+ */
+export function renderLayout(title: string, body: string): string {
+  return `<!doctype html>
+<html>
+  <body style="margin:0;padding:32px;background:#0a0e27;font-family:Georgia,serif;color:#f5f5f5;">
+    <div style="max-width:560px;margin:0 auto;padding:32px;border:1px solid rgba(212,175,55,0.3);border-radius:12px;">
+      <p style="margin:0 0 24px;color:#d4af37;letter-spacing:0.2em;text-transform:uppercase;font-size:12px;">MAM Center</p>
+      <h1 style="margin:0 0 16px;font-size:24px;font-weight:normal;">${escapeHtml(title)}</h1>
+      ${body}
+      <p style="margin:32px 0 0;font-size:12px;color:rgba(245,245,245,0.5);">MAM Center &middot; Luxury Equestrian Excellence</p>
+    </div>
+  </body>
+</html>`
+}
+
+/**
+ * Acknowledgement sent to the enquirer after submitting an inquiry
+ */
+export function renderInquiryAcknowledgement(lead: Lead): RenderedMail {
+  const about = lead.subject ? ` about ${lead.subject.name}` : ''
+  const contactBy = lead.preferredContact === 'phone' && lead.phone
+    ? `by phone on ${lead.phone}`
+    : 'by email'
+
+  const text = [
+    `Dear ${lead.name},`,
+    '',
+    `Thank you for your inquiry${about}. A member of our team will be in touch ${contactBy} shortly.`,
+    '',
+    'Your message:',
+    lead.message,
+    '',
+    'Kind regards,',
+    'MAM Center',
+  ].join('\n')
+
+  const html = renderLayout(
+    'Thank you for your inquiry',
+    `<p>Dear ${escapeHtml(lead.name)},</p>
+      <p>Thank you for your inquiry${escapeHtml(about)}. A member of our team will be in touch ${escapeHtml(contactBy)} shortly.</p>
+      <blockquote style="margin:24px 0;padding:16px;border-left:2px solid #d4af37;color:rgba(245,245,245,0.8);white-space:pre-wrap;">${escapeHtml(lead.message)}</blockquote>
+      <p>Kind regards,<br />MAM Center</p>`
+  )
+
+  return {
+    subject: lead.subject ? `Your inquiry about ${lead.subject.name}` : 'Thank you for contacting MAM Center',
+    text,
+    html,
+  }
+}
+
+/**
+ * Acknowledgement sent to the mare owner after requesting a stud booking
+ */
+export function renderBookingRequestReceived(booking: StudBooking, stallion: Stallion): RenderedMail {
+  const method = getBreedingMethodLabel(booking.method).toLowerCase()
+  const dates = `${booking.preferredDates.from} to ${booking.preferredDates.to}`
+
+  const text = [
+    `Dear ${booking.owner.name},`,
+    '',
+    `Thank you for requesting a ${booking.season} booking with ${stallion.name} for ${booking.mare.name}.`,
+    `We have noted your preference for ${method} between ${dates}.`,
+    '',
+    'Your request holds no place until our breeding team confirms it. We will be in touch shortly to discuss availability and next steps.',
+    '',
+    'Kind regards,',
+    'MAM Center Breeding',
+  ].join('\n')
+
+  const html = renderLayout(
+    'Booking request received',
+    `<p>Dear ${escapeHtml(booking.owner.name)},</p>
+      <p>Thank you for requesting a ${booking.season} booking with <strong>${escapeHtml(stallion.name)}</strong> for ${escapeHtml(booking.mare.name)}.</p>
+      <p>We have noted your preference for ${escapeHtml(method)} between ${escapeHtml(dates)}.</p>
+      <p>Your request holds no place until our breeding team confirms it. We will be in touch shortly to discuss availability and next steps.</p>
+      <p>Kind regards,<br />MAM Center Breeding</p>`
+  )
+
+  return {
+    subject: `Booking request for ${stallion.name} (${booking.season})`,
+    text,
+    html,
+  }
+}
+
+/**
+ * Receipt sent to the customer once an order is paid
+ */
+export function renderOrderConfirmation(order: Order): RenderedMail {
+  const lines = order.items.map((item) => {
+    const options = [item.color, item.size].filter(Boolean).join(', ')
+    return {
+      label: `${item.quantity} × ${item.name}${options ? ` (${options})` : ''}`,
+      amount: formatPrice(item.price * item.quantity, order.currency),
+    }
+  })
+  const address = [
+    order.shipping.addressLine1,
+    order.shipping.addressLine2,
+    [order.shipping.city, order.shipping.region, order.shipping.postalCode].filter(Boolean).join(' '),
+    order.shipping.country,
+  ].filter(Boolean) as string[]
+
+  const text = [
+    `Dear ${order.shipping.name},`,
+    '',
+    `Thank you for your order ${order.number}.`,
+    '',
+    ...lines.map((line) => `${line.label}  ${line.amount}`),
+    '',
+    `Subtotal: ${formatPrice(order.subtotal, order.currency)}`,
+    `Shipping: ${order.shippingCost === 0 ? 'Free' : formatPrice(order.shippingCost, order.currency)}`,
+    `Total: ${formatPrice(order.total, order.currency)}`,
+    '',
+    'Shipping to:',
+    ...address,
+    '',
+    'Kind regards,',
+    'MAM Center',
+  ].join('\n')
+
+  const rows = lines
+    .map((line) => `<tr><td style="padding:4px 0;">${escapeHtml(line.label)}</td><td style="padding:4px 0;text-align:right;">${escapeHtml(line.amount)}</td></tr>`)
+    .join('')
+
+  const html = renderLayout(
+    `Order ${order.number}`,
+    `<p>Dear ${escapeHtml(order.shipping.name)},</p>
+      <p>Thank you for your order. Here is your receipt.</p>
+      <table style="width:100%;border-collapse:collapse;margin:24px 0;">
+        ${rows}
+        <tr><td style="padding:8px 0 4px;border-top:1px solid rgba(212,175,55,0.3);">Subtotal</td><td style="padding:8px 0 4px;border-top:1px solid rgba(212,175,55,0.3);text-align:right;">${formatPrice(order.subtotal, order.currency)}</td></tr>
+        <tr><td style="padding:4px 0;">Shipping</td><td style="padding:4px 0;text-align:right;">${order.shippingCost === 0 ? 'Free' : formatPrice(order.shippingCost, order.currency)}</td></tr>
+        <tr><td style="padding:4px 0;color:#d4af37;">Total</td><td style="padding:4px 0;text-align:right;color:#d4af37;">${formatPrice(order.total, order.currency)}</td></tr>
+      </table>
+      <p>Shipping to:<br />${address.map(escapeHtml).join('<br />')}</p>
+      <p>Kind regards,<br />MAM Center</p>`
+  )
+
+  return {
+    subject: `Your MAM Center order ${order.number}`,
+    text,
+    html,
+  }
+}
+
+/**
+ * Alert sent when a new or reduced horse matches a saved search
+ */
+export function renderSavedSearchAlert(alert: SearchAlert, search: SavedSearch): RenderedMail {
+  const horseUrl = `${getSiteUrl()}/horses/${encodeURIComponent(alert.horseId)}`
+  const unsubscribeUrl = `${getSiteUrl()}/api/saved-searches/${encodeURIComponent(search.id)}/unsubscribe?token=${encodeURIComponent(search.token)}`
+  const price = `$${alert.price.toLocaleString()}`
+  const headline = alert.kind === 'price_reduced'
+    ? `${alert.horseName} has been reduced to ${price}`
+    : `${alert.horseName} has just been listed at ${price}`
+  const was = alert.previousPrice !== undefined ? ` (was $${alert.previousPrice.toLocaleString()})` : ''
+
+  const text = [
+    `A horse matching your saved search "${search.name}" (${describeFilters(search.filters)}):`,
+    '',
+    `${headline}${was}.`,
+    `View the listing: ${horseUrl}`,
+    '',
+    `Stop these alerts: ${unsubscribeUrl}`,
+  ].join('\n')
+
+  const html = renderLayout(
+    alert.kind === 'price_reduced' ? 'Price reduced' : 'New listing',
+    `<p>A horse matching your saved search <strong>${escapeHtml(search.name)}</strong> (${escapeHtml(describeFilters(search.filters))}):</p>
+      <p style="font-size:18px;">${escapeHtml(headline)}${escapeHtml(was)}.</p>
+      <p><a href="${escapeHtml(horseUrl)}" style="color:#d4af37;">View the listing</a></p>
+      <p style="margin-top:32px;font-size:12px;color:rgba(245,245,245,0.5);"><a href="${escapeHtml(unsubscribeUrl)}" style="color:rgba(245,245,245,0.5);">Stop alerts for this search</a></p>`
+  )
+
+  return {
+    subject: alert.kind === 'price_reduced'
+      ? `Price reduced: ${alert.horseName}`
+      : `New listing: ${alert.horseName}`,
+    text,
+    html,
+  }
+}
+
+/**
+ * Sign-in link; `token` is the raw token, valid for `ttlMinutes`
+ */
+export function renderMagicLink(token: string, ttlMinutes: number): RenderedMail {
+  const signInUrl = `${getSiteUrl()}/sign-in/verify?token=${encodeURIComponent(token)}`
+
+  const text = [
+    'Use the link below to sign in to MAM Center:',
+    '',
+    signInUrl,
+    '',
+    `The link works once and expires in ${ttlMinutes} minutes. If you didn't ask to sign in, you can ignore this email.`,
+  ].join('\n')
+
+  const html = renderLayout(
+    'Sign in to MAM Center',
+    `<p>Use the button below to sign in.</p>
+      <p style="margin:24px 0;"><a href="${escapeHtml(signInUrl)}" style="display:inline-block;padding:12px 24px;background:#d4af37;color:#0a0e27;border-radius:8px;text-decoration:none;">Sign in</a></p>
+      <p style="font-size:14px;color:rgba(245,245,245,0.7);">The link works once and expires in ${ttlMinutes} minutes. If you didn't ask to sign in, you can ignore this email.</p>`
+  )
+
+  return {
+    subject: 'Your MAM Center sign-in link',
+    text,
+    html,
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Mail Types
+ *
+ * Transport-agnostic message contract. Real providers (SMTP, Postmark, etc.)
+ * implement `MailTransport`; the console and file transports stand in locally.
+ */
+
+/**
+ * An outgoing email
+ */
+export interface MailMessage {
+  to: string
+  /** Defaults to `MAIL_FROM` */
+  from?: string
+  replyTo?: string
+  subject: string
+  text: string
+  html?: string
+}
+
+/**
+ * Rendered subject and bodies of a template
+ */
+export type RenderedMail = Pick<MailMessage, 'subject' | 'text' | 'html'>
+
+/**
+ * Delivers messages
+ */
+export interface MailTransport {
+  /** Identifier used in logs */
+  name: string
+  send(message: MailMessage & { from: string }): Promise<void>
+}
+
+/**
+ * Configured transport
+ */
+export type MailTransportKind = 'console' | 'file'
@@ -0,0 +1,52 @@
+/**
+ * File Media Storage
+ *
+ * Keeps media files under a local directory, one folder per asset.
+ * Server-only.
+ */
+
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import type { MediaStorage } from './types'
+
+/**
+ * Default directory, relative to the project root
+ */
+export const DEFAULT_MEDIA_DIR = 'data/media'
+
+/**
+ * Create storage that keeps files under `directory`
+ */
+export function createFileStorage(directory = process.env.MEDIA_DIR || DEFAULT_MEDIA_DIR): MediaStorage {
+  const root = path.resolve(directory)
+
+  // Keys come from URLs, so never let one point outside the directory
+  const resolve = (key: string): string => {
+    const file = path.resolve(root, key)
+    if (!file.startsWith(`${root}${path.sep}`)) throw new Error(`Media key outside storage directory: ${key}`)
+    return file
+  }
+
+  return {
+    name: 'file',
+
+    async put(key, data) {
+      const file = resolve(key)
+      await fs.mkdir(path.dirname(file), { recursive: true })
+      await fs.writeFile(file, data)
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(resolve(key))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw error
+      }
+    },
+
+    async deleteAll(prefix) {
+      await fs.rm(resolve(prefix), { recursive: true, force: true })
+    },
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Media Storage
+ *
+ * Processes image uploads and stores them alongside video files. Files go to
+ * `MEDIA_DIR` (`data/media` by default) and are served by the `/media` route;
+ * swap in object storage with `setMediaStorage`.
+ */
+
+import { getMediaFileUrl } from './media'
+import type { MediaAsset, MediaStorage } from './types'
+
+export type { MediaStorage } from './types'
+
+/**
+ * Fields of a new asset that come from its processed files
+ */
+export type StoredMedia = Pick<
+  MediaAsset,
+  'mimeType' | 'width' | 'height' | 'bytes' | 'originalUrl' | 'variants' | 'placeholder'
+>
+
+// Cached on globalThis so dev-server hot reloads keep a single storage
+const globalForMedia = globalThis as unknown as {
+  mamMediaStorage?: Promise<MediaStorage>
+}
+
+async function createStorage(): Promise<MediaStorage> {
+  // The typeof check lets client bundles drop the fs-based storage entirely
+  if (typeof window === 'undefined') {
+    const { createFileStorage } = await import('./file-storage')
+    return createFileStorage()
+  }
+
+  throw new Error('Media storage is only available on the server')
+}
+
+/**
+ * Get the active storage
+ */
+export function getMediaStorage(): Promise<MediaStorage> {
+  if (!globalForMedia.mamMediaStorage) {
+    globalForMedia.mamMediaStorage = createStorage()
+  }
+  return globalForMedia.mamMediaStorage
+}
+
+/**
+ * Replace the active storage (e.g. with an object store)
+ */
+export function setMediaStorage(storage: MediaStorage): void {
+  globalForMedia.mamMediaStorage = Promise.resolve(storage)
+}
+
+/**
+ * Process an upload and store its files under `id`, or null when it isn't a
+ * supported image
+ */
+export async function saveUpload(id: string, input: Uint8Array): Promise<StoredMedia | null> {
+  // Same as above: keeps sharp out of client bundles
+  if (typeof window !== 'undefined') return null
+
+  const { processImage } = await import('./processing')
+  const processed = await processImage(input)
+  if (!processed) return null
+
+  const storage = await getMediaStorage()
+  const originalKey = `${id}/original.${processed.original.extension}`
+  await storage.put(originalKey, processed.original.data)
+
+  const variants = []
+  for (const variant of processed.variants) {
+    const key = `${id}/${variant.width}.${variant.format}`
+    await storage.put(key, variant.data)
+    variants.push({
+      width: variant.width,
+      height: variant.height,
+      format: variant.format,
+      url: getMediaFileUrl(key),
+      bytes: variant.data.byteLength,
+    })
+  }
+
+  return {
+    mimeType: processed.original.mimeType,
+    width: processed.width,
+    height: processed.height,
+    bytes: processed.original.data.byteLength,
+    originalUrl: getMediaFileUrl(originalKey),
+    variants,
+    placeholder: processed.placeholder,
+  }
+}
+
+/**
+ * Store a file as is, e.g. a pre-encoded video, and return its URL; null on
+ * the client
+ */
+export async function saveMediaFile(key: string, data: Uint8Array): Promise<string | null> {
+  if (typeof window !== 'undefined') return null
+
+  const storage = await getMediaStorage()
+  await storage.put(key, data)
+  return getMediaFileUrl(key)
+}
+
+/**
+ * Remove every file stored for an asset or video, or a single file by key
+ */
+export async function deleteMediaFiles(prefix: string): Promise<void> {
+  const storage = await getMediaStorage()
+  await storage.deleteAll(prefix)
+}
@@ -0,0 +1,188 @@
+/**
+ * Media Library
+ *
+ * Client-safe rules for uploaded images: what may be uploaded, which widths
+ * are generated (`IMAGE_SIZES`, never wider than the original) and how an
+ * asset turns into `<picture>` sources. Processing lives in `./processing`,
+ * videos in `./video`.
+ */
+
+import { IMAGE_SIZES } from '@/lib/constants'
+import { hasErrors, readString, type FieldErrors, type ValidationResult } from '@/lib/validation'
+import type { MediaAsset, MediaFormat, ResponsiveImage } from './types'
+
+export type { MediaAsset, MediaFormat, MediaVariant, ResponsiveImage } from './types'
+
+/**
+ * Widths generated for each upload, narrowest first
+ */
+export const MEDIA_WIDTHS: number[] = Object.values(IMAGE_SIZES).sort((a, b) => a - b)
+
+/**
+ * Generated formats, best compression first
+ */
+export const MEDIA_FORMATS: { format: MediaFormat; mimeType: string }[] = [
+  { format: 'avif', mimeType: 'image/avif' },
+  { format: 'webp', mimeType: 'image/webp' },
+]
+
+/**
+ * Upload types and the extension their originals are stored under
+ */
+export const ACCEPTED_IMAGE_TYPES: { mimeType: string; extension: string }[] = [
+  { mimeType: 'image/jpeg', extension: 'jpg' },
+  { mimeType: 'image/png', extension: 'png' },
+  { mimeType: 'image/webp', extension: 'webp' },
+  { mimeType: 'image/avif', extension: 'avif' },
+]
+
+export const MAX_UPLOAD_BYTES = 20 * 1024 * 1024
+
+export const MAX_ALT_LENGTH = 250
+
+/**
+ * Path that media files are served from
+ */
+export const MEDIA_URL_PREFIX = '/media'
+
+/**
+ * `<asset id>/<original or width>.<image extension>`, or
+ * `<video id>/<rendition or track id>.<mp4, webm or vtt>`
+ */
+const MEDIA_KEY_PATTERN =
+  /^[0-9a-f-]{36}\/(?:(?:original|\d+)\.(?:jpg|png|webp|avif)|[0-9a-f-]{36}\.(?:mp4|webm|vtt))$/
+
+/**
+ * Content types of stored video files and tracks
+ */
+const VIDEO_FILE_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  vtt: 'text/vtt; charset=utf-8',
+}
+
+/**
+ * Editable fields of an asset
+ */
+export interface MediaChanges {
+  alt?: string
+}
+
+/**
+ * Public URL of a stored file
+ */
+export function getMediaFileUrl(key: string): string {
+  return `${MEDIA_URL_PREFIX}/${key}`
+}
+
+/**
+ * Whether a key names a file the media route may serve
+ */
+export function isMediaKey(key: string): boolean {
+  return MEDIA_KEY_PATTERN.test(key)
+}
+
+/**
+ * Content type for a stored file's extension
+ */
+export function getMediaContentType(key: string): string {
+  const extension = key.slice(key.lastIndexOf('.') + 1)
+  return (
+    MEDIA_FORMATS.find((f) => f.format === extension)?.mimeType ??
+    ACCEPTED_IMAGE_TYPES.find((t) => t.extension === extension)?.mimeType ??
+    VIDEO_FILE_TYPES[extension] ??
+    'application/octet-stream'
+  )
+}
+
+/**
+ * Widths to generate for an image `originalWidth` pixels wide; images
+ * narrower than the smallest size keep their own width
+ */
+export function getVariantWidths(originalWidth: number): number[] {
+  const widths = MEDIA_WIDTHS.filter((width) => width <= originalWidth)
+  return widths.length > 0 ? widths : [originalWidth]
+}
+
+/**
+ * URL of the narrowest WebP variant at least `width` pixels wide, or the
+ * widest there is
+ */
+export function getMediaSrc(asset: MediaAsset, width: number = IMAGE_SIZES.XLARGE): string {
+  const webp = asset.variants.filter((variant) => variant.format === 'webp')
+  const match = webp.find((variant) => variant.width >= width) ?? webp[webp.length - 1]
+  return match?.url ?? asset.originalUrl
+}
+
+/**
+ * `srcset` value listing every variant in one format
+ */
+export function getMediaSrcSet(asset: MediaAsset, format: MediaFormat): string {
+  return asset.variants
+    .filter((variant) => variant.format === format)
+    .map((variant) => `${variant.url} ${variant.width}w`)
+    .join(', ')
+}
+
+/**
+ * What a page needs to render an asset, without its storage details
+ */
+export function toResponsiveImage(asset: MediaAsset): ResponsiveImage {
+  return {
+    src: getMediaSrc(asset),
+    width: asset.width,
+    height: asset.height,
+    alt: asset.alt,
+    placeholder: asset.placeholder,
+    sources: MEDIA_FORMATS.map(({ format, mimeType }) => ({ type: mimeType, srcSet: getMediaSrcSet(asset, format) })),
+  }
+}
+
+/**
+ * Human-readable file size, e.g. "2.4 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function readAlt(value: unknown, errors: FieldErrors<'file' | 'alt'>): string | undefined {
+  const alt = readString(value)
+  if (alt.length > MAX_ALT_LENGTH) errors.alt = `Alt text must be at most ${MAX_ALT_LENGTH} characters`
+  return alt || undefined
+}
+
+/**
+ * Check an upload before processing it: `file` is the submitted form entry
+ */
+export function validateMediaUpload(
+  file: unknown,
+  alt: unknown
+): ValidationResult<{ file: File; alt?: string }, 'file' | 'alt'> {
+  const errors: FieldErrors<'file' | 'alt'> = {}
+  const altText = readAlt(alt, errors)
+
+  if (!(file instanceof File) || file.size === 0) {
+    errors.file = 'Please choose an image to upload'
+  } else if (!ACCEPTED_IMAGE_TYPES.some((type) => type.mimeType === file.type)) {
+    errors.file = 'Please upload a JPEG, PNG, WebP or AVIF image'
+  } else if (file.size > MAX_UPLOAD_BYTES) {
+    errors.file = `Images must be ${formatFileSize(MAX_UPLOAD_BYTES)} or smaller`
+  }
+
+  if (hasErrors(errors)) return { success: false, errors }
+  return { success: true, data: { file: file as File, alt: altText } }
+}
+
+/**
+ * Validate untrusted changes to an asset
+ */
+export function validateMediaChanges(input: unknown): ValidationResult<MediaChanges, 'alt'> {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const errors: FieldErrors<'file' | 'alt'> = {}
+  const alt = readAlt(body.alt, errors)
+
+  if (hasErrors(errors)) return { success: false, errors }
+  return { success: true, data: { alt } }
+}
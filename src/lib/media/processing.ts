@@ -0,0 +1,104 @@
+/**
+ * Image Processing
+ *
+ * Turns an upload into a clean original, AVIF and WebP variants at each
+ * generated width, and a blur placeholder. Originals are rotated upright
+ * and re-encoded without EXIF or XMP, so camera GPS coordinates never reach
+ * the server's disk; uploads without metadata are kept byte for byte.
+ * Server-only.
+ */
+
+import sharp from 'sharp'
+import { ACCEPTED_IMAGE_TYPES, getVariantWidths } from './media'
+import type { MediaFormat } from './types'
+
+/**
+ * Width of the blur placeholder; it's stretched to fill the frame
+ */
+const PLACEHOLDER_WIDTH = 16
+
+/**
+ * Keeps decompression bombs from exhausting memory (about 100 megapixels)
+ */
+const MAX_INPUT_PIXELS = 100_000_000
+
+/**
+ * A processed upload, ready to store
+ */
+export interface ProcessedImage {
+  original: { data: Uint8Array; mimeType: string; extension: string }
+  width: number
+  height: number
+  variants: { width: number; height: number; format: MediaFormat; data: Buffer }[]
+  /** `data:` URL */
+  placeholder: string
+}
+
+function encode(image: sharp.Sharp, format: MediaFormat): sharp.Sharp {
+  // Effort is kept low so uploads finish in seconds on small servers
+  return format === 'avif' ? image.avif({ quality: 50, effort: 2 }) : image.webp({ quality: 78 })
+}
+
+/**
+ * The upload upright and free of EXIF and XMP, in its own format
+ */
+async function cleanOriginal(input: Uint8Array, metadata: sharp.Metadata): Promise<Uint8Array> {
+  const isUpright = !metadata.orientation || metadata.orientation === 1
+  if (isUpright && !metadata.exif && !metadata.xmp && !metadata.iptc) return input
+
+  // Without keepExif()/keepMetadata() sharp writes no EXIF, which drops GPS tags
+  const image = sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).rotate().keepIccProfile()
+  switch (metadata.format) {
+    case 'png':
+      return image.png().toBuffer()
+    case 'webp':
+      return image.webp({ quality: 92 }).toBuffer()
+    case 'heif':
+      return image.avif({ quality: 80 }).toBuffer()
+    default:
+      return image.jpeg({ quality: 92, mozjpeg: true }).toBuffer()
+  }
+}
+
+/**
+ * Process an uploaded image, or null when the bytes aren't a JPEG, PNG, WebP
+ * or AVIF image
+ */
+export async function processImage(input: Uint8Array): Promise<ProcessedImage | null> {
+  const metadata = await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).metadata().catch(() => null)
+  if (!metadata) return null
+
+  // The browser-supplied type isn't trusted. sharp reports AVIF as HEIF;
+  // HEIC photos share that container but can't be decoded here
+  const isAvif = metadata.format === 'heif' && metadata.compression === 'av1'
+  const format = metadata.format === 'jpeg' ? 'jpg' : isAvif ? 'avif' : metadata.format
+  const type = ACCEPTED_IMAGE_TYPES.find((t) => t.extension === format)
+  if (!type || !metadata.width || !metadata.height) return null
+
+  const original = await cleanOriginal(input, metadata)
+  const { width, height } = await sharp(original).metadata()
+  if (!width || !height) return null
+
+  const variants: ProcessedImage['variants'] = []
+  for (const format of ['avif', 'webp'] as const) {
+    for (const variantWidth of getVariantWidths(width)) {
+      const { data, info } = await encode(sharp(original).resize({ width: variantWidth }), format)
+        .toBuffer({ resolveWithObject: true })
+      variants.push({ width: info.width, height: info.height, format, data })
+    }
+  }
+
+  const placeholder = await sharp(original)
+    .resize({ width: PLACEHOLDER_WIDTH })
+    .blur()
+    .webp({ quality: 40 })
+    .toBuffer()
+
+  return {
+    original: { data: original, mimeType: type.mimeType, extension: type.extension },
+    width,
+    height,
+    variants,
+    placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Media Types
+ *
+ * Uploaded images and videos and the storage contract behind them. Files are
+ * written once and never change, so every URL can be cached forever; only an
+ * asset's alt text is editable.
+ */
+
+/**
+ * Encodings generated for every upload
+ */
+export type MediaFormat = 'avif' | 'webp'
+
+/**
+ * One resized, re-encoded copy of an upload
+ */
+export interface MediaVariant {
+  width: number
+  height: number
+  format: MediaFormat
+  url: string
+  bytes: number
+}
+
+/**
+ * An uploaded image and its variants
+ */
+export interface MediaAsset {
+  id: string
+  /** File name as uploaded, for the library */
+  filename: string
+  /** Describes the image for screen readers */
+  alt?: string
+  /** Type of the stored original */
+  mimeType: string
+  /** Dimensions after applying the camera orientation */
+  width: number
+  height: number
+  /** Size of the stored original */
+  bytes: number
+  /** Full-size original, without EXIF metadata */
+  originalUrl: string
+  /** Narrowest first within each format */
+  variants: MediaVariant[]
+  /** Tiny blurred WebP data URL shown while the image loads */
+  placeholder: string
+  createdAt: string
+  /** Signed-in user who uploaded it */
+  uploadedBy?: string
+}
+
+/**
+ * What a page needs to render a library image responsively
+ */
+export interface ResponsiveImage {
+  /** Fallback for browsers without `<picture>` support */
+  src: string
+  width: number
+  height: number
+  alt?: string
+  placeholder: string
+  /** `<source>` candidates, best format first */
+  sources: { type: string; srcSet: string }[]
+}
+
+/**
+ * Video encodings the library accepts
+ */
+export type VideoCodec = 'av1' | 'vp9' | 'h264'
+
+export type VideoTrackKind = 'captions' | 'subtitles' | 'chapters'
+
+/**
+ * One pre-encoded copy of a video
+ */
+export interface VideoRendition {
+  id: string
+  codec: VideoCodec
+  width: number
+  height: number
+  url: string
+  bytes: number
+}
+
+/**
+ * A WebVTT caption, subtitle or chapter track
+ */
+export interface VideoTrack {
+  id: string
+  kind: VideoTrackKind
+  /** Shown in the player's track menu, e.g. "English" */
+  label: string
+  /** BCP 47 language tag, e.g. `en` or `pt-BR` */
+  srcLang: string
+  url: string
+}
+
+/**
+ * An uploaded video and its renditions
+ */
+export interface MediaVideo {
+  id: string
+  title: string
+  /** Library image shown before and instead of playback */
+  posterId?: string
+  /** Narrowest first */
+  renditions: VideoRendition[]
+  tracks: VideoTrack[]
+  createdAt: string
+  /** Signed-in user who added it */
+  uploadedBy?: string
+}
+
+/**
+ * What a page needs to play a library video
+ */
+export interface VideoEntry {
+  id: string
+  title: string
+  poster?: ResponsiveImage
+  renditions: VideoRendition[]
+  tracks: VideoTrack[]
+}
+
+/**
+ * Holds media files by key, e.g. `<asset id>/1024.avif`
+ */
+export interface MediaStorage {
+  /** Identifier used in logs */
+  name: string
+  put(key: string, data: Uint8Array): Promise<void>
+  /** File contents, or null when missing */
+  get(key: string): Promise<Uint8Array | null>
+  /** Remove every file under a prefix, e.g. an asset's id */
+  deleteAll(prefix: string): Promise<void>
+}
@@ -0,0 +1,76 @@
+/**
+ * Video File Helpers
+ *
+ * Reads a local video file in the browser before it's uploaded: its
+ * dimensions, and a still frame to use as the poster. The server never
+ * decodes video, so these run in the back office. Browser-only.
+ */
+
+/**
+ * Longest poster edge; larger frames are scaled down before upload
+ */
+const MAX_POSTER_WIDTH = 2560
+
+/**
+ * Load a file into a detached, muted video element
+ */
+function loadVideo(file: File): Promise<{ video: HTMLVideoElement; release: () => void } | null> {
+  const url = URL.createObjectURL(file)
+  const video = document.createElement('video')
+  const release = () => URL.revokeObjectURL(url)
+  video.muted = true
+  video.preload = 'auto'
+  video.playsInline = true
+
+  return new Promise((resolve) => {
+    video.onloadeddata = () => resolve({ video, release })
+    video.onerror = () => {
+      release()
+      resolve(null)
+    }
+    video.src = url
+  })
+}
+
+/**
+ * A video's width and height, or null when the browser can't decode it
+ */
+export async function readVideoDimensions(file: File): Promise<{ width: number; height: number } | null> {
+  const loaded = await loadVideo(file)
+  if (!loaded) return null
+
+  const { videoWidth: width, videoHeight: height } = loaded.video
+  loaded.release()
+  return width && height ? { width, height } : null
+}
+
+/**
+ * Grab the frame at `seconds` (clamped to the video's length) as a JPEG
+ * file, or null when the browser can't decode the video
+ */
+export async function captureVideoFrame(file: File, seconds: number): Promise<File | null> {
+  const loaded = await loadVideo(file)
+  if (!loaded) return null
+
+  const { video, release } = loaded
+  try {
+    await new Promise<void>((resolve) => {
+      video.onseeked = () => resolve()
+      video.currentTime = Math.min(Math.max(seconds, 0), Math.max(video.duration - 0.1, 0))
+    })
+
+    const scale = Math.min(1, MAX_POSTER_WIDTH / video.videoWidth)
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(video.videoWidth * scale)
+    canvas.height = Math.round(video.videoHeight * scale)
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height)
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.9))
+    if (!blob) return null
+
+    const name = file.name.replace(/\.[^.]+$/, '')
+    return new File([blob], `${name}-poster.jpg`, { type: 'image/jpeg' })
+  } finally {
+    release()
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Media Library Videos
+ *
+ * Background videos stored as several pre-encoded renditions (size and
+ * codec), a poster from the image library and optional caption and chapter
+ * tracks. Renditions are encoded before upload; the server only checks the
+ * container. Pages receive a `VideoEntry` and pick one rendition for the
+ * visitor's screen and connection with `chooseVideoRendition`.
+ */
+
+import { hasErrors, readString, type FieldErrors, type ValidationResult } from '@/lib/validation'
+import { formatFileSize } from './media'
+import type { VideoCodec, VideoRendition, VideoTrackKind } from './types'
+
+export type { MediaVideo, VideoCodec, VideoEntry, VideoRendition, VideoTrack, VideoTrackKind } from './types'
+
+/**
+ * Supported encodings, most efficient first; `type` feeds `canPlayType` and
+ * `<source type>`
+ */
+export const VIDEO_CODECS: {
+  value: VideoCodec
+  label: string
+  mimeType: 'video/mp4' | 'video/webm'
+  extension: 'mp4' | 'webm'
+  type: string
+}[] = [
+  { value: 'av1', label: 'AV1 (MP4)', mimeType: 'video/mp4', extension: 'mp4', type: 'video/mp4; codecs="av01.0.08M.08"' },
+  { value: 'vp9', label: 'VP9 (WebM)', mimeType: 'video/webm', extension: 'webm', type: 'video/webm; codecs="vp9"' },
+  { value: 'h264', label: 'H.264 (MP4)', mimeType: 'video/mp4', extension: 'mp4', type: 'video/mp4; codecs="avc1.640028"' },
+]
+
+export const VIDEO_TRACK_KINDS: { value: VideoTrackKind; label: string }[] = [
+  { value: 'captions', label: 'Captions' },
+  { value: 'subtitles', label: 'Subtitles' },
+  { value: 'chapters', label: 'Chapters' },
+]
+
+export const MAX_VIDEO_BYTES = 100 * 1024 * 1024
+
+export const MAX_TRACK_BYTES = 512 * 1024
+
+/**
+ * Widest rendition worth streaming per `navigator.connection.effectiveType`;
+ * 0 means show the poster only
+ */
+const CONNECTION_MAX_WIDTH: Record<string, number> = {
+  'slow-2g': 0,
+  '2g': 0,
+  '3g': 854,
+  '4g': Infinity,
+}
+
+const LANGUAGE_TAG_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/
+
+/**
+ * What the browser knows about the screen and connection
+ */
+export interface PlaybackConditions {
+  /** CSS pixels the video covers */
+  viewportWidth: number
+  devicePixelRatio?: number
+  /** `navigator.connection.saveData` */
+  saveData?: boolean
+  /** `navigator.connection.effectiveType` */
+  effectiveType?: string
+  /** Whether the browser plays a type, e.g. via `HTMLVideoElement.canPlayType` */
+  canPlay?: (type: string) => boolean
+}
+
+/**
+ * Codec details, falling back to H.264
+ */
+export function getVideoCodec(codec: VideoCodec): (typeof VIDEO_CODECS)[number] {
+  return VIDEO_CODECS.find((c) => c.value === codec) ?? VIDEO_CODECS[VIDEO_CODECS.length - 1]
+}
+
+/**
+ * Whether a value names a supported codec
+ */
+export function isVideoCodec(value: unknown): value is VideoCodec {
+  return VIDEO_CODECS.some((codec) => codec.value === value)
+}
+
+/**
+ * Pick the rendition to stream, or null to show the poster instead
+ *
+ * Save-Data and 2G get no video; 3G is capped at 854px wide. Otherwise the
+ * narrowest playable rendition that covers the screen in device pixels
+ * wins, preferring the more efficient codec at the same width, and the
+ * widest one allowed when none covers it.
+ */
+export function chooseVideoRendition(
+  renditions: VideoRendition[],
+  conditions: PlaybackConditions
+): VideoRendition | null {
+  if (conditions.saveData) return null
+
+  const maxWidth = CONNECTION_MAX_WIDTH[conditions.effectiveType ?? '4g'] ?? Infinity
+  if (maxWidth === 0) return null
+
+  const codecRank = (codec: VideoCodec) => VIDEO_CODECS.findIndex((c) => c.value === codec)
+  const playable = renditions
+    .filter((rendition) => conditions.canPlay?.(getVideoCodec(rendition.codec).type) ?? true)
+    .sort((a, b) => a.width - b.width || codecRank(a.codec) - codecRank(b.codec))
+  if (playable.length === 0) return null
+
+  // On slow connections the narrowest rendition is still better than none
+  const allowed = playable.filter((rendition) => rendition.width <= maxWidth)
+  const candidates = allowed.length > 0 ? allowed : playable.slice(0, 1)
+  const target = Math.min(conditions.viewportWidth * (conditions.devicePixelRatio ?? 1), maxWidth)
+
+  return candidates.find((rendition) => rendition.width >= target) ?? candidates[candidates.length - 1]
+}
+
+/**
+ * Whether file contents start like an MP4 (`ftyp` box) or WebM (EBML header)
+ */
+export function isVideoContainer(data: Uint8Array, mimeType: 'video/mp4' | 'video/webm'): boolean {
+  if (mimeType === 'video/webm') {
+    return data[0] === 0x1a && data[1] === 0x45 && data[2] === 0xdf && data[3] === 0xa3
+  }
+  return String.fromCharCode(...data.subarray(4, 8)) === 'ftyp'
+}
+
+/**
+ * Whether text is a WebVTT file
+ */
+export function isWebVtt(text: string): boolean {
+  return /^﻿?WEBVTT([ \t].*)?(\r?\n|$)/.test(text)
+}
+
+/**
+ * Validate untrusted video details
+ */
+export function validateVideoDetails(
+  input: unknown
+): ValidationResult<{ title: string; posterId?: string }, 'title' | 'posterId'> {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const errors: FieldErrors<'title' | 'posterId'> = {}
+  const title = readString(body.title)
+  const posterId = readString(body.posterId)
+
+  if (!title) errors.title = 'Please enter a title'
+  else if (title.length > 120) errors.title = 'Title must be at most 120 characters'
+
+  if (hasErrors(errors)) return { success: false, errors }
+  return { success: true, data: { title, posterId: posterId || undefined } }
+}
+
+/**
+ * Check a rendition upload before storing it; dimensions come from the
+ * uploader's browser, which reads them from the file
+ */
+export function validateVideoRendition(
+  file: unknown,
+  fields: { codec: unknown; width: unknown; height: unknown }
+): ValidationResult<{ file: File; codec: VideoCodec; width: number; height: number }, 'file' | 'codec' | 'width'> {
+  const errors: FieldErrors<'file' | 'codec' | 'width'> = {}
+  const width = Number(fields.width)
+  const height = Number(fields.height)
+
+  if (!isVideoCodec(fields.codec)) errors.codec = 'Please choose the codec the file is encoded with'
+
+  if (!(file instanceof File) || file.size === 0) {
+    errors.file = 'Please choose a video to upload'
+  } else if (file.size > MAX_VIDEO_BYTES) {
+    errors.file = `Videos must be ${formatFileSize(MAX_VIDEO_BYTES)} or smaller`
+  } else if (isVideoCodec(fields.codec) && file.type !== getVideoCodec(fields.codec).mimeType) {
+    errors.file = `${getVideoCodec(fields.codec).label} videos must be ${getVideoCodec(fields.codec).extension} files`
+  }
+
+  const isDimension = (value: number) => Number.isInteger(value) && value > 0 && value <= 7680
+  if (!isDimension(width) || !isDimension(height)) errors.width = 'Please enter the video\'s width and height in pixels'
+
+  if (hasErrors(errors)) return { success: false, errors }
+  return { success: true, data: { file: file as File, codec: fields.codec as VideoCodec, width, height } }
+}
+
+/**
+ * Check a WebVTT track upload before storing it
+ */
+export function validateVideoTrack(
+  file: unknown,
+  fields: { kind: unknown; label: unknown; srcLang: unknown }
+): ValidationResult<
+  { file: File; kind: VideoTrackKind; label: string; srcLang: string },
+  'file' | 'kind' | 'label' | 'srcLang'
+> {
+  const errors: FieldErrors<'file' | 'kind' | 'label' | 'srcLang'> = {}
+  const kind = VIDEO_TRACK_KINDS.find((k) => k.value === fields.kind)?.value
+  const label = readString(fields.label)
+  const srcLang = readString(fields.srcLang)
+
+  if (!(file instanceof File) || file.size === 0) errors.file = 'Please choose a WebVTT (.vtt) file'
+  else if (file.size > MAX_TRACK_BYTES) errors.file = `Track files must be ${formatFileSize(MAX_TRACK_BYTES)} or smaller`
+  if (!kind) errors.kind = 'Please choose a track type'
+  if (!label) errors.label = 'Please enter a label, e.g. English'
+  else if (label.length > 60) errors.label = 'Label must be at most 60 characters'
+  if (!LANGUAGE_TAG_PATTERN.test(srcLang)) errors.srcLang = 'Please enter a language code, e.g. en or pt-BR'
+
+  if (hasErrors(errors) || !kind) return { success: false, errors }
+  return { success: true, data: { file: file as File, kind, label, srcLang } }
+}
@@ -0,0 +1,30 @@
+/**
+ * Fake Payment Provider
+ *
+ * Approves every charge without contacting a gateway, for development.
+ * Set `FAKE_PAYMENT_OUTCOME=decline` to exercise the failure path.
+ */
+
+import type { PaymentProvider } from './types'
+
+/**
+ * Create a provider that settles charges locally
+ */
+export function createFakePaymentProvider(
+  outcome: 'approve' | 'decline' = process.env.FAKE_PAYMENT_OUTCOME === 'decline' ? 'decline' : 'approve'
+): PaymentProvider {
+  return {
+    name: 'fake',
+
+    async charge(request) {
+      const reference = `fake_${crypto.randomUUID().replace(/-/g, '').slice(0, 16)}`
+
+      if (outcome === 'decline') {
+        return { status: 'failed', reference, error: 'Your card was declined' }
+      }
+
+      console.info(`[payments] Charged ${request.amount.toFixed(2)} ${request.currency} for order ${request.orderNumber}`)
+      return { status: 'succeeded', reference }
+    },
+  }
+}
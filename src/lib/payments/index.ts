@@ -0,0 +1,33 @@
+/**
+ * Payments
+ *
+ * Resolves the active payment provider. The fake provider is the default;
+ * register a real gateway at startup with `setPaymentProvider`.
+ */
+
+import type { PaymentProvider } from './types'
+import { createFakePaymentProvider } from './fake-provider'
+
+export type { PaymentProvider, PaymentRequest, PaymentResult } from './types'
+
+// Cached on globalThis so dev-server hot reloads keep a single provider
+const globalForPayments = globalThis as unknown as {
+  mamPaymentProvider?: PaymentProvider
+}
+
+/**
+ * Get the active payment provider
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (!globalForPayments.mamPaymentProvider) {
+    globalForPayments.mamPaymentProvider = createFakePaymentProvider()
+  }
+  return globalForPayments.mamPaymentProvider
+}
+
+/**
+ * Replace the active payment provider (e.g. with a real gateway)
+ */
+export function setPaymentProvider(provider: PaymentProvider): void {
+  globalForPayments.mamPaymentProvider = provider
+}
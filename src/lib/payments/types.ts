@@ -0,0 +1,34 @@
+/**
+ * Payment Types
+ *
+ * Provider-agnostic payment contract. Real gateways (Stripe, Adyen, etc.)
+ * implement `PaymentProvider`; the fake provider stands in locally.
+ */
+
+/**
+ * Charge request for an order
+ */
+export interface PaymentRequest {
+  orderId: string
+  orderNumber: string
+  /** Amount in major currency units */
+  amount: number
+  currency: string
+  customerEmail: string
+}
+
+/**
+ * Outcome of a charge
+ */
+export type PaymentResult =
+  | { status: 'succeeded'; reference: string }
+  | { status: 'failed'; reference: string; error: string }
+
+/**
+ * Takes payments
+ */
+export interface PaymentProvider {
+  /** Identifier stored on orders */
+  name: string
+  charge(request: PaymentRequest): Promise<PaymentResult>
+}
@@ -0,0 +1,196 @@
+/**
+ * Pedigree CSV
+ *
+ * One row per horse with parents referenced by id, the layout breeders keep
+ * in spreadsheets. Headers are matched case-insensitively and a few common
+ * spellings are accepted (`sire`, `colour`, `foaled`, ...).
+ */
+
+import type { PedigreeGender, PedigreeNode } from './pedigree'
+import { buildPedigreeFromRows, flattenPedigree, type PedigreeImportResult, type PedigreeRow } from './rows'
+
+type CsvColumn = keyof Omit<PedigreeRow, 'line'>
+
+/**
+ * Exported columns, in order
+ */
+export const PEDIGREE_CSV_COLUMNS: { key: CsvColumn; header: string }[] = [
+  { key: 'id', header: 'id' },
+  { key: 'name', header: 'name' },
+  { key: 'sireId', header: 'sire_id' },
+  { key: 'damId', header: 'dam_id' },
+  { key: 'gender', header: 'sex' },
+  { key: 'breed', header: 'breed' },
+  { key: 'registrationNumber', header: 'registration_number' },
+  { key: 'birthYear', header: 'birth_year' },
+  { key: 'deathYear', header: 'death_year' },
+  { key: 'color', header: 'color' },
+  { key: 'country', header: 'country' },
+  { key: 'achievements', header: 'achievements' },
+]
+
+const HEADER_ALIASES: Record<string, CsvColumn> = {
+  ...Object.fromEntries(PEDIGREE_CSV_COLUMNS.map(({ key, header }) => [header, key])),
+  sire: 'sireId',
+  dam: 'damId',
+  gender: 'gender',
+  registration: 'registrationNumber',
+  reg_no: 'registrationNumber',
+  born: 'birthYear',
+  foaled: 'birthYear',
+  died: 'deathYear',
+  colour: 'color',
+}
+
+const MALE_VALUES = ['m', 'male', 'stallion', 'colt', 'gelding', 'sire']
+const FEMALE_VALUES = ['f', 'female', 'mare', 'filly', 'dam']
+
+/**
+ * Achievements share one cell, separated by semicolons
+ */
+const ACHIEVEMENT_SEPARATOR = ';'
+
+/**
+ * Split CSV text into records, honouring quoted fields
+ */
+function parseCsv(text: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  return records
+}
+
+function escapeCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, '_')
+}
+
+function readYear(value: string): number | undefined {
+  const year = Number(value)
+  return value && Number.isInteger(year) ? year : undefined
+}
+
+function readGender(value: string): PedigreeGender | undefined | null {
+  const normalized = value.trim().toLowerCase()
+  if (!normalized) return undefined
+  if (MALE_VALUES.includes(normalized)) return 'stallion'
+  if (FEMALE_VALUES.includes(normalized)) return 'mare'
+  return null
+}
+
+/**
+ * Parse a pedigree CSV into a tree; see `buildPedigreeFromRows` for `rootId`
+ */
+export function importPedigreeCsv(text: string, rootId?: string): PedigreeImportResult {
+  const [headerRecord, ...records] = parseCsv(text)
+  if (!headerRecord) {
+    return { success: false, errors: [{ message: 'The file is empty' }] }
+  }
+
+  const columns = headerRecord.map((header) => HEADER_ALIASES[normalizeHeader(header)])
+  const missing = (['id', 'name'] as const).filter((key) => !columns.includes(key))
+  if (missing.length > 0) {
+    return { success: false, errors: [{ line: 1, message: `Missing column: ${missing.join(', ')}` }] }
+  }
+
+  const rows: PedigreeRow[] = []
+  const errors: { line: number; message: string }[] = []
+
+  records.forEach((record, index) => {
+    const line = index + 2
+    if (record.every((cell) => !cell.trim())) return
+
+    const cells: Partial<Record<CsvColumn, string>> = {}
+    columns.forEach((key, column) => {
+      if (key) cells[key] = record[column]?.trim() ?? ''
+    })
+
+    const gender = readGender(cells.gender ?? '')
+    if (gender === null) {
+      errors.push({ line, message: `Unknown sex "${cells.gender}"` })
+    }
+
+    const birthYear = readYear(cells.birthYear ?? '')
+    const deathYear = readYear(cells.deathYear ?? '')
+    if (cells.birthYear && birthYear === undefined) errors.push({ line, message: `Birth year "${cells.birthYear}" is not a year` })
+    if (cells.deathYear && deathYear === undefined) errors.push({ line, message: `Death year "${cells.deathYear}" is not a year` })
+
+    rows.push({
+      id: cells.id ?? '',
+      name: cells.name ?? '',
+      sireId: cells.sireId || undefined,
+      damId: cells.damId || undefined,
+      gender: gender ?? undefined,
+      breed: cells.breed || undefined,
+      registrationNumber: cells.registrationNumber || undefined,
+      birthYear,
+      deathYear,
+      color: cells.color || undefined,
+      country: cells.country || undefined,
+      achievements: cells.achievements
+        ? cells.achievements.split(ACHIEVEMENT_SEPARATOR).map((entry) => entry.trim()).filter(Boolean)
+        : undefined,
+      line,
+    })
+  })
+
+  if (errors.length > 0) {
+    return { success: false, errors }
+  }
+
+  return buildPedigreeFromRows(rows, rootId)
+}
+
+/**
+ * Pedigree as CSV, the horse on the first row
+ */
+export function exportPedigreeCsv(root: PedigreeNode): string {
+  const lines = flattenPedigree(root).map((row) =>
+    PEDIGREE_CSV_COLUMNS.map(({ key }) => {
+      const value = row[key]
+      if (Array.isArray(value)) return escapeCell(value.join(`${ACHIEVEMENT_SEPARATOR} `))
+      return escapeCell(value === undefined ? '' : String(value))
+    }).join(',')
+  )
+
+  return [PEDIGREE_CSV_COLUMNS.map(({ header }) => header).join(','), ...lines].join('\r\n') + '\r\n'
+}
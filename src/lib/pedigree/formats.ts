@@ -0,0 +1,147 @@
+/**
+ * Pedigree Formats
+ *
+ * File formats pedigrees can be imported from and exported to.
+ */
+
+import { hasErrors, readString, type FieldErrors, type ValidationResult } from '@/lib/validation'
+import { exportPedigreeCsv, importPedigreeCsv } from './csv'
+import { exportPedigreeGedcom, importPedigreeGedcom } from './gedcom'
+import type { InbreedingAnalysis } from './inbreeding'
+import type { PedigreeNode } from './pedigree'
+import {
+  buildPedigreeFromRows,
+  flattenPedigree,
+  type PedigreeImportResult,
+  type PedigreeIssue,
+  type PedigreeRow,
+} from './rows'
+
+export const PEDIGREE_FORMATS = ['csv', 'gedcom', 'json'] as const
+
+export type PedigreeFormat = (typeof PEDIGREE_FORMATS)[number]
+
+/**
+ * Largest file accepted for import, in characters
+ */
+export const MAX_IMPORT_LENGTH = 1_000_000
+
+/**
+ * Pedigree file to import
+ */
+export interface PedigreeImportInput {
+  format: PedigreeFormat
+  content: string
+  /** Horse to import when the file holds several unrelated pedigrees */
+  rootId?: string
+}
+
+export type PedigreeImportField = 'format' | 'content' | 'rootId'
+
+/**
+ * Imported pedigree, linked to our catalogue, for review before it is saved
+ */
+export interface PedigreeImportPreview {
+  pedigree: PedigreeNode
+  analysis: InbreedingAnalysis
+  warnings: PedigreeIssue[]
+}
+
+export const PEDIGREE_FORMAT_LABELS: Record<PedigreeFormat, string> = {
+  csv: 'CSV',
+  gedcom: 'GEDCOM',
+  json: 'JSON',
+}
+
+const CONTENT_TYPES: Record<PedigreeFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  gedcom: 'text/vnd.familysearch.gedcom; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+}
+
+const EXTENSIONS: Record<PedigreeFormat, string> = {
+  csv: 'csv',
+  gedcom: 'ged',
+  json: 'json',
+}
+
+export function isPedigreeFormat(value: unknown): value is PedigreeFormat {
+  return typeof value === 'string' && (PEDIGREE_FORMATS as readonly string[]).includes(value)
+}
+
+/**
+ * Validate untrusted import input; the file itself is checked by `parsePedigree`
+ */
+export function validatePedigreeImport(input: unknown): ValidationResult<PedigreeImportInput, PedigreeImportField> {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const errors: FieldErrors<PedigreeImportField> = {}
+
+  const format = readString(body.format).toLowerCase()
+  const content = readString(body.content)
+  const rootId = readString(body.rootId)
+
+  if (!isPedigreeFormat(format)) errors.format = 'Please choose CSV, GEDCOM or JSON'
+  if (!content) errors.content = 'Please add a pedigree file'
+  else if (content.length > MAX_IMPORT_LENGTH) errors.content = 'This file is too large to import'
+
+  if (hasErrors(errors) || !isPedigreeFormat(format)) {
+    return { success: false, errors }
+  }
+
+  return { success: true, data: { format, content, rootId: rootId || undefined } }
+}
+
+/**
+ * Issue with its line number, e.g. "Line 4: Dam "x" of "Y" is not in the file"
+ */
+export function formatPedigreeIssue(issue: PedigreeIssue): string {
+  return issue.line ? `Line ${issue.line}: ${issue.message}` : issue.message
+}
+
+/**
+ * Pedigree file contents with its content type and file extension
+ */
+export function serializePedigree(root: PedigreeNode, format: PedigreeFormat) {
+  const content = format === 'csv'
+    ? exportPedigreeCsv(root)
+    : format === 'gedcom'
+      ? exportPedigreeGedcom(root)
+      : JSON.stringify(root, null, 2)
+
+  return { content, contentType: CONTENT_TYPES[format], extension: EXTENSIONS[format] }
+}
+
+/**
+ * JSON pedigrees may be a nested tree, as exported, or a list of rows
+ */
+function importPedigreeJson(text: string, rootId?: string): PedigreeImportResult {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return { success: false, errors: [{ message: 'The file is not valid JSON' }] }
+  }
+
+  if (Array.isArray(parsed)) {
+    return buildPedigreeFromRows(parsed.filter((row): row is PedigreeRow => !!row && typeof row === 'object'), rootId)
+  }
+  if (parsed && typeof parsed === 'object' && 'name' in parsed) {
+    return buildPedigreeFromRows(flattenPedigree(parsed as PedigreeNode), rootId)
+  }
+
+  return { success: false, errors: [{ message: 'Expected a pedigree tree or a list of horses' }] }
+}
+
+/**
+ * Parse a pedigree file, validating parents and cycles
+ */
+export function parsePedigree(text: string, format: PedigreeFormat, rootId?: string): PedigreeImportResult {
+  switch (format) {
+    case 'csv':
+      return importPedigreeCsv(text, rootId)
+    case 'gedcom':
+      return importPedigreeGedcom(text, rootId)
+    case 'json':
+      return importPedigreeJson(text, rootId)
+  }
+}
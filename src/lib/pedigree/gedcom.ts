@@ -0,0 +1,209 @@
+/**
+ * Pedigree GEDCOM
+ *
+ * A GEDCOM 5.5.1 subset as exported by genealogy and studbook software:
+ * `INDI` records for horses and `FAM` records linking sire and dam to their
+ * foals. Horse-specific fields use custom tags (`_BREED`, `_COLOR`, `_AWARD`).
+ */
+
+import type { PedigreeGender, PedigreeNode } from './pedigree'
+import {
+  buildPedigreeFromRows,
+  flattenPedigree,
+  type PedigreeImportResult,
+  type PedigreeIssue,
+  type PedigreeRow,
+} from './rows'
+
+interface GedcomRecord {
+  level: number
+  xref?: string
+  tag: string
+  value: string
+  line: number
+  children: GedcomRecord[]
+}
+
+const LINE_PATTERN = /^\s*(\d+)\s+(?:(@[^@\s]+@)\s+)?([A-Za-z0-9_]+)(?: (.*))?$/
+
+/**
+ * Nest lines under their parent by level
+ */
+function parseLines(text: string, errors: PedigreeIssue[]): GedcomRecord[] {
+  const roots: GedcomRecord[] = []
+  const stack: GedcomRecord[] = []
+
+  text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/).forEach((raw, index) => {
+    if (!raw.trim()) return
+
+    const line = index + 1
+    const match = LINE_PATTERN.exec(raw)
+    if (!match) {
+      errors.push({ line, message: 'Not a GEDCOM line' })
+      return
+    }
+
+    const level = Number(match[1])
+    const record: GedcomRecord = { level, xref: match[2], tag: match[3].toUpperCase(), value: match[4] ?? '', line, children: [] }
+
+    // Continuation lines extend the value they follow
+    const previous = stack[stack.length - 1]
+    if ((record.tag === 'CONT' || record.tag === 'CONC') && previous && level === previous.level + 1) {
+      previous.value += (record.tag === 'CONT' ? '\n' : '') + record.value
+      return
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop()
+
+    const parent = stack[stack.length - 1]
+    if (parent && level === parent.level + 1) parent.children.push(record)
+    else if (level === 0) roots.push(record)
+    else {
+      errors.push({ line, message: `Unexpected level ${level}` })
+      return
+    }
+
+    stack.push(record)
+  })
+
+  return roots
+}
+
+function find(record: GedcomRecord, tag: string): GedcomRecord | undefined {
+  return record.children.find((child) => child.tag === tag)
+}
+
+function findAll(record: GedcomRecord, tag: string): GedcomRecord[] {
+  return record.children.filter((child) => child.tag === tag)
+}
+
+function readText(record: GedcomRecord | undefined): string | undefined {
+  const value = record?.value.trim()
+  return value || undefined
+}
+
+/**
+ * Year of a GEDCOM date such as `12 APR 2015` or `ABT 1998`
+ */
+function readYear(record: GedcomRecord | undefined): number | undefined {
+  const years = readText(record)?.match(/\d{4}/g)
+  return years ? Number(years[years.length - 1]) : undefined
+}
+
+function readGender(record: GedcomRecord | undefined): PedigreeGender | undefined {
+  const sex = readText(record)?.toUpperCase()
+  if (sex === 'M') return 'stallion'
+  if (sex === 'F') return 'mare'
+  return undefined
+}
+
+function stripXref(xref: string): string {
+  return xref.replace(/@/g, '')
+}
+
+/**
+ * Parse a GEDCOM file into a tree; see `buildPedigreeFromRows` for `rootId`
+ *
+ * Horses are identified by their `RIN` when present, otherwise by their
+ * record reference without the `@` signs.
+ */
+export function importPedigreeGedcom(text: string, rootId?: string): PedigreeImportResult {
+  const errors: PedigreeIssue[] = []
+  const records = parseLines(text, errors)
+
+  if (errors.length > 0) {
+    return { success: false, errors }
+  }
+
+  const individuals = records.filter((record) => record.tag === 'INDI')
+  const families = new Map(records.filter((record) => record.tag === 'FAM' && record.xref).map((record) => [record.xref!, record]))
+  const ids = new Map(individuals.map((record) => [record.xref ?? '', readText(find(record, 'RIN')) ?? stripXref(record.xref ?? '')]))
+
+  // Parents that aren't in the file keep their reference so validation reports them
+  const resolve = (xref: string | undefined) => (xref ? ids.get(xref) ?? stripXref(xref) : undefined)
+
+  const rows = individuals.map((record): PedigreeRow => {
+    const familyRef = readText(find(record, 'FAMC'))
+    const family = familyRef ? families.get(familyRef) : undefined
+    if (familyRef && !family) {
+      errors.push({ line: find(record, 'FAMC')?.line, message: `Family ${familyRef} is not in the file` })
+    }
+
+    const birth = find(record, 'BIRT')
+    const death = find(record, 'DEAT')
+    const achievements = findAll(record, '_AWARD').map((award) => award.value.trim()).filter(Boolean)
+
+    return {
+      id: ids.get(record.xref ?? '') ?? '',
+      name: readText(find(record, 'NAME'))?.replace(/\//g, '').replace(/\s+/g, ' ').trim() ?? '',
+      sireId: resolve(family && readText(find(family, 'HUSB'))),
+      damId: resolve(family && readText(find(family, 'WIFE'))),
+      gender: readGender(find(record, 'SEX')),
+      breed: readText(find(record, '_BREED')),
+      registrationNumber: readText(find(record, 'REFN')),
+      birthYear: birth && readYear(find(birth, 'DATE')),
+      deathYear: death && readYear(find(death, 'DATE')),
+      color: readText(find(record, '_COLOR')),
+      country: birth && readText(find(birth, 'PLAC')),
+      achievements: achievements.length > 0 ? achievements : undefined,
+      line: record.line,
+    }
+  })
+
+  if (errors.length > 0) {
+    return { success: false, errors }
+  }
+
+  return buildPedigreeFromRows(rows, rootId)
+}
+
+/**
+ * Pedigree as GEDCOM, the horse as the first individual
+ */
+export function exportPedigreeGedcom(root: PedigreeNode): string {
+  const rows = flattenPedigree(root)
+  const xrefs = new Map(rows.map((row, index) => [row.id, `@I${index + 1}@`]))
+
+  // One family per sire and dam pairing
+  const families = new Map<string, { xref: string; sireId?: string; damId?: string; foals: string[] }>()
+  rows.forEach((row) => {
+    if (!row.sireId && !row.damId) return
+    const key = `${row.sireId ?? ''}|${row.damId ?? ''}`
+    const family = families.get(key) ?? { xref: `@F${families.size + 1}@`, sireId: row.sireId, damId: row.damId, foals: [] }
+    family.foals.push(row.id)
+    families.set(key, family)
+  })
+
+  const lines = ['0 HEAD', '1 SOUR MAM_CENTER', '1 GEDC', '2 VERS 5.5.1', '2 FORM LINEAGE-LINKED', '1 CHAR UTF-8']
+
+  rows.forEach((row) => {
+    lines.push(`0 ${xrefs.get(row.id)} INDI`, `1 NAME ${row.name}`)
+    if (row.gender) lines.push(`1 SEX ${row.gender === 'stallion' ? 'M' : 'F'}`)
+    if (row.birthYear || row.country) {
+      lines.push('1 BIRT')
+      if (row.birthYear) lines.push(`2 DATE ${row.birthYear}`)
+      if (row.country) lines.push(`2 PLAC ${row.country}`)
+    }
+    if (row.deathYear) lines.push('1 DEAT', `2 DATE ${row.deathYear}`)
+    if (row.registrationNumber) lines.push(`1 REFN ${row.registrationNumber}`)
+    lines.push(`1 RIN ${row.id}`)
+    if (row.breed) lines.push(`1 _BREED ${row.breed}`)
+    if (row.color) lines.push(`1 _COLOR ${row.color}`)
+    row.achievements?.forEach((achievement) => lines.push(`1 _AWARD ${achievement}`))
+
+    families.forEach((family) => {
+      if (family.foals.includes(row.id)) lines.push(`1 FAMC ${family.xref}`)
+      if (family.sireId === row.id || family.damId === row.id) lines.push(`1 FAMS ${family.xref}`)
+    })
+  })
+
+  families.forEach((family) => {
+    lines.push(`0 ${family.xref} FAM`)
+    if (family.sireId) lines.push(`1 HUSB ${xrefs.get(family.sireId)}`)
+    if (family.damId) lines.push(`1 WIFE ${xrefs.get(family.damId)}`)
+    family.foals.forEach((id) => lines.push(`1 CHIL ${xrefs.get(id)}`))
+  })
+
+  lines.push('0 TRLR')
+  return lines.join('\r\n') + '\r\n'
+}
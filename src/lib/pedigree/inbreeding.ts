@@ -0,0 +1,197 @@
+/**
+ * Inbreeding Analysis
+ *
+ * Wright's coefficient of inbreeding (COI) and the ancestors that appear more
+ * than once in a pedigree tree. Ancestors are matched by name, ignoring case
+ * and spacing, since older entries often lack registration numbers.
+ */
+
+import { clampGenerations, type PedigreeNode } from './pedigree'
+
+/**
+ * Where an ancestor sits in the tree
+ */
+export interface AncestorPosition {
+  /** Route from the horse: `s` for sire, `d` for dam, e.g. `sd` is the sire's dam */
+  path: string
+  /** Generation number; parents are 1 */
+  generation: number
+  side: 'sire' | 'dam'
+}
+
+/**
+ * An ancestor that appears more than once within the analysed generations
+ */
+export interface RepeatedAncestor {
+  key: string
+  name: string
+  positions: AncestorPosition[]
+  /** Breeder's notation such as `3x4`, when the ancestor appears on both sides */
+  crossNotation?: string
+  /** Part of the coefficient contributed through this ancestor */
+  contribution: number
+}
+
+export interface InbreedingAnalysis {
+  /** Wright's coefficient of inbreeding, between 0 and 1 */
+  coefficient: number
+  /** Ancestor generations the analysis covers */
+  generations: number
+  /** Repeated ancestors, biggest contribution first */
+  repeatedAncestors: RepeatedAncestor[]
+}
+
+interface Occurrence {
+  node: PedigreeNode
+  path: string
+  /** Ancestor keys from the parent down to this node */
+  lineage: string[]
+}
+
+/**
+ * Key used to recognise the same ancestor in different positions
+ */
+export function getAncestorKey(node: Pick<PedigreeNode, 'name'>): string {
+  return node.name.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+function collectOccurrences(
+  node: PedigreeNode | undefined,
+  path: string,
+  lineage: string[],
+  generations: number,
+  out: Occurrence[]
+): Occurrence[] {
+  if (!node || path.length > generations) return out
+
+  const current = [...lineage, getAncestorKey(node)]
+  out.push({ node, path, lineage: current })
+  collectOccurrences(node.sire, `${path}s`, current, generations, out)
+  collectOccurrences(node.dam, `${path}d`, current, generations, out)
+  return out
+}
+
+function groupByKey(occurrences: Occurrence[]): Map<string, Occurrence[]> {
+  const groups = new Map<string, Occurrence[]>()
+  occurrences.forEach((occurrence) => {
+    const key = occurrence.lineage[occurrence.lineage.length - 1]
+    groups.set(key, [...(groups.get(key) ?? []), occurrence])
+  })
+  return groups
+}
+
+/**
+ * Paths through a common ancestor only count when no other ancestor lies on both
+ */
+function isIndependentPath(sire: Occurrence, dam: Occurrence): boolean {
+  const sireLine = new Set(sire.lineage.slice(0, -1))
+  return dam.lineage.slice(0, -1).every((key) => !sireLine.has(key))
+}
+
+/**
+ * Per-ancestor contributions to a horse's coefficient
+ */
+function getContributions(root: PedigreeNode, generations: number): Map<string, number> {
+  const sireSide = groupByKey(collectOccurrences(root.sire, 's', [], generations, []))
+  const damSide = groupByKey(collectOccurrences(root.dam, 'd', [], generations, []))
+  const contributions = new Map<string, number>()
+
+  sireSide.forEach((sireOccurrences, key) => {
+    const damOccurrences = damSide.get(key)
+    if (!damOccurrences) return
+
+    // The common ancestor's own inbreeding, from its least distant appearance
+    const nearest = [...sireOccurrences, ...damOccurrences].reduce((a, b) => (b.path.length < a.path.length ? b : a))
+    const ancestorCoefficient = getCoefficient(nearest.node, generations - nearest.path.length)
+
+    let total = 0
+    sireOccurrences.forEach((sire) => {
+      damOccurrences.forEach((dam) => {
+        if (!isIndependentPath(sire, dam)) return
+        // (1/2)^(n1 + n2 + 1), with n1 and n2 counted from the parents
+        total += Math.pow(0.5, sire.path.length + dam.path.length - 1) * (1 + ancestorCoefficient)
+      })
+    })
+
+    if (total > 0) contributions.set(key, total)
+  })
+
+  return contributions
+}
+
+function getCoefficient(root: PedigreeNode, generations: number): number {
+  if (generations < 2) return 0
+  let total = 0
+  getContributions(root, generations).forEach((value) => { total += value })
+  return total
+}
+
+function toPosition({ path }: Occurrence): AncestorPosition {
+  return { path, generation: path.length, side: path[0] === 's' ? 'sire' : 'dam' }
+}
+
+function getCrossNotation(positions: AncestorPosition[]): string | undefined {
+  const sire = positions.filter((p) => p.side === 'sire').map((p) => p.generation)
+  const dam = positions.filter((p) => p.side === 'dam').map((p) => p.generation)
+  if (sire.length === 0 || dam.length === 0) return undefined
+  return `${sire.join(',')}x${dam.join(',')}`
+}
+
+/**
+ * Coefficient of inbreeding and repeated ancestors for a pedigree
+ *
+ * @param generations - Ancestor generations to include; the COI grows as more
+ *   generations are recorded, so compare horses over the same depth
+ */
+export function analyzeInbreeding(
+  root: PedigreeNode,
+  generations?: number
+): InbreedingAnalysis {
+  const depth = clampGenerations(generations)
+  const occurrences = [
+    ...collectOccurrences(root.sire, 's', [], depth, []),
+    ...collectOccurrences(root.dam, 'd', [], depth, []),
+  ]
+  const contributions = getContributions(root, depth)
+
+  const repeatedAncestors: RepeatedAncestor[] = []
+  groupByKey(occurrences).forEach((group, key) => {
+    if (group.length < 2) return
+
+    // Nearest first, sire side before dam side
+    const positions = group.map(toPosition).sort((a, b) => a.generation - b.generation || b.path.localeCompare(a.path))
+    repeatedAncestors.push({
+      key,
+      name: group[0].node.name,
+      positions,
+      crossNotation: getCrossNotation(positions),
+      contribution: contributions.get(key) ?? 0,
+    })
+  })
+
+  repeatedAncestors.sort((a, b) =>
+    b.contribution - a.contribution ||
+    b.positions.length - a.positions.length ||
+    a.name.localeCompare(b.name)
+  )
+
+  let coefficient = 0
+  contributions.forEach((value) => { coefficient += value })
+
+  return { coefficient, generations: depth, repeatedAncestors }
+}
+
+/**
+ * Readable position, e.g. `sds` becomes "Sire's dam's sire"
+ */
+export function describePosition(path: string): string {
+  const label = path.split('').map((step) => (step === 's' ? 'sire' : 'dam')).join("'s ")
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+/**
+ * Coefficient as a percentage, e.g. 0.03125 becomes "3.13%"
+ */
+export function formatCoefficient(coefficient: number): string {
+  return `${(coefficient * 100).toFixed(2)}%`
+}
@@ -0,0 +1,179 @@
+/**
+ * Pedigree
+ *
+ * The canonical pedigree model shared by horse details, stallions, the
+ * pedigree chart and the API, plus helpers to convert legacy stallion
+ * summaries, trim trees to a number of generations and link ancestors to
+ * records in our own catalogue.
+ */
+
+/**
+ * Most ancestor generations served or displayed
+ */
+export const MAX_PEDIGREE_GENERATIONS = 5
+
+/**
+ * Ancestor generations shown when none are requested
+ */
+export const DEFAULT_PEDIGREE_GENERATIONS = 4
+
+export type PedigreeGender = 'stallion' | 'mare'
+
+/**
+ * Reference to a horse or stallion in our own catalogue
+ */
+export interface PedigreeLink {
+  type: 'horse' | 'stallion'
+  id: string
+}
+
+/**
+ * Pedigree tree node
+ *
+ * The root is the horse itself; `sire` and `dam` hold its parents, and so on
+ * up the tree.
+ */
+export interface PedigreeNode {
+  id: string
+  name: string
+  breed?: string
+  gender?: PedigreeGender
+  /** Stud book registration number */
+  registrationNumber?: string
+  birthYear?: number
+  deathYear?: number
+  color?: string
+  /** Country of birth */
+  country?: string
+  imageUrl?: string
+  achievements?: string[]
+  /** Matching record in our catalogue, filled in by the API */
+  link?: PedigreeLink
+  sire?: PedigreeNode
+  dam?: PedigreeNode
+}
+
+/**
+ * Sire/dam name summary stallions were stored with before pedigrees were unified
+ */
+export interface PedigreeSummary {
+  sire: string
+  dam: string
+  /** Sire's sire */
+  grandsire?: string
+}
+
+/**
+ * Catalogue record an ancestor can be linked to
+ */
+export interface PedigreeRecord {
+  id: string
+  name: string
+  breed?: string
+  registrationNumber?: string
+}
+
+export function isPedigreeSummary(value: unknown): value is PedigreeSummary {
+  if (typeof value !== 'object' || value === null) return false
+  const { sire, dam } = value as Record<string, unknown>
+  return typeof sire === 'string' && typeof dam === 'string'
+}
+
+/**
+ * Build a pedigree tree from a legacy sire/dam summary
+ */
+export function fromPedigreeSummary(
+  root: Pick<PedigreeNode, 'id' | 'name' | 'breed' | 'gender'>,
+  summary: PedigreeSummary
+): PedigreeNode {
+  return {
+    ...root,
+    sire: {
+      id: `${root.id}-s`,
+      name: summary.sire,
+      gender: 'stallion',
+      sire: summary.grandsire ? { id: `${root.id}-ss`, name: summary.grandsire, gender: 'stallion' } : undefined,
+    },
+    dam: { id: `${root.id}-d`, name: summary.dam, gender: 'mare' },
+  }
+}
+
+/**
+ * Copy of a pedigree keeping only the given number of ancestor generations
+ */
+export function trimPedigree(node: PedigreeNode, generations: number): PedigreeNode {
+  const { sire, dam, ...rest } = node
+  if (generations <= 0) return rest
+
+  return {
+    ...rest,
+    sire: sire && trimPedigree(sire, generations - 1),
+    dam: dam && trimPedigree(dam, generations - 1),
+  }
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+function findRecord(node: PedigreeNode, records: PedigreeRecord[]): PedigreeRecord | undefined {
+  if (node.registrationNumber) {
+    const registered = records.find((record) => record.registrationNumber === node.registrationNumber)
+    if (registered) return registered
+  }
+
+  // Fall back to name, requiring the breed to agree when both sides have one
+  return records.find((record) =>
+    normalizeName(record.name) === normalizeName(node.name) &&
+    (!record.breed || !node.breed || record.breed === node.breed)
+  )
+}
+
+/**
+ * Link ancestors to matching horses and stallions in our catalogue
+ *
+ * Nodes are matched by registration number, then by name and breed. Stallion
+ * records win over horse records since their page covers breeding. Links
+ * already on a node are kept, and `self` is never linked to itself.
+ */
+export function linkPedigree(
+  node: PedigreeNode,
+  catalogue: { horses: PedigreeRecord[]; stallions: PedigreeRecord[] },
+  self?: PedigreeLink
+): PedigreeNode {
+  const isSelf = (link: PedigreeLink) => link.type === self?.type && link.id === self?.id
+
+  const visit = (current: PedigreeNode): PedigreeNode => {
+    const stallion = findRecord(current, catalogue.stallions)
+    const horse = findRecord(current, catalogue.horses)
+    const candidates: PedigreeLink[] = [
+      ...(current.link ? [current.link] : []),
+      ...(stallion ? [{ type: 'stallion' as const, id: stallion.id }] : []),
+      ...(horse ? [{ type: 'horse' as const, id: horse.id }] : []),
+    ]
+
+    return {
+      ...current,
+      link: candidates.find((link) => !isSelf(link)),
+      sire: current.sire && visit(current.sire),
+      dam: current.dam && visit(current.dam),
+    }
+  }
+
+  return visit(node)
+}
+
+/**
+ * Page for a linked ancestor
+ */
+export function getPedigreeHref(link: PedigreeLink): string {
+  return link.type === 'horse' ? `/horses/${link.id}` : '/breeding'
+}
+
+/**
+ * Clamp a requested generation count to what we serve
+ */
+export function clampGenerations(value?: number): number {
+  if (value === undefined || !Number.isFinite(value)) return DEFAULT_PEDIGREE_GENERATIONS
+  return Math.min(Math.max(Math.trunc(value), 1), MAX_PEDIGREE_GENERATIONS)
+}
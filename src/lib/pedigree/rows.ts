@@ -0,0 +1,237 @@
+/**
+ * Pedigree Rows
+ *
+ * Flat, one-row-per-horse form of a pedigree where parents are referenced by
+ * id, as found in spreadsheets and genealogy files. Import formats parse into
+ * rows, which are validated and assembled into a `PedigreeNode` tree here.
+ */
+
+import { MAX_PEDIGREE_GENERATIONS, type PedigreeGender, type PedigreeNode } from './pedigree'
+
+/**
+ * Most rows accepted in one import
+ */
+export const MAX_IMPORT_ROWS = 1000
+
+/**
+ * One horse with references to its parents
+ */
+export interface PedigreeRow {
+  id: string
+  name: string
+  sireId?: string
+  damId?: string
+  gender?: PedigreeGender
+  breed?: string
+  registrationNumber?: string
+  birthYear?: number
+  deathYear?: number
+  color?: string
+  country?: string
+  achievements?: string[]
+  /** Line in the source file, for messages */
+  line?: number
+}
+
+/**
+ * A problem found while importing, tied to a source line where possible
+ */
+export interface PedigreeIssue {
+  line?: number
+  message: string
+}
+
+export type PedigreeImportResult =
+  | { success: true; pedigree: PedigreeNode; warnings: PedigreeIssue[] }
+  | { success: false; errors: PedigreeIssue[] }
+
+/**
+ * One row per ancestor, horse first, parents referenced by node id
+ */
+export function flattenPedigree(root: PedigreeNode): PedigreeRow[] {
+  const rows = new Map<string, PedigreeRow>()
+
+  const visit = (node: PedigreeNode) => {
+    if (rows.has(node.id)) return
+
+    rows.set(node.id, {
+      id: node.id,
+      name: node.name,
+      sireId: node.sire?.id,
+      damId: node.dam?.id,
+      gender: node.gender,
+      breed: node.breed,
+      registrationNumber: node.registrationNumber,
+      birthYear: node.birthYear,
+      deathYear: node.deathYear,
+      color: node.color,
+      country: node.country,
+      achievements: node.achievements,
+    })
+    if (node.sire) visit(node.sire)
+    if (node.dam) visit(node.dam)
+  }
+
+  visit(root)
+  return [...rows.values()]
+}
+
+function describeRow(row: PedigreeRow): string {
+  return `"${row.name || row.id}"`
+}
+
+/**
+ * Parent references that don't resolve, point at the wrong sex or contradict dates
+ */
+function checkParents(rows: Map<string, PedigreeRow>, errors: PedigreeIssue[], warnings: PedigreeIssue[]) {
+  rows.forEach((row) => {
+    const parents = [
+      { id: row.sireId, role: 'Sire', gender: 'stallion' },
+      { id: row.damId, role: 'Dam', gender: 'mare' },
+    ] as const
+
+    if (row.sireId && row.sireId === row.damId) {
+      errors.push({ line: row.line, message: `${describeRow(row)} has the same horse as sire and dam` })
+      return
+    }
+
+    parents.forEach(({ id, role, gender }) => {
+      if (!id) return
+      const parent = rows.get(id)
+
+      if (!parent) {
+        errors.push({ line: row.line, message: `${role} "${id}" of ${describeRow(row)} is not in the file` })
+        return
+      }
+      if (parent.gender && parent.gender !== gender) {
+        errors.push({ line: row.line, message: `${role} of ${describeRow(row)} is recorded as a ${parent.gender}` })
+      }
+      if (parent.birthYear && row.birthYear && parent.birthYear >= row.birthYear) {
+        warnings.push({ line: row.line, message: `${role} of ${describeRow(row)} was born in or after ${row.birthYear}` })
+      }
+    })
+  })
+}
+
+/**
+ * Every horse that is, through its parents, its own ancestor
+ */
+function findCycles(rows: Map<string, PedigreeRow>): PedigreeIssue[] {
+  const state = new Map<string, 'visiting' | 'done'>()
+  const issues: PedigreeIssue[] = []
+
+  const visit = (id: string, trail: PedigreeRow[]) => {
+    const row = rows.get(id)
+    if (!row || state.get(id) === 'done') return
+
+    if (state.get(id) === 'visiting') {
+      const loop = [...trail.slice(trail.findIndex((entry) => entry.id === id)), row]
+      issues.push({ line: row.line, message: `Circular pedigree: ${loop.map(describeRow).join(' → ')}` })
+      return
+    }
+
+    state.set(id, 'visiting')
+    if (row.sireId) visit(row.sireId, [...trail, row])
+    if (row.damId) visit(row.damId, [...trail, row])
+    state.set(id, 'done')
+  }
+
+  rows.forEach((_, id) => visit(id, []))
+  return issues
+}
+
+/**
+ * Validate rows and assemble the pedigree of one horse
+ *
+ * @param rootId - Horse to build the pedigree for; defaults to the only
+ *   horse that isn't a parent of another horse in the file
+ */
+export function buildPedigreeFromRows(input: PedigreeRow[], rootId?: string): PedigreeImportResult {
+  if (input.length === 0) {
+    return { success: false, errors: [{ message: 'The file contains no horses' }] }
+  }
+  if (input.length > MAX_IMPORT_ROWS) {
+    return { success: false, errors: [{ message: `Files are limited to ${MAX_IMPORT_ROWS} horses` }] }
+  }
+
+  const errors: PedigreeIssue[] = []
+  const warnings: PedigreeIssue[] = []
+  const rows = new Map<string, PedigreeRow>()
+
+  input.forEach((row) => {
+    if (!row.id) errors.push({ line: row.line, message: 'Every horse needs an id' })
+    else if (!row.name) errors.push({ line: row.line, message: `Horse "${row.id}" has no name` })
+    else if (rows.has(row.id)) errors.push({ line: row.line, message: `Id "${row.id}" is used more than once` })
+    else rows.set(row.id, row)
+
+    if (row.birthYear && row.deathYear && row.deathYear < row.birthYear) {
+      errors.push({ line: row.line, message: `${describeRow(row)} died before it was born` })
+    }
+  })
+
+  checkParents(rows, errors, warnings)
+  errors.push(...findCycles(rows))
+
+  if (errors.length > 0) {
+    return { success: false, errors }
+  }
+
+  let root: PedigreeRow | undefined
+  if (rootId) {
+    root = rows.get(rootId)
+    if (!root) return { success: false, errors: [{ message: `Horse "${rootId}" is not in the file` }] }
+  } else {
+    const parentIds = new Set([...rows.values()].flatMap((row) => [row.sireId, row.damId]))
+    const candidates = [...rows.values()].filter((row) => !parentIds.has(row.id))
+    if (candidates.length !== 1) {
+      return {
+        success: false,
+        errors: [{
+          message: `The file holds pedigrees for several horses (${candidates.map(describeRow).join(', ')}); choose which one to import`,
+        }],
+      }
+    }
+    root = candidates[0]
+  }
+
+  let truncated = false
+
+  // Parents without a recorded sex take it from their place in the tree
+  const toNode = (row: PedigreeRow, generation: number, gender?: PedigreeGender): PedigreeNode => {
+    const { sireId, damId, line: _line, ...fields } = row
+    const node: PedigreeNode = { ...fields, gender: row.gender ?? gender }
+
+    if (generation < MAX_PEDIGREE_GENERATIONS) {
+      const sire = sireId ? rows.get(sireId) : undefined
+      const dam = damId ? rows.get(damId) : undefined
+      if (sire) node.sire = toNode(sire, generation + 1, 'stallion')
+      if (dam) node.dam = toNode(dam, generation + 1, 'mare')
+    } else if (sireId || damId) {
+      truncated = true
+    }
+
+    return node
+  }
+
+  const pedigree = toNode(root, 0)
+
+  if (truncated) {
+    warnings.push({ message: `Ancestors beyond ${MAX_PEDIGREE_GENERATIONS} generations were left out` })
+  }
+
+  const ancestors = new Set<string>()
+  const collect = (id?: string) => {
+    if (!id || ancestors.has(id)) return
+    ancestors.add(id)
+    collect(rows.get(id)?.sireId)
+    collect(rows.get(id)?.damId)
+  }
+  collect(root.id)
+
+  const unused = rows.size - ancestors.size
+  if (unused > 0) {
+    warnings.push({ message: `${unused} ${unused === 1 ? 'horse is' : 'horses are'} not in the pedigree of ${describeRow(root)} and ${unused === 1 ? 'was' : 'were'} skipped` })
+  }
+
+  return { success: true, pedigree, warnings }
+}
@@ -0,0 +1,206 @@
+/**
+ * Test Mating
+ *
+ * Builds the pedigree of a hypothetical foal from one of our stallions and a
+ * mare, either one of our own horses or a pedigree the owner enters, and
+ * summarises what it inherits from each line.
+ */
+
+import { hasErrors, readString, type FieldErrors, type ValidationResult } from '@/lib/validation'
+import type { InbreedingAnalysis } from './inbreeding'
+import type { PedigreeNode } from './pedigree'
+
+/**
+ * Mare pedigree entered by hand, two generations back
+ */
+export interface MarePedigreeInput {
+  name: string
+  breed?: string
+  registrationNumber?: string
+  birthYear?: number
+  color?: string
+  sire?: string
+  dam?: string
+  siresSire?: string
+  siresDam?: string
+  damsSire?: string
+  damsDam?: string
+}
+
+export type MareAncestorField = 'sire' | 'dam' | 'siresSire' | 'siresDam' | 'damsSire' | 'damsDam'
+
+/**
+ * Test mating request; either `mareId` or `mare` is required
+ */
+export interface TestMatingInput {
+  stallionId: string
+  /** One of our mares */
+  mareId?: string
+  /** A mare pedigree entered by the owner */
+  mare?: MarePedigreeInput
+}
+
+export type TestMatingField = 'stallionId' | 'mareId' | 'mareName' | 'mareBirthYear'
+
+/**
+ * An ancestor's achievements and where it sits in the foal's pedigree
+ */
+export interface LineAchievement {
+  name: string
+  /** Route from the foal: `s` for sire, `d` for dam */
+  path: string
+  achievements: string[]
+}
+
+/**
+ * Hypothetical foal pedigree with its analysis
+ */
+export interface TestMatingResult {
+  pedigree: PedigreeNode
+  analysis: InbreedingAnalysis
+  /** Achievements through the stallion */
+  sireLine: LineAchievement[]
+  /** Achievements through the mare */
+  damLine: LineAchievement[]
+}
+
+/**
+ * Ancestor fields of the mare form, with their place in her pedigree
+ */
+export const MARE_ANCESTOR_FIELDS: { key: MareAncestorField; label: string; path: string }[] = [
+  { key: 'sire', label: 'Sire', path: 's' },
+  { key: 'dam', label: 'Dam', path: 'd' },
+  { key: 'siresSire', label: "Sire's Sire", path: 'ss' },
+  { key: 'siresDam', label: "Sire's Dam", path: 'sd' },
+  { key: 'damsSire', label: "Dam's Sire", path: 'ds' },
+  { key: 'damsDam', label: "Dam's Dam", path: 'dd' },
+]
+
+function readOptional(value: unknown): string | undefined {
+  return readString(value) || undefined
+}
+
+/**
+ * Validate untrusted test mating input
+ */
+export function validateTestMating(input: unknown): ValidationResult<TestMatingInput, TestMatingField> {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const errors: FieldErrors<TestMatingField> = {}
+
+  const stallionId = readString(body.stallionId)
+  const mareId = readString(body.mareId)
+
+  if (!stallionId) errors.stallionId = 'Please choose a stallion'
+
+  if (mareId) {
+    if (hasErrors(errors)) return { success: false, errors }
+    return { success: true, data: { stallionId, mareId } }
+  }
+
+  if (!body.mare || typeof body.mare !== 'object') {
+    errors.mareId = 'Please choose a mare or enter her pedigree'
+    return { success: false, errors }
+  }
+
+  const mare = body.mare as Record<string, unknown>
+  const name = readString(mare.name)
+  const birthYear = mare.birthYear === undefined || mare.birthYear === '' ? undefined : Number(mare.birthYear)
+
+  if (!name) errors.mareName = "Please enter your mare's name"
+  if (birthYear !== undefined && (!Number.isInteger(birthYear) || birthYear < 1900 || birthYear > new Date().getFullYear())) {
+    errors.mareBirthYear = 'Please enter a valid birth year'
+  }
+
+  if (hasErrors(errors)) {
+    return { success: false, errors }
+  }
+
+  const ancestors = Object.fromEntries(MARE_ANCESTOR_FIELDS.map(({ key }) => [key, readOptional(mare[key])]))
+
+  return {
+    success: true,
+    data: {
+      stallionId,
+      mare: {
+        name,
+        breed: readOptional(mare.breed),
+        registrationNumber: readOptional(mare.registrationNumber),
+        birthYear,
+        color: readOptional(mare.color),
+        ...ancestors,
+      },
+    },
+  }
+}
+
+/**
+ * Pedigree tree for a hand-entered mare
+ */
+export function toMarePedigree(input: MarePedigreeInput): PedigreeNode {
+  const root: PedigreeNode = {
+    id: 'mare',
+    name: input.name,
+    breed: input.breed,
+    gender: 'mare',
+    registrationNumber: input.registrationNumber,
+    birthYear: input.birthYear,
+    color: input.color,
+  }
+
+  // Parents come before grandparents, so each ancestor's offspring already exists
+  MARE_ANCESTOR_FIELDS.forEach(({ key, path }) => {
+    const name = input[key]
+    if (!name) return
+
+    const offspring = path.slice(0, -1).split('').reduce<PedigreeNode | undefined>(
+      (node, step) => (step === 's' ? node?.sire : node?.dam),
+      root
+    )
+    if (!offspring) return
+
+    const parent: PedigreeNode = {
+      id: `mare-${path}`,
+      name,
+      gender: path.endsWith('s') ? 'stallion' : 'mare',
+    }
+    if (path.endsWith('s')) offspring.sire = parent
+    else offspring.dam = parent
+  })
+
+  return root
+}
+
+/**
+ * Pedigree of the foal a stallion and mare would produce
+ */
+export function buildFoalPedigree(stallion: PedigreeNode, mare: PedigreeNode): PedigreeNode {
+  return {
+    id: 'foal',
+    name: `${stallion.name} × ${mare.name}`,
+    breed: stallion.breed && stallion.breed === mare.breed ? stallion.breed : undefined,
+    sire: stallion,
+    dam: mare,
+  }
+}
+
+/**
+ * Ancestors with recorded achievements on one side of a pedigree, nearest first
+ */
+export function getLineAchievements(node: PedigreeNode | undefined, path: string): LineAchievement[] {
+  const entries: LineAchievement[] = []
+  let current: { node: PedigreeNode; path: string }[] = node ? [{ node, path }] : []
+
+  while (current.length > 0) {
+    current.forEach(({ node: ancestor, path: position }) => {
+      if (ancestor.achievements && ancestor.achievements.length > 0) {
+        entries.push({ name: ancestor.name, path: position, achievements: ancestor.achievements })
+      }
+    })
+    current = current.flatMap(({ node: ancestor, path: position }) => [
+      ...(ancestor.sire ? [{ node: ancestor.sire, path: `${position}s` }] : []),
+      ...(ancestor.dam ? [{ node: ancestor.dam, path: `${position}d` }] : []),
+    ])
+  }
+
+  return entries
+}
@@ -0,0 +1,185 @@
+/**
+ * Cart
+ *
+ * Pure helpers for cart lines and totals. A line is one product in one
+ * colour/size combination; adding the same combination again increases
+ * its quantity. Prices here are for display only: orders are re-priced
+ * on the server from the product catalogue.
+ */
+
+import type { Product } from '@/components/sections/product-showcase'
+
+/**
+ * Selected product options
+ */
+export interface ProductVariant {
+  color?: string
+  size?: string
+}
+
+/**
+ * A product line in the cart
+ */
+export interface CartItem extends ProductVariant {
+  /** Product id plus variant, unique per line */
+  key: string
+  productId: string
+  name: string
+  price: number
+  currency: string
+  image?: string
+  quantity: number
+}
+
+/**
+ * Cart money totals
+ */
+export interface CartTotals {
+  subtotal: number
+  shipping: number
+  total: number
+  currency: string
+}
+
+/**
+ * Largest quantity of a single line
+ */
+export const MAX_LINE_QUANTITY = 10
+
+/**
+ * Orders at or above this subtotal ship free
+ */
+export const FREE_SHIPPING_THRESHOLD = 500
+
+/**
+ * Flat shipping charge below the free shipping threshold
+ */
+export const SHIPPING_FLAT_RATE = 25
+
+export const DEFAULT_CURRENCY = 'USD'
+
+/**
+ * Build the line key for a product variant
+ */
+export function getCartItemKey(productId: string, variant: ProductVariant = {}): string {
+  return [productId, variant.color ?? '', variant.size ?? ''].join('|')
+}
+
+function clampQuantity(quantity: number): number {
+  return Math.min(MAX_LINE_QUANTITY, Math.max(0, Math.floor(quantity)))
+}
+
+/**
+ * Add a product to the cart, merging with an existing line for the same variant
+ *
+ * Out-of-stock products are ignored.
+ */
+export function addCartItem(
+  items: CartItem[],
+  product: Product,
+  variant: ProductVariant = {},
+  quantity = 1
+): CartItem[] {
+  if (!product.inStock) return items
+
+  const key = getCartItemKey(product.id, variant)
+  const existing = items.find((item) => item.key === key)
+
+  if (existing) {
+    return items.map((item) =>
+      item.key === key ? { ...item, quantity: clampQuantity(item.quantity + quantity) } : item
+    )
+  }
+
+  return [
+    ...items,
+    {
+      key,
+      productId: product.id,
+      name: product.name,
+      price: product.price,
+      currency: product.currency ?? DEFAULT_CURRENCY,
+      image: product.thumbnail ?? product.images[0],
+      color: variant.color,
+      size: variant.size,
+      quantity: clampQuantity(quantity),
+    },
+  ]
+}
+
+/**
+ * Set a line's quantity; zero removes the line
+ */
+export function updateCartItemQuantity(items: CartItem[], key: string, quantity: number): CartItem[] {
+  const next = clampQuantity(quantity)
+  if (next === 0) return removeCartItem(items, key)
+
+  return items.map((item) => (item.key === key ? { ...item, quantity: next } : item))
+}
+
+/**
+ * Remove a line
+ */
+export function removeCartItem(items: CartItem[], key: string): CartItem[] {
+  return items.filter((item) => item.key !== key)
+}
+
+/**
+ * Shipping charge for a subtotal
+ */
+export function getShippingCost(subtotal: number): number {
+  if (subtotal === 0 || subtotal >= FREE_SHIPPING_THRESHOLD) return 0
+  return SHIPPING_FLAT_RATE
+}
+
+/**
+ * Compute totals for a set of priced lines
+ */
+export function getCartTotals(items: Pick<CartItem, 'price' | 'quantity' | 'currency'>[]): CartTotals {
+  const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+  const shipping = getShippingCost(subtotal)
+
+  return {
+    subtotal,
+    shipping,
+    total: subtotal + shipping,
+    currency: items[0]?.currency ?? DEFAULT_CURRENCY,
+  }
+}
+
+/**
+ * Total number of units in the cart
+ */
+export function getCartItemCount(items: CartItem[]): number {
+  return items.reduce((sum, item) => sum + item.quantity, 0)
+}
+
+/**
+ * Format an amount for display
+ */
+export function formatPrice(amount: number, currency = DEFAULT_CURRENCY): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount)
+}
+
+/**
+ * Restore cart lines from storage, dropping anything malformed
+ */
+export function parseStoredCart(value: string | null): CartItem[] {
+  if (!value) return []
+
+  try {
+    const parsed = JSON.parse(value)
+    if (!Array.isArray(parsed)) return []
+
+    return parsed.filter((item): item is CartItem =>
+      item &&
+      typeof item.key === 'string' &&
+      typeof item.productId === 'string' &&
+      typeof item.price === 'number' &&
+      typeof item.quantity === 'number' &&
+      item.quantity > 0
+    )
+  } catch {
+    return []
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Orders
+ *
+ * Order records created at checkout. Requests carry only product ids,
+ * variants and quantities; names and prices are filled in on the server.
+ */
+
+import {
+  hasErrors,
+  isEmail,
+  isPhone,
+  readString,
+  type FieldErrors,
+  type ValidationResult,
+} from '@/lib/validation'
+import { MAX_LINE_QUANTITY, type ProductVariant } from './cart'
+
+/**
+ * Where an order is in its lifecycle
+ */
+export type OrderStatus = 'pending_payment' | 'paid' | 'payment_failed' | 'fulfilled' | 'cancelled'
+
+/**
+ * Delivery address and contact
+ */
+export interface ShippingDetails {
+  name: string
+  email: string
+  phone?: string
+  addressLine1: string
+  addressLine2?: string
+  city: string
+  region?: string
+  postalCode: string
+  country: string
+}
+
+/**
+ * A requested product line
+ */
+export interface OrderLineInput extends ProductVariant {
+  productId: string
+  quantity: number
+}
+
+/**
+ * Checkout submission
+ */
+export interface OrderRequest {
+  items: OrderLineInput[]
+  shipping: ShippingDetails
+}
+
+/**
+ * A priced product line
+ */
+export interface OrderLine extends OrderLineInput {
+  name: string
+  /** Unit price at the time of ordering */
+  price: number
+}
+
+/**
+ * Payment attempt recorded on an order
+ */
+export interface OrderPayment {
+  provider: string
+  /** Provider's payment reference */
+  reference: string
+  status: 'succeeded' | 'failed'
+}
+
+/**
+ * A persisted order
+ */
+export interface Order {
+  id: string
+  /** Customer-facing reference */
+  number: string
+  items: OrderLine[]
+  shipping: ShippingDetails
+  subtotal: number
+  shippingCost: number
+  total: number
+  currency: string
+  status: OrderStatus
+  payment?: OrderPayment
+  /** ISO timestamp of placement */
+  createdAt: string
+  /** ISO timestamp of the last status change */
+  updatedAt: string
+}
+
+export type ShippingField = keyof ShippingDetails
+
+export type OrderField = ShippingField | 'items'
+
+/**
+ * Customer-facing order reference, e.g. `MAM-7K2Q9X`
+ */
+export function createOrderNumber(): string {
+  return `MAM-${crypto.randomUUID().replace(/-/g, '').slice(0, 6).toUpperCase()}`
+}
+
+function readItems(value: unknown): OrderLineInput[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null
+
+  const items: OrderLineInput[] = []
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') return null
+
+    const { productId, quantity, color, size } = entry as Record<string, unknown>
+    const id = readString(productId)
+    const count = Number(quantity)
+    if (!id || !Number.isInteger(count) || count < 1 || count > MAX_LINE_QUANTITY) return null
+
+    items.push({
+      productId: id,
+      quantity: count,
+      color: readString(color) || undefined,
+      size: readString(size) || undefined,
+    })
+  }
+
+  return items
+}
+
+/**
+ * Validate untrusted checkout input
+ */
+export function validateOrderRequest(input: unknown): ValidationResult<OrderRequest, OrderField> {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const shipping = (body.shipping && typeof body.shipping === 'object' ? body.shipping : {}) as Record<string, unknown>
+  const errors: FieldErrors<OrderField> = {}
+
+  const items = readItems(body.items)
+  const details: ShippingDetails = {
+    name: readString(shipping.name),
+    email: readString(shipping.email),
+    phone: readString(shipping.phone) || undefined,
+    addressLine1: readString(shipping.addressLine1),
+    addressLine2: readString(shipping.addressLine2) || undefined,
+    city: readString(shipping.city),
+    region: readString(shipping.region) || undefined,
+    postalCode: readString(shipping.postalCode),
+    country: readString(shipping.country),
+  }
+
+  if (!items) errors.items = 'Your cart is empty or contains invalid items'
+  if (!details.name) errors.name = 'Please enter your full name'
+  if (!details.email) {
+    errors.email = 'Please enter your email address'
+  } else if (!isEmail(details.email)) {
+    errors.email = 'Please enter a valid email address'
+  }
+  if (details.phone && !isPhone(details.phone)) errors.phone = 'Please enter a valid phone number'
+  if (!details.addressLine1) errors.addressLine1 = 'Please enter your street address'
+  if (!details.city) errors.city = 'Please enter your city'
+  if (!details.postalCode) errors.postalCode = 'Please enter your postal code'
+  if (!details.country) errors.country = 'Please enter your country'
+
+  if (hasErrors(errors) || !items) {
+    return { success: false, errors }
+  }
+
+  return { success: true, data: { items, shipping: details } }
+}
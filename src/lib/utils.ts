@@ -10,6 +10,16 @@ export function cn(...inputs: ClassValue[]): string {
   return twMerge(clsx(inputs))
 }
 
+/**
+ * Formats an ISO date (YYYY-MM-DD) for display, e.g. "14 Mar 2027"
+ * @param isoDate - Calendar date, read as UTC so it never shifts a day
+ * @returns Formatted date
+ */
+export function formatDate(isoDate: string): string {
+  return new Intl.DateTimeFormat('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' })
+    .format(new Date(`${isoDate.slice(0, 10)}T00:00:00Z`))
+}
+
 /**
  * Checks if the user's operating system prefers reduced motion
  * @returns boolean indicating if reduced motion is preferred
@@ -0,0 +1,50 @@
+/**
+ * Validation
+ *
+ * Small field validators shared by forms and route handlers. Validators
+ * collect messages per field so forms can show them inline and route
+ * handlers can return them in the `errors` field of an ApiResponse.
+ */
+
+/**
+ * Field name to error message
+ */
+export type FieldErrors<K extends string = string> = Partial<Record<K, string>>
+
+/**
+ * Outcome of validating untrusted input
+ */
+export type ValidationResult<T, K extends string = string> =
+  | { success: true; data: T }
+  | { success: false; errors: FieldErrors<K> }
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,20}$/
+
+/**
+ * Read a trimmed string from untrusted input
+ */
+export function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+/**
+ * Whether a value looks like an email address
+ */
+export function isEmail(value: string): boolean {
+  return EMAIL_PATTERN.test(value)
+}
+
+/**
+ * Whether a value looks like a phone number
+ */
+export function isPhone(value: string): boolean {
+  return PHONE_PATTERN.test(value)
+}
+
+/**
+ * Whether a record of errors has any entries
+ */
+export function hasErrors(errors: FieldErrors): boolean {
+  return Object.keys(errors).length > 0
+}
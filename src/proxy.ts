@@ -0,0 +1,67 @@
+/**
+ * Proxy
+ *
+ * Turns away requests that plainly lack the right session before they reach
+ * a page or route handler: anonymous visitors to `/admin` and `/account` are
+ * sent to sign in, and API writes that need an account or a staff role are
+ * refused. It only checks the signed cookie, so role changes and sign-outs
+ * are enforced by the pages and handlers, which load the session themselves.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { STAFF_ROLES, type UserRole } from '@/lib/auth/users'
+import { SESSION_COOKIE, verifySessionClaims } from '@/lib/auth/tokens'
+import type { ApiResponse } from '@/lib/api/types'
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE']
+
+/**
+ * Pages that need a session
+ */
+const SIGNED_IN_PAGES = ['/admin', '/account']
+
+/**
+ * API routes that need a session; `roles` narrows them to staff. Anything
+ * not listed, such as inquiries, booking requests and checkout, stays open to guests.
+ */
+const API_RULES: { pattern: RegExp; writesOnly: boolean; roles?: UserRole[] }[] = [
+  { pattern: /^\/api\/admin(\/|$)/, writesOnly: false, roles: STAFF_ROLES },
+  { pattern: /^\/api\/horses\/[^/]+\/(results|health)(\/|$)/, writesOnly: true, roles: STAFF_ROLES },
+  { pattern: /^\/api\/bookings\/[^/]+$/, writesOnly: true, roles: STAFF_ROLES },
+  { pattern: /^\/api\/(favorites|auth\/password)(\/|$)/, writesOnly: true },
+]
+
+function deny(status: 401 | 403, error: string): NextResponse<ApiResponse<never>> {
+  return NextResponse.json({ data: null, error, status }, { status })
+}
+
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+  const claims = await verifySessionClaims(request.cookies.get(SESSION_COOKIE)?.value)
+
+  if (SIGNED_IN_PAGES.some((page) => pathname === page || pathname.startsWith(`${page}/`))) {
+    // Signed-in users without access get the not-found page from the page itself
+    if (!claims) {
+      const signIn = new URL('/sign-in', request.url)
+      signIn.searchParams.set('next', `${pathname}${search}`)
+      return NextResponse.redirect(signIn)
+    }
+    return NextResponse.next()
+  }
+
+  const rule = API_RULES.find(({ pattern }) => pattern.test(pathname))
+  if (!rule || (rule.writesOnly && !WRITE_METHODS.includes(request.method))) {
+    return NextResponse.next()
+  }
+
+  if (!claims) return deny(401, 'Please sign in to continue')
+  if (rule.roles && !rule.roles.includes(claims.role)) {
+    return deny(403, 'You don\'t have access to do that')
+  }
+
+  return NextResponse.next()
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/account/:path*', '/api/:path*'],
+}